@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { historyCsv } from "../../../../lib/audit";
+import {
+  exportFilename,
+  exportResponse,
+  handoffPdf,
+  loadHandoffExport,
+  parseFormat,
+  safeTz,
+} from "../../../../lib/exports";
+import { userFromRequest } from "../../../../lib/supabaseUser";
+
+export const dynamic = "force-dynamic";
+
+// One handoff with its full timeline (updates + audit). Query: format=csv|pdf, tz.
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  const caller = await userFromRequest(req);
+  if (!caller) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const search = new URL(req.url).searchParams;
+  const format = parseFormat(search.get("format"), ["csv", "pdf"]);
+  if (!format) {
+    return NextResponse.json({ error: "format=csv|pdf is required" }, { status: 400 });
+  }
+  const tz = safeTz(search.get("tz"));
+
+  try {
+    const data = await loadHandoffExport(caller.supabase, params.id);
+    if (!data) {
+      return NextResponse.json({ error: "Handoff not found" }, { status: 404 });
+    }
+    const { handoff, timeline, lines, people } = data;
+    const base = `handoff-${handoff.ref ?? handoff.id}`;
+    if (format === "csv") {
+      return exportResponse(historyCsv(handoff, timeline), "csv", exportFilename(base, "csv"));
+    }
+    return exportResponse(handoffPdf(handoff, timeline, lines, people, tz), "pdf", exportFilename(base, "pdf"));
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Export failed" }, { status: 500 });
+  }
+}
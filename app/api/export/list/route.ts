@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { filterFromQuery } from "../../../lib/filters";
+import {
+  exportFilename,
+  exportResponse,
+  listCsv,
+  listPdf,
+  loadExportList,
+  parseFormat,
+  safeTz,
+} from "../../../lib/exports";
+import { userFromRequest } from "../../../lib/supabaseUser";
+
+export const dynamic = "force-dynamic";
+
+// Filtered handoff list. Query: facility, unit?, format=csv|pdf, tz, plus the list's filter params.
+export async function GET(req: Request) {
+  const caller = await userFromRequest(req);
+  if (!caller) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const params = new URL(req.url).searchParams;
+  const facilityId = params.get("facility");
+  const format = parseFormat(params.get("format"), ["csv", "pdf"]);
+  if (!facilityId || !format) {
+    return NextResponse.json({ error: "facility and format=csv|pdf are required" }, { status: 400 });
+  }
+  const unit = params.get("unit") || null;
+  const tz = safeTz(params.get("tz"));
+
+  try {
+    const { handoffs, people } = await loadExportList(
+      caller.supabase,
+      { facilityId, unit },
+      filterFromQuery(params),
+      caller.userId
+    );
+    const base = `handoffs-${facilityId}${unit ? `-${unit}` : ""}`;
+    if (format === "csv") {
+      return exportResponse(listCsv(handoffs, people, tz), "csv", exportFilename(base, "csv"));
+    }
+    const pdf = listPdf(handoffs, people, {
+      title: `Handoffs · ${facilityId} · ${unit ?? "All units"}`,
+      subtitle: `${handoffs.length} handoff${handoffs.length === 1 ? "" : "s"} · exported ${new Date().toLocaleString("en-US", { timeZone: tz })}`,
+      tz,
+    });
+    return exportResponse(pdf, "pdf", exportFilename(base, "pdf"));
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Export failed" }, { status: 500 });
+  }
+}
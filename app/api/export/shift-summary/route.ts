@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import {
+  exportFilename,
+  exportResponse,
+  loadShiftSummary,
+  parseFormat,
+  safeTz,
+  shiftSummaryHtml,
+  shiftSummaryPdf,
+  shiftSummaryTitle,
+} from "../../../lib/exports";
+import { userFromRequest } from "../../../lib/supabaseUser";
+
+export const dynamic = "force-dynamic";
+
+// Printable summary of everything still open. Query: facility, unit?, shift?, format=html|pdf, tz.
+export async function GET(req: Request) {
+  const caller = await userFromRequest(req);
+  if (!caller) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const params = new URL(req.url).searchParams;
+  const facilityId = params.get("facility");
+  const format = parseFormat(params.get("format") ?? "html", ["html", "pdf"]);
+  if (!facilityId || !format) {
+    return NextResponse.json({ error: "facility is required; format=html|pdf" }, { status: 400 });
+  }
+  const unit = params.get("unit") || null;
+  const shift = params.get("shift") || null;
+  const tz = safeTz(params.get("tz"));
+
+  try {
+    const { data: facility } = await caller.supabase
+      .from("facilities")
+      .select("name")
+      .eq("id", facilityId)
+      .maybeSingle();
+    const { items, people } = await loadShiftSummary(caller.supabase, { facilityId, unit });
+    const opts = {
+      title: shiftSummaryTitle({ facilityName: facility?.name ?? facilityId, unit, shift }),
+      tz,
+      now: Date.now(),
+    };
+    const base = `shift-summary-${facilityId}${unit ? `-${unit}` : ""}${shift ? `-${shift}` : ""}`;
+    if (format === "pdf") {
+      return exportResponse(shiftSummaryPdf(items, people, opts), "pdf", exportFilename(base, "pdf"));
+    }
+    return exportResponse(shiftSummaryHtml(items, people, opts), "html", exportFilename(base, "html"));
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Export failed" }, { status: 500 });
+  }
+}
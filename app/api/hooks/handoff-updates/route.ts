@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { isAuthorizedWebhook } from "../../../lib/cronAuth";
+import { getHandoff, parseHandoffUpdate } from "../../../lib/handoffRepo";
+import { defaultNotifier } from "../../../lib/notify";
+import { createAdminClient } from "../../../lib/supabaseAdmin";
+
+export const dynamic = "force-dynamic";
+
+// Supabase Database Webhook for public.handoff_updates (INSERT): @mentions.
+// Mentioned users are resolved by the handoff_updates_mentions trigger.
+// Payload: { type, table, schema, record, old_record }
+export async function POST(req: Request) {
+  if (!isAuthorizedWebhook(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const payload: any = await req.json().catch(() => null);
+  if (payload?.table !== "handoff_updates" || payload?.type !== "INSERT" || !payload.record) {
+    return NextResponse.json({ ok: true, skipped: true });
+  }
+
+  try {
+    const record = parseHandoffUpdate(payload.record);
+    if (record.source === "system" || !record.message.includes("@")) {
+      return NextResponse.json({ ok: true, skipped: true });
+    }
+
+    const supabase = createAdminClient();
+    const handoff = await getHandoff(supabase, record.handoff_id);
+    if (!handoff) return NextResponse.json({ ok: true, skipped: true });
+
+    const { data: mentions, error: mErr } = await supabase
+      .from("handoff_mentions")
+      .select("user_id")
+      .eq("update_id", record.id);
+    if (mErr) throw mErr;
+    const userIds = (mentions ?? []).map((m: any) => m.user_id as string);
+    if (userIds.length > 0) {
+      await defaultNotifier(supabase)({ type: "mention", handoff, update: record, userIds });
+    }
+    return NextResponse.json({ ok: true, mentioned: userIds.length });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Hook failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../../lib/database.types";
+import { NextResponse } from "next/server";
+import { isAuthorizedWebhook } from "../../../lib/cronAuth";
+import { parseHandoff } from "../../../lib/handoffRepo";
+import { isClosed } from "../../../lib/lifecycle";
+import { defaultNotifier } from "../../../lib/notify";
+import { createAdminClient } from "../../../lib/supabaseAdmin";
+
+export const dynamic = "force-dynamic";
+
+// Who made the latest ownership change (claims don't notify the claimer)
+async function assignmentActor(supabase: SupabaseClient<Database>, handoffId: string) {
+  const { data, error } = await supabase
+    .from("handoff_audit")
+    .select("actor_user_id")
+    .eq("handoff_id", handoffId)
+    .not("changes->assignee_user_id", "is", null)
+    .order("occurred_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return (data?.actor_user_id as string | null) ?? null;
+}
+
+// Supabase Database Webhook for public.handoffs (INSERT, UPDATE).
+// Payload: { type, table, schema, record, old_record }
+export async function POST(req: Request) {
+  if (!isAuthorizedWebhook(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const payload: any = await req.json().catch(() => null);
+  if (payload?.table !== "handoffs" || !payload.record) {
+    return NextResponse.json({ ok: true, skipped: true });
+  }
+
+  try {
+    const record = parseHandoff(payload.record);
+    const old = payload.old_record ? parseHandoff(payload.old_record) : null;
+    // Inserted already closed (cancelled / duplicate) or deleted: nothing to alert about
+    if (
+      payload.type === "INSERT" &&
+      record.priority === "Critical" &&
+      !isClosed(record.status) &&
+      !record.deleted_at
+    ) {
+      const supabase = createAdminClient();
+      await defaultNotifier(supabase)({ type: "critical_created", handoff: record });
+    }
+
+    if (
+      payload.type === "UPDATE" &&
+      record.assignee_user_id &&
+      record.assignee_user_id !== old?.assignee_user_id &&
+      !record.deleted_at
+    ) {
+      const supabase = createAdminClient();
+      const actor = await assignmentActor(supabase, record.id);
+      if (actor !== record.assignee_user_id) {
+        await defaultNotifier(supabase)({ type: "assigned", handoff: record, assigneeUserId: record.assignee_user_id });
+      }
+    }
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Hook failed" }, { status: 500 });
+  }
+}
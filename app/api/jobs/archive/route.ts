@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { isAuthorizedJob } from "../../../lib/cronAuth";
+import { archiveAfterDays, runArchive } from "../../../lib/archive";
+import { createAdminClient } from "../../../lib/supabaseAdmin";
+
+export const dynamic = "force-dynamic";
+
+// Moves old closed handoffs to handoffs_archive in batches. Scheduled daily in vercel.json.
+export async function GET(req: Request) {
+  if (!isAuthorizedJob(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const days = archiveAfterDays();
+    const archived = await runArchive(supabase, { days });
+    return NextResponse.json({ ok: true, days, archived });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Archive failed" }, { status: 500 });
+  }
+}
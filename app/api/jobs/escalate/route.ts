@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { isAuthorizedJob } from "../../../lib/cronAuth";
+import { runEscalation } from "../../../lib/escalation";
+import { defaultNotifier } from "../../../lib/notify";
+import { createAdminClient } from "../../../lib/supabaseAdmin";
+
+export const dynamic = "force-dynamic";
+
+// SLA escalation sweep. Scheduled in vercel.json; safe to call more often.
+export async function GET(req: Request) {
+  if (!isAuthorizedJob(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const escalated = await runEscalation(supabase, { notify: defaultNotifier(supabase) });
+    return NextResponse.json({ ok: true, escalated });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Escalation failed" }, { status: 500 });
+  }
+}
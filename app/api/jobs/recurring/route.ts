@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { isAuthorizedJob } from "../../../lib/cronAuth";
+import { runRecurringTemplates, shiftTimeZone } from "../../../lib/recurrence";
+import { createAdminClient } from "../../../lib/supabaseAdmin";
+
+export const dynamic = "force-dynamic";
+
+// Creates this shift's handoffs from recurring templates. Scheduled in vercel.json;
+// each template/shift is claimed once, so extra calls are harmless.
+export async function GET(req: Request) {
+  if (!isAuthorizedJob(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const results = await runRecurringTemplates(supabase, { timeZone: shiftTimeZone() });
+    return NextResponse.json({
+      ok: true,
+      created: results.filter((r) => r.handoff_id),
+      failed: results.filter((r) => r.error),
+    });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Recurring templates failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+import { mkdir, readFile, unlink, writeFile } from "fs/promises";
+import path from "path";
+import { NextResponse } from "next/server";
+import { getHandoffFields } from "../../../lib/handoffRepo";
+import { userFromRequest } from "../../../lib/supabaseUser";
+
+export const dynamic = "force-dynamic";
+
+// Local-disk photo store for development (lib/photoStore "local").
+// Off unless PHOTO_STORE=local and never in production. Writes check that the
+// caller can see the handoff; reads are by unguessable id (plain <img> src).
+const UUID = "[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}";
+const NAME_RE = new RegExp(`^${UUID}(_thumb)?\\.jpg$`);
+const DIR_RE = new RegExp(`^${UUID}$`);
+const MAX_BYTES = 5 * 1024 * 1024;
+
+function enabled() {
+  return process.env.PHOTO_STORE === "local" && process.env.NODE_ENV !== "production";
+}
+
+function filePath(parts: string[]) {
+  if (parts.length !== 2 || !DIR_RE.test(parts[0]) || !NAME_RE.test(parts[1])) return null;
+  return path.join(process.env.PHOTO_DIR || path.join(process.cwd(), ".data", "photos"), parts[0], parts[1]);
+}
+
+type Ctx = { params: { path: string[] } };
+
+export async function GET(_req: Request, { params }: Ctx) {
+  const file = enabled() ? filePath(params.path) : null;
+  if (!file) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  try {
+    const body = await readFile(file);
+    return new NextResponse(body, {
+      headers: { "Content-Type": "image/jpeg", "Cache-Control": "private, max-age=3600" },
+    });
+  } catch {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+}
+
+export async function PUT(req: Request, { params }: Ctx) {
+  const file = enabled() ? filePath(params.path) : null;
+  if (!file) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const caller = await userFromRequest(req);
+  if (!caller) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  try {
+    if (!(await getHandoffFields(caller.supabase, params.path[0], []))) {
+      return NextResponse.json({ error: "Handoff not found" }, { status: 404 });
+    }
+
+    const body = Buffer.from(await req.arrayBuffer());
+    if (body.length === 0 || body.length > MAX_BYTES) {
+      return NextResponse.json({ error: "Photo must be 1 byte to 5 MB" }, { status: 413 });
+    }
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, body, { flag: "wx" }); // same as the bucket: no overwrites
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    if (e?.code === "EEXIST") return NextResponse.json({ error: "Already exists" }, { status: 409 });
+    return NextResponse.json({ error: e?.message ?? "Upload failed" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request, { params }: Ctx) {
+  const file = enabled() ? filePath(params.path) : null;
+  if (!file) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const caller = await userFromRequest(req);
+  if (!caller) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  // Row is deleted first (RLS decides who may); only orphaned files of a visible handoff go
+  const id = params.path[1].replace(/(_thumb)?\.jpg$/, "");
+  const [handoff, row] = await Promise.all([
+    getHandoffFields(caller.supabase, params.path[0], []).catch(() => null),
+    caller.supabase.from("handoff_attachments").select("id").eq("id", id).maybeSingle(),
+  ]);
+  if (!handoff) return NextResponse.json({ error: "Handoff not found" }, { status: 404 });
+  if (row.data) return NextResponse.json({ error: "Attachment still exists" }, { status: 409 });
+
+  await unlink(file).catch(() => {});
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,39 @@
+import { handleInboundSms, twiml, verifyTwilioSignature } from "../../../lib/sms";
+import { createAdminClient } from "../../../lib/supabaseAdmin";
+
+export const dynamic = "force-dynamic";
+
+function xml(body: string, status = 200) {
+  return new Response(body, { status, headers: { "Content-Type": "text/xml" } });
+}
+
+// Twilio-style inbound webhook (application/x-www-form-urlencoded: From, Body, ...)
+export async function POST(req: Request) {
+  const form = await req.formData();
+  const params: Record<string, string> = {};
+  form.forEach((value, key) => {
+    if (typeof value === "string") params[key] = value;
+  });
+
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  if (authToken) {
+    // Behind a proxy the public URL can differ from req.url; SMS_WEBHOOK_URL pins it
+    const url = process.env.SMS_WEBHOOK_URL ?? req.url;
+    if (!verifyTwilioSignature(authToken, url, params, req.headers.get("x-twilio-signature"))) {
+      return xml(twiml(), 403);
+    }
+  } else if (process.env.NODE_ENV === "production") {
+    // Unsigned inbound is only accepted in dev (fake provider)
+    return xml(twiml(), 403);
+  }
+
+  if (!params.From || !params.Body) return xml(twiml(), 400);
+
+  try {
+    const result = await handleInboundSms(createAdminClient(), params.From, params.Body);
+    return xml(twiml(result.reply));
+  } catch (e: any) {
+    console.error("[sms:inbound]", e?.message ?? e);
+    return xml(twiml("Sorry, the update could not be saved. Try again."), 500);
+  }
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import React, { useState } from "react";
+import { fmtTime } from "../lib/format";
+import { STATUS_LABEL } from "../lib/lifecycle";
+import type { ArchivedHandoff } from "../lib/types";
+
+/* =========================================================
+   ARCHIVED SEARCH HITS (below the live list while searching)
+   Read-only: title, dates and the update history at archive time.
+========================================================= */
+
+export default function ArchivedResults({ results }: { results: ArchivedHandoff[] }) {
+  const [openId, setOpenId] = useState<string | null>(null);
+  if (results.length === 0) return null;
+
+  return (
+    <div className="mt-5">
+      <div className="text-sm opacity-70">
+        Archived matches <span className="opacity-60">({results.length})</span>
+      </div>
+      <div className="mt-2 space-y-2">
+        {results.map((a) => {
+          const open = openId === a.id;
+          return (
+            <div key={a.id} className="rounded-2xl border border-white/10 bg-black/15 p-3">
+              <button onClick={() => setOpenId(open ? null : a.id)} className="w-full text-left">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0 text-sm font-medium break-words opacity-90">
+                    {a.ref ? <span className="opacity-60">#{a.ref} </span> : null}
+                    {a.title}
+                  </div>
+                  <span className="shrink-0 text-xs rounded-full px-2 py-0.5 border border-white/10 bg-white/5 opacity-70">
+                    {STATUS_LABEL[a.status] ?? a.status}
+                  </span>
+                </div>
+                <div className="mt-1 text-xs opacity-60">
+                  {a.priority} · {a.unit ?? "—"}
+                  {a.shift ? ` · ${a.shift}` : ""} · created {fmtTime(a.created_at)} · closed {fmtTime(a.closed_at)}
+                </div>
+              </button>
+
+              {open && (
+                <div className="mt-2 space-y-2">
+                  {a.updates.length === 0 && <div className="text-xs opacity-60">No updates.</div>}
+                  {a.updates.map((u, i) => (
+                    <div key={i} className="rounded-xl border border-white/10 bg-black/25 p-3">
+                      <div className="text-xs opacity-60">
+                        {u.author_display_name_snapshot ?? "—"} · {fmtTime(u.created_at)} · {u.source}
+                      </div>
+                      <div className="mt-1 text-sm whitespace-pre-wrap">{u.message}</div>
+                    </div>
+                  ))}
+                  <div className="text-xs opacity-50">Archived {fmtTime(a.archived_at)}</div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
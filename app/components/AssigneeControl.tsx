@@ -0,0 +1,115 @@
+"use client";
+
+import React, { useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../lib/database.types";
+import { Assignable, assigneeLabel, listAssignable, PeopleIndex } from "../lib/assignment";
+import { isClosed, isDeleted } from "../lib/lifecycle";
+import type { Handoff } from "../lib/types";
+
+/* =========================================================
+   OWNER ROW (details panel + mobile drawer)
+   - Claim: assign to yourself
+   - Assign to…: members of the handoff's unit (loaded on demand)
+========================================================= */
+
+const linkCls = "text-xs opacity-70 hover:opacity-100 underline underline-offset-2";
+
+export default function AssigneeControl({
+  supabase,
+  handoff,
+  people,
+  sessionUserId,
+  onAssign,
+}: {
+  supabase: SupabaseClient<Database>;
+  handoff: Handoff;
+  people: PeopleIndex;
+  sessionUserId: string | null;
+  onAssign: (userId: string | null, name?: string) => void;
+}) {
+  const [picking, setPicking] = useState<boolean>(false);
+  const [options, setOptions] = useState<Assignable[]>([]);
+  const [err, setErr] = useState<string>("");
+
+  const owner = assigneeLabel(handoff, people, sessionUserId);
+  const mine = !!sessionUserId && handoff.assignee_user_id === sessionUserId;
+  const locked = isDeleted(handoff) || isClosed(handoff.status);
+
+  async function openPicker() {
+    if (!handoff.facility_id || !handoff.unit) return;
+    setErr("");
+    setPicking(true);
+    try {
+      setOptions(await listAssignable(supabase, handoff.facility_id, handoff.unit));
+    } catch (e: any) {
+      setErr(e?.message ?? "Failed to load staff");
+    }
+  }
+
+  return (
+    <div className="mt-3">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div className="text-sm">
+          <span className="text-xs opacity-70">Owner </span>
+          {owner ? (
+            <b>{owner}</b>
+          ) : (
+            <span className={handoff.priority === "Critical" && !locked ? "text-red-300" : "opacity-70"}>
+              Unassigned
+            </span>
+          )}
+        </div>
+
+        {!locked && (
+          <div className="flex items-center gap-3">
+            {!mine && sessionUserId && (
+              <button onClick={() => onAssign(sessionUserId, people[sessionUserId])} className={linkCls}>
+                Claim
+              </button>
+            )}
+            {!picking && (
+              <button onClick={openPicker} className={linkCls}>
+                Assign to…
+              </button>
+            )}
+            {handoff.assignee_user_id && (
+              <button onClick={() => onAssign(null)} className={linkCls}>
+                Unassign
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {picking && !locked && (
+        <div className="mt-2 flex items-center gap-2">
+          <select
+            defaultValue=""
+            onChange={(e) => {
+              const pick = options.find((o) => o.user_id === e.target.value);
+              if (!pick) return;
+              onAssign(pick.user_id, pick.display_name);
+              setPicking(false);
+            }}
+            className="flex-1 rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm outline-none"
+          >
+            <option value="" disabled>
+              {options.length ? "Choose staff…" : "Loading…"}
+            </option>
+            {options.map((o) => (
+              <option key={o.user_id} value={o.user_id}>
+                {o.display_name}
+                {o.role_title ? ` · ${o.role_title}` : ""}
+              </option>
+            ))}
+          </select>
+          <button onClick={() => setPicking(false)} className={linkCls}>
+            Cancel
+          </button>
+        </div>
+      )}
+      {err && <div className="mt-1 text-xs text-red-300">{err}</div>}
+    </div>
+  );
+}
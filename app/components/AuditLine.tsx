@@ -0,0 +1,27 @@
+"use client";
+
+import React from "react";
+import { auditActor, describeAudit } from "../lib/audit";
+import { fmtTime } from "../lib/format";
+import type { HandoffAuditEntry } from "../lib/types";
+
+// One audit entry, rendered between updates in the timeline (quieter than an update card)
+export default function AuditLine({ entry }: { entry: HandoffAuditEntry }) {
+  const lines = describeAudit(entry);
+  if (lines.length === 0) return null;
+
+  return (
+    <div className="rounded-xl border border-dashed border-white/10 px-3 py-2">
+      <div className="text-[11px] opacity-50">
+        {auditActor(entry)} · {fmtTime(entry.occurred_at)} · audit
+      </div>
+      <div className="mt-0.5 text-xs opacity-75 space-y-0.5">
+        {lines.map((l, i) => (
+          <div key={i} className="break-words">
+            {l}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
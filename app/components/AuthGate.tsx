@@ -0,0 +1,98 @@
+"use client";
+
+import React, { useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../lib/database.types";
+import { authRedirectUrl } from "../lib/routes";
+
+// Shown instead of the app: setup hint when the env vars are missing,
+// otherwise the magic-link sign-in.
+export default function AuthGate({
+  supabase,
+  error,
+  build,
+}: {
+  supabase: SupabaseClient<Database> | null;
+  error?: string; // session read failure from useSession
+  build: string;
+}) {
+  const [email, setEmail] = useState("");
+  const [status, setStatus] = useState<string>("");
+  const [sending, setSending] = useState<boolean>(false);
+
+  if (!supabase) {
+    return (
+      <main className="p-6">
+        <h1 className="text-xl font-semibold">Central Supply Handoff</h1>
+        <p className="mt-2 opacity-80">
+          Missing Supabase env vars. Set <code>NEXT_PUBLIC_SUPABASE_URL</code> and{" "}
+          <code>NEXT_PUBLIC_SUPABASE_ANON_KEY</code>.
+        </p>
+        <p className="mt-4 text-sm opacity-70">Build: {build}</p>
+      </main>
+    );
+  }
+
+  async function sendMagicLink() {
+    setStatus("");
+    if (!email.trim()) {
+      setStatus("Enter your email.");
+      return;
+    }
+    setSending(true);
+    try {
+      const { error } = await supabase!.auth.signInWithOtp({
+        email: email.trim(),
+        options: {
+          // Back to the link that was opened (/h/<id>, /f/...); it must match an
+          // allowed redirect URL in Supabase Auth (e.g. https://<host>/**)
+          emailRedirectTo: typeof window !== "undefined" ? authRedirectUrl(window.location) : undefined,
+        },
+      });
+      if (error) throw error;
+      setStatus("Magic link sent. Check your email.");
+    } catch (e: any) {
+      setStatus(e?.message ?? "Failed to send magic link");
+    } finally {
+      setSending(false);
+    }
+  }
+
+  const message = status || error;
+
+  return (
+    <main className="min-h-screen flex items-center justify-center p-6">
+      <div className="w-full max-w-md rounded-2xl border border-white/10 bg-black/30 p-5 backdrop-blur">
+        <div className="text-xs opacity-70">Build: {build}</div>
+        <h1 className="mt-2 text-2xl font-semibold">Central Supply Handoff</h1>
+        <p className="mt-2 opacity-80">Sign in with a magic link. (No PHI. Keep it enterprise-safe.)</p>
+
+        <label htmlFor="auth-email" className="block mt-4 text-sm opacity-80">
+          Email
+        </label>
+        <input
+          id="auth-email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && sendMagicLink()}
+          placeholder="you@hospital.org"
+          className="mt-2 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-2 outline-none"
+        />
+
+        <button
+          onClick={sendMagicLink}
+          disabled={sending}
+          className="mt-4 w-full rounded-xl bg-white/10 hover:bg-white/15 border border-white/10 px-4 py-2"
+        >
+          {sending ? "Sending…" : "Send magic link"}
+        </button>
+
+        {message && <div className="mt-3 text-sm opacity-80">{message}</div>}
+
+        <div className="mt-4 text-xs opacity-60">
+          Tip: If links open in a different browser, copy the URL into the same browser session.
+        </div>
+      </div>
+    </main>
+  );
+}
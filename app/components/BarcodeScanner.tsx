@@ -0,0 +1,193 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+
+/* =========================================================
+   CAMERA SCANNER
+   - Native BarcodeDetector where available (Chrome/Android)
+   - @zxing/library fallback on canvas frames (iOS Safari, Firefox)
+   - Manual entry when the camera is unavailable or denied
+========================================================= */
+
+// Not in TS's DOM lib yet
+type DetectedBarcode = { rawValue: string; format: string };
+type BarcodeDetectorLike = { detect(source: CanvasImageSource): Promise<DetectedBarcode[]> };
+
+const NATIVE_FORMATS = ["code_128", "upc_a", "upc_e", "ean_13", "ean_8", "qr_code", "data_matrix"];
+const SCAN_INTERVAL_MS = 250;
+
+async function createNativeDetector(): Promise<BarcodeDetectorLike | null> {
+  const Ctor = (globalThis as any).BarcodeDetector;
+  if (!Ctor) return null;
+  try {
+    const supported: string[] = (await Ctor.getSupportedFormats?.()) ?? NATIVE_FORMATS;
+    const formats = NATIVE_FORMATS.filter((f) => supported.includes(f));
+    return formats.length ? (new Ctor({ formats }) as BarcodeDetectorLike) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Returns a frame decoder backed by zxing (loaded only when needed)
+async function createFallbackDecoder() {
+  const zx = await import("@zxing/library");
+  const hints = new Map();
+  hints.set(zx.DecodeHintType.POSSIBLE_FORMATS, [
+    zx.BarcodeFormat.CODE_128,
+    zx.BarcodeFormat.UPC_A,
+    zx.BarcodeFormat.UPC_E,
+    zx.BarcodeFormat.EAN_13,
+    zx.BarcodeFormat.EAN_8,
+    zx.BarcodeFormat.QR_CODE,
+    zx.BarcodeFormat.DATA_MATRIX,
+  ]);
+  hints.set(zx.DecodeHintType.TRY_HARDER, true);
+  const reader = new zx.MultiFormatReader();
+  reader.setHints(hints);
+
+  return (canvas: HTMLCanvasElement): string | null => {
+    try {
+      const bitmap = new zx.BinaryBitmap(
+        new zx.HybridBinarizer(new zx.HTMLCanvasElementLuminanceSource(canvas))
+      );
+      return reader.decodeWithState(bitmap).getText();
+    } catch {
+      return null; // NotFoundException on frames without a code
+    }
+  };
+}
+
+export default function BarcodeScanner({
+  onResult,
+  onClose,
+  hint = "Point at a bin label, item barcode or handoff QR",
+}: {
+  onResult: (text: string) => void;
+  onClose: () => void;
+  hint?: string;
+}) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [camErr, setCamErr] = useState<string>("");
+  const [engine, setEngine] = useState<string>("");
+  const [manual, setManual] = useState<string>("");
+
+  // Parent may re-render with a new callback; the scan loop reads the latest one
+  const onResultRef = useRef(onResult);
+  onResultRef.current = onResult;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let alive = true;
+
+    (async () => {
+      try {
+        if (!navigator.mediaDevices?.getUserMedia) throw new Error("Camera not available in this browser.");
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: { ideal: "environment" } },
+          audio: false,
+        });
+        if (!alive) return;
+
+        const video = videoRef.current!;
+        video.srcObject = stream;
+        await video.play();
+
+        const native = await createNativeDetector();
+        const fallback = native ? null : await createFallbackDecoder();
+        if (!alive) return;
+        setEngine(native ? "native" : "zxing");
+
+        const canvas = document.createElement("canvas");
+        const ctx = canvas.getContext("2d", { willReadFrequently: true });
+
+        const tick = async () => {
+          if (!alive) return;
+          let text: string | null = null;
+          try {
+            if (video.readyState >= 2) {
+              if (native) {
+                const found = await native.detect(video);
+                text = found[0]?.rawValue ?? null;
+              } else if (fallback && ctx) {
+                canvas.width = video.videoWidth;
+                canvas.height = video.videoHeight;
+                ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+                text = fallback(canvas);
+              }
+            }
+          } catch {
+            // transient decode errors: keep scanning
+          }
+          if (!alive) return;
+          if (text) {
+            navigator.vibrate?.(60);
+            onResultRef.current(text);
+            return;
+          }
+          timer = setTimeout(tick, SCAN_INTERVAL_MS);
+        };
+        tick();
+      } catch (e: any) {
+        if (!alive) return;
+        setCamErr(
+          e?.name === "NotAllowedError"
+            ? "Camera permission denied. Enter the code manually."
+            : e?.message ?? "Camera unavailable."
+        );
+      }
+    })();
+
+    return () => {
+      alive = false;
+      if (timer) clearTimeout(timer);
+      stream?.getTracks().forEach((t) => t.stop());
+    };
+  }, []);
+
+  return (
+    <div className="fixed inset-0 z-[80] bg-black">
+      <video ref={videoRef} playsInline muted className="absolute inset-0 h-full w-full object-cover" />
+
+      {/* aim box */}
+      <div className="pointer-events-none absolute inset-0 flex items-center justify-center">
+        <div className="h-48 w-72 rounded-2xl border-2 border-white/70 shadow-[0_0_0_9999px_rgba(0,0,0,.45)]" />
+      </div>
+
+      <div className="absolute left-0 right-0 top-0 p-4 flex items-start justify-between gap-3">
+        <div className="text-sm">
+          <div className="font-medium">Scan</div>
+          <div className="text-xs opacity-75">{hint}</div>
+          {engine && <div className="text-[10px] opacity-50">Decoder: {engine}</div>}
+        </div>
+        <button
+          onClick={onClose}
+          className="rounded-xl border border-white/10 bg-black/60 hover:bg-black/70 px-3 py-2 text-sm"
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="absolute left-0 right-0 bottom-0 p-4 bg-black/70 backdrop-blur">
+        {camErr && <div className="mb-2 text-sm text-red-300">{camErr}</div>}
+        <div className="flex items-center gap-2">
+          <input
+            value={manual}
+            onChange={(e) => setManual(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && manual.trim()) onResult(manual.trim());
+            }}
+            placeholder="Or type the code (BIN:…, item #, UPC)"
+            className="flex-1 rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm outline-none"
+          />
+          <button
+            onClick={() => manual.trim() && onResult(manual.trim())}
+            className="rounded-xl border border-white/10 bg-white/10 hover:bg-white/15 px-4 py-2 text-sm"
+          >
+            Use
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import React from "react";
+import { cx } from "../lib/format";
+import type { RealtimeStatus } from "../lib/realtime";
+
+const LIVE_LABEL: Record<RealtimeStatus, string> = {
+  live: "Live",
+  connecting: "Connecting…",
+  reconnecting: "Reconnecting…",
+  offline: "Offline",
+};
+
+const btnCls = "rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 px-3 py-2 text-sm";
+
+// Sticky top bar: where you are, realtime + outbox state, and the page-level actions.
+export default function BoardHeader({
+  build,
+  facilityId,
+  unitLabel,
+  role,
+  liveStatus,
+  pendingCount,
+  displayName,
+  canEditProfile,
+  shiftChangeDisabled,
+  unreadMentions,
+  onProfile,
+  onRefresh,
+  onShiftChange,
+  onMentions,
+  onSignOut,
+}: {
+  build: string;
+  facilityId: string;
+  unitLabel: string;
+  role: string | null; // label of the caller's role here
+  liveStatus: RealtimeStatus;
+  pendingCount: number; // outbox ops waiting to sync
+  displayName: string;
+  canEditProfile: boolean;
+  shiftChangeDisabled: boolean; // overview: pick a unit first
+  unreadMentions: number;
+  onProfile: () => void;
+  onRefresh: () => void;
+  onShiftChange: () => void;
+  onMentions: () => void;
+  onSignOut: () => void;
+}) {
+  return (
+    <header className="sticky top-0 z-50 border-b border-white/10 bg-black/50 backdrop-blur">
+      <div className="mx-auto max-w-6xl px-4 py-3 flex items-center justify-between gap-3">
+        <div>
+          <div className="text-sm opacity-70">Central Supply Handoff</div>
+          <div className="text-xs opacity-60">
+            Build: {build} · Facility: <b>{facilityId}</b> · Unit: <b>{unitLabel}</b>
+            {role && <> · {role}</>}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <span
+            className={cx(
+              "flex items-center gap-1.5 rounded-full border px-2 py-1 text-xs",
+              liveStatus === "live"
+                ? "border-emerald-300/30 bg-emerald-500/10"
+                : liveStatus === "offline"
+                ? "border-red-300/30 bg-red-500/10"
+                : "border-yellow-300/30 bg-yellow-500/10"
+            )}
+            title="Realtime connection"
+          >
+            <span
+              className={cx(
+                "inline-block h-2 w-2 rounded-full",
+                liveStatus === "live" ? "bg-emerald-400" : liveStatus === "offline" ? "bg-red-400" : "bg-yellow-400"
+              )}
+            />
+            {LIVE_LABEL[liveStatus]}
+          </span>
+          {pendingCount > 0 && (
+            <span
+              className="rounded-full border border-sky-300/30 bg-sky-500/10 px-2 py-1 text-xs"
+              title="Changes saved on this device, waiting to sync"
+            >
+              {pendingCount} pending
+            </span>
+          )}
+          <button
+            onClick={onProfile}
+            disabled={!canEditProfile}
+            className="hidden md:block max-w-[180px] truncate rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 px-3 py-2 text-sm"
+            title="Edit profile"
+          >
+            {displayName}
+          </button>
+          <button onClick={onRefresh} className={btnCls} title="Refresh (refetch from server)">
+            Refresh
+          </button>
+          <button
+            onClick={onShiftChange}
+            disabled={shiftChangeDisabled}
+            title={shiftChangeDisabled ? "Pick a unit first" : undefined}
+            className={cx(
+              "rounded-xl border border-white/10 px-3 py-2 text-sm",
+              shiftChangeDisabled ? "bg-white/5 opacity-60" : "bg-white/5 hover:bg-white/10"
+            )}
+          >
+            Shift change
+          </button>
+          <button
+            onClick={onMentions}
+            className={cx(
+              "rounded-xl border px-3 py-2 text-sm",
+              unreadMentions > 0
+                ? "border-sky-300/30 bg-sky-500/10 hover:bg-sky-500/20"
+                : "border-white/10 bg-white/5 hover:bg-white/10"
+            )}
+            title="Mentions"
+          >
+            @{unreadMentions > 0 ? ` ${unreadMentions}` : ""}
+          </button>
+          <a href="/dashboard" className={cx("hidden md:block", btnCls)}>
+            Dashboard
+          </a>
+          <button onClick={onSignOut} className={btnCls}>
+            Sign out
+          </button>
+        </div>
+      </div>
+    </header>
+  );
+}
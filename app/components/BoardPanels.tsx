@@ -0,0 +1,174 @@
+"use client";
+
+import React from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../lib/database.types";
+import BarcodeScanner from "./BarcodeScanner";
+import DirectoryPanel from "./DirectoryPanel";
+import TemplatesPanel from "./TemplatesPanel";
+import PhiAdminPanel from "./PhiAdminPanel";
+import ProfilePanel from "./ProfilePanel";
+import MentionsInbox from "./MentionsInbox";
+import NotificationsPanel from "./NotificationsPanel";
+import ShiftReportPanel from "./ShiftReportPanel";
+import { ALL_UNITS, Directory, unitsFor } from "../lib/directory";
+import type { Membership } from "../lib/roles";
+import type { PhiPattern } from "../lib/phi";
+import type { HandoffTemplate, Profile, Shift } from "../lib/types";
+
+export type BoardPanel =
+  | "scanner"
+  | "directory"
+  | "templates"
+  | "phiAdmin"
+  | "profile"
+  | "notifications"
+  | "mentions"
+  | "shiftReport";
+
+/* =========================================================
+   BOARD PANELS (overlays over the board; one at a time)
+   - Admin: directory (Manage), PHI screening log, unit templates
+   - Inbox: mentions, shift change report
+   - You: profile -> notification settings
+   - Scanner (the create form's Scan button)
+========================================================= */
+export default function BoardPanels({
+  panel,
+  onPanel,
+  supabase,
+  sessionUserId,
+  sessionEmail,
+  directory,
+  memberships,
+  facilityId,
+  unit,
+  profile,
+  displayName,
+  myHandle,
+  templates,
+  phiPatterns,
+  mentionsTick,
+  defaultShift,
+  canLead,
+  onScan,
+  onOpenHandoff,
+  onDirectoryChanged,
+  onTemplatesChanged,
+  onPhiChanged,
+  onProfileSaved,
+  onMentionsChanged,
+}: {
+  panel: BoardPanel | null;
+  onPanel: (panel: BoardPanel | null) => void;
+  supabase: SupabaseClient<Database>;
+  sessionUserId: string;
+  sessionEmail: string | null;
+  directory: Directory;
+  memberships: Membership[];
+  facilityId: string;
+  unit: string; // ALL_UNITS = overview (no templates)
+  profile: Profile | null;
+  displayName: string;
+  myHandle: string | null;
+  templates: HandoffTemplate[];
+  phiPatterns: PhiPattern[];
+  mentionsTick: number;
+  defaultShift: Shift;
+  canLead: boolean;
+  onScan: (text: string) => void;
+  onOpenHandoff: (id: string) => void;
+  onDirectoryChanged: () => Promise<void> | void;
+  onTemplatesChanged: () => void;
+  onPhiChanged: () => void;
+  onProfileSaved: (p: Profile) => void;
+  onMentionsChanged: () => void;
+}) {
+  const close = () => onPanel(null);
+
+  switch (panel) {
+    case "scanner":
+      return <BarcodeScanner onResult={onScan} onClose={close} />;
+
+    case "directory":
+      return (
+        <DirectoryPanel
+          supabase={supabase}
+          directory={directory}
+          memberships={memberships}
+          initialFacilityId={facilityId}
+          onChanged={onDirectoryChanged}
+          onClose={close}
+        />
+      );
+
+    case "templates":
+      if (unit === ALL_UNITS) return null;
+      return (
+        <TemplatesPanel
+          supabase={supabase}
+          facilityId={facilityId}
+          unit={unit}
+          unitName={unitsFor(directory, facilityId).find((u) => u.code === unit)?.name ?? unit}
+          templates={templates}
+          phiPatterns={phiPatterns}
+          onChanged={onTemplatesChanged}
+          onClose={close}
+        />
+      );
+
+    case "phiAdmin":
+      return <PhiAdminPanel supabase={supabase} facilityId={facilityId} onChanged={onPhiChanged} onClose={close} />;
+
+    case "profile":
+      if (!profile) return null;
+      return (
+        <ProfilePanel
+          supabase={supabase}
+          profile={profile}
+          email={sessionEmail}
+          directory={directory}
+          onSaved={onProfileSaved}
+          onOpenNotifications={() => onPanel("notifications")}
+          onClose={close}
+        />
+      );
+
+    case "notifications":
+      return <NotificationsPanel supabase={supabase} userId={sessionUserId} onClose={close} />;
+
+    case "mentions":
+      return (
+        <MentionsInbox
+          supabase={supabase}
+          userId={sessionUserId}
+          myHandle={myHandle}
+          reloadTick={mentionsTick}
+          onOpenHandoff={onOpenHandoff}
+          onChanged={onMentionsChanged}
+          onClose={close}
+        />
+      );
+
+    case "shiftReport":
+      return (
+        <ShiftReportPanel
+          supabase={supabase}
+          sessionUserId={sessionUserId}
+          displayName={displayName}
+          facilityId={facilityId}
+          unit={unit}
+          defaultShift={defaultShift}
+          canLead={canLead}
+          onOpenHandoff={(id) => {
+            close();
+            onOpenHandoff(id);
+          }}
+          onClose={close}
+        />
+      );
+
+    default:
+      return null;
+  }
+}
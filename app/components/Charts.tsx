@@ -0,0 +1,159 @@
+"use client";
+
+import React from "react";
+import type { Series } from "../lib/analytics";
+
+/* =========================================================
+   TINY SVG CHARTS (dashboard)
+   No chart dependency: stacked bars for volume, lines for backlog.
+   Both scale to the container width via viewBox.
+========================================================= */
+
+const W = 640;
+const H = 200;
+const PAD = { top: 10, right: 8, bottom: 24, left: 32 };
+
+// Fixed colors for known keys; everything else cycles the palette
+const KEY_COLORS: Record<string, string> = {
+  Critical: "#f87171",
+  High: "#fbbf24",
+  Normal: "#38bdf8",
+  Low: "#a3a3a3",
+};
+const PALETTE = ["#38bdf8", "#a78bfa", "#34d399", "#fbbf24", "#f472b6", "#f87171", "#a3e635", "#94a3b8"];
+
+export function seriesColor(key: string, i: number) {
+  return KEY_COLORS[key] ?? PALETTE[i % PALETTE.length];
+}
+
+function niceMax(n: number) {
+  if (n <= 5) return 5;
+  const mag = Math.pow(10, Math.floor(Math.log10(n)));
+  return Math.ceil(n / mag) * mag;
+}
+
+function shortLabel(day: string) {
+  // yyyy-mm-dd -> m/d
+  const [, m, d] = day.split("-");
+  return m && d ? `${Number(m)}/${Number(d)}` : day;
+}
+
+function Axis({ max, labels }: { max: number; labels: string[] }) {
+  const innerH = H - PAD.top - PAD.bottom;
+  const innerW = W - PAD.left - PAD.right;
+  const step = Math.max(1, Math.ceil(labels.length / 8));
+  return (
+    <g fontSize="10" fill="currentColor" opacity={0.6}>
+      {[0, 0.5, 1].map((f) => (
+        <g key={f}>
+          <line
+            x1={PAD.left}
+            x2={W - PAD.right}
+            y1={PAD.top + innerH * (1 - f)}
+            y2={PAD.top + innerH * (1 - f)}
+            stroke="currentColor"
+            strokeOpacity={0.15}
+          />
+          <text x={PAD.left - 4} y={PAD.top + innerH * (1 - f) + 3} textAnchor="end">
+            {Math.round(max * f)}
+          </text>
+        </g>
+      ))}
+      {labels.map((l, i) =>
+        i % step === 0 ? (
+          <text
+            key={l}
+            x={PAD.left + (innerW * (i + 0.5)) / labels.length}
+            y={H - 8}
+            textAnchor="middle"
+          >
+            {shortLabel(l)}
+          </text>
+        ) : null
+      )}
+    </g>
+  );
+}
+
+export function Legend({ series }: { series: Series[] }) {
+  return (
+    <div className="mt-2 flex flex-wrap gap-3 text-xs opacity-80">
+      {series.map((s, i) => (
+        <span key={s.key} className="inline-flex items-center gap-1">
+          <span className="inline-block h-2 w-2 rounded-full" style={{ background: seriesColor(s.key, i) }} />
+          {s.key}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export function StackedBars({ labels, series }: { labels: string[]; series: Series[] }) {
+  if (labels.length === 0) return <div className="text-sm opacity-60">No data for this range.</div>;
+
+  const totals = labels.map((_, i) => series.reduce((sum, s) => sum + s.values[i], 0));
+  const max = niceMax(Math.max(...totals));
+  const innerH = H - PAD.top - PAD.bottom;
+  const slot = (W - PAD.left - PAD.right) / labels.length;
+  const barW = Math.max(2, slot * 0.7);
+
+  return (
+    <>
+      <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-auto" role="img">
+        <Axis max={max} labels={labels} />
+        {labels.map((l, i) => {
+          let y = PAD.top + innerH;
+          return (
+            <g key={l}>
+              {series.map((s, si) => {
+                const h = (s.values[i] / max) * innerH;
+                y -= h;
+                return h > 0 ? (
+                  <rect
+                    key={s.key}
+                    x={PAD.left + slot * i + (slot - barW) / 2}
+                    y={y}
+                    width={barW}
+                    height={h}
+                    fill={seriesColor(s.key, si)}
+                  >
+                    <title>{`${l} · ${s.key}: ${s.values[i]}`}</title>
+                  </rect>
+                ) : null;
+              })}
+            </g>
+          );
+        })}
+      </svg>
+      <Legend series={series} />
+    </>
+  );
+}
+
+export function Lines({ labels, series }: { labels: string[]; series: Series[] }) {
+  if (labels.length === 0) return <div className="text-sm opacity-60">No data for this range.</div>;
+
+  const max = niceMax(Math.max(0, ...series.flatMap((s) => s.values)));
+  const innerH = H - PAD.top - PAD.bottom;
+  const slot = (W - PAD.left - PAD.right) / labels.length;
+  const x = (i: number) => PAD.left + slot * (i + 0.5);
+  const y = (v: number) => PAD.top + innerH * (1 - v / max);
+
+  return (
+    <>
+      <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-auto" role="img">
+        <Axis max={max} labels={labels} />
+        {series.map((s, si) => (
+          <polyline
+            key={s.key}
+            points={s.values.map((v, i) => `${x(i)},${y(v)}`).join(" ")}
+            fill="none"
+            stroke={seriesColor(s.key, si)}
+            strokeWidth={2}
+          />
+        ))}
+      </svg>
+      <Legend series={series} />
+    </>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import React from "react";
+import { cx } from "../lib/format";
+import { ALL_UNITS, Directory, unitsFor } from "../lib/directory";
+
+const selectCls = "mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm outline-none";
+const linkCls = "text-xs opacity-70 hover:opacity-100 underline underline-offset-2";
+
+/* =========================================================
+   CONTEXT BAR (below the top bar; sticky on mobile)
+   - Facility / unit pickers (a value the directory doesn't list yet
+     still shows), who you're posting as, admin links
+   - The create form goes in as `create`; board-level errors and notices
+     below it, then children (sync conflicts)
+========================================================= */
+export default function ContextBar({
+  sectionRef,
+  directory,
+  facilityId,
+  unit,
+  onFacility,
+  onUnit,
+  displayName,
+  roleTitle,
+  onProfile,
+  onPhiLog,
+  onManage,
+  create,
+  errors,
+  notice,
+  children,
+}: {
+  sectionRef?: React.Ref<HTMLElement>;
+  directory: Directory;
+  facilityId: string;
+  unit: string; // ALL_UNITS = overview
+  onFacility: (id: string) => void;
+  onUnit: (code: string) => void;
+  displayName: string;
+  roleTitle: string | null;
+  onProfile?: () => void; // absent until the profile loads
+  onPhiLog?: () => void; // admin links; absent for non-managers
+  onManage?: () => void;
+  create: React.ReactNode;
+  errors: string[]; // empty ones are skipped
+  notice: string | null;
+  children?: React.ReactNode;
+}) {
+  const allUnits = unit === ALL_UNITS;
+  const facilityUnits = unitsFor(directory, facilityId);
+
+  return (
+    <section ref={sectionRef} className="mx-auto max-w-6xl px-4 pt-4 md:pt-6">
+      <div
+        className={cx(
+          "rounded-2xl border border-white/10 bg-black/30 backdrop-blur p-4",
+          "md:p-5",
+          // sticky create on mobile (ALWAYS visible)
+          "sticky top-[56px] z-40",
+          "md:static md:top-auto"
+        )}
+        style={{
+          boxShadow: "0 0 0 1px rgba(255,255,255,.06), 0 16px 40px rgba(0,0,0,.35)",
+        }}
+      >
+        <div className="flex flex-col md:flex-row md:items-end gap-3 md:gap-4">
+          <div className="flex-1">
+            <div className="flex items-center justify-between gap-2">
+              <div className="text-xs opacity-70">Context</div>
+              {(onPhiLog || onManage) && (
+                <div className="flex items-center gap-3">
+                  {onPhiLog && (
+                    <button onClick={onPhiLog} className={linkCls}>
+                      PHI log
+                    </button>
+                  )}
+                  {onManage && (
+                    <button onClick={onManage} className={linkCls}>
+                      Manage
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+            <div className="mt-2 grid grid-cols-2 md:grid-cols-3 gap-2">
+              <div>
+                <label className="text-xs opacity-70">Facility</label>
+                <select value={facilityId} onChange={(e) => onFacility(e.target.value)} className={selectCls}>
+                  {!directory.facilities.some((f) => f.id === facilityId) && (
+                    <option value={facilityId}>{facilityId}</option>
+                  )}
+                  {directory.facilities
+                    .filter((f) => f.active)
+                    .map((f) => (
+                      <option key={f.id} value={f.id}>
+                        {f.name}
+                      </option>
+                    ))}
+                </select>
+              </div>
+              <div>
+                <label className="text-xs opacity-70">Unit</label>
+                <select value={unit} onChange={(e) => onUnit(e.target.value)} className={selectCls}>
+                  <option value={ALL_UNITS}>All units (overview)</option>
+                  {!allUnits && !facilityUnits.some((u) => u.code === unit) && <option value={unit}>{unit}</option>}
+                  {facilityUnits.map((u) => (
+                    <option key={u.code} value={u.code}>
+                      {u.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="col-span-2 md:col-span-1">
+                <label className="text-xs opacity-70">Posting as</label>
+                <button
+                  onClick={onProfile}
+                  disabled={!onProfile}
+                  className="mt-1 w-full truncate text-left rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm"
+                >
+                  {displayName}
+                  {roleTitle && <span className="opacity-60"> · {roleTitle}</span>}
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {create}
+        </div>
+
+        {errors.filter(Boolean).map((msg, i) => (
+          <div key={i} className="mt-3 text-sm text-red-300">
+            {msg}
+          </div>
+        ))}
+        {notice && <div className="mt-3 text-sm opacity-80">{notice}</div>}
+
+        {children}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,240 @@
+"use client";
+
+import React, { useMemo } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../lib/database.types";
+import PhiWarning from "./PhiWarning";
+import SupplyItemPicker from "./SupplyItemPicker";
+import { cx } from "../lib/format";
+import { newDraftLine } from "../lib/catalog";
+import { newClientId } from "../lib/outbox";
+import { PhiPattern, redactPhi, scanPhi } from "../lib/phi";
+import type { HandoffDraft, HandoffLineItem, HandoffTemplate, Priority, Shift, SupplyItem } from "../lib/types";
+
+// "+ Create handoff": controlled by the page (the scanner and profile defaults pre-fill the draft).
+// The unit's active templates show as one-tap chips above the form.
+export default function CreateHandoffForm({
+  supabase,
+  draft,
+  onChange,
+  phiPatterns,
+  creating,
+  disabled,
+  message,
+  onCreate,
+  onScan,
+  templates = [],
+  onQuickCreate,
+  onManageTemplates,
+}: {
+  supabase: SupabaseClient<Database>;
+  draft: HandoffDraft;
+  onChange: (patch: Partial<HandoffDraft>) => void;
+  phiPatterns: PhiPattern[];
+  creating: boolean;
+  disabled: boolean; // no unit picked (facility overview)
+  message: string;
+  onCreate: () => void;
+  onScan: () => void;
+  templates?: HandoffTemplate[];
+  onQuickCreate?: (t: HandoffTemplate) => void;
+  onManageTemplates?: () => void; // shift leads and up
+}) {
+  const quick = templates.filter((t) => t.active);
+  const titlePhi = useMemo(() => scanPhi(draft.title, phiPatterns), [draft.title, phiPatterns]);
+
+  function addLine(item: SupplyItem) {
+    onChange({
+      title: draft.title.trim() ? draft.title : `Short: ${item.description}`,
+      lines: [...draft.lines, newDraftLine(item, newClientId())],
+    });
+  }
+
+  function patchLine(id: string, patch: Partial<HandoffLineItem>) {
+    onChange({ lines: draft.lines.map((l) => (l.id === id ? { ...l, ...patch } : l)) });
+  }
+
+  const qty = (v: string) => {
+    const n = parseInt(v, 10);
+    return isNaN(n) ? null : Math.max(0, n);
+  };
+
+  return (
+    <div className="flex-1">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-xs opacity-70">+ Create handoff</div>
+        <div className="flex items-center gap-3">
+          {onManageTemplates && (
+            <button
+              onClick={onManageTemplates}
+              className="text-xs opacity-70 hover:opacity-100 underline underline-offset-2"
+            >
+              Templates
+            </button>
+          )}
+          <button
+            onClick={onScan}
+            className="rounded-lg border border-white/10 bg-white/5 hover:bg-white/10 px-2 py-1 text-xs"
+          >
+            Scan
+          </button>
+        </div>
+      </div>
+      {onQuickCreate && quick.length > 0 && (
+        <div className="mt-2 flex gap-1.5 overflow-x-auto pb-1">
+          {quick.map((t) => (
+            <button
+              key={t.id}
+              onClick={() => onQuickCreate(t)}
+              disabled={creating || disabled}
+              title={`Create "${t.title}" now`}
+              className={cx(
+                "shrink-0 rounded-full border border-white/10 px-3 py-1 text-xs",
+                creating || disabled ? "bg-white/5 opacity-60" : "bg-white/5 hover:bg-white/10",
+                t.priority === "Critical" && "border-red-300/30"
+              )}
+            >
+              + {t.title}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="mt-2 grid grid-cols-2 md:grid-cols-4 gap-2">
+        <div className="col-span-2 md:col-span-2">
+          <label htmlFor="new-title" className="text-xs opacity-70">
+            Title
+          </label>
+          <input
+            id="new-title"
+            value={draft.title}
+            onChange={(e) => onChange({ title: e.target.value })}
+            maxLength={200}
+            placeholder="e.g., Missing IV start kits"
+            className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm outline-none"
+          />
+          <PhiWarning
+            findings={titlePhi}
+            onRedact={() => onChange({ title: redactPhi(draft.title, titlePhi) })}
+            className="mt-2"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="new-shift" className="text-xs opacity-70">
+            Shift
+          </label>
+          <select
+            id="new-shift"
+            value={draft.shift}
+            onChange={(e) => onChange({ shift: e.target.value as Shift })}
+            className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm outline-none"
+          >
+            <option value="AM">AM</option>
+            <option value="PM">PM</option>
+            <option value="NOC">NOC</option>
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="new-priority" className="text-xs opacity-70">
+            Priority
+          </label>
+          <select
+            id="new-priority"
+            value={draft.priority}
+            onChange={(e) => onChange({ priority: e.target.value as Priority })}
+            className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm outline-none"
+          >
+            <option value="Low">Low</option>
+            <option value="Normal">Normal</option>
+            <option value="High">High</option>
+            <option value="Critical">Critical</option>
+          </select>
+        </div>
+
+        <div className="col-span-2 md:col-span-4">
+          {!draft.showLines && draft.lines.length === 0 ? (
+            <button
+              onClick={() => onChange({ showLines: true })}
+              className="text-xs opacity-70 hover:opacity-100 underline underline-offset-2"
+            >
+              + Add supply items
+            </button>
+          ) : (
+            <div className="space-y-2">
+              <label className="text-xs opacity-70">Items</label>
+              <SupplyItemPicker supabase={supabase} onPick={addLine} />
+              {draft.lines.map((l) => (
+                <div key={l.id} className="rounded-xl border border-white/10 bg-black/25 p-2 text-sm">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="break-words">{l.item?.description}</div>
+                      <div className="text-xs opacity-60">
+                        #{l.item?.item_number} · {l.item?.unit_of_measure}
+                        {l.item?.bin_location ? ` · Bin ${l.item.bin_location}` : ""}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => onChange({ lines: draft.lines.filter((x) => x.id !== l.id) })}
+                      className="text-xs opacity-60 hover:opacity-100"
+                      aria-label="Remove item"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                  <div className="mt-2 flex items-center gap-2 flex-wrap">
+                    <input
+                      inputMode="numeric"
+                      value={l.qty_short ?? ""}
+                      onChange={(e) => patchLine(l.id, { qty_short: qty(e.target.value) })}
+                      placeholder="Short"
+                      className="w-20 rounded-lg border border-white/10 bg-black/30 px-2 py-1 text-xs outline-none"
+                    />
+                    <input
+                      inputMode="numeric"
+                      value={l.qty_needed ?? ""}
+                      onChange={(e) => patchLine(l.id, { qty_needed: qty(e.target.value) })}
+                      placeholder="Needed"
+                      className="w-20 rounded-lg border border-white/10 bg-black/30 px-2 py-1 text-xs outline-none"
+                    />
+                    <input
+                      value={l.substitution ?? ""}
+                      onChange={(e) => patchLine(l.id, { substitution: e.target.value || null })}
+                      placeholder="Substitution (optional)"
+                      className="flex-1 min-w-[140px] rounded-lg border border-white/10 bg-black/30 px-2 py-1 text-xs outline-none"
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="col-span-2 md:col-span-4 flex items-center justify-between gap-3">
+          <label className="flex items-center gap-2 text-sm opacity-85">
+            <input
+              type="checkbox"
+              checked={draft.needsFollowup}
+              onChange={(e) => onChange({ needsFollowup: e.target.checked })}
+            />
+            Needs follow-up
+          </label>
+
+          <button
+            onClick={onCreate}
+            disabled={creating || disabled}
+            title={disabled ? "Pick a unit to create a handoff" : undefined}
+            className={cx(
+              "rounded-xl border border-white/10 px-4 py-2 text-sm",
+              creating || disabled ? "bg-white/5 opacity-60" : "bg-white/10 hover:bg-white/15"
+            )}
+          >
+            {creating ? "Creating..." : "Create"}
+          </button>
+        </div>
+
+        {message && <div className="col-span-2 md:col-span-4 text-sm opacity-80">{message}</div>}
+      </div>
+    </div>
+  );
+}
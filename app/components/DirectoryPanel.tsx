@@ -0,0 +1,353 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../lib/database.types";
+import { cx } from "../lib/format";
+import { Directory, saveFacility, saveUnit, unitsFor } from "../lib/directory";
+import {
+  canManageFacility,
+  grantRole,
+  isOrgAdmin,
+  listMembers,
+  MemberRow,
+  Membership,
+  revokeMembership,
+  Role,
+  roleLabel,
+} from "../lib/roles";
+import type { Facility, Unit } from "../lib/types";
+
+/* =========================================================
+   DIRECTORY PANEL (facilities + units)
+   - Codes are permanent (they key existing handoffs); names are editable
+   - Deactivate instead of delete so history keeps resolving
+   - Members: admins grant roles per facility (optionally per unit)
+   - Time zone: the shift clock recurring templates run on
+========================================================= */
+
+const inputCls =
+  "w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm outline-none";
+const btnCls = "rounded-xl border border-white/10 bg-white/10 hover:bg-white/15 px-3 py-2 text-sm";
+
+export default function DirectoryPanel({
+  supabase,
+  directory,
+  memberships,
+  initialFacilityId,
+  onChanged,
+  onClose,
+}: {
+  supabase: SupabaseClient<Database>;
+  directory: Directory;
+  memberships: Membership[];
+  initialFacilityId: string;
+  onChanged: () => Promise<void> | void;
+  onClose: () => void;
+}) {
+  const [facilityId, setFacilityId] = useState<string>(initialFacilityId);
+  const [err, setErr] = useState<string>("");
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const [newFacId, setNewFacId] = useState<string>("");
+  const [newFacName, setNewFacName] = useState<string>("");
+  const [newUnitCode, setNewUnitCode] = useState<string>("");
+  const [newUnitName, setNewUnitName] = useState<string>("");
+
+  const [members, setMembers] = useState<MemberRow[]>([]);
+  const [memberEmail, setMemberEmail] = useState<string>("");
+  const [memberUnit, setMemberUnit] = useState<string>("");
+  const [memberRole, setMemberRole] = useState<Role>("tech");
+
+  const facility = directory.facilities.find((f) => f.id === facilityId) ?? null;
+  const units = unitsFor(directory, facilityId, true);
+  const orgAdmin = isOrgAdmin(memberships);
+  const canManage = canManageFacility(memberships, facilityId);
+
+  const reloadMembers = useCallback(async () => {
+    if (!canManage) {
+      setMembers([]);
+      return;
+    }
+    try {
+      setMembers(await listMembers(supabase, facilityId));
+    } catch (e: any) {
+      setErr(e?.message ?? "Failed to load members");
+    }
+  }, [supabase, facilityId, canManage]);
+
+  useEffect(() => {
+    reloadMembers();
+  }, [reloadMembers]);
+
+  async function run(fn: () => Promise<void>) {
+    setBusy(true);
+    setErr("");
+    try {
+      await fn();
+      await onChanged();
+    } catch (e: any) {
+      setErr(e?.message ?? "Save failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function addFacility() {
+    const id = newFacId.trim().toUpperCase();
+    if (!/^[A-Z0-9_-]{1,32}$/.test(id)) {
+      setErr("Facility code: 1–32 letters, digits, - or _.");
+      return;
+    }
+    if (directory.facilities.some((f) => f.id === id)) {
+      setErr(`Facility ${id} already exists.`);
+      return;
+    }
+    run(async () => {
+      await saveFacility(supabase, { id, name: newFacName.trim() || id, active: true });
+      setNewFacId("");
+      setNewFacName("");
+      setFacilityId(id);
+    });
+  }
+
+  function addUnit() {
+    const code = newUnitCode.trim();
+    if (!/^[A-Za-z0-9 _-]{1,48}$/.test(code)) {
+      setErr("Unit code: 1–48 letters, digits, spaces, - or _.");
+      return;
+    }
+    if (units.some((u) => u.code.toLowerCase() === code.toLowerCase())) {
+      setErr(`Unit ${code} already exists in ${facilityId}.`);
+      return;
+    }
+    run(async () => {
+      await saveUnit(supabase, { facility_id: facilityId, code, name: newUnitName.trim() || code, active: true });
+      setNewUnitCode("");
+      setNewUnitName("");
+    });
+  }
+
+  function addMember() {
+    const email = memberEmail.trim();
+    if (!email.includes("@")) {
+      setErr("Enter the member's sign-in email.");
+      return;
+    }
+    run(async () => {
+      await grantRole(supabase, { email, facilityId, unit: memberUnit || null, role: memberRole });
+      setMemberEmail("");
+      await reloadMembers();
+    });
+  }
+
+  function setTimeZone(f: Facility) {
+    const tz = window.prompt("Time zone (IANA name, e.g. America/Chicago; empty = server default)", f.time_zone ?? "");
+    if (tz == null) return;
+    const value = tz.trim() || null;
+    if (value) {
+      try {
+        new Intl.DateTimeFormat("en-US", { timeZone: value });
+      } catch {
+        setErr(`Unknown time zone "${value}".`);
+        return;
+      }
+    }
+    if (value === (f.time_zone ?? null)) return;
+    run(() => saveFacility(supabase, { ...f, time_zone: value }));
+  }
+
+  function rename<T extends Facility | Unit>(row: T, save: (r: T) => Promise<void>) {
+    const name = window.prompt("New name", row.name)?.trim();
+    if (!name || name === row.name) return;
+    run(() => save({ ...row, name }));
+  }
+
+  return (
+    <div className="fixed inset-0 z-[70]">
+      <button onClick={onClose} className="absolute inset-0 bg-black/60" aria-label="Close directory" />
+
+      <div className="absolute left-0 right-0 bottom-0 md:left-1/2 md:top-16 md:bottom-auto md:w-[680px] md:-translate-x-1/2 rounded-t-3xl md:rounded-3xl border border-white/10 bg-black/85 backdrop-blur p-4 max-h-[88vh] overflow-auto">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <div className="text-xs opacity-70">Directory</div>
+            <div className="mt-1 text-lg font-semibold">Facilities &amp; units</div>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 px-3 py-2 text-sm"
+          >
+            Close
+          </button>
+        </div>
+
+        {err && <div className="mt-3 text-sm text-red-300">{err}</div>}
+
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+          {/* FACILITIES */}
+          <div>
+            <div className="text-sm opacity-70">Facilities</div>
+            <div className="mt-2 space-y-2">
+              {directory.facilities.map((f) => (
+                <div
+                  key={f.id}
+                  className={cx(
+                    "rounded-xl border border-white/10 bg-black/30 p-2 flex items-center justify-between gap-2",
+                    f.id === facilityId && "outline outline-2 outline-white/20",
+                    !f.active && "opacity-50"
+                  )}
+                >
+                  <button onClick={() => setFacilityId(f.id)} className="min-w-0 text-left flex-1">
+                    <div className="text-sm font-medium break-words">{f.name}</div>
+                    <div className="text-xs opacity-60">
+                      {f.id}
+                      {f.time_zone && ` · ${f.time_zone}`}
+                    </div>
+                  </button>
+                  {canManageFacility(memberships, f.id) && (
+                  <div className="flex items-center gap-2 text-xs">
+                    <button disabled={busy} onClick={() => rename(f, (r) => saveFacility(supabase, r))} className="opacity-70 hover:opacity-100">
+                      Rename
+                    </button>
+                    <button disabled={busy} onClick={() => setTimeZone(f)} className="opacity-70 hover:opacity-100">
+                      Time zone
+                    </button>
+                    <button
+                      disabled={busy}
+                      onClick={() => run(() => saveFacility(supabase, { ...f, active: !f.active }))}
+                      className="opacity-70 hover:opacity-100"
+                    >
+                      {f.active ? "Deactivate" : "Activate"}
+                    </button>
+                  </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {orgAdmin && (
+            <div className="mt-3 grid grid-cols-[100px_1fr_auto] gap-2">
+              <input value={newFacId} onChange={(e) => setNewFacId(e.target.value)} placeholder="Code" className={inputCls} />
+              <input value={newFacName} onChange={(e) => setNewFacName(e.target.value)} placeholder="Name" className={inputCls} />
+              <button disabled={busy || !newFacId.trim()} onClick={addFacility} className={btnCls}>
+                Add
+              </button>
+            </div>
+            )}
+          </div>
+
+          {/* UNITS */}
+          <div>
+            <div className="text-sm opacity-70">Units in {facility?.name ?? facilityId}</div>
+            <div className="mt-2 space-y-2">
+              {units.length === 0 && <div className="text-sm opacity-70">No units yet.</div>}
+              {units.map((u) => (
+                <div
+                  key={u.code}
+                  className={cx(
+                    "rounded-xl border border-white/10 bg-black/30 p-2 flex items-center justify-between gap-2",
+                    !u.active && "opacity-50"
+                  )}
+                >
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium break-words">{u.name}</div>
+                    <div className="text-xs opacity-60">{u.code}</div>
+                  </div>
+                  {canManage && (
+                  <div className="flex items-center gap-2 text-xs">
+                    <button disabled={busy} onClick={() => rename(u, (r) => saveUnit(supabase, r))} className="opacity-70 hover:opacity-100">
+                      Rename
+                    </button>
+                    <button
+                      disabled={busy}
+                      onClick={() => run(() => saveUnit(supabase, { ...u, active: !u.active }))}
+                      className="opacity-70 hover:opacity-100"
+                    >
+                      {u.active ? "Deactivate" : "Activate"}
+                    </button>
+                  </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {facility && canManage && (
+              <div className="mt-3 grid grid-cols-[100px_1fr_auto] gap-2">
+                <input value={newUnitCode} onChange={(e) => setNewUnitCode(e.target.value)} placeholder="Code" className={inputCls} />
+                <input value={newUnitName} onChange={(e) => setNewUnitName(e.target.value)} placeholder="Name" className={inputCls} />
+                <button disabled={busy || !newUnitCode.trim()} onClick={addUnit} className={btnCls}>
+                  Add
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* MEMBERS */}
+        {facility && canManage && (
+          <div className="mt-6 border-t border-white/10 pt-4">
+            <div className="text-sm opacity-70">Members of {facility.name}</div>
+            <div className="mt-2 space-y-2">
+              {members.length === 0 && <div className="text-sm opacity-70">No members yet.</div>}
+              {members.map((m) => (
+                <div
+                  key={m.id}
+                  className="rounded-xl border border-white/10 bg-black/30 p-2 flex items-center justify-between gap-2"
+                >
+                  <div className="min-w-0">
+                    <div className="text-sm break-words">{m.email}</div>
+                    <div className="text-xs opacity-60">
+                      {roleLabel[m.role]} · {m.unit ?? "All units"}
+                    </div>
+                  </div>
+                  <button
+                    disabled={busy}
+                    onClick={() =>
+                      run(async () => {
+                        await revokeMembership(supabase, m.id);
+                        await reloadMembers();
+                      })
+                    }
+                    className="text-xs opacity-70 hover:opacity-100"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <div className="mt-3 grid grid-cols-1 md:grid-cols-[1fr_140px_140px_auto] gap-2">
+              <input
+                value={memberEmail}
+                onChange={(e) => setMemberEmail(e.target.value)}
+                placeholder="Sign-in email"
+                className={inputCls}
+              />
+              <select value={memberUnit} onChange={(e) => setMemberUnit(e.target.value)} className={inputCls}>
+                <option value="">All units</option>
+                {units.map((u) => (
+                  <option key={u.code} value={u.code}>
+                    {u.name}
+                  </option>
+                ))}
+              </select>
+              <select value={memberRole} onChange={(e) => setMemberRole(e.target.value as Role)} className={inputCls}>
+                {(Object.keys(roleLabel) as Role[]).map((r) => (
+                  <option key={r} value={r}>
+                    {roleLabel[r]}
+                  </option>
+                ))}
+              </select>
+              <button disabled={busy || !memberEmail.trim()} onClick={addMember} className={btnCls}>
+                Grant
+              </button>
+            </div>
+            <div className="mt-2 text-xs opacity-60">
+              Members must have signed in once. Granting again changes the role.
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
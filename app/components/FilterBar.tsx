@@ -0,0 +1,216 @@
+"use client";
+
+import React, { useState } from "react";
+import { cx } from "../lib/format";
+import {
+  EMPTY_FILTER,
+  filterFromQuery,
+  HandoffFilter,
+  isFilterActive,
+  SavedView,
+  SORT_LABEL,
+  SortMode,
+  toggleIn,
+} from "../lib/filters";
+import { STATUS_LABEL } from "../lib/lifecycle";
+import type { HandoffSource, HandoffStatus, Priority, Shift } from "../lib/types";
+
+/* =========================================================
+   FILTER BAR (list header)
+   - Search box (server full-text), filter chips, date range, sort
+   - Saved views: apply / save current / delete; copy shareable link
+========================================================= */
+
+const PRIORITIES: Priority[] = ["Critical", "High", "Normal", "Low"];
+const STATUSES = Object.keys(STATUS_LABEL) as HandoffStatus[];
+const SHIFTS: Shift[] = ["AM", "PM", "NOC"];
+const SOURCES: HandoffSource[] = ["app", "scan", "sms", "system", "template"];
+
+const fieldCls = "rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm outline-none";
+
+function Chip({ on, onClick, children }: { on: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      onClick={onClick}
+      className={cx(
+        "text-xs rounded-full px-2 py-1 border",
+        on ? "border-sky-300/40 bg-sky-500/15" : "border-white/10 bg-white/5 opacity-70 hover:opacity-100"
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+export default function FilterBar({
+  filter,
+  onChange,
+  searching,
+  error,
+  views,
+  onSaveView,
+  onDeleteView,
+  onCopyLink,
+}: {
+  filter: HandoffFilter;
+  onChange: (f: HandoffFilter) => void;
+  searching: boolean;
+  error: string;
+  views: SavedView[];
+  onSaveView: (name: string) => void;
+  onDeleteView: (view: SavedView) => void;
+  onCopyLink: () => void;
+}) {
+  const [open, setOpen] = useState<boolean>(isFilterActive(filter));
+  const patch = (p: Partial<HandoffFilter>) => onChange({ ...filter, ...p });
+  const active = isFilterActive(filter);
+
+  return (
+    <div className="mt-3 rounded-2xl border border-white/10 bg-black/20 p-3">
+      <div className="flex items-center gap-2">
+        <input
+          value={filter.q}
+          onChange={(e) => patch({ q: e.target.value })}
+          placeholder="Search titles and updates…"
+          className={cx(fieldCls, "flex-1 min-w-0")}
+        />
+        <select
+          value={filter.sort}
+          onChange={(e) => patch({ sort: e.target.value as SortMode })}
+          className={cx(fieldCls, "hidden md:block")}
+          aria-label="Sort"
+        >
+          {(Object.keys(SORT_LABEL) as SortMode[]).map((m) => (
+            <option key={m} value={m}>
+              {SORT_LABEL[m]}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => setOpen((v) => !v)}
+          className={cx(
+            "rounded-xl border px-3 py-2 text-sm",
+            active ? "border-sky-300/40 bg-sky-500/15" : "border-white/10 bg-white/5 hover:bg-white/10"
+          )}
+        >
+          Filters
+        </button>
+      </div>
+      {searching && <div className="mt-1 text-xs opacity-60">Searching…</div>}
+      {error && <div className="mt-1 text-xs text-red-300">{error}</div>}
+
+      {open && (
+        <div className="mt-3 space-y-2">
+          <div className="flex flex-wrap gap-1.5">
+            {PRIORITIES.map((p) => (
+              <Chip key={p} on={filter.priorities.includes(p)} onClick={() => patch({ priorities: toggleIn(filter.priorities, p) })}>
+                {p}
+              </Chip>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {STATUSES.map((s) => (
+              <Chip key={s} on={filter.statuses.includes(s)} onClick={() => patch({ statuses: toggleIn(filter.statuses, s) })}>
+                {STATUS_LABEL[s]}
+              </Chip>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {SHIFTS.map((s) => (
+              <Chip key={s} on={filter.shifts.includes(s)} onClick={() => patch({ shifts: toggleIn(filter.shifts, s) })}>
+                {s}
+              </Chip>
+            ))}
+            <span className="mx-1 opacity-30">|</span>
+            {SOURCES.map((s) => (
+              <Chip key={s} on={filter.sources.includes(s)} onClick={() => patch({ sources: toggleIn(filter.sources, s) })}>
+                {s}
+              </Chip>
+            ))}
+            <span className="mx-1 opacity-30">|</span>
+            <Chip on={filter.assignee === "me"} onClick={() => patch({ assignee: filter.assignee === "me" ? "any" : "me" })}>
+              Mine
+            </Chip>
+            <Chip
+              on={filter.assignee === "unassigned"}
+              onClick={() => patch({ assignee: filter.assignee === "unassigned" ? "any" : "unassigned" })}
+            >
+              Unassigned
+            </Chip>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-[1fr_1fr_auto] gap-2 items-end">
+            <label className="text-xs opacity-70">
+              From
+              <input
+                type="date"
+                value={filter.from ?? ""}
+                onChange={(e) => patch({ from: e.target.value || null })}
+                className={cx(fieldCls, "mt-1 w-full")}
+              />
+            </label>
+            <label className="text-xs opacity-70">
+              To
+              <input
+                type="date"
+                value={filter.to ?? ""}
+                onChange={(e) => patch({ to: e.target.value || null })}
+                className={cx(fieldCls, "mt-1 w-full")}
+              />
+            </label>
+            <select
+              value={filter.sort}
+              onChange={(e) => patch({ sort: e.target.value as SortMode })}
+              className={cx(fieldCls, "md:hidden col-span-2")}
+              aria-label="Sort"
+            >
+              {(Object.keys(SORT_LABEL) as SortMode[]).map((m) => (
+                <option key={m} value={m}>
+                  {SORT_LABEL[m]}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => onChange({ ...EMPTY_FILTER, sort: filter.sort })}
+              disabled={!active}
+              className="text-xs opacity-70 hover:opacity-100 underline underline-offset-2 justify-self-start"
+            >
+              Clear filters
+            </button>
+          </div>
+
+          {/* SAVED VIEWS */}
+          <div className="flex flex-wrap items-center gap-1.5 border-t border-white/10 pt-2">
+            <span className="text-xs opacity-60">Views:</span>
+            {views.length === 0 && <span className="text-xs opacity-50">none saved</span>}
+            {views.map((v) => (
+              <span key={v.id} className="inline-flex items-center gap-1 text-xs rounded-full border border-white/10 bg-white/5 pl-2">
+                <button onClick={() => onChange(filterFromQuery(v.query))} className="py-1">
+                  {v.name}
+                </button>
+                <button
+                  onClick={() => onDeleteView(v)}
+                  className="px-2 py-1 opacity-60 hover:opacity-100"
+                  aria-label={`Delete view ${v.name}`}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+            <button
+              onClick={() => {
+                const name = window.prompt("Name this view")?.trim();
+                if (name) onSaveView(name);
+              }}
+              className="text-xs opacity-70 hover:opacity-100 underline underline-offset-2"
+            >
+              Save view
+            </button>
+            <button onClick={onCopyLink} className="text-xs opacity-70 hover:opacity-100 underline underline-offset-2">
+              Copy link
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
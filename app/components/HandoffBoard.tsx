@@ -0,0 +1,1266 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { mergeRowChange, supabaseRealtimeSource } from "../lib/realtime";
+import {
+  enqueue,
+  newClientId,
+  NewOutboxOp,
+  overlayHandoffs,
+  overlayUpdates,
+  pendingLineItems,
+} from "../lib/outbox";
+import { downloadText, isAbortError } from "../lib/format";
+import useSession from "../hooks/useSession";
+import useHandoffs from "../hooks/useHandoffs";
+import useHandoffUpdates from "../hooks/useHandoffUpdates";
+import useOutbox from "../hooks/useOutbox";
+import useHandoffSearch from "../hooks/useHandoffSearch";
+import usePhotos from "../hooks/usePhotos";
+import usePeople from "../hooks/usePeople";
+import useMentions from "../hooks/useMentions";
+import usePhiPatterns from "../hooks/usePhiPatterns";
+import useRouteSync from "../hooks/useRouteSync";
+import AuthGate from "./AuthGate";
+import RouteNotice from "./RouteNotice";
+import BoardHeader from "./BoardHeader";
+import ContextBar from "./ContextBar";
+import SyncConflicts from "./SyncConflicts";
+import HandoffList from "./HandoffList";
+import HandoffDrawer from "./HandoffDrawer";
+import HandoffDetails from "./HandoffDetails";
+import UpdateTimeline from "./UpdateTimeline";
+import UpdateComposer from "./UpdateComposer";
+import CreateHandoffForm from "./CreateHandoffForm";
+import BoardPanels, { BoardPanel } from "./BoardPanels";
+import PhotoViewer from "./PhotoViewer";
+import FilterBar from "./FilterBar";
+import {
+  ALL_UNITS,
+  Directory,
+  loadDirectory,
+  loadSavedContext,
+  saveContext,
+  summarizeUnits,
+  unitsFor,
+  validContext,
+} from "../lib/directory";
+import {
+  canDeletePhoto,
+  canLeadShift,
+  canManageFacility,
+  canSetStatus,
+  isOrgAdmin,
+  loadMyMemberships,
+  Membership,
+  roleIn,
+  roleLabel,
+} from "../lib/roles";
+import { ensureProfile, profileSnapshot } from "../lib/profile";
+import { registerServiceWorker } from "../lib/pushClient";
+import { normalizeHandle } from "../lib/mentions";
+import { getHandoff } from "../lib/handoffRepo";
+import { blockingPhi, logPhiBlock, PhiField, PhiFinding, phiSummary, scanPhi } from "../lib/phi";
+import { groupAttachments } from "../lib/photos";
+import { buildTimeline, historyCsv, loadAudit } from "../lib/audit";
+import { HandoffEditable, isDeleted, setField, STATUS_LABEL } from "../lib/lifecycle";
+import { applyFilter, isFilterActive, sortHandoffs, writeFilterParams } from "../lib/filters";
+import { mergeHandoffs } from "../lib/paging";
+import { downloadExport, exportPath, openPrintable } from "../lib/exportClient";
+import { loadLineItems, newDraftLine } from "../lib/catalog";
+import { lookupScan, parseScan } from "../lib/barcode";
+import { loadTemplates, templateDraft } from "../lib/templates";
+import { parseRoute } from "../lib/routes";
+import { DEFAULT_SLA, loadSlaTargets, resolveSlaConfig, SlaConfig } from "../lib/sla";
+import type {
+  Handoff,
+  HandoffAttachment,
+  HandoffAuditEntry,
+  HandoffDraft,
+  HandoffLineItem,
+  HandoffStatus,
+  HandoffTemplate,
+  HandoffUpdate,
+  Profile,
+  UpdateSource,
+} from "../lib/types";
+
+/* =========================================================
+   CENTRAL SUPPLY HANDOFF — FULL SYSTEM PAGE (DROP-IN)
+   - Owns the state and actions; the pieces render it: BoardHeader (top bar),
+     ContextBar (context + create, sync conflicts), HandoffList, HandoffDrawer
+     (details + composer), BoardPanels (admin / inbox / profile / scanner overlays)
+   - Sticky "+ Create handoff" ALWAYS visible on mobile
+   - Critical forced to top (hard-priority)
+   - Strong box glow + Critical pulse animation (unresolved only)
+   - Deterministic sort: unresolved -> follow-up -> priority -> newest
+   - Mobile drawer: details + updates + add update + status / edit / delete
+   - Desktop works too (same HandoffDetails in a side panel; sheet only on mobile)
+   - Auth gate: magic link (AuthGate); session + browser client from useSession
+   - AbortError ignored
+   - Realtime: handoffs + open drawer updates merge live; refetch on reconnect
+     (useHandoffs / useHandoffUpdates)
+   - Paging: active handoffs load eagerly, closed ones by keyset cursor on scroll;
+     old closed handoffs are archived daily and still show up in search (lib/paging, lib/archive)
+   - Offline-first: mutations go through the IndexedDB outbox (pending sync badge; useOutbox)
+   - Shift change: outgoing report -> incoming lead acks Critical/High -> accept
+   - Roles: RLS decides; UI disables what the caller's role can't do
+   - Profile: persisted display name (author snapshots) + defaults for a fresh device
+   - Audit: trigger-written field history shown inline with updates, CSV export
+   - Lifecycle: status state machine, edit mode, soft delete + restore (lib/lifecycle)
+   - Assignment: claim / assign to…, "My handoffs" filter, unassigned Critical flagged
+   - Search + filters: full-text (tsvector RPC), chips, sort modes; state lives in the
+     URL query so views are shareable; named saved views per user (lib/filters, useHandoffSearch)
+   - SLA chips (countdown / overdue); escalation runs server-side (/api/jobs/escalate)
+   - Supply catalog: typeahead line items on create; shown in details + drawer
+   - Scanner: bin label / item barcode pre-fills create; handoff QR opens it (/h/<id>)
+   - Routes: /f/<facility>[/u/<unit>] and /h/<id> load directly (also after the magic
+     link); opening a handoff pushes a history entry, so Back closes the drawer (lib/routes, useRouteSync)
+   - Directory: facility/unit pickers (validated), per-device context, all-units overview
+   - Dashboard: volume, timings, repeat offenders, backlog at /dashboard (SQL RPCs)
+   - Export: filtered list + single handoff to CSV / PDF, printable shift summary
+     (server routes under /api/export; RLS applies via the caller's token)
+   - Photos: camera / file attach on handoffs + updates, compressed + EXIF-stripped in the
+     browser, thumbnails in the timeline, full-screen viewer (lib/photos, lib/photoStore, usePhotos)
+   - @mentions: autocomplete of facility staff, highlighting, mentions inbox (DB trigger
+     resolves them); single-level replies grouped under their update (lib/mentions, useMentions)
+   - PWA + Web Push: installable, service worker at /sw.js; Critical / escalation /
+     assignment / @mention alerts with per-user prefs + quiet hours (lib/push)
+   - Templates: per-unit routine handoffs as quick-create chips; recurring ones are created
+     each matching shift by /api/jobs/recurring (lib/templates, lib/recurrence)
+   - PHI screening: titles + updates checked before submit (inline redact) and again by
+     DB triggers; per-facility patterns, blocked / flagged log for admins (lib/phi, usePhiPatterns)
+   - Handoffs insert schema-aligned (NO author_user_id / snapshot fields; see lib/outbox)
+   - Updates insert includes author_user_id + display snapshot
+========================================================= */
+
+const BUILD_TAG = "CS-HANDOFF-FULLSYS-SAFE-v1";
+
+const EMPTY_DRAFT: HandoffDraft = {
+  title: "",
+  shift: "AM",
+  priority: "Normal",
+  needsFollowup: false,
+  source: "app",
+  lines: [],
+  showLines: false,
+};
+
+export default function HandoffBoard() {
+  /* =========================
+     SUPABASE + SESSION
+  ========================= */
+  const { supabase, sessionUserId, sessionEmail, error: authError, signOut: endSession } = useSession();
+
+  /* =========================
+     REFS (useRef only)
+  ========================= */
+  const createSectionRef = useRef<HTMLElement | null>(null);
+
+  /* =========================
+     PANELS (admin / inbox / profile / scanner overlays; one at a time)
+  ========================= */
+  const [panel, setPanel] = useState<BoardPanel | null>(null);
+
+  /* =========================
+     PROFILE SNAPSHOT
+  ========================= */
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [profileErr, setProfileErr] = useState<string>("");
+  const displayName = profileSnapshot(profile, sessionEmail); // author snapshot (no PHI)
+
+  /* =========================
+     FILTER CONTEXT
+  ========================= */
+  const [facilityId, setFacilityId] = useState<string>("PHC"); // default until directory/saved context load
+  const [unit, setUnit] = useState<string>("Main"); // ALL_UNITS = facility overview
+  const allUnits = unit === ALL_UNITS;
+
+  const [directory, setDirectory] = useState<Directory>({ facilities: [], units: [] });
+  const [directoryLoaded, setDirectoryLoaded] = useState<boolean>(false);
+  const [directoryErr, setDirectoryErr] = useState<string>("");
+  const [memberships, setMemberships] = useState<Membership[]>([]);
+
+  /* =========================
+     DATA (list + open handoff's updates; both refetch after a realtime drop)
+  ========================= */
+  const realtime = useMemo(() => (supabase ? supabaseRealtimeSource(supabase) : null), [supabase]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Latest values for async callbacks (load / search / outbox replay)
+  const selectedIdRef = useRef<string | null>(null);
+  selectedIdRef.current = selectedId;
+
+  const {
+    updates,
+    setUpdates,
+    loading: loadingUpdates,
+    error: updatesErr,
+    setError: setUpdatesErr,
+    reloadTick: updatesReloadTick,
+    reload: reloadUpdates,
+  } = useHandoffUpdates({ supabase, realtime, sessionUserId, handoffId: selectedId });
+
+  const {
+    handoffs,
+    setHandoffs,
+    loading: loadingHandoffs,
+    error: handoffErr,
+    setError: setHandoffErr,
+    closedCursor,
+    loadingMore,
+    loadMore: loadMoreClosed,
+    liveStatus,
+    reloadTick: handoffsReloadTick,
+    reload: reloadHandoffs,
+  } = useHandoffs({
+    supabase,
+    realtime,
+    sessionUserId,
+    facilityId,
+    unit,
+    keepId: () => selectedIdRef.current,
+    onResync: reloadUpdates,
+  });
+
+  /* =========================
+     OUTBOX (offline-first mutations; server rows replace their optimistic copies)
+  ========================= */
+  const {
+    ops: outboxOps,
+    pending,
+    conflicts,
+    error: outboxErr,
+    refresh: refreshOutbox,
+    sync: syncOutbox,
+    applyAnyway: applyConflictAnyway,
+    discard: discardConflict,
+  } = useOutbox({
+    supabase,
+    sessionUserId,
+    liveStatus,
+    onApplied: ({ handoff, update }) => {
+      if (handoff) {
+        setHandoffs((prev) => [handoff, ...prev.filter((h) => h.id !== handoff.id)]);
+      }
+      if (update) {
+        setUpdates((prev) =>
+          update.handoff_id === selectedIdRef.current
+            ? [...prev.filter((u) => u.id !== update.id), update]
+            : prev
+        );
+      }
+    },
+  });
+
+  const [showDeleted, setShowDeleted] = useState<boolean>(false);
+
+  /* =========================
+     SEARCH + FILTERS (mirrored to the URL query; saved views)
+  ========================= */
+  const search = useHandoffSearch({
+    supabase,
+    sessionUserId,
+    facilityId,
+    unit,
+    handoffs,
+    onHits: (rows) => setHandoffs((prev) => mergeHandoffs(prev, rows)),
+    reloadTick: handoffsReloadTick,
+  });
+  const { filter, setFilter, matchIds } = search;
+  const [exporting, setExporting] = useState<boolean>(false);
+
+  // Server rows + queued (optimistic) rows; soft-deleted ones only on request
+  const visibleHandoffs = useMemo(
+    () =>
+      overlayHandoffs(
+        handoffs,
+        outboxOps,
+        (h) => h.facility_id === facilityId && (allUnits || h.unit === unit)
+      ).filter((h) => showDeleted || !isDeleted(h)),
+    [handoffs, outboxOps, facilityId, unit, allUnits, showDeleted]
+  );
+
+  const selected = useMemo(
+    () => visibleHandoffs.find((h) => h.id === selectedId) || null,
+    [visibleHandoffs, selectedId]
+  );
+
+  const visibleUpdates = useMemo(
+    () => (selectedId ? overlayUpdates(updates, outboxOps, selectedId) : updates),
+    [updates, outboxOps, selectedId]
+  );
+
+  const [audit, setAudit] = useState<HandoffAuditEntry[]>([]);
+  const [auditErr, setAuditErr] = useState<string>("");
+  const timeline = useMemo(() => buildTimeline(visibleUpdates, audit), [visibleUpdates, audit]);
+  const myHandle = profile ? normalizeHandle(displayName) : null;
+
+  const [lineItems, setLineItems] = useState<HandoffLineItem[]>([]);
+  const [loadingLines, setLoadingLines] = useState<boolean>(false);
+  const [linesErr, setLinesErr] = useState<string>("");
+  const visibleLines = useMemo(
+    () =>
+      lineItems.length > 0 || !selectedId ? lineItems : pendingLineItems(outboxOps, selectedId),
+    [lineItems, outboxOps, selectedId]
+  );
+
+  /* =========================
+     CREATE FORM (STICKY)
+  ========================= */
+  const [draft, setDraft] = useState<HandoffDraft>(EMPTY_DRAFT);
+  const patchDraft = (patch: Partial<HandoffDraft>) => setDraft((d) => ({ ...d, ...patch }));
+
+  /* =========================
+     TEMPLATES (quick-create chips; recurring ones are created by /api/jobs/recurring)
+  ========================= */
+  const [templates, setTemplates] = useState<HandoffTemplate[]>([]);
+  const [templatesTick, setTemplatesTick] = useState<number>(0);
+
+  /* =========================
+     CREATE + SCAN RESULT
+  ========================= */
+  const [creating, setCreating] = useState<boolean>(false);
+  const [createMsg, setCreateMsg] = useState<string>("");
+
+  /* =========================
+     UPDATE FORM
+  ========================= */
+  const [updateText, setUpdateText] = useState<string>("");
+  const [postingUpdate, setPostingUpdate] = useState<boolean>(false);
+  const [replyTo, setReplyTo] = useState<HandoffUpdate | null>(null);
+  const [draftPhotos, setDraftPhotos] = useState<File[]>([]);
+
+  /* =========================
+     PHOTOS (selected handoff) + PEOPLE (assignees, uploaders)
+  ========================= */
+  const photos = usePhotos({
+    supabase,
+    realtime,
+    sessionUserId,
+    handoffId: selectedId,
+    reloadTick: updatesReloadTick,
+  });
+  const { attachments, urls: photoUrls } = photos;
+  const peopleIds = useMemo(
+    () => [...visibleHandoffs.map((h) => h.assignee_user_id), ...attachments.map((a) => a.created_by)],
+    [visibleHandoffs, attachments]
+  );
+  const people = usePeople({ supabase, sessionUserId, ids: peopleIds, profile });
+  const [viewer, setViewer] = useState<{ photos: HandoffAttachment[]; index: number } | null>(null);
+
+  /* =========================
+     MENTIONS (autocomplete people + inbox badge)
+  ========================= */
+  const mentions = useMentions({ supabase, realtime, sessionUserId, facilityId, reloadTick: handoffsReloadTick });
+
+  /* =========================
+     PHI SCREENING (facility pattern set; defaults until it loads)
+  ========================= */
+  const { patterns: phiPatterns, reload: reloadPhiPatterns } = usePhiPatterns({ supabase, sessionUserId, facilityId });
+  const updatePhi = useMemo(() => scanPhi(updateText, phiPatterns), [updateText, phiPatterns]);
+
+  /* =========================
+     SLA (targets per facility + ticking clock for chips)
+  ========================= */
+  const [slaConfig, setSlaConfig] = useState<SlaConfig>(DEFAULT_SLA);
+  const [now, setNow] = useState<number>(() => Date.now());
+  useEffect(() => {
+    const t = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(t);
+  }, []);
+
+  /* =========================
+     RESPONSIVE
+  ========================= */
+  const [isMobile, setIsMobile] = useState<boolean>(false);
+  useEffect(() => {
+    const onResize = () => setIsMobile(window.innerWidth < 900);
+    onResize();
+    window.addEventListener("resize", onResize);
+    return () => window.removeEventListener("resize", onResize);
+  }, []);
+
+  /* =========================
+     PROFILE (created on first sign-in)
+  ========================= */
+  useEffect(() => {
+    if (!supabase) return;
+    if (!sessionUserId) return;
+
+    let alive = true;
+    (async () => {
+      try {
+        const p = await ensureProfile(supabase, { id: sessionUserId, email: sessionEmail });
+        if (!alive) return;
+        setProfile(p);
+        setProfileErr("");
+
+        // A device with no remembered context starts from the profile defaults
+        if (!loadSavedContext() && p.default_facility_id && window.location.pathname === "/") {
+          setFacilityId(p.default_facility_id);
+          setUnit(p.default_unit ?? ALL_UNITS);
+        }
+        const shift = p.preferred_shift;
+        if (shift) setDraft((d) => ({ ...d, shift }));
+      } catch (e: any) {
+        if (!alive) return;
+        setProfileErr(e?.message ?? "Failed to load profile");
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [supabase, sessionUserId, sessionEmail]);
+
+  /* =========================
+     DIRECTORY + PER-DEVICE CONTEXT
+  ========================= */
+  useEffect(() => {
+    const route = parseRoute(window.location.pathname, window.location.search);
+    const saved =
+      route?.kind === "unit" ? { facilityId: route.facilityId, unit: route.unit } : loadSavedContext();
+    if (saved) {
+      setFacilityId(saved.facilityId);
+      setUnit(saved.unit);
+    }
+  }, []);
+
+  const reloadDirectory = useCallback(async () => {
+    if (!supabase) return;
+    if (!sessionUserId) return;
+    try {
+      // Directory rows are filtered by RLS, so both reflect the same grants
+      const [dir, mine] = await Promise.all([
+        loadDirectory(supabase),
+        loadMyMemberships(supabase, sessionUserId),
+      ]);
+      setDirectory(dir);
+      setMemberships(mine);
+      setDirectoryErr("");
+    } catch (e: any) {
+      setDirectoryErr(e?.message ?? "Failed to load facilities");
+    } finally {
+      setDirectoryLoaded(true);
+    }
+  }, [supabase, sessionUserId]);
+
+  useEffect(() => {
+    reloadDirectory();
+  }, [reloadDirectory]);
+
+  // Snap to a valid facility/unit once the directory is known (stale saved context, deactivated unit)
+  useEffect(() => {
+    if (!directoryLoaded) return;
+    const ctx = validContext(directory, facilityId, unit);
+    if (!ctx) return;
+    if (ctx.facilityId !== facilityId) setFacilityId(ctx.facilityId);
+    if (ctx.unit !== unit) setUnit(ctx.unit);
+    saveContext(ctx);
+  }, [directory, directoryLoaded, facilityId, unit]);
+
+  const facilityUnits = useMemo(() => unitsFor(directory, facilityId), [directory, facilityId]);
+  const myRole = roleIn(memberships, facilityId, allUnits ? null : unit);
+  const canManage = isOrgAdmin(memberships) || canManageFacility(memberships, facilityId);
+  const canLead = !allUnits && canLeadShift(memberships, facilityId, unit);
+  const unitSummaries = useMemo(
+    () => (allUnits ? summarizeUnits(facilityUnits, visibleHandoffs) : []),
+    [allUnits, facilityUnits, visibleHandoffs]
+  );
+
+  /* =========================
+     LOAD SLA TARGETS (falls back to defaults)
+  ========================= */
+  useEffect(() => {
+    if (!supabase) return;
+    if (!sessionUserId) return;
+
+    let alive = true;
+
+    loadSlaTargets(supabase)
+      .then((rows) => alive && setSlaConfig(resolveSlaConfig(rows, facilityId)))
+      .catch(() => alive && setSlaConfig(DEFAULT_SLA));
+
+    return () => {
+      alive = false;
+    };
+  }, [supabase, sessionUserId, facilityId]);
+
+  /* =========================
+     LOAD AUDIT TRAIL (selected handoff)
+  ========================= */
+  useEffect(() => {
+    if (!supabase) return;
+    if (!sessionUserId) return;
+    if (!selectedId) {
+      setAudit([]);
+      setAuditErr("");
+      return;
+    }
+
+    const controller = new AbortController();
+
+    (async () => {
+      setAuditErr("");
+      try {
+        setAudit(await loadAudit(supabase, selectedId, controller.signal));
+      } catch (e: any) {
+        if (isAbortError(e)) return;
+        setAuditErr(e?.message ?? "Failed to load history");
+      }
+    })();
+
+    return () => controller.abort();
+  }, [supabase, sessionUserId, selectedId, updatesReloadTick]);
+
+  /* =========================
+     LOAD LINE ITEMS (selected handoff)
+  ========================= */
+  useEffect(() => {
+    if (!supabase) return;
+    if (!sessionUserId) return;
+    if (!selectedId) {
+      setLineItems([]);
+      setLinesErr("");
+      return;
+    }
+
+    let alive = true;
+
+    (async () => {
+      setLoadingLines(true);
+      setLinesErr("");
+      try {
+        const lines = await loadLineItems(supabase, selectedId);
+        if (alive) setLineItems(lines);
+      } catch (e: any) {
+        if (isAbortError(e) || !alive) return;
+        setLinesErr(e?.message ?? "Failed to load items");
+      } finally {
+        if (alive) setLoadingLines(false);
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [supabase, sessionUserId, selectedId, updatesReloadTick]);
+
+  /* =========================
+     REALTIME: AUDIT (append-only; reconnect refetch rides on updatesReloadTick)
+  ========================= */
+  useEffect(() => {
+    if (!realtime) return;
+    if (!sessionUserId) return;
+    if (!selectedId) return;
+
+    return realtime.subscribe<HandoffAuditEntry>(
+      { table: "handoff_audit", eq: { column: "handoff_id", value: selectedId } },
+      (change) => {
+        setAudit((prev) => mergeRowChange(prev, change, (e) => e.handoff_id === selectedId));
+      }
+    );
+  }, [realtime, sessionUserId, selectedId]);
+
+  /* =========================
+     TEMPLATES (current unit; none in the overview)
+  ========================= */
+  useEffect(() => {
+    if (!supabase) return;
+    if (!sessionUserId || allUnits) {
+      setTemplates([]);
+      return;
+    }
+    let alive = true;
+    loadTemplates(supabase, facilityId, unit)
+      .then((rows) => alive && setTemplates(rows))
+      .catch(() => alive && setTemplates([])); // chips are a shortcut; the form still works
+    return () => {
+      alive = false;
+    };
+  }, [supabase, sessionUserId, facilityId, unit, allUnits, templatesTick]);
+
+  /* =========================
+     COMPOSER (a reply or unsent photos don't carry over to another handoff)
+  ========================= */
+  useEffect(() => {
+    setReplyTo(null);
+    setDraftPhotos([]);
+  }, [selectedId]);
+
+  /* =========================
+     SERVICE WORKER (PWA shell + push; notification clicks arrive through useRouteSync)
+  ========================= */
+  useEffect(() => {
+    registerServiceWorker().catch(() => {});
+  }, []);
+
+  /* =========================
+     ROUTE <-> HISTORY (loaded route checked once signed in; Back closes the drawer)
+  ========================= */
+  const route = useRouteSync({
+    supabase,
+    sessionUserId,
+    selectedId,
+    facilityId,
+    unit,
+    onOpenHandoff: openHandoffById,
+    onClose: clearSelection,
+    onUnit: (f, u) => {
+      setFacilityId(f);
+      setUnit(u);
+    },
+  });
+
+  /* =========================
+     SORT (mode from the filter; default triage, Critical forced top — see lib/filters)
+  ========================= */
+  const sortedHandoffs = useMemo(
+    () => sortHandoffs(applyFilter(visibleHandoffs, filter, { sessionUserId, matchIds }), filter.sort),
+    [visibleHandoffs, filter, sessionUserId, matchIds]
+  );
+
+  /* =========================
+     ACTIONS
+  ========================= */
+  // The outbox is cleared on sign-out (the next person on this device mustn't replay it)
+  async function signOut() {
+    const unsent = outboxOps.length;
+    if (
+      unsent > 0 &&
+      !window.confirm(
+        `${unsent} change${unsent === 1 ? " hasn't" : "s haven't"} synced yet and will be lost. Sign out anyway?`
+      )
+    ) {
+      return;
+    }
+    await endSession();
+    setProfile(null);
+    setMemberships([]);
+    setSelectedId(null);
+  }
+
+  function createHandoff() {
+    return submitDraft(draft, true);
+  }
+
+  // One tap: the template becomes a draft for the current shift; the form's own draft is left alone
+  function quickCreate(t: HandoffTemplate) {
+    return submitDraft(templateDraft(t, draft.shift), false);
+  }
+
+  async function submitDraft(d: HandoffDraft, fromForm: boolean) {
+    if (!supabase) return;
+    if (!sessionUserId) return;
+
+    setCreateMsg("");
+    if (unit === ALL_UNITS) {
+      setCreateMsg("Pick a unit to create a handoff.");
+      return;
+    }
+    if (!d.title.trim()) {
+      setCreateMsg("Title is required.");
+      return;
+    }
+    const titlePhi = scanPhi(d.title, phiPatterns);
+    if (blockingPhi(titlePhi).length > 0) {
+      reportPhiBlock("title", unit, d.title, titlePhi);
+      setCreateMsg(`Remove patient info first (${phiSummary(blockingPhi(titlePhi))}).`);
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const status: HandoffStatus = d.needsFollowup ? "needs_followup" : "open";
+
+      // Client-generated id: the optimistic row and the server row share it
+      const row: Handoff = {
+        id: newClientId(),
+        facility_id: facilityId,
+        unit,
+        title: d.title.trim(),
+        priority: d.priority,
+        status,
+        shift: d.shift,
+        created_at: new Date().toISOString(),
+        created_by: sessionUserId,
+        source: d.source,
+      };
+
+      const lines = d.lines.map((l) => ({ ...l, handoff_id: row.id }));
+
+      await enqueue(sessionUserId, { kind: "create_handoff", row, lines, queued_at: row.created_at });
+      await refreshOutbox();
+
+      if (fromForm) setDraft((prev) => ({ ...EMPTY_DRAFT, shift: prev.shift })); // shift sticks for the next one
+      openDetails(row.id);
+
+      // Keep create section visible on mobile; optional scroll
+      if (isMobile && createSectionRef.current) {
+        createSectionRef.current.scrollIntoView({ behavior: "smooth", block: "start" });
+      }
+
+      const res = await syncOutbox();
+      setCreateMsg(res?.offline ? "Saved offline. Will sync when back online." : "Created.");
+    } catch (e: any) {
+      setCreateMsg(e?.message ?? "Failed to create handoff");
+    } finally {
+      setCreating(false);
+      setTimeout(() => setCreateMsg(""), 2500);
+    }
+  }
+
+  async function addUpdate() {
+    if (!supabase) return;
+    if (!sessionUserId) return;
+    if (!selectedId) return;
+    if (!updateText.trim()) return;
+    if (blockingPhi(updatePhi).length > 0) {
+      reportPhiBlock("update", selected?.unit ?? null, updateText, updatePhi);
+      setUpdatesErr(`Remove patient info first (${phiSummary(blockingPhi(updatePhi))}).`);
+      setTimeout(() => setUpdatesErr(""), 3000);
+      return;
+    }
+    if (draftPhotos.length > 0 && !navigator.onLine) {
+      setUpdatesErr("Photos need a connection. Remove them to post the update offline.");
+      setTimeout(() => setUpdatesErr(""), 3000);
+      return;
+    }
+
+    setPostingUpdate(true);
+    try {
+      const snapshot = displayName; // profile display name (no PHI)
+
+      // IMPORTANT: updates insert includes author_user_id + display snapshot
+      const row: HandoffUpdate = {
+        id: newClientId(),
+        handoff_id: selectedId,
+        message: updateText.trim(),
+        source: "app" as UpdateSource,
+        author_user_id: sessionUserId,
+        author_display_name_snapshot: snapshot,
+        created_at: new Date().toISOString(),
+        parent_update_id: replyTo?.handoff_id === selectedId ? replyTo.id : null,
+      };
+
+      await enqueue(sessionUserId, {
+        kind: "add_update",
+        row,
+        expected_status: selected?.status ?? null,
+        queued_at: row.created_at,
+      });
+      await refreshOutbox();
+      setUpdateText("");
+      setReplyTo(null);
+      const files = draftPhotos;
+      setDraftPhotos([]);
+
+      const res = await syncOutbox();
+      if (res?.offline) {
+        setUpdatesErr(
+          files.length > 0
+            ? "Offline. Update saved and will sync; photos weren't sent, attach them to the handoff once back online."
+            : "Offline. Update saved and will sync when back online."
+        );
+        setTimeout(() => setUpdatesErr(""), files.length > 0 ? 6000 : 3000);
+      } else if (files.length > 0) {
+        await photos.upload(files, row.id);
+      }
+    } catch (e: any) {
+      // silent-ish, but visible
+      setUpdatesErr(e?.message ?? "Failed to post update");
+      setTimeout(() => setUpdatesErr(""), 3000);
+    } finally {
+      setPostingUpdate(false);
+    }
+  }
+
+  // Blocked before submit: logged for admins (redacted), best effort
+  function reportPhiBlock(field: PhiField, atUnit: string | null, text: string, findings: PhiFinding[]) {
+    if (!supabase || !facilityId) return;
+    logPhiBlock(supabase, { facilityId, unit: atUnit, field, text, findings: blockingPhi(findings) }).catch(() => {});
+  }
+
+  async function queueHandoffOp(op: NewOutboxOp, failMsg: string) {
+    if (!sessionUserId) return;
+    try {
+      await enqueue(sessionUserId, op);
+      await refreshOutbox();
+      await syncOutbox();
+    } catch (e: any) {
+      setHandoffErr(e?.message ?? failMsg);
+      setTimeout(() => setHandoffErr(""), 3000);
+    }
+  }
+
+  async function setStatus(to: HandoffStatus) {
+    if (!supabase) return;
+    if (!selected) return;
+    if (!canSetStatus(memberships, selected, to)) {
+      setHandoffErr(`You can't move this handoff to ${STATUS_LABEL[to]}.`);
+      setTimeout(() => setHandoffErr(""), 3000);
+      return;
+    }
+
+    await queueHandoffOp(
+      {
+        kind: "set_status",
+        handoff_id: selected.id,
+        from: selected.status,
+        to,
+        queued_at: new Date().toISOString(),
+      },
+      "Failed to update status"
+    );
+  }
+
+  async function editHandoff(patch: Partial<HandoffEditable>) {
+    if (!supabase) return;
+    if (!selected) return;
+
+    const base: Partial<HandoffEditable> = {};
+    for (const f of Object.keys(patch) as (keyof HandoffEditable)[]) setField(base, f, selected[f]);
+
+    await queueHandoffOp(
+      { kind: "edit_handoff", handoff_id: selected.id, base, patch, queued_at: new Date().toISOString() },
+      "Failed to save changes"
+    );
+  }
+
+  async function assignTo(userId: string | null, name?: string) {
+    if (!supabase) return;
+    if (!selected) return;
+    if ((selected.assignee_user_id ?? null) === userId) return;
+
+    await queueHandoffOp(
+      {
+        kind: "assign",
+        handoff_id: selected.id,
+        from: selected.assignee_user_id ?? null,
+        to: userId,
+        to_name: name,
+        queued_at: new Date().toISOString(),
+      },
+      "Failed to change owner"
+    );
+  }
+
+  async function setDeleted(deleted: boolean) {
+    if (!supabase) return;
+    if (!selected) return;
+
+    await queueHandoffOp(
+      { kind: "set_deleted", handoff_id: selected.id, deleted, queued_at: new Date().toISOString() },
+      deleted ? "Failed to delete" : "Failed to restore"
+    );
+  }
+
+  /* =========================
+     UI HELPERS
+  ========================= */
+  function openDetails(id: string) {
+    route.showHandoff(id);
+    setSelectedId(id);
+  }
+
+  function exportHistory() {
+    if (!selected) return;
+    const name = selected.ref != null ? `handoff-${selected.ref}` : `handoff-${selected.id.slice(0, 8)}`;
+    downloadText(`${name}-history.csv`, historyCsv(selected, timeline));
+  }
+
+  async function runExport(task: () => Promise<void>) {
+    if (exporting) return;
+    setExporting(true);
+    try {
+      await task();
+    } catch (e: any) {
+      setHandoffErr(e?.message ?? "Export failed");
+      setTimeout(() => setHandoffErr(""), 4000);
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  function exportList(format: "csv" | "pdf") {
+    if (!supabase) return;
+    const params = writeFilterParams(new URLSearchParams({ facility: facilityId, format }), filter);
+    if (!allUnits) params.set("unit", unit);
+    runExport(() => downloadExport(supabase, exportPath("/api/export/list", params)));
+  }
+
+  function printShiftSummary() {
+    if (!supabase) return;
+    const path = exportPath("/api/export/shift-summary", {
+      facility: facilityId,
+      unit: allUnits ? null : unit,
+      shift: draft.shift,
+      format: "html",
+    });
+    runExport(() => openPrintable(supabase, path));
+  }
+
+  function exportHandoffPdf() {
+    if (!supabase) return;
+    if (!selected) return;
+    const path = exportPath(`/api/export/handoff/${selected.id}`, { format: "pdf" });
+    runExport(() => downloadExport(supabase, path));
+  }
+
+  // Opens a handoff that may live in another facility/unit (switches context)
+  async function openHandoffById(id: string) {
+    if (!supabase) return;
+    if (visibleHandoffs.some((h) => h.id === id)) {
+      openDetails(id);
+      return;
+    }
+    let data: Handoff | null = null;
+    try {
+      data = await getHandoff(supabase, id);
+    } catch (e: any) {
+      setHandoffErr(e?.message ?? "Handoff not found.");
+      setTimeout(() => setHandoffErr(""), 3000);
+      return;
+    }
+    if (!data) {
+      setHandoffErr("Handoff not found.");
+      setTimeout(() => setHandoffErr(""), 3000);
+      return;
+    }
+    if (data.facility_id) setFacilityId(data.facility_id);
+    if (data.unit) setUnit(data.unit);
+    openDetails(id);
+  }
+
+  async function handleScan(text: string) {
+    setPanel(null);
+    if (!supabase) return;
+
+    const scan = parseScan(text);
+    if (!scan) return;
+    if (scan.kind === "handoff") {
+      await openHandoffById(scan.id);
+      return;
+    }
+
+    try {
+      const { item, location, priority } = await lookupScan(supabase, scan);
+      if (!item && !location) {
+        setCreateMsg(`Nothing found for "${text.slice(0, 40)}".`);
+        setTimeout(() => setCreateMsg(""), 3000);
+        return;
+      }
+      if (location) {
+        setFacilityId(location.facility_id);
+        setUnit(location.unit);
+      }
+      setDraft((d) => ({
+        ...d,
+        title: item ? `Short: ${item.description}` : `Bin ${location!.label ?? location!.code}: `,
+        priority,
+        source: "scan",
+        lines: item ? [...d.lines, newDraftLine(item, newClientId())] : d.lines,
+        showLines: d.showLines || !!item,
+      }));
+      setCreateMsg(
+        `Scanned ${item ? `#${item.item_number}` : `bin ${location!.code}`}` +
+          (location ? ` · ${location.unit}` : "")
+      );
+      setTimeout(() => setCreateMsg(""), 3000);
+    } catch (e: any) {
+      setCreateMsg(e?.message ?? "Scan lookup failed");
+      setTimeout(() => setCreateMsg(""), 3000);
+    }
+  }
+
+  function clearSelection() {
+    setSelectedId(null);
+    setUpdates([]);
+    setUpdatesErr("");
+    setUpdateText("");
+  }
+
+  function closeDrawer() {
+    clearSelection();
+    route.leaveHandoff();
+  }
+
+  /* =========================
+     GUARD: missing env / AUTH GATE (MAGIC LINK)
+  ========================= */
+  if (!supabase || !sessionUserId) {
+    return <AuthGate supabase={supabase} error={authError} build={BUILD_TAG} />;
+  }
+  if (route.block) return <RouteNotice kind={route.block.kind} path={route.block.path} />;
+
+  /* =========================
+     MAIN APP
+  ========================= */
+  const photosByUpdate = groupAttachments(attachments);
+  const openPhotos = (photos: HandoffAttachment[], index: number) => setViewer({ photos, index });
+
+  const composer = (
+    <UpdateComposer
+      value={updateText}
+      onChange={setUpdateText}
+      findings={updatePhi}
+      replyTo={replyTo}
+      onCancelReply={() => setReplyTo(null)}
+      people={mentions.mentionable}
+      authorId={sessionUserId}
+      photos={draftPhotos}
+      onPhotos={setDraftPhotos}
+      posting={postingUpdate}
+      onPost={addUpdate}
+    />
+  );
+
+  // Desktop side panel and mobile drawer (sheet) show the same details
+  const renderDetails = (sheet: boolean) =>
+    selected && (
+      <HandoffDetails
+        supabase={supabase}
+        handoff={selected}
+        pending={pending.has(selected.id)}
+        slaConfig={slaConfig}
+        now={now}
+        people={people}
+        sessionUserId={sessionUserId}
+        memberships={memberships}
+        units={unitsFor(directory, selected.facility_id ?? facilityId)}
+        phiPatterns={phiPatterns}
+        onAssign={assignTo}
+        onSetStatus={setStatus}
+        onEdit={editHandoff}
+        onSetDeleted={setDeleted}
+        onPhiBlocked={(text, findings) => {
+          reportPhiBlock("title", selected.unit, text, findings);
+          setHandoffErr(`Remove patient info first (${phiSummary(blockingPhi(findings))}).`);
+          setTimeout(() => setHandoffErr(""), 3000);
+        }}
+        lines={visibleLines}
+        loadingLines={loadingLines}
+        linesError={linesErr}
+        photos={photosByUpdate.get("") ?? []}
+        photoUrls={photoUrls}
+        photoError={photos.error}
+        uploadingPhotos={photos.uploading}
+        onAddPhotos={(files) => photos.upload(files, null)}
+        onOpenPhoto={openPhotos}
+        onClose={sheet ? closeDrawer : undefined}
+      >
+        <UpdateTimeline
+          timeline={timeline}
+          loading={loadingUpdates}
+          error={updatesErr}
+          auditError={auditErr}
+          pending={pending}
+          myHandle={myHandle}
+          replyingTo={replyTo?.id ?? null}
+          onReply={setReplyTo}
+          photos={photosByUpdate}
+          photoUrls={photoUrls}
+          onOpenPhoto={openPhotos}
+          onExportCsv={exportHistory}
+          onExportPdf={exportHandoffPdf}
+          exportDisabled={exporting || pending.has(selected.id)}
+          scroll={!sheet}
+        >
+          {composer}
+        </UpdateTimeline>
+      </HandoffDetails>
+    );
+
+  return (
+    <main className="min-h-screen">
+      {/* GLOBAL ANIMATIONS / GLOW */}
+      <style jsx global>{`
+        @keyframes csPulse {
+          0% {
+            transform: scale(1);
+            filter: brightness(1);
+          }
+          50% {
+            transform: scale(1.01);
+            filter: brightness(1.2);
+          }
+          100% {
+            transform: scale(1);
+            filter: brightness(1);
+          }
+        }
+        .cs-card-glow {
+          box-shadow: 0 0 0 1px rgba(255, 255, 255, 0.08),
+            0 10px 30px rgba(0, 0, 0, 0.35),
+            0 0 28px rgba(255, 255, 255, 0.06);
+        }
+        .cs-critical-pulse {
+          animation: csPulse 1.3s ease-in-out infinite;
+        }
+      `}</style>
+
+      {/* TOP BAR */}
+      <BoardHeader
+        build={BUILD_TAG}
+        facilityId={facilityId}
+        unitLabel={allUnits ? "All units" : unit}
+        role={myRole && roleLabel[myRole]}
+        liveStatus={liveStatus}
+        pendingCount={outboxOps.length}
+        displayName={displayName}
+        canEditProfile={!!profile}
+        shiftChangeDisabled={allUnits}
+        unreadMentions={mentions.unread}
+        onProfile={() => setPanel("profile")}
+        onRefresh={() => {
+          // real refetch (realtime keeps things current between refreshes)
+          reloadHandoffs();
+          reloadUpdates();
+        }}
+        onShiftChange={() => setPanel("shiftReport")}
+        onMentions={() => setPanel("mentions")}
+        onSignOut={signOut}
+      />
+
+      {/* CONTEXT + CREATE (Sticky on mobile) */}
+      <ContextBar
+        sectionRef={createSectionRef}
+        directory={directory}
+        facilityId={facilityId}
+        unit={unit}
+        onFacility={(id) => {
+          setFacilityId(id);
+          setSelectedId(null);
+        }}
+        onUnit={(code) => {
+          setUnit(code);
+          setSelectedId(null);
+        }}
+        displayName={displayName}
+        roleTitle={profile?.role_title ?? null}
+        onProfile={profile ? () => setPanel("profile") : undefined}
+        onPhiLog={canManage ? () => setPanel("phiAdmin") : undefined}
+        onManage={canManage ? () => setPanel("directory") : undefined}
+        create={
+          <CreateHandoffForm
+            supabase={supabase}
+            draft={draft}
+            onChange={patchDraft}
+            phiPatterns={phiPatterns}
+            creating={creating}
+            disabled={allUnits}
+            message={createMsg}
+            onCreate={createHandoff}
+            onScan={() => setPanel("scanner")}
+            templates={templates}
+            onQuickCreate={quickCreate}
+            onManageTemplates={canLead ? () => setPanel("templates") : undefined}
+          />
+        }
+        errors={[handoffErr, directoryErr, profileErr, outboxErr && `Sync failed: ${outboxErr}`]}
+        notice={
+          directoryLoaded && !directoryErr && directory.facilities.length === 0
+            ? memberships.length === 0
+              ? "You don't have access to any facility yet. Ask an admin to add you."
+              : "No facilities in the directory yet. Use Manage to add your facility and units."
+            : null
+        }
+      >
+        <SyncConflicts
+          conflicts={conflicts}
+          handoffs={visibleHandoffs}
+          onApply={applyConflictAnyway}
+          onDiscard={discardConflict}
+        />
+      </ContextBar>
+
+      {/* BODY */}
+      <section className="mx-auto max-w-6xl px-4 pb-12 pt-4 md:pt-6">
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_420px] gap-4 md:gap-6">
+          <HandoffList
+            handoffs={sortedHandoffs}
+            loading={loadingHandoffs}
+            filtered={isFilterActive(filter)}
+            mineOnly={filter.assignee === "me"}
+            onMineOnly={(on) => setFilter((f) => ({ ...f, assignee: on ? "me" : "any" }))}
+            showDeleted={showDeleted}
+            onShowDeleted={setShowDeleted}
+            exporting={exporting}
+            onExport={exportList}
+            onPrintSummary={printShiftSummary}
+            unitSummaries={unitSummaries}
+            onPickUnit={setUnit}
+            people={people}
+            sessionUserId={sessionUserId}
+            selectedId={selectedId}
+            pending={pending}
+            slaConfig={slaConfig}
+            now={now}
+            onOpen={openDetails}
+            hasMore={!!closedCursor}
+            loadingMore={loadingMore}
+            onLoadMore={loadMoreClosed}
+            archived={search.archived}
+          >
+            <FilterBar
+              filter={filter}
+              onChange={setFilter}
+              searching={search.searching}
+              error={search.error}
+              views={search.views}
+              onSaveView={search.saveCurrentView}
+              onDeleteView={search.removeView}
+              onCopyLink={search.copyViewLink}
+            />
+          </HandoffList>
+
+          {/* DETAILS (side panel on desktop, bottom sheet on mobile) */}
+          <HandoffDrawer open={!!selected} mobile={isMobile} onClose={closeDrawer}>
+            {renderDetails}
+          </HandoffDrawer>
+        </div>
+      </section>
+
+      {/* PHOTO VIEWER */}
+      {viewer && selected && (
+        <PhotoViewer
+          photos={viewer.photos.filter((p) => attachments.some((a) => a.id === p.id))}
+          startIndex={viewer.index}
+          urls={photoUrls}
+          people={people}
+          canDelete={(a) => canDeletePhoto(memberships, selected, a, sessionUserId)}
+          onDelete={photos.remove}
+          onClose={() => setViewer(null)}
+        />
+      )}
+
+      {/* SCANNER / ADMIN / INBOX / PROFILE */}
+      <BoardPanels
+        panel={panel}
+        onPanel={setPanel}
+        supabase={supabase}
+        sessionUserId={sessionUserId}
+        sessionEmail={sessionEmail}
+        directory={directory}
+        memberships={memberships}
+        facilityId={facilityId}
+        unit={unit}
+        profile={profile}
+        displayName={displayName}
+        myHandle={myHandle}
+        templates={templates}
+        phiPatterns={phiPatterns}
+        mentionsTick={mentions.tick}
+        defaultShift={draft.shift}
+        canLead={canLead}
+        onScan={handleScan}
+        onOpenHandoff={openHandoffById}
+        onDirectoryChanged={reloadDirectory}
+        onTemplatesChanged={() => setTemplatesTick((t) => t + 1)}
+        onPhiChanged={reloadPhiPatterns}
+        onProfileSaved={setProfile}
+        onMentionsChanged={mentions.reload}
+      />
+    </main>
+  );
+}
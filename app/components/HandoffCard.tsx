@@ -0,0 +1,121 @@
+"use client";
+
+import React from "react";
+import SlaChip from "./SlaChip";
+import { cx, fmtTime } from "../lib/format";
+import { isClosed, isDeleted, STATUS_LABEL } from "../lib/lifecycle";
+import type { SlaConfig } from "../lib/sla";
+import type { Handoff } from "../lib/types";
+
+// One row of the handoff list. Unresolved Critical pulses; unowned Critical is flagged.
+export default function HandoffCard({
+  handoff: h,
+  owner,
+  selected,
+  pending,
+  slaConfig,
+  now,
+  onOpen,
+}: {
+  handoff: Handoff;
+  owner: string | null; // assignee label, null = unassigned
+  selected: boolean;
+  pending: boolean; // queued in the outbox, not synced yet
+  slaConfig: SlaConfig;
+  now: number;
+  onOpen: (id: string) => void;
+}) {
+  const unresolved = !isClosed(h.status);
+  const criticalUnresolved = unresolved && h.priority === "Critical";
+  const followup = h.status === "needs_followup";
+
+  return (
+    <button
+      onClick={() => onOpen(h.id)}
+      className={cx(
+        "w-full text-left rounded-2xl border border-white/10 bg-black/25 p-4",
+        "hover:bg-black/35 transition",
+        "cs-card-glow",
+        selected && "outline outline-2 outline-white/20",
+        criticalUnresolved && "cs-critical-pulse",
+        criticalUnresolved && !owner && "border-red-300/40"
+      )}
+      style={{
+        boxShadow: criticalUnresolved
+          ? "0 0 0 1px rgba(255,255,255,.10), 0 0 36px rgba(255,80,80,.16), 0 18px 50px rgba(0,0,0,.45)"
+          : "0 0 0 1px rgba(255,255,255,.08), 0 16px 40px rgba(0,0,0,.35)",
+      }}
+    >
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span
+              className={cx(
+                "text-xs rounded-full px-2 py-1 border",
+                h.priority === "Critical"
+                  ? "border-red-300/30 bg-red-500/10"
+                  : h.priority === "High"
+                  ? "border-yellow-300/30 bg-yellow-500/10"
+                  : "border-white/10 bg-white/5"
+              )}
+            >
+              {h.priority}
+            </span>
+            {followup && (
+              <span className="text-xs rounded-full px-2 py-1 border border-sky-300/30 bg-sky-500/10">
+                Follow-up
+              </span>
+            )}
+            {(h.status === "in_progress" || h.status === "reopened") && (
+              <span className="text-xs rounded-full px-2 py-1 border border-white/10 bg-white/5">
+                {STATUS_LABEL[h.status]}
+              </span>
+            )}
+            {isClosed(h.status) && (
+              <span
+                className={cx(
+                  "text-xs rounded-full px-2 py-1 border",
+                  h.status === "resolved"
+                    ? "border-emerald-300/30 bg-emerald-500/10"
+                    : "border-white/10 bg-white/5 opacity-80"
+                )}
+              >
+                {STATUS_LABEL[h.status]}
+              </span>
+            )}
+            {isDeleted(h) && (
+              <span className="text-xs rounded-full px-2 py-1 border border-red-300/30 bg-red-500/10">
+                Deleted
+              </span>
+            )}
+            {pending && (
+              <span className="text-xs rounded-full px-2 py-1 border border-sky-300/30 bg-sky-500/5 opacity-80">
+                Pending sync
+              </span>
+            )}
+            <SlaChip handoff={h} config={slaConfig} now={now} />
+            {owner ? (
+              <span className="text-xs opacity-70">Owner: {owner}</span>
+            ) : (
+              criticalUnresolved && (
+                <span className="text-xs rounded-full px-2 py-1 border border-red-300/40 bg-red-500/15">
+                  Unassigned
+                </span>
+              )
+            )}
+            <span className="text-xs opacity-60">Shift: {h.shift ?? "—"}</span>
+          </div>
+
+          <div className="mt-2 text-base font-medium break-words">{h.title}</div>
+
+          <div className="mt-2 text-xs opacity-60">
+            {h.ref != null && <>#{h.ref} · </>}
+            {h.facility_id ?? "—"} · {h.unit ?? "—"} · {fmtTime(h.created_at)}
+          </div>
+        </div>
+
+        <div className="text-xs opacity-60 whitespace-nowrap">{unresolved ? "Open" : "Closed"}</div>
+      </div>
+    </button>
+  );
+}
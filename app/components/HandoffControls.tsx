@@ -0,0 +1,206 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { cx } from "../lib/format";
+import { diffEdit, HandoffEditable, isDeleted, STATUS_LABEL, TRANSITIONS } from "../lib/lifecycle";
+import { blockingPhi, PhiFinding, PhiPattern, redactPhi, scanPhi } from "../lib/phi";
+import { canDelete, canDowngradeCritical, canSetStatus, Membership } from "../lib/roles";
+import type { Handoff, HandoffStatus, Priority, Shift, Unit } from "../lib/types";
+import PhiWarning from "./PhiWarning";
+
+/* =========================================================
+   HANDOFF CONTROLS (details panel + mobile drawer)
+   - Status: only the transitions lifecycle + role allow are offered
+   - Edit mode: title / priority / shift / unit (title PHI-screened)
+   - Soft delete + restore
+========================================================= */
+
+const inputCls = "mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm outline-none";
+const linkCls = "text-xs opacity-70 hover:opacity-100 underline underline-offset-2";
+
+export default function HandoffControls({
+  handoff,
+  units,
+  memberships,
+  sessionUserId,
+  phiPatterns,
+  onSetStatus,
+  onEdit,
+  onSetDeleted,
+  onPhiBlocked,
+}: {
+  handoff: Handoff;
+  units: Unit[];
+  memberships: Membership[];
+  sessionUserId: string | null;
+  phiPatterns: PhiPattern[];
+  onSetStatus: (to: HandoffStatus) => void;
+  onEdit: (patch: Partial<HandoffEditable>) => void;
+  onSetDeleted: (deleted: boolean) => void;
+  onPhiBlocked: (text: string, findings: PhiFinding[]) => void;
+}) {
+  const [editing, setEditing] = useState<boolean>(false);
+  const [draft, setDraft] = useState<HandoffEditable>(handoff);
+
+  // Switching handoffs (or a live change while not editing) resets the form
+  useEffect(() => {
+    if (!editing) setDraft(handoff);
+  }, [handoff, editing]);
+  useEffect(() => {
+    setEditing(false);
+  }, [handoff.id]);
+
+  const deleted = isDeleted(handoff);
+  const next = TRANSITIONS[handoff.status];
+  const lockCritical = handoff.priority === "Critical" && !canDowngradeCritical(memberships, handoff);
+  const patch = diffEdit(handoff, draft);
+  const dirty = Object.keys(patch).length > 0;
+  const titlePhi = useMemo(
+    () => (editing && draft.title !== handoff.title ? scanPhi(draft.title, phiPatterns) : []),
+    [editing, draft.title, handoff.title, phiPatterns]
+  );
+
+  function save() {
+    if (!draft.title.trim()) return;
+    if (blockingPhi(titlePhi).length > 0) {
+      onPhiBlocked(draft.title, titlePhi);
+      return;
+    }
+    if (dirty) onEdit(patch);
+    setEditing(false);
+  }
+
+  return (
+    <div className="mt-3">
+      {deleted && (
+        <div className="mb-2 rounded-xl border border-red-300/30 bg-red-500/10 px-3 py-2 text-xs">
+          Deleted — hidden from lists until restored.
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <label className="flex items-center gap-2 text-sm">
+          <span className="text-xs opacity-70">Status</span>
+          <select
+            value={handoff.status}
+            disabled={deleted}
+            onChange={(e) => onSetStatus(e.target.value as HandoffStatus)}
+            className="rounded-xl border border-white/10 bg-black/30 px-2 py-1 text-sm outline-none"
+          >
+            <option value={handoff.status}>{STATUS_LABEL[handoff.status]}</option>
+            {next.map((s) => (
+              <option key={s} value={s} disabled={!canSetStatus(memberships, handoff, s)}>
+                → {STATUS_LABEL[s]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div className="flex items-center gap-3">
+          {!deleted && !editing && (
+            <button onClick={() => setEditing(true)} className={linkCls}>
+              Edit
+            </button>
+          )}
+          {canDelete(memberships, handoff, sessionUserId) && (
+            <button
+              onClick={() => {
+                if (deleted || window.confirm("Delete this handoff? It can be restored later.")) {
+                  onSetDeleted(!deleted);
+                }
+              }}
+              className={linkCls}
+            >
+              {deleted ? "Restore" : "Delete"}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {editing && (
+        <div className="mt-3 rounded-xl border border-white/10 bg-black/30 p-3 grid grid-cols-2 gap-2">
+          <div className="col-span-2">
+            <label className="text-xs opacity-70">Title</label>
+            <input
+              value={draft.title}
+              onChange={(e) => setDraft((d) => ({ ...d, title: e.target.value }))}
+              maxLength={200}
+              className={inputCls}
+            />
+            <PhiWarning
+              findings={titlePhi}
+              onRedact={() => setDraft((d) => ({ ...d, title: redactPhi(d.title, titlePhi) }))}
+              className="mt-2"
+            />
+          </div>
+          <div>
+            <label className="text-xs opacity-70">Priority</label>
+            <select
+              value={draft.priority}
+              onChange={(e) => setDraft((d) => ({ ...d, priority: e.target.value as Priority }))}
+              disabled={lockCritical}
+              className={inputCls}
+              title={lockCritical ? "Only a shift lead can downgrade a Critical" : undefined}
+            >
+              <option value="Low">Low</option>
+              <option value="Normal">Normal</option>
+              <option value="High">High</option>
+              <option value="Critical">Critical</option>
+            </select>
+          </div>
+          <div>
+            <label className="text-xs opacity-70">Shift</label>
+            <select
+              value={draft.shift ?? ""}
+              onChange={(e) => setDraft((d) => ({ ...d, shift: (e.target.value || null) as Shift | null }))}
+              className={inputCls}
+            >
+              <option value="">—</option>
+              <option value="AM">AM</option>
+              <option value="PM">PM</option>
+              <option value="NOC">NOC</option>
+            </select>
+          </div>
+          <div className="col-span-2">
+            <label className="text-xs opacity-70">Unit</label>
+            <select
+              value={draft.unit ?? ""}
+              onChange={(e) => setDraft((d) => ({ ...d, unit: e.target.value }))}
+              className={inputCls}
+            >
+              {!units.some((u) => u.code === draft.unit) && (
+                <option value={draft.unit ?? ""}>{draft.unit ?? "—"}</option>
+              )}
+              {units.map((u) => (
+                <option key={u.code} value={u.code}>
+                  {u.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="col-span-2 flex items-center justify-end gap-2">
+            <button
+              onClick={() => {
+                setDraft(handoff);
+                setEditing(false);
+              }}
+              className="rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 px-3 py-2 text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={save}
+              disabled={!draft.title.trim()}
+              className={cx(
+                "rounded-xl border border-white/10 px-3 py-2 text-sm",
+                draft.title.trim() ? "bg-white/10 hover:bg-white/15" : "bg-white/5 opacity-60"
+              )}
+            >
+              {dirty ? "Save changes" : "Done"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
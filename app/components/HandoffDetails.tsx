@@ -0,0 +1,167 @@
+"use client";
+
+import React, { useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../lib/database.types";
+import AssigneeControl from "./AssigneeControl";
+import HandoffControls from "./HandoffControls";
+import HandoffQr from "./HandoffQr";
+import LineItemList from "./LineItemList";
+import PhotoPicker from "./PhotoPicker";
+import PhotoStrip from "./PhotoStrip";
+import SlaChip from "./SlaChip";
+import { fmtTime } from "../lib/format";
+import { HandoffEditable, isClosed, STATUS_LABEL } from "../lib/lifecycle";
+import type { PeopleIndex } from "../lib/assignment";
+import type { PhiFinding, PhiPattern } from "../lib/phi";
+import type { PhotoUrls } from "../lib/photos";
+import type { Membership } from "../lib/roles";
+import type { SlaConfig } from "../lib/sla";
+import type { Handoff, HandoffAttachment, HandoffLineItem, HandoffStatus, Unit } from "../lib/types";
+
+// The open handoff: header, owner, status / edit / delete, items, photos.
+// Same body in the desktop side panel and the mobile drawer (onClose = drawer);
+// the updates timeline goes in as children.
+export default function HandoffDetails({
+  supabase,
+  handoff,
+  pending,
+  slaConfig,
+  now,
+  people,
+  sessionUserId,
+  memberships,
+  units,
+  phiPatterns,
+  onAssign,
+  onSetStatus,
+  onEdit,
+  onSetDeleted,
+  onPhiBlocked,
+  lines,
+  loadingLines,
+  linesError,
+  photos,
+  photoUrls,
+  photoError,
+  uploadingPhotos,
+  onAddPhotos,
+  onOpenPhoto,
+  onClose,
+  children,
+}: {
+  supabase: SupabaseClient<Database>;
+  handoff: Handoff;
+  pending: boolean; // queued in the outbox, not synced yet
+  slaConfig: SlaConfig;
+  now: number;
+  people: PeopleIndex;
+  sessionUserId: string | null;
+  memberships: Membership[];
+  units: Unit[];
+  phiPatterns: PhiPattern[];
+  onAssign: (userId: string | null, name?: string) => void;
+  onSetStatus: (to: HandoffStatus) => void;
+  onEdit: (patch: Partial<HandoffEditable>) => void;
+  onSetDeleted: (deleted: boolean) => void;
+  onPhiBlocked: (text: string, findings: PhiFinding[]) => void;
+  lines: HandoffLineItem[];
+  loadingLines: boolean;
+  linesError?: string;
+  photos: HandoffAttachment[]; // on the handoff itself (not on an update)
+  photoUrls: PhotoUrls;
+  photoError?: string;
+  uploadingPhotos: boolean;
+  onAddPhotos: (files: File[]) => void;
+  onOpenPhoto: (photos: HandoffAttachment[], index: number) => void;
+  onClose?: () => void;
+  children?: React.ReactNode;
+}) {
+  const [showQr, setShowQr] = useState<boolean>(false);
+  const h = handoff;
+
+  return (
+    <>
+      <div className="mt-3 flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="text-xs rounded-full px-2 py-1 border border-white/10 bg-white/5">{h.priority}</span>
+            <span className="text-xs opacity-60">Shift: {h.shift ?? "—"}</span>
+            <span className="text-xs opacity-60">{fmtTime(h.created_at)}</span>
+            <SlaChip handoff={h} config={slaConfig} now={now} />
+            {h.status === "needs_followup" && (
+              <span className="text-xs rounded-full px-2 py-1 border border-sky-300/30 bg-sky-500/10">
+                Follow-up
+              </span>
+            )}
+            {isClosed(h.status) && (
+              <span className="text-xs rounded-full px-2 py-1 border border-emerald-300/30 bg-emerald-500/10">
+                {STATUS_LABEL[h.status]}
+              </span>
+            )}
+            {pending && (
+              <span className="text-xs rounded-full px-2 py-1 border border-sky-300/30 bg-sky-500/5 opacity-80">
+                Pending sync
+              </span>
+            )}
+          </div>
+          <div className="mt-2 text-lg font-semibold break-words">{h.title}</div>
+          <div className="mt-2 text-xs opacity-60">
+            {h.ref != null && <>#{h.ref} · </>}
+            {h.facility_id ?? "—"} · {h.unit ?? "—"} ·{" "}
+            <button onClick={() => setShowQr((v) => !v)} className="underline underline-offset-2">
+              {showQr ? "Hide QR" : "QR"}
+            </button>
+          </div>
+          {showQr && <HandoffQr handoffId={h.id} />}
+        </div>
+
+        {onClose && (
+          <button
+            onClick={onClose}
+            className="rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 px-3 py-2 text-sm"
+          >
+            Close
+          </button>
+        )}
+      </div>
+
+      <AssigneeControl
+        supabase={supabase}
+        handoff={h}
+        people={people}
+        sessionUserId={sessionUserId}
+        onAssign={onAssign}
+      />
+
+      <HandoffControls
+        handoff={h}
+        units={units}
+        memberships={memberships}
+        sessionUserId={sessionUserId}
+        onSetStatus={onSetStatus}
+        onEdit={onEdit}
+        onSetDeleted={onSetDeleted}
+        phiPatterns={phiPatterns}
+        onPhiBlocked={onPhiBlocked}
+      />
+
+      <LineItemList lines={lines} loading={loadingLines} error={linesError} />
+
+      <div className="mt-4">
+        <div className="flex items-center justify-between gap-2">
+          <div className="text-xs opacity-70">Photos</div>
+          <PhotoPicker
+            onFiles={onAddPhotos}
+            disabled={uploadingPhotos || pending}
+            label={uploadingPhotos ? "Uploading…" : "Add photo"}
+          />
+        </div>
+        {photoError && <div className="mt-1 text-xs text-red-300">{photoError}</div>}
+        <PhotoStrip photos={photos} urls={photoUrls} onOpen={onOpenPhoto} />
+      </div>
+
+      {children}
+    </>
+  );
+}
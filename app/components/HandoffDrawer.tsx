@@ -0,0 +1,42 @@
+"use client";
+
+import React from "react";
+
+// Where the open handoff's details show: a side panel next to the list on desktop,
+// a bottom sheet over the page on mobile. `children` renders the details for either
+// (sheet = true adds the close button and lets the sheet scroll as a whole).
+export default function HandoffDrawer({
+  open,
+  mobile,
+  onClose,
+  children,
+}: {
+  open: boolean; // a handoff is selected
+  mobile: boolean;
+  onClose: () => void;
+  children: (sheet: boolean) => React.ReactNode;
+}) {
+  return (
+    <>
+      <aside className="hidden md:block">
+        <div className="rounded-2xl border border-white/10 bg-black/25 p-4 cs-card-glow">
+          <div className="text-sm opacity-70">Details</div>
+
+          {open ? children(false) : <div className="mt-3 opacity-70">Select a handoff to view updates.</div>}
+        </div>
+      </aside>
+
+      {mobile && open && (
+        <div className="fixed inset-0 z-[60]">
+          {/* backdrop */}
+          <button onClick={onClose} className="absolute inset-0 bg-black/60" aria-label="Close drawer" />
+          {/* sheet */}
+          <div className="absolute left-0 right-0 bottom-0 rounded-t-3xl border-t border-white/10 bg-black/85 backdrop-blur p-4 max-h-[82vh] overflow-auto">
+            {children(true)}
+            <div className="h-4" />
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import React, { useEffect, useRef } from "react";
+import HandoffCard from "./HandoffCard";
+import ArchivedResults from "./ArchivedResults";
+import { cx } from "../lib/format";
+import { assigneeLabel, PeopleIndex } from "../lib/assignment";
+import type { UnitSummary } from "../lib/directory";
+import type { SlaConfig } from "../lib/sla";
+import type { ArchivedHandoff, Handoff } from "../lib/types";
+
+const linkCls = "opacity-70 hover:opacity-100 underline underline-offset-2";
+
+/* =========================================================
+   HANDOFF LIST (left column)
+   - Count, "My handoffs" / "Show deleted" toggles, list exports
+   - The filter bar goes in as children, above the cards
+   - Overview: per-unit tiles (open / Critical) that switch to the unit
+   - Closed handoffs page in as the sentinel below the list scrolls into view;
+     archived search hits follow
+========================================================= */
+export default function HandoffList({
+  handoffs,
+  loading,
+  filtered,
+  mineOnly,
+  onMineOnly,
+  showDeleted,
+  onShowDeleted,
+  exporting,
+  onExport,
+  onPrintSummary,
+  unitSummaries,
+  onPickUnit,
+  people,
+  sessionUserId,
+  selectedId,
+  pending,
+  slaConfig,
+  now,
+  onOpen,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+  archived,
+  children,
+}: {
+  handoffs: Handoff[]; // filtered + sorted
+  loading: boolean;
+  filtered: boolean; // a filter is active (empty-state wording)
+  mineOnly: boolean;
+  onMineOnly: (on: boolean) => void;
+  showDeleted: boolean;
+  onShowDeleted: (on: boolean) => void;
+  exporting: boolean;
+  onExport: (format: "csv" | "pdf") => void;
+  onPrintSummary: () => void;
+  unitSummaries: UnitSummary[]; // overview only
+  onPickUnit: (code: string) => void;
+  people: PeopleIndex;
+  sessionUserId: string;
+  selectedId: string | null;
+  pending: Set<string>;
+  slaConfig: SlaConfig;
+  now: number;
+  onOpen: (id: string) => void;
+  hasMore: boolean; // older closed pages left
+  loadingMore: boolean;
+  onLoadMore: () => void;
+  archived: ArchivedHandoff[];
+  children?: React.ReactNode;
+}) {
+  const moreRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    const el = moreRef.current;
+    if (!el || !hasMore || loadingMore) return;
+    const io = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((e) => e.isIntersecting)) onLoadMore();
+      },
+      { rootMargin: "400px" }
+    );
+    io.observe(el);
+    return () => io.disconnect();
+  }, [hasMore, loadingMore, onLoadMore]);
+
+  return (
+    <div className="min-w-0">
+      <div className="flex items-center justify-between">
+        <div className="text-sm opacity-70">
+          Handoffs{" "}
+          <span className="opacity-60">
+            ({handoffs.length}
+            {loading ? ", loading…" : ""})
+          </span>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-xs opacity-70">
+            <input type="checkbox" checked={mineOnly} onChange={(e) => onMineOnly(e.target.checked)} />
+            My handoffs
+          </label>
+          <label className="flex items-center gap-2 text-xs opacity-70">
+            <input type="checkbox" checked={showDeleted} onChange={(e) => onShowDeleted(e.target.checked)} />
+            Show deleted
+          </label>
+        </div>
+      </div>
+
+      <div className="mt-2 flex items-center justify-end gap-3 text-xs">
+        <span className="opacity-60">{exporting ? "Exporting…" : "Export"}</span>
+        <button onClick={() => onExport("csv")} disabled={exporting} className={linkCls}>
+          CSV
+        </button>
+        <button onClick={() => onExport("pdf")} disabled={exporting} className={linkCls}>
+          PDF
+        </button>
+        <button
+          onClick={onPrintSummary}
+          disabled={exporting}
+          className={linkCls}
+          title="Printable summary of everything still open"
+        >
+          Shift summary
+        </button>
+      </div>
+
+      {children}
+
+      {unitSummaries.length > 0 && (
+        <div className="mt-3 grid grid-cols-2 md:grid-cols-3 gap-2">
+          {unitSummaries.map(({ unit: u, open, critical }) => (
+            <button
+              key={u.code}
+              onClick={() => onPickUnit(u.code)}
+              className={cx(
+                "text-left rounded-2xl border border-white/10 bg-black/25 hover:bg-black/35 p-3 cs-card-glow",
+                critical > 0 && "border-red-300/30"
+              )}
+            >
+              <div className="text-sm font-medium break-words">{u.name}</div>
+              <div className="mt-1 flex items-center gap-2 text-xs">
+                <span className="opacity-70">{open} open</span>
+                {critical > 0 && (
+                  <span className="rounded-full px-2 py-0.5 border border-red-300/30 bg-red-500/10">
+                    {critical} Critical
+                  </span>
+                )}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-3 space-y-3">
+        {handoffs.length === 0 && !loading && (
+          <div className="rounded-2xl border border-white/10 bg-black/20 p-4 opacity-75">
+            {filtered ? "No handoffs match these filters." : "No handoffs yet."}
+          </div>
+        )}
+
+        {handoffs.map((h) => (
+          <HandoffCard
+            key={h.id}
+            handoff={h}
+            owner={assigneeLabel(h, people, sessionUserId)}
+            selected={selectedId === h.id}
+            pending={pending.has(h.id)}
+            slaConfig={slaConfig}
+            now={now}
+            onOpen={onOpen}
+          />
+        ))}
+      </div>
+
+      {hasMore && (
+        <div ref={moreRef} className="mt-3 text-center">
+          <button onClick={onLoadMore} disabled={loadingMore} className={cx("text-xs", linkCls)}>
+            {loadingMore ? "Loading older…" : "Load older closed handoffs"}
+          </button>
+        </div>
+      )}
+
+      <ArchivedResults results={archived} />
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { handoffQrPayload } from "../lib/barcode";
+
+// QR for a handoff (print / tape to a cart); scanning it opens the handoff
+export default function HandoffQr({ handoffId }: { handoffId: string }) {
+  const [src, setSrc] = useState<string>("");
+
+  useEffect(() => {
+    let alive = true;
+    QRCode.toDataURL(handoffQrPayload(window.location.origin, handoffId), { margin: 1, width: 180 })
+      .then((url) => alive && setSrc(url))
+      .catch(() => alive && setSrc(""));
+    return () => {
+      alive = false;
+    };
+  }, [handoffId]);
+
+  if (!src) return null;
+
+  return (
+    <div className="mt-3 flex items-center gap-3">
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img src={src} alt="Handoff QR code" className="h-[120px] w-[120px] rounded-lg bg-white p-1" />
+      <div className="text-xs opacity-60">Scan to open this handoff on another device.</div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import React from "react";
+import { fmtQty } from "../lib/catalog";
+import type { HandoffLineItem } from "../lib/types";
+
+// Read-only line items for the details panel / mobile drawer
+export default function LineItemList({
+  lines,
+  loading,
+  error,
+}: {
+  lines: HandoffLineItem[];
+  loading?: boolean;
+  error?: string;
+}) {
+  if (!loading && !error && lines.length === 0) return null;
+
+  return (
+    <div className="mt-4 border-t border-white/10 pt-4">
+      <div className="text-sm opacity-70">Items</div>
+      {loading && <div className="mt-2 text-sm opacity-70">Loading…</div>}
+      {error && <div className="mt-2 text-sm text-red-300">{error}</div>}
+
+      <div className="mt-2 space-y-2">
+        {lines.map((l) => (
+          <div key={l.id} className="rounded-xl border border-white/10 bg-black/25 p-3">
+            <div className="text-sm font-medium break-words">{l.item?.description ?? "Unknown item"}</div>
+            <div className="mt-1 text-xs opacity-60">
+              #{l.item?.item_number ?? "—"}
+              {l.item?.bin_location ? ` · Bin ${l.item.bin_location}` : ""}
+              {l.item?.par_level != null ? ` · PAR ${l.item.par_level}` : ""}
+            </div>
+            <div className="mt-1 text-xs opacity-80">
+              Short: {fmtQty(l.qty_short, l.item?.unit_of_measure)} · Needed:{" "}
+              {fmtQty(l.qty_needed, l.item?.unit_of_measure)}
+            </div>
+            {l.substitution && (
+              <div className="mt-1 text-xs opacity-80">Substitution: {l.substitution}</div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { cx } from "../lib/format";
+import { Mentionable, mentionHandle, mentionQueryAt, suggestMentions } from "../lib/mentions";
+
+/* =========================================================
+   MENTION TEXTAREA
+   - Typing "@" + a few letters suggests facility staff; Enter / Tab
+     picks, arrows move, Escape closes
+   - Picks insert the handle (display name without spaces)
+========================================================= */
+
+export default function MentionTextarea({
+  value,
+  onChange,
+  people,
+  excludeUserId,
+  placeholder,
+  className,
+  autoFocus,
+}: {
+  value: string;
+  onChange: (v: string) => void;
+  people: Mentionable[];
+  excludeUserId?: string | null; // the author (no self-mentions)
+  placeholder?: string;
+  className?: string;
+  autoFocus?: boolean;
+}) {
+  const ref = useRef<HTMLTextAreaElement | null>(null);
+  const [query, setQuery] = useState<{ start: number; query: string } | null>(null);
+  const [active, setActive] = useState<number>(0);
+
+  const suggestions = query ? suggestMentions(people, query.query, excludeUserId) : [];
+  const open = suggestions.length > 0;
+
+  function refresh(el: HTMLTextAreaElement) {
+    const q = mentionQueryAt(el.value, el.selectionStart ?? el.value.length);
+    setQuery(q);
+    if (q?.query !== query?.query) setActive(0);
+  }
+
+  function pick(p: Mentionable) {
+    const el = ref.current;
+    if (!el || !query) return;
+    const caret = el.selectionStart ?? value.length;
+    const insert = `@${mentionHandle(p.display_name)} `;
+    const next = value.slice(0, query.start) + insert + value.slice(caret);
+    onChange(next);
+    setQuery(null);
+    const pos = query.start + insert.length;
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(pos, pos);
+    });
+  }
+
+  function onKeyDown(e: React.KeyboardEvent<HTMLTextAreaElement>) {
+    if (!open) return;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActive((i) => (i + step + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      pick(suggestions[Math.min(active, suggestions.length - 1)]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      setQuery(null);
+    }
+  }
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={ref}
+        value={value}
+        autoFocus={autoFocus}
+        onChange={(e) => {
+          onChange(e.target.value);
+          refresh(e.target);
+        }}
+        onKeyDown={onKeyDown}
+        onClick={(e) => refresh(e.currentTarget)}
+        onBlur={() => setTimeout(() => setQuery(null), 150)}
+        placeholder={placeholder}
+        className={className}
+      />
+      {open && (
+        <div className="absolute left-2 right-2 z-20 mt-1 rounded-xl border border-white/10 bg-black/95 p-1 shadow-lg">
+          {suggestions.map((p, i) => (
+            <button
+              key={p.user_id}
+              type="button"
+              onMouseDown={(e) => {
+                e.preventDefault(); // keep focus in the textarea
+                pick(p);
+              }}
+              className={cx(
+                "w-full rounded-lg px-2 py-1.5 text-left text-sm",
+                i === active ? "bg-white/10" : "hover:bg-white/5"
+              )}
+            >
+              {p.display_name}
+              <span className="ml-2 text-xs opacity-60">@{mentionHandle(p.display_name)}</span>
+              {p.role_title && <span className="ml-2 text-xs opacity-50">{p.role_title}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
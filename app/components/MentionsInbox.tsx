@@ -0,0 +1,143 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../lib/database.types";
+import { cx, fmtTime } from "../lib/format";
+import { loadMentionInbox, markMentionsRead, MentionInboxItem } from "../lib/mentions";
+import MessageText from "./MessageText";
+
+/* =========================================================
+   MENTIONS INBOX
+   - Newest first; unread marked; opening one marks it read
+   - Rows whose handoff you can no longer see show as unavailable
+========================================================= */
+
+export default function MentionsInbox({
+  supabase,
+  userId,
+  myHandle,
+  reloadTick,
+  onOpenHandoff,
+  onChanged,
+  onClose,
+}: {
+  supabase: SupabaseClient<Database>;
+  userId: string;
+  myHandle: string | null;
+  reloadTick: number;
+  onOpenHandoff: (id: string) => void;
+  onChanged: () => void; // unread count may have moved
+  onClose: () => void;
+}) {
+  const [items, setItems] = useState<MentionInboxItem[] | null>(null);
+  const [err, setErr] = useState<string>("");
+  const [busy, setBusy] = useState<boolean>(false);
+
+  useEffect(() => {
+    let alive = true;
+    loadMentionInbox(supabase, userId)
+      .then((rows) => alive && setItems(rows))
+      .catch((e: any) => alive && setErr(e?.message ?? "Failed to load mentions"));
+    return () => {
+      alive = false;
+    };
+  }, [supabase, userId, reloadTick]);
+
+  async function markRead(ids?: string[]) {
+    setBusy(true);
+    setErr("");
+    try {
+      await markMentionsRead(supabase, userId, ids);
+      const now = new Date().toISOString();
+      setItems((prev) =>
+        (prev ?? []).map((m) => (!m.read_at && (!ids || ids.includes(m.id)) ? { ...m, read_at: now } : m))
+      );
+      onChanged();
+    } catch (e: any) {
+      setErr(e?.message ?? "Failed to mark read");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function open(m: MentionInboxItem) {
+    if (!m.read_at) markRead([m.id]);
+    onOpenHandoff(m.handoff_id);
+    onClose();
+  }
+
+  const unread = (items ?? []).filter((m) => !m.read_at).length;
+
+  return (
+    <div className="fixed inset-0 z-[70]">
+      <button onClick={onClose} className="absolute inset-0 bg-black/60" aria-label="Close mentions" />
+
+      <div className="absolute left-0 right-0 bottom-0 md:left-1/2 md:top-16 md:bottom-auto md:w-[560px] md:-translate-x-1/2 rounded-t-3xl md:rounded-3xl border border-white/10 bg-black/85 backdrop-blur p-4 max-h-[88vh] overflow-auto">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <div className="text-xs opacity-70">Mentions</div>
+            <div className="mt-1 text-lg font-semibold">{unread > 0 ? `${unread} unread` : "All caught up"}</div>
+          </div>
+          <div className="flex items-center gap-2">
+            {unread > 0 && (
+              <button
+                onClick={() => markRead()}
+                disabled={busy}
+                className="rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 px-3 py-2 text-sm"
+              >
+                Mark all read
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 px-3 py-2 text-sm"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+
+        {err && <div className="mt-3 text-sm text-red-300">{err}</div>}
+        {!items && !err && <div className="mt-4 text-sm opacity-70">Loading…</div>}
+        {items && items.length === 0 && (
+          <div className="mt-4 text-sm opacity-70">Nobody has mentioned you yet.</div>
+        )}
+
+        <div className="mt-4 space-y-2">
+          {(items ?? []).map((m) => (
+            <button
+              key={m.id}
+              onClick={() => open(m)}
+              disabled={!m.handoff}
+              className={cx(
+                "w-full text-left rounded-2xl border p-3",
+                m.read_at ? "border-white/10 bg-white/5" : "border-sky-300/30 bg-sky-500/10",
+                m.handoff ? "hover:bg-white/10" : "opacity-60"
+              )}
+            >
+              <div className="flex items-center justify-between gap-2 text-xs opacity-70">
+                <span className="truncate">
+                  {m.handoff
+                    ? `${m.handoff.ref != null ? `#${m.handoff.ref} · ` : ""}${m.handoff.title}`
+                    : "Handoff unavailable"}
+                </span>
+                <span className="shrink-0">{fmtTime(m.created_at)}</span>
+              </div>
+              {m.update && (
+                <>
+                  <div className="mt-1 text-xs opacity-60">
+                    {m.update.author_display_name_snapshot ?? "—"}
+                    {m.update.parent_update_id && " · reply"}
+                    {m.handoff?.unit && ` · ${m.handoff.unit}`}
+                  </div>
+                  <MessageText text={m.update.message} myHandle={myHandle} className="mt-1 line-clamp-3" />
+                </>
+              )}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
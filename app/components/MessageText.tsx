@@ -0,0 +1,36 @@
+"use client";
+
+import React from "react";
+import { splitMentions } from "../lib/mentions";
+import { cx } from "../lib/format";
+
+// Update text with @mentions highlighted; mentions of the viewer stand out more
+export default function MessageText({
+  text,
+  myHandle,
+  className,
+}: {
+  text: string;
+  myHandle?: string | null; // normalized (lib/mentions normalizeHandle)
+  className?: string;
+}) {
+  return (
+    <div className={cx("text-sm whitespace-pre-wrap break-words", className)}>
+      {splitMentions(text).map((part, i) =>
+        part.handle ? (
+          <span
+            key={i}
+            className={cx(
+              "rounded px-0.5",
+              part.handle === myHandle ? "bg-amber-400/25 text-amber-100 font-semibold" : "text-sky-300"
+            )}
+          >
+            {part.text}
+          </span>
+        ) : (
+          <React.Fragment key={i}>{part.text}</React.Fragment>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../lib/database.types";
+import { loadNotificationPrefs, saveNotificationPrefs } from "../lib/notificationPrefs";
+import { disablePush, enablePush, pushState, PushState } from "../lib/pushClient";
+import type { NotificationPrefs } from "../lib/types";
+
+/* =========================================================
+   NOTIFICATIONS PANEL
+   - Push on/off is per device; what to be told about is per user
+   - Quiet hours use this browser's time zone (saved with the prefs)
+========================================================= */
+
+const inputCls = "mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm outline-none";
+
+const EVENTS: { key: "critical" | "escalation" | "assignment" | "mention"; label: string }[] = [
+  { key: "critical", label: "New Critical handoffs in my units" },
+  { key: "escalation", label: "Escalations (SLA overdue) in my units" },
+  { key: "assignment", label: "Handoffs assigned to me" },
+  { key: "mention", label: "@mentions in updates" },
+];
+
+const STATE_LABEL: Record<PushState, string> = {
+  unsupported: "This browser doesn't support push (on iPhone, add the app to the Home Screen first).",
+  unconfigured: "Push isn't configured on this server.",
+  denied: "Notifications are blocked for this site in the browser settings.",
+  off: "Off on this device.",
+  on: "On for this device.",
+};
+
+function browserTz() {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+}
+
+export default function NotificationsPanel({
+  supabase,
+  userId,
+  onClose,
+}: {
+  supabase: SupabaseClient<Database>;
+  userId: string;
+  onClose: () => void;
+}) {
+  const [prefs, setPrefs] = useState<NotificationPrefs | null>(null);
+  const [device, setDevice] = useState<PushState | null>(null);
+  const [err, setErr] = useState<string>("");
+  const [busy, setBusy] = useState<boolean>(false);
+  const [saved, setSaved] = useState<boolean>(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadNotificationPrefs(supabase, userId, browserTz()), pushState()])
+      .then(([p, s]) => {
+        if (cancelled) return;
+        setPrefs(p);
+        setDevice(s);
+      })
+      .catch((e: any) => !cancelled && setErr(e?.message ?? "Failed to load notification settings"));
+    return () => {
+      cancelled = true;
+    };
+  }, [supabase, userId]);
+
+  function patch(p: Partial<NotificationPrefs>) {
+    setPrefs((prev) => (prev ? { ...prev, ...p } : prev));
+    setSaved(false);
+  }
+
+  async function toggleDevice() {
+    setBusy(true);
+    setErr("");
+    try {
+      if (device === "on") await disablePush(supabase);
+      else await enablePush(supabase);
+    } catch (e: any) {
+      setErr(e?.message ?? "Failed to change push setting");
+    } finally {
+      setDevice(await pushState().catch(() => "unsupported" as PushState));
+      setBusy(false);
+    }
+  }
+
+  async function save() {
+    if (!prefs) return;
+    setBusy(true);
+    setErr("");
+    try {
+      setPrefs(await saveNotificationPrefs(supabase, { ...prefs, timezone: browserTz() }));
+      setSaved(true);
+    } catch (e: any) {
+      setErr(e?.message ?? "Failed to save notification settings");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const quietOn = Boolean(prefs?.quiet_start && prefs?.quiet_end);
+
+  return (
+    <div className="fixed inset-0 z-[70]">
+      <button onClick={onClose} className="absolute inset-0 bg-black/60" aria-label="Close notifications" />
+
+      <div className="absolute left-0 right-0 bottom-0 md:left-1/2 md:top-16 md:bottom-auto md:w-[520px] md:-translate-x-1/2 rounded-t-3xl md:rounded-3xl border border-white/10 bg-black/85 backdrop-blur p-4 max-h-[88vh] overflow-auto">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <div className="text-xs opacity-70">Notifications</div>
+            <div className="mt-1 text-lg font-semibold">Push alerts</div>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 px-3 py-2 text-sm"
+          >
+            Close
+          </button>
+        </div>
+
+        {err && <div className="mt-3 text-sm text-red-300">{err}</div>}
+
+        <div className="mt-4 rounded-2xl border border-white/10 bg-white/5 p-3 flex items-center justify-between gap-3">
+          <div className="text-sm">{device ? STATE_LABEL[device] : "Checking this device…"}</div>
+          {(device === "on" || device === "off") && (
+            <button
+              onClick={toggleDevice}
+              disabled={busy}
+              className="shrink-0 rounded-xl border border-white/10 bg-white/10 hover:bg-white/15 px-3 py-2 text-sm"
+            >
+              {device === "on" ? "Turn off" : "Turn on"}
+            </button>
+          )}
+        </div>
+
+        {!prefs ? (
+          !err && <div className="mt-4 text-sm opacity-70">Loading…</div>
+        ) : (
+          <>
+            <div className="mt-4 text-xs opacity-70">Notify me about</div>
+            <div className="mt-2 space-y-2">
+              {EVENTS.map((ev) => (
+                <label key={ev.key} className="flex items-center gap-2 text-sm">
+                  <input type="checkbox" checked={prefs[ev.key]} onChange={(e) => patch({ [ev.key]: e.target.checked })} />
+                  {ev.label}
+                </label>
+              ))}
+            </div>
+
+            <div className="mt-4 text-xs opacity-70">Quiet hours</div>
+            <label className="mt-2 flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={quietOn}
+                onChange={(e) =>
+                  patch(
+                    e.target.checked
+                      ? { quiet_start: "22:00", quiet_end: "06:00" }
+                      : { quiet_start: null, quiet_end: null }
+                  )
+                }
+              />
+              Hold alerts during quiet hours
+            </label>
+            {quietOn && (
+              <>
+                <div className="mt-2 grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="text-xs opacity-70">From</label>
+                    <input
+                      type="time"
+                      value={(prefs.quiet_start ?? "").slice(0, 5)}
+                      onChange={(e) => patch({ quiet_start: e.target.value || null })}
+                      className={inputCls}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs opacity-70">To</label>
+                    <input
+                      type="time"
+                      value={(prefs.quiet_end ?? "").slice(0, 5)}
+                      onChange={(e) => patch({ quiet_end: e.target.value || null })}
+                      className={inputCls}
+                    />
+                  </div>
+                </div>
+                <label className="mt-2 flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={prefs.quiet_allow_critical}
+                    onChange={(e) => patch({ quiet_allow_critical: e.target.checked })}
+                  />
+                  Critical still comes through
+                </label>
+                <div className="mt-1 text-xs opacity-60">Time zone: {browserTz()}</div>
+              </>
+            )}
+
+            <div className="mt-4 flex items-center justify-end gap-3">
+              {saved && <span className="text-xs opacity-70">Saved</span>}
+              <button
+                onClick={save}
+                disabled={busy}
+                className="rounded-xl border border-white/10 bg-white/10 hover:bg-white/15 px-4 py-2 text-sm"
+              >
+                {busy ? "Saving…" : "Save"}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,317 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../lib/database.types";
+import { cx, fmtTime } from "../lib/format";
+import {
+  compilePhiPattern,
+  deletePhiOverride,
+  effectivePhiPatterns,
+  loadPhiEvents,
+  loadPhiPatternRows,
+  PHI_CATEGORY_LABEL,
+  PhiAction,
+  PhiCategory,
+  PhiEvent,
+  PhiPatternRow,
+  redactPhi,
+  savePhiOverride,
+  scanPhi,
+} from "../lib/phi";
+
+/* =========================================================
+   PHI ADMIN PANEL (facility admins)
+   - Log: blocked attempts + flagged saves, excerpts already redacted
+   - Patterns: the facility's effective set; changing a default writes a
+     facility override, Reset drops it; custom patterns are facility-only
+   - Tester runs the effective set locally (nothing is sent)
+========================================================= */
+
+const inputCls =
+  "w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm outline-none";
+const btnCls = "rounded-xl border border-white/10 bg-white/10 hover:bg-white/15 px-3 py-2 text-sm";
+const linkCls = "text-xs opacity-70 hover:opacity-100 underline underline-offset-2";
+
+export default function PhiAdminPanel({
+  supabase,
+  facilityId,
+  onChanged,
+  onClose,
+}: {
+  supabase: SupabaseClient<Database>;
+  facilityId: string;
+  onChanged: () => void; // screening set may have moved
+  onClose: () => void;
+}) {
+  const [tab, setTab] = useState<"log" | "patterns">("log");
+  const [events, setEvents] = useState<PhiEvent[] | null>(null);
+  const [rows, setRows] = useState<PhiPatternRow[]>([]);
+  const [err, setErr] = useState<string>("");
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const [sample, setSample] = useState<string>("");
+  const [newKey, setNewKey] = useState<string>("");
+  const [newLabel, setNewLabel] = useState<string>("");
+  const [newCategory, setNewCategory] = useState<PhiCategory>("other");
+  const [newPattern, setNewPattern] = useState<string>("");
+  const [newCaseSensitive, setNewCaseSensitive] = useState<boolean>(false);
+  const [newAction, setNewAction] = useState<PhiAction>("block");
+
+  async function reloadPatterns() {
+    setRows(await loadPhiPatternRows(supabase, facilityId));
+  }
+
+  useEffect(() => {
+    let alive = true;
+    setErr("");
+    Promise.all([loadPhiEvents(supabase, facilityId), loadPhiPatternRows(supabase, facilityId)])
+      .then(([ev, pr]) => {
+        if (!alive) return;
+        setEvents(ev);
+        setRows(pr);
+      })
+      .catch((e: any) => alive && setErr(e?.message ?? "Failed to load PHI settings"));
+    return () => {
+      alive = false;
+    };
+  }, [supabase, facilityId]);
+
+  const effective = useMemo(() => effectivePhiPatterns(rows, facilityId), [rows, facilityId]);
+  const labelFor = useMemo(() => new Map(rows.map((r) => [r.key, r.label])), [rows]);
+  const sampleFindings = useMemo(
+    () => scanPhi(sample, effective.filter((p) => p.enabled)),
+    [sample, effective]
+  );
+
+  async function run(fn: () => Promise<void>) {
+    setBusy(true);
+    setErr("");
+    try {
+      await fn();
+      await reloadPatterns();
+      onChanged();
+    } catch (e: any) {
+      setErr(e?.message ?? "Save failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function override(p: PhiPatternRow, change: Partial<Pick<PhiPatternRow, "action" | "enabled">>) {
+    run(() => savePhiOverride(supabase, facilityId, { ...p, ...change }));
+  }
+
+  function addPattern() {
+    const key = newKey.trim().toLowerCase();
+    if (!/^[a-z0-9_]{2,40}$/.test(key)) {
+      setErr("Key: 2–40 lowercase letters, digits or _.");
+      return;
+    }
+    if (!newPattern.trim() || !compilePhiPattern({ pattern: newPattern, case_sensitive: newCaseSensitive })) {
+      setErr("That pattern isn't a valid regular expression.");
+      return;
+    }
+    run(async () => {
+      await savePhiOverride(supabase, facilityId, {
+        key,
+        category: newCategory,
+        label: newLabel.trim() || PHI_CATEGORY_LABEL[newCategory],
+        pattern: newPattern,
+        case_sensitive: newCaseSensitive,
+        action: newAction,
+        enabled: true,
+      });
+      setNewKey("");
+      setNewLabel("");
+      setNewPattern("");
+    });
+  }
+
+  return (
+    <div className="fixed inset-0 z-[70]">
+      <button onClick={onClose} className="absolute inset-0 bg-black/60" aria-label="Close PHI settings" />
+
+      <div className="absolute left-0 right-0 bottom-0 md:left-1/2 md:top-16 md:bottom-auto md:w-[640px] md:-translate-x-1/2 rounded-t-3xl md:rounded-3xl border border-white/10 bg-black/85 backdrop-blur p-4 max-h-[88vh] overflow-auto">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <div className="text-xs opacity-70">PHI screening · {facilityId}</div>
+            <div className="mt-1 text-lg font-semibold">{tab === "log" ? "Blocked & flagged" : "Patterns"}</div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setTab(tab === "log" ? "patterns" : "log")}
+              className="rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 px-3 py-2 text-sm"
+            >
+              {tab === "log" ? "Patterns" : "Log"}
+            </button>
+            <button
+              onClick={onClose}
+              className="rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 px-3 py-2 text-sm"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+
+        {err && <div className="mt-3 text-sm text-red-300">{err}</div>}
+
+        {tab === "log" && (
+          <>
+            {!events && !err && <div className="mt-4 text-sm opacity-70">Loading…</div>}
+            {events && events.length === 0 && (
+              <div className="mt-4 text-sm opacity-70">Nothing blocked or flagged yet.</div>
+            )}
+            <div className="mt-4 space-y-2">
+              {(events ?? []).map((ev) => (
+                <div key={ev.id} className="rounded-2xl border border-white/10 bg-white/5 p-3">
+                  <div className="flex items-center justify-between gap-2 text-xs">
+                    <span className="flex items-center gap-2 min-w-0">
+                      <span
+                        className={cx(
+                          "rounded-full px-2 py-0.5",
+                          ev.action === "blocked" ? "bg-red-500/20 text-red-200" : "bg-amber-500/20 text-amber-200"
+                        )}
+                      >
+                        {ev.action}
+                      </span>
+                      <span className="truncate opacity-70">
+                        {ev.field}
+                        {ev.unit && ` · ${ev.unit}`} · {ev.actor_display_name_snapshot ?? "—"}
+                        {ev.detected_by === "server" && " · server"}
+                      </span>
+                    </span>
+                    <span className="shrink-0 opacity-70">{fmtTime(ev.created_at)}</span>
+                  </div>
+                  <div className="mt-1 text-xs opacity-70">
+                    {ev.rule_keys.map((k) => labelFor.get(k) ?? k).join(", ")}
+                  </div>
+                  {ev.excerpt && <div className="mt-1 text-sm whitespace-pre-wrap break-words">{ev.excerpt}</div>}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        {tab === "patterns" && (
+          <>
+            <div className="mt-3 text-xs opacity-70">
+              Block refuses the submit; flag saves it and logs it here. Changes apply on each user's next reload
+              and immediately on the server.
+            </div>
+
+            <div className="mt-3 space-y-2">
+              {effective.map((p) => {
+                const overridden = p.facility_id === facilityId;
+                return (
+                  <div key={p.key} className={cx("rounded-2xl border border-white/10 bg-white/5 p-3", !p.enabled && "opacity-60")}>
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="text-sm font-semibold truncate">
+                          {p.label}
+                          <span className="ml-2 text-xs font-normal opacity-60">
+                            {PHI_CATEGORY_LABEL[p.category]} · {p.key}
+                            {overridden && " · facility"}
+                          </span>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <select
+                          value={p.action}
+                          disabled={busy}
+                          onChange={(e) => override(p, { action: e.target.value as PhiAction })}
+                          className="rounded-xl border border-white/10 bg-black/30 px-2 py-1 text-xs outline-none"
+                        >
+                          <option value="block">Block</option>
+                          <option value="flag">Flag</option>
+                        </select>
+                        <label className="flex items-center gap-1 text-xs">
+                          <input
+                            type="checkbox"
+                            checked={p.enabled}
+                            disabled={busy}
+                            onChange={(e) => override(p, { enabled: e.target.checked })}
+                          />
+                          On
+                        </label>
+                        {overridden && (
+                          <button
+                            disabled={busy}
+                            onClick={() => run(() => deletePhiOverride(supabase, facilityId, p.key))}
+                            className={linkCls}
+                          >
+                            {rows.some((r) => r.facility_id === null && r.key === p.key) ? "Reset" : "Remove"}
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    <div className="mt-1 text-[11px] font-mono opacity-60 break-all">{p.pattern}</div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="mt-4 rounded-2xl border border-white/10 bg-white/5 p-3">
+              <div className="text-xs opacity-70">Add a facility pattern</div>
+              <div className="mt-2 grid grid-cols-2 gap-2">
+                <input value={newKey} onChange={(e) => setNewKey(e.target.value)} placeholder="key, e.g. acct_no" className={inputCls} />
+                <input value={newLabel} onChange={(e) => setNewLabel(e.target.value)} placeholder="Label" className={inputCls} />
+                <input
+                  value={newPattern}
+                  onChange={(e) => setNewPattern(e.target.value)}
+                  placeholder="Regular expression (JS + Postgres)"
+                  className={cx(inputCls, "col-span-2 font-mono")}
+                />
+                <select value={newCategory} onChange={(e) => setNewCategory(e.target.value as PhiCategory)} className={inputCls}>
+                  {(Object.keys(PHI_CATEGORY_LABEL) as PhiCategory[]).map((c) => (
+                    <option key={c} value={c}>
+                      {PHI_CATEGORY_LABEL[c]}
+                    </option>
+                  ))}
+                </select>
+                <select value={newAction} onChange={(e) => setNewAction(e.target.value as PhiAction)} className={inputCls}>
+                  <option value="block">Block</option>
+                  <option value="flag">Flag</option>
+                </select>
+                <label className="flex items-center gap-2 text-xs">
+                  <input type="checkbox" checked={newCaseSensitive} onChange={(e) => setNewCaseSensitive(e.target.checked)} />
+                  Case sensitive
+                </label>
+                <div className="flex justify-end">
+                  <button onClick={addPattern} disabled={busy} className={btnCls}>
+                    Add
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            <div className="mt-4 rounded-2xl border border-white/10 bg-white/5 p-3">
+              <div className="text-xs opacity-70">Try it (checked here, nothing is sent)</div>
+              <textarea
+                value={sample}
+                onChange={(e) => setSample(e.target.value)}
+                rows={2}
+                placeholder="e.g. pt Smith rm 412 bed 2 needs a pump"
+                className={cx(inputCls, "mt-2")}
+              />
+              {sample.trim() && (
+                <div className="mt-2 text-xs">
+                  {sampleFindings.length === 0 ? (
+                    <span className="opacity-70">No matches.</span>
+                  ) : (
+                    <>
+                      <div className="opacity-70">
+                        {sampleFindings.map((f) => `${f.label} (${f.action})`).join(", ")}
+                      </div>
+                      <div className="mt-1 whitespace-pre-wrap break-words">{redactPhi(sample, sampleFindings)}</div>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
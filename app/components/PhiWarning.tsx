@@ -0,0 +1,52 @@
+"use client";
+
+import React from "react";
+import { cx } from "../lib/format";
+import { blockingPhi, PhiFinding, phiSummary } from "../lib/phi";
+
+/* =========================================================
+   PHI WARNING (under title + update inputs)
+   - Red when something would block the submit, amber when it's only flagged
+   - Redact swaps each match for its label ("[MRN]") in place
+========================================================= */
+
+export default function PhiWarning({
+  findings,
+  onRedact,
+  className,
+}: {
+  findings: PhiFinding[];
+  onRedact: () => void;
+  className?: string;
+}) {
+  if (findings.length === 0) return null;
+  const blocking = blockingPhi(findings).length > 0;
+
+  return (
+    <div
+      role="alert"
+      className={cx(
+        "flex items-start justify-between gap-3 rounded-xl border px-3 py-2 text-xs",
+        blocking ? "border-red-300/30 bg-red-500/10" : "border-amber-300/30 bg-amber-500/10",
+        className
+      )}
+    >
+      <div className="min-w-0">
+        <div className="font-semibold">
+          {blocking ? "Remove patient info to submit" : "Possible patient info"}: {phiSummary(findings)}
+        </div>
+        <div className="mt-0.5 opacity-80">
+          Handoffs are about supplies, not patients.{" "}
+          {blocking ? "Describe the item and where it is, not who it was for." : "It will be saved and flagged for review."}
+        </div>
+      </div>
+      <button
+        type="button"
+        onClick={onRedact}
+        className="shrink-0 rounded-lg border border-white/10 bg-white/10 hover:bg-white/15 px-2 py-1 text-xs"
+      >
+        Redact
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef } from "react";
+import { MAX_PHOTOS_PER_POST } from "../lib/photos";
+
+/* =========================================================
+   PHOTO PICKER
+   - Camera on phones (capture), file picker on desktop
+   - Optional draft list: previews with remove, for photos that go
+     out together with an update
+========================================================= */
+
+export default function PhotoPicker({
+  onFiles,
+  draft,
+  onRemove,
+  disabled,
+  label = "Add photo",
+}: {
+  onFiles: (files: File[]) => void;
+  draft?: File[];
+  onRemove?: (index: number) => void;
+  disabled?: boolean;
+  label?: string;
+}) {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const previews = useMemo(() => (draft ?? []).map((f) => URL.createObjectURL(f)), [draft]);
+  useEffect(() => () => previews.forEach((u) => URL.revokeObjectURL(u)), [previews]);
+
+  const full = (draft?.length ?? 0) >= MAX_PHOTOS_PER_POST;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          const files = Array.from(e.target.files ?? []);
+          e.target.value = ""; // picking the same file again still fires
+          if (files.length) onFiles(files);
+        }}
+      />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled || full}
+        className="rounded-lg border border-white/10 bg-white/5 hover:bg-white/10 px-2 py-1 text-xs disabled:opacity-50"
+        title={full ? `Up to ${MAX_PHOTOS_PER_POST} photos per update` : "Take or choose a photo"}
+      >
+        {label}
+      </button>
+      {previews.map((src, i) => (
+        <div key={src} className="relative h-10 w-10 overflow-hidden rounded-md border border-white/10">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={src} alt="Photo to attach" className="h-full w-full object-cover" />
+          {onRemove && (
+            <button
+              type="button"
+              onClick={() => onRemove(i)}
+              className="absolute right-0 top-0 rounded-bl bg-black/70 px-1 text-[10px] leading-4"
+              aria-label="Remove photo"
+            >
+              ×
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
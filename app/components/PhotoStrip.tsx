@@ -0,0 +1,38 @@
+"use client";
+
+import React from "react";
+import type { PhotoUrls } from "../lib/photos";
+import type { HandoffAttachment } from "../lib/types";
+
+// Thumbnails under a handoff / update; tapping one opens the viewer at that photo
+export default function PhotoStrip({
+  photos,
+  urls,
+  onOpen,
+}: {
+  photos: HandoffAttachment[];
+  urls: PhotoUrls;
+  onOpen: (photos: HandoffAttachment[], index: number) => void;
+}) {
+  if (photos.length === 0) return null;
+
+  return (
+    <div className="mt-2 flex flex-wrap gap-2">
+      {photos.map((a, i) => (
+        <button
+          key={a.id}
+          onClick={() => onOpen(photos, i)}
+          className="h-16 w-16 overflow-hidden rounded-lg border border-white/10 bg-white/5 hover:border-white/30"
+          title="View photo"
+        >
+          {urls[a.id] ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={urls[a.id].thumb} alt="Attached photo" loading="lazy" className="h-full w-full object-cover" />
+          ) : (
+            <span className="text-[10px] opacity-50">…</span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { fmtTime } from "../lib/format";
+import type { PhotoUrls } from "../lib/photos";
+import type { HandoffAttachment } from "../lib/types";
+
+// Full-screen photo viewer: swipe-free prev/next buttons, arrow keys, Esc closes
+export default function PhotoViewer({
+  photos,
+  startIndex,
+  urls,
+  people,
+  canDelete,
+  onDelete,
+  onClose,
+}: {
+  photos: HandoffAttachment[];
+  startIndex: number;
+  urls: PhotoUrls;
+  people: Record<string, string>; // user id -> display name
+  canDelete: (a: HandoffAttachment) => boolean;
+  onDelete: (a: HandoffAttachment) => Promise<void>;
+  onClose: () => void;
+}) {
+  const [index, setIndex] = useState<number>(startIndex);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [err, setErr] = useState<string>("");
+
+  const count = photos.length;
+  const photo = photos[Math.min(index, count - 1)];
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+      if (e.key === "ArrowRight") setIndex((i) => (i + 1) % count);
+      if (e.key === "ArrowLeft") setIndex((i) => (i - 1 + count) % count);
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [count, onClose]);
+
+  if (!photo) return null;
+
+  async function remove() {
+    if (!window.confirm("Delete this photo?")) return;
+    setBusy(true);
+    setErr("");
+    try {
+      await onDelete(photo);
+      if (count <= 1) onClose();
+      else setIndex((i) => Math.min(i, count - 2));
+    } catch (e: any) {
+      setErr(e?.message ?? "Failed to delete photo");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[80] flex flex-col bg-black">
+      <div className="flex items-center justify-between gap-3 p-3 text-sm">
+        <div className="min-w-0 truncate opacity-70">
+          {count > 1 && `${index + 1} / ${count} · `}
+          {(photo.created_by && people[photo.created_by]) || "—"} · {fmtTime(photo.created_at)}
+        </div>
+        <div className="flex items-center gap-2">
+          {urls[photo.id] && (
+            <a
+              href={urls[photo.id].full}
+              target="_blank"
+              rel="noreferrer"
+              className="rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 px-3 py-2"
+            >
+              Open
+            </a>
+          )}
+          {canDelete(photo) && (
+            <button
+              onClick={remove}
+              disabled={busy}
+              className="rounded-xl border border-red-300/30 bg-red-500/10 hover:bg-red-500/20 px-3 py-2"
+            >
+              Delete
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 px-3 py-2"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+      {err && <div className="px-3 text-sm text-red-300">{err}</div>}
+
+      <div className="relative flex-1 min-h-0 flex items-center justify-center p-2">
+        {urls[photo.id] ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={urls[photo.id].full} alt="Attached photo" className="max-h-full max-w-full object-contain" />
+        ) : (
+          <div className="text-sm opacity-60">Loading…</div>
+        )}
+        {count > 1 && (
+          <>
+            <button
+              onClick={() => setIndex((i) => (i - 1 + count) % count)}
+              className="absolute left-2 top-1/2 -translate-y-1/2 rounded-full border border-white/10 bg-black/60 px-3 py-2"
+              aria-label="Previous photo"
+            >
+              ‹
+            </button>
+            <button
+              onClick={() => setIndex((i) => (i + 1) % count)}
+              className="absolute right-2 top-1/2 -translate-y-1/2 rounded-full border border-white/10 bg-black/60 px-3 py-2"
+              aria-label="Next photo"
+            >
+              ›
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import React, { useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../lib/database.types";
+import { Directory, unitsFor } from "../lib/directory";
+import { saveProfile } from "../lib/profile";
+import type { Profile, Shift } from "../lib/types";
+
+/* =========================================================
+   PROFILE PANEL
+   - Display name is what appears on updates / acks (no PHI)
+   - Default facility/unit + preferred shift seed a fresh device
+========================================================= */
+
+const inputCls =
+  "mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm outline-none";
+
+export default function ProfilePanel({
+  supabase,
+  profile,
+  email,
+  directory,
+  onSaved,
+  onOpenNotifications,
+  onClose,
+}: {
+  supabase: SupabaseClient<Database>;
+  profile: Profile;
+  email: string | null;
+  directory: Directory;
+  onSaved: (p: Profile) => void;
+  onOpenNotifications: () => void;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState<Profile>(profile);
+  const [err, setErr] = useState<string>("");
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const facilities = directory.facilities.filter((f) => f.active);
+  const units = draft.default_facility_id ? unitsFor(directory, draft.default_facility_id) : [];
+
+  function patch(p: Partial<Profile>) {
+    setDraft((prev) => ({ ...prev, ...p }));
+  }
+
+  async function save() {
+    setBusy(true);
+    setErr("");
+    try {
+      onSaved(await saveProfile(supabase, draft));
+      onClose();
+    } catch (e: any) {
+      setErr(e?.message ?? "Failed to save profile");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[70]">
+      <button onClick={onClose} className="absolute inset-0 bg-black/60" aria-label="Close profile" />
+
+      <div className="absolute left-0 right-0 bottom-0 md:left-1/2 md:top-16 md:bottom-auto md:w-[520px] md:-translate-x-1/2 rounded-t-3xl md:rounded-3xl border border-white/10 bg-black/85 backdrop-blur p-4 max-h-[88vh] overflow-auto">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <div className="text-xs opacity-70">Profile</div>
+            <div className="mt-1 text-lg font-semibold break-words">{profile.display_name}</div>
+            {email && <div className="text-xs opacity-60 break-words">{email}</div>}
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 px-3 py-2 text-sm"
+          >
+            Close
+          </button>
+        </div>
+
+        {err && <div className="mt-3 text-sm text-red-300">{err}</div>}
+
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="md:col-span-2">
+            <label className="text-xs opacity-70">Display name (shown on updates)</label>
+            <input
+              value={draft.display_name}
+              onChange={(e) => patch({ display_name: e.target.value })}
+              maxLength={80}
+              className={inputCls}
+            />
+          </div>
+          <div>
+            <label className="text-xs opacity-70">Role title</label>
+            <input
+              value={draft.role_title ?? ""}
+              onChange={(e) => patch({ role_title: e.target.value })}
+              placeholder="e.g. CS Tech II"
+              className={inputCls}
+            />
+          </div>
+          <div>
+            <label className="text-xs opacity-70">Badge / employee ID</label>
+            <input
+              value={draft.badge_id ?? ""}
+              onChange={(e) => patch({ badge_id: e.target.value })}
+              className={inputCls}
+            />
+          </div>
+          <div>
+            <label className="text-xs opacity-70">Default facility</label>
+            <select
+              value={draft.default_facility_id ?? ""}
+              onChange={(e) => patch({ default_facility_id: e.target.value || null, default_unit: null })}
+              className={inputCls}
+            >
+              <option value="">None</option>
+              {facilities.map((f) => (
+                <option key={f.id} value={f.id}>
+                  {f.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-xs opacity-70">Default unit</label>
+            <select
+              value={draft.default_unit ?? ""}
+              onChange={(e) => patch({ default_unit: e.target.value || null })}
+              disabled={!draft.default_facility_id}
+              className={inputCls}
+            >
+              <option value="">None</option>
+              {units.map((u) => (
+                <option key={u.code} value={u.code}>
+                  {u.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-xs opacity-70">Preferred shift</label>
+            <select
+              value={draft.preferred_shift ?? ""}
+              onChange={(e) => patch({ preferred_shift: (e.target.value || null) as Shift | null })}
+              className={inputCls}
+            >
+              <option value="">None</option>
+              <option value="AM">AM</option>
+              <option value="PM">PM</option>
+              <option value="NOC">NOC</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="mt-4 flex items-center justify-between gap-3">
+          <button
+            onClick={onOpenNotifications}
+            className="text-xs opacity-70 hover:opacity-100 underline underline-offset-2"
+          >
+            Notification settings
+          </button>
+          <button
+            onClick={save}
+            disabled={busy || !draft.display_name.trim()}
+            className="rounded-xl border border-white/10 bg-white/10 hover:bg-white/15 px-4 py-2 text-sm"
+          >
+            {busy ? "Saving…" : "Save profile"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import React from "react";
+import Link from "next/link";
+import type { RouteAccess } from "../lib/routes";
+
+const COPY: Record<Exclude<RouteAccess, "ok">, { title: string; body: string }> = {
+  not_found: {
+    title: "Not found",
+    body: "This link doesn't point to a handoff or unit that exists. It may have been archived or mistyped.",
+  },
+  forbidden: {
+    title: "No access",
+    body: "You're signed in, but your role doesn't cover this facility or unit. Ask a supervisor to add you.",
+  },
+};
+
+// Full-page answer for a deep link that can't be shown (also the app's 404)
+export default function RouteNotice({ kind, path }: { kind: Exclude<RouteAccess, "ok">; path?: string }) {
+  const copy = COPY[kind];
+  return (
+    <main className="min-h-screen flex items-center justify-center p-6">
+      <div className="w-full max-w-md rounded-2xl border border-white/10 bg-black/30 p-5">
+        <div className="text-xs opacity-70">{kind === "forbidden" ? "403" : "404"}</div>
+        <h1 className="mt-2 text-2xl font-semibold">{copy.title}</h1>
+        <p className="mt-2 opacity-80">{copy.body}</p>
+        {path && <div className="mt-3 text-xs opacity-60 break-all">{path}</div>}
+        <Link
+          href="/"
+          className="mt-4 inline-block rounded-xl bg-white/10 hover:bg-white/15 border border-white/10 px-4 py-2 text-sm"
+        >
+          Back to handoffs
+        </Link>
+      </div>
+    </main>
+  );
+}
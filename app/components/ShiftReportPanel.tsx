@@ -0,0 +1,378 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../lib/database.types";
+import { cx, fmtTime } from "../lib/format";
+import {
+  acceptShiftReport,
+  acknowledgeItem,
+  compileShiftReport,
+  loadOpenShiftReport,
+  missingAcks,
+  nextShift,
+  OpenShiftReport,
+  requiresAck,
+  submitShiftReport,
+} from "../lib/shiftReports";
+import type { Handoff, Priority, Shift } from "../lib/types";
+
+/* =========================================================
+   SHIFT CHANGE PANEL
+   - No open report: outgoing lead compiles + adds notes + submits
+   - Open report: incoming lead acknowledges Critical/High items, then accepts
+   - Submit / acknowledge / accept need a shift lead role (canLead); others read only
+========================================================= */
+
+type Props = {
+  supabase: SupabaseClient<Database>;
+  sessionUserId: string;
+  displayName: string;
+  facilityId: string;
+  unit: string;
+  defaultShift: Shift;
+  canLead: boolean;
+  onOpenHandoff: (id: string) => void;
+  onClose: () => void;
+};
+
+function PriorityChip({ priority }: { priority: Priority }) {
+  return (
+    <span
+      className={cx(
+        "text-xs rounded-full px-2 py-1 border",
+        priority === "Critical"
+          ? "border-red-300/30 bg-red-500/10"
+          : priority === "High"
+          ? "border-yellow-300/30 bg-yellow-500/10"
+          : "border-white/10 bg-white/5"
+      )}
+    >
+      {priority}
+    </span>
+  );
+}
+
+export default function ShiftReportPanel({
+  supabase,
+  sessionUserId,
+  displayName,
+  facilityId,
+  unit,
+  defaultShift,
+  canLead,
+  onOpenHandoff,
+  onClose,
+}: Props) {
+  const snapshot = displayName; // profile display name
+
+  const [loading, setLoading] = useState<boolean>(true);
+  const [err, setErr] = useState<string>("");
+  const [busy, setBusy] = useState<boolean>(false);
+  const [doneMsg, setDoneMsg] = useState<string>("");
+
+  const [open, setOpen] = useState<OpenShiftReport | null>(null);
+
+  // Outgoing (compile) state
+  const [compiled, setCompiled] = useState<Handoff[]>([]);
+  const [outgoingShift, setOutgoingShift] = useState<Shift>(defaultShift);
+  const [incomingShift, setIncomingShift] = useState<Shift>(nextShift(defaultShift));
+  const [notes, setNotes] = useState<string>("");
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    setErr("");
+    try {
+      const report = await loadOpenShiftReport(supabase, facilityId, unit);
+      setOpen(report);
+      if (!report) setCompiled(await compileShiftReport(supabase, facilityId, unit));
+    } catch (e: any) {
+      setErr(e?.message ?? "Failed to load shift report");
+    } finally {
+      setLoading(false);
+    }
+  }, [supabase, facilityId, unit]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  async function submit() {
+    setBusy(true);
+    setErr("");
+    try {
+      await submitShiftReport(supabase, {
+        facilityId,
+        unit,
+        outgoingShift,
+        incomingShift,
+        notes,
+        leadUserId: sessionUserId,
+        leadDisplayName: snapshot,
+        handoffs: compiled,
+      });
+      setNotes("");
+      await reload();
+    } catch (e: any) {
+      setErr(e?.message ?? "Failed to submit shift report");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function acknowledge(handoffId: string) {
+    if (!open) return;
+    setBusy(true);
+    setErr("");
+    try {
+      const ack = await acknowledgeItem(supabase, {
+        reportId: open.report.id,
+        handoffId,
+        userId: sessionUserId,
+        displayName: snapshot,
+      });
+      setOpen({ ...open, acks: [...open.acks, ack] });
+    } catch (e: any) {
+      setErr(e?.message ?? "Failed to acknowledge");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function accept() {
+    if (!open) return;
+    setBusy(true);
+    setErr("");
+    try {
+      const accepted = await acceptShiftReport(supabase, open.report.id, snapshot);
+      setDoneMsg(
+        `Shift report ${accepted.outgoing_shift} → ${accepted.incoming_shift} accepted ${fmtTime(
+          accepted.accepted_at
+        )}.`
+      );
+      setOpen(null);
+    } catch (e: any) {
+      setErr(e?.message ?? "Failed to accept shift report");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const isOutgoingLead = open?.report.outgoing_lead_user_id === sessionUserId;
+  const cannotAck = busy || isOutgoingLead || !canLead;
+  const missing = open ? missingAcks(open) : [];
+
+  return (
+    <div className="fixed inset-0 z-[70]">
+      <button onClick={onClose} className="absolute inset-0 bg-black/60" aria-label="Close shift change" />
+
+      <div className="absolute left-0 right-0 bottom-0 md:left-1/2 md:top-16 md:bottom-auto md:w-[640px] md:-translate-x-1/2 rounded-t-3xl md:rounded-3xl border border-white/10 bg-black/85 backdrop-blur p-4 max-h-[88vh] overflow-auto">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <div className="text-xs opacity-70">
+              Shift change · {facilityId} · {unit}
+            </div>
+            <div className="mt-1 text-lg font-semibold">
+              {open
+                ? `Shift report ${open.report.outgoing_shift} → ${open.report.incoming_shift}`
+                : "End of shift report"}
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 px-3 py-2 text-sm"
+          >
+            Close
+          </button>
+        </div>
+
+        {loading && <div className="mt-4 text-sm opacity-70">Loading…</div>}
+        {err && <div className="mt-3 text-sm text-red-300">{err}</div>}
+        {doneMsg && (
+          <div className="mt-3 rounded-xl border border-emerald-300/30 bg-emerald-500/10 p-3 text-sm">
+            {doneMsg}
+          </div>
+        )}
+
+        {/* INCOMING: acknowledge + accept */}
+        {!loading && open && (
+          <>
+            <div className="mt-3 text-xs opacity-70">
+              Submitted by {open.report.outgoing_lead_display_name_snapshot ?? "—"} ·{" "}
+              {fmtTime(open.report.created_at)}
+            </div>
+            {open.report.outgoing_notes && (
+              <div className="mt-3 rounded-xl border border-white/10 bg-black/30 p-3 text-sm whitespace-pre-wrap">
+                {open.report.outgoing_notes}
+              </div>
+            )}
+
+            <div className="mt-4 space-y-2">
+              {open.items.length === 0 && (
+                <div className="text-sm opacity-70">No unresolved handoffs at shift change.</div>
+              )}
+              {open.items.map((item) => {
+                const ack = open.acks.find((a) => a.handoff_id === item.handoff_id);
+                const needsAck = requiresAck(item.priority);
+                return (
+                  <div
+                    key={item.handoff_id}
+                    className="rounded-xl border border-white/10 bg-black/30 p-3 flex items-start justify-between gap-3"
+                  >
+                    <button
+                      onClick={() => onOpenHandoff(item.handoff_id)}
+                      className="min-w-0 text-left"
+                    >
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <PriorityChip priority={item.priority} />
+                        {item.status === "needs_followup" && (
+                          <span className="text-xs rounded-full px-2 py-1 border border-sky-300/30 bg-sky-500/10">
+                            Follow-up
+                          </span>
+                        )}
+                      </div>
+                      <div className="mt-1 text-sm font-medium break-words">{item.title}</div>
+                      {ack && (
+                        <div className="mt-1 text-xs opacity-60">
+                          Acknowledged by {ack.acknowledged_by_display_name_snapshot ?? "—"} ·{" "}
+                          {fmtTime(ack.acknowledged_at)}
+                        </div>
+                      )}
+                    </button>
+
+                    {needsAck && !ack && (
+                      <button
+                        onClick={() => acknowledge(item.handoff_id)}
+                        disabled={cannotAck}
+                        className={cx(
+                          "shrink-0 rounded-xl border border-white/10 px-3 py-2 text-sm",
+                          cannotAck ? "bg-white/5 opacity-60" : "bg-white/10 hover:bg-white/15"
+                        )}
+                      >
+                        Acknowledge
+                      </button>
+                    )}
+                    {needsAck && ack && <span className="shrink-0 text-xs opacity-70">✓ Acked</span>}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="mt-4 flex items-center justify-between gap-3">
+              <div className="text-xs opacity-70">
+                {isOutgoingLead
+                  ? "Waiting for the incoming lead to acknowledge and accept."
+                  : !canLead
+                  ? "Only a shift lead can acknowledge and accept."
+                  : missing.length > 0
+                  ? `${missing.length} Critical/High item(s) still need acknowledgement.`
+                  : "All Critical/High items acknowledged."}
+              </div>
+              <button
+                onClick={accept}
+                disabled={cannotAck || missing.length > 0}
+                className={cx(
+                  "rounded-xl border border-white/10 px-4 py-2 text-sm",
+                  cannotAck || missing.length > 0
+                    ? "bg-white/5 opacity-60"
+                    : "bg-white/10 hover:bg-white/15"
+                )}
+              >
+                Accept report
+              </button>
+            </div>
+          </>
+        )}
+
+        {/* OUTGOING: compile + notes + submit */}
+        {!loading && !open && !doneMsg && (
+          <>
+            <div className="mt-4 grid grid-cols-2 gap-2">
+              <div>
+                <label className="text-xs opacity-70">Outgoing shift</label>
+                <select
+                  value={outgoingShift}
+                  onChange={(e) => {
+                    const s = e.target.value as Shift;
+                    setOutgoingShift(s);
+                    setIncomingShift(nextShift(s));
+                  }}
+                  className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm outline-none"
+                >
+                  <option value="AM">AM</option>
+                  <option value="PM">PM</option>
+                  <option value="NOC">NOC</option>
+                </select>
+              </div>
+              <div>
+                <label className="text-xs opacity-70">Incoming shift</label>
+                <select
+                  value={incomingShift}
+                  onChange={(e) => setIncomingShift(e.target.value as Shift)}
+                  className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm outline-none"
+                >
+                  <option value="AM">AM</option>
+                  <option value="PM">PM</option>
+                  <option value="NOC">NOC</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="mt-4 text-sm opacity-70">
+              Unresolved handoffs <span className="opacity-60">({compiled.length})</span>
+            </div>
+            <div className="mt-2 space-y-2">
+              {compiled.length === 0 && (
+                <div className="text-sm opacity-70">Nothing outstanding. Clean handoff.</div>
+              )}
+              {compiled.map((h) => (
+                <button
+                  key={h.id}
+                  onClick={() => onOpenHandoff(h.id)}
+                  className="w-full text-left rounded-xl border border-white/10 bg-black/30 p-3"
+                >
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <PriorityChip priority={h.priority} />
+                    {h.status === "needs_followup" && (
+                      <span className="text-xs rounded-full px-2 py-1 border border-sky-300/30 bg-sky-500/10">
+                        Follow-up
+                      </span>
+                    )}
+                    {requiresAck(h.priority) && <span className="text-xs opacity-60">Ack required</span>}
+                  </div>
+                  <div className="mt-1 text-sm font-medium break-words">{h.title}</div>
+                </button>
+              ))}
+            </div>
+
+            <div className="mt-4">
+              <label className="text-xs opacity-70">Outgoing lead notes</label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Anything the next shift should know (no PHI)…"
+                className="mt-1 w-full min-h-[90px] rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm outline-none"
+              />
+            </div>
+
+            <div className="mt-3 flex items-center justify-between gap-3">
+              <div className="text-xs opacity-60">
+                {canLead ? `Submitted as ${snapshot}` : "Only a shift lead can submit the report."}
+              </div>
+              <button
+                onClick={submit}
+                disabled={busy || !canLead}
+                className={cx(
+                  "rounded-xl border border-white/10 px-4 py-2 text-sm",
+                  busy || !canLead ? "bg-white/5 opacity-60" : "bg-white/10 hover:bg-white/15"
+                )}
+              >
+                {busy ? "Submitting…" : "Submit report"}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import React from "react";
+import { cx } from "../lib/format";
+import { evaluateSla, SlaConfig, slaLabel } from "../lib/sla";
+import type { Handoff } from "../lib/types";
+
+// Countdown / overdue chip. Renders nothing when the priority has no SLA target.
+export default function SlaChip({
+  handoff,
+  config,
+  now,
+}: {
+  handoff: Handoff;
+  config: SlaConfig;
+  now: number;
+}) {
+  const state = evaluateSla(handoff, config, now);
+  if (!state) return null;
+
+  const warn = !state.overdue && state.remainingMs < 15 * 60_000;
+
+  return (
+    <span
+      className={cx(
+        "text-xs rounded-full px-2 py-1 border whitespace-nowrap",
+        state.overdue
+          ? "border-red-300/40 bg-red-500/20 font-medium"
+          : warn
+          ? "border-yellow-300/30 bg-yellow-500/10"
+          : "border-white/10 bg-white/5 opacity-80"
+      )}
+      title={`SLA target: ${state.targetMins} min`}
+    >
+      {slaLabel(state)}
+    </span>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../lib/database.types";
+import { searchSupplyItems } from "../lib/catalog";
+import type { SupplyItem } from "../lib/types";
+
+// Typeahead over supply_items (item number prefix or description substring)
+export default function SupplyItemPicker({
+  supabase,
+  onPick,
+  placeholder = "Search item # or description…",
+}: {
+  supabase: SupabaseClient<Database>;
+  onPick: (item: SupplyItem) => void;
+  placeholder?: string;
+}) {
+  const [query, setQuery] = useState<string>("");
+  const [results, setResults] = useState<SupplyItem[]>([]);
+  const [open, setOpen] = useState<boolean>(false);
+  const [err, setErr] = useState<string>("");
+
+  useEffect(() => {
+    if (query.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+
+    let alive = true;
+    const t = setTimeout(async () => {
+      try {
+        const items = await searchSupplyItems(supabase, query);
+        if (!alive) return;
+        setResults(items);
+        setErr("");
+      } catch (e: any) {
+        if (!alive) return;
+        setErr(e?.message ?? "Search failed");
+      }
+    }, 200);
+
+    return () => {
+      alive = false;
+      clearTimeout(t);
+    };
+  }, [supabase, query]);
+
+  return (
+    <div className="relative">
+      <input
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        placeholder={placeholder}
+        className="w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm outline-none"
+      />
+
+      {open && (results.length > 0 || err) && (
+        <div className="absolute left-0 right-0 top-full z-50 mt-1 max-h-64 overflow-auto rounded-xl border border-white/10 bg-black/95 p-1">
+          {err && <div className="px-2 py-1 text-xs text-red-300">{err}</div>}
+          {results.map((item) => (
+            <button
+              key={item.id}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => {
+                onPick(item);
+                setQuery("");
+                setResults([]);
+                setOpen(false);
+              }}
+              className="w-full text-left rounded-lg px-2 py-1.5 hover:bg-white/10"
+            >
+              <div className="text-sm">{item.description}</div>
+              <div className="text-xs opacity-60">
+                #{item.item_number} · {item.unit_of_measure}
+                {item.bin_location ? ` · Bin ${item.bin_location}` : ""}
+                {item.par_level != null ? ` · PAR ${item.par_level}` : ""}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import React from "react";
+import { describeOp, OutboxOp } from "../lib/outbox";
+import type { Handoff } from "../lib/types";
+
+// Parked outbox ops (someone else changed the handoff meanwhile, or the server said no):
+// the user applies each anyway or discards it.
+export default function SyncConflicts({
+  conflicts,
+  handoffs,
+  onApply,
+  onDiscard,
+}: {
+  conflicts: OutboxOp[];
+  handoffs: Handoff[]; // to name the handoff an op targets
+  onApply: (op: OutboxOp) => void;
+  onDiscard: (op: OutboxOp) => void;
+}) {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="mt-3 rounded-xl border border-red-300/30 bg-red-500/10 p-3">
+      <div className="text-sm font-medium">Sync conflicts ({conflicts.length})</div>
+      <div className="mt-2 space-y-2">
+        {conflicts.map((op) => {
+          const target =
+            op.kind === "create_handoff"
+              ? null
+              : handoffs.find((h) => h.id === (op.kind === "add_update" ? op.row.handoff_id : op.handoff_id))?.title;
+          return (
+            <div key={op.seq} className="flex flex-col md:flex-row md:items-center justify-between gap-2 text-sm">
+              <div className="min-w-0">
+                <div className="break-words">
+                  {describeOp(op)}
+                  {target ? <span className="opacity-70"> · {target}</span> : null}
+                </div>
+                <div className="text-xs opacity-75">{op.conflict}</div>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => onApply(op)}
+                  className="rounded-xl border border-white/10 bg-white/10 hover:bg-white/15 px-3 py-1.5 text-xs"
+                >
+                  Apply anyway
+                </button>
+                <button
+                  onClick={() => onDiscard(op)}
+                  className="rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 px-3 py-1.5 text-xs"
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../lib/database.types";
+import PhiWarning from "./PhiWarning";
+import { cx } from "../lib/format";
+import { blockingPhi, PhiPattern, phiSummary, redactPhi, scanPhi } from "../lib/phi";
+import { deleteTemplate, describeRecurrence, saveTemplate, WEEKDAY_LABELS } from "../lib/templates";
+import type { HandoffTemplate, Priority, Recurrence, Shift } from "../lib/types";
+
+/* =========================================================
+   TEMPLATES PANEL (routine handoffs for one unit)
+   - Recurring templates are created by /api/jobs/recurring at each matching
+     shift; "Quick-create only" ones just show up as chips in the create form
+   - Pause instead of delete to keep a template around between seasons
+========================================================= */
+
+const inputCls =
+  "w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm outline-none";
+const btnCls = "rounded-xl border border-white/10 bg-white/10 hover:bg-white/15 px-3 py-2 text-sm";
+
+type Form = {
+  id?: string;
+  title: string;
+  priority: Priority;
+  needs_followup: boolean;
+  recurrence: Recurrence;
+  shift: Shift;
+  weekdays: number[];
+  active: boolean;
+};
+
+const EMPTY_FORM: Form = {
+  title: "",
+  priority: "Normal",
+  needs_followup: false,
+  recurrence: "none",
+  shift: "AM",
+  weekdays: [],
+  active: true,
+};
+
+export default function TemplatesPanel({
+  supabase,
+  facilityId,
+  unit,
+  unitName,
+  templates,
+  phiPatterns,
+  onChanged,
+  onClose,
+}: {
+  supabase: SupabaseClient<Database>;
+  facilityId: string;
+  unit: string;
+  unitName: string;
+  templates: HandoffTemplate[];
+  phiPatterns: PhiPattern[];
+  onChanged: () => void;
+  onClose: () => void;
+}) {
+  const [form, setForm] = useState<Form>(EMPTY_FORM);
+  const [err, setErr] = useState<string>("");
+  const [busy, setBusy] = useState<boolean>(false);
+  const titlePhi = useMemo(() => scanPhi(form.title, phiPatterns), [form.title, phiPatterns]);
+
+  const patch = (p: Partial<Form>) => setForm((f) => ({ ...f, ...p }));
+
+  async function run(fn: () => Promise<void>) {
+    setBusy(true);
+    setErr("");
+    try {
+      await fn();
+      onChanged();
+    } catch (e: any) {
+      setErr(e?.message ?? "Save failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function save() {
+    if (!form.title.trim()) {
+      setErr("Title is required.");
+      return;
+    }
+    if (blockingPhi(titlePhi).length > 0) {
+      setErr(`Remove patient info first (${phiSummary(blockingPhi(titlePhi))}).`);
+      return;
+    }
+    if (form.recurrence === "weekly" && form.weekdays.length === 0) {
+      setErr("Pick at least one day.");
+      return;
+    }
+    run(async () => {
+      await saveTemplate(supabase, { ...form, facility_id: facilityId, unit });
+      setForm(EMPTY_FORM);
+    });
+  }
+
+  function edit(t: HandoffTemplate) {
+    setErr("");
+    setForm({
+      id: t.id,
+      title: t.title,
+      priority: t.priority,
+      needs_followup: t.needs_followup,
+      recurrence: t.recurrence,
+      shift: t.shift ?? "AM",
+      weekdays: t.weekdays,
+      active: t.active,
+    });
+  }
+
+  function remove(t: HandoffTemplate) {
+    if (!window.confirm(`Delete template "${t.title}"? Handoffs it already created stay.`)) return;
+    run(async () => {
+      await deleteTemplate(supabase, t.id);
+      if (form.id === t.id) setForm(EMPTY_FORM);
+    });
+  }
+
+  const toggleDay = (d: number) =>
+    patch({ weekdays: form.weekdays.includes(d) ? form.weekdays.filter((x) => x !== d) : [...form.weekdays, d] });
+
+  return (
+    <div className="fixed inset-0 z-[70]">
+      <button onClick={onClose} className="absolute inset-0 bg-black/60" aria-label="Close templates" />
+
+      <div className="absolute left-0 right-0 bottom-0 md:left-1/2 md:top-16 md:bottom-auto md:w-[640px] md:-translate-x-1/2 rounded-t-3xl md:rounded-3xl border border-white/10 bg-black/85 backdrop-blur p-4 max-h-[88vh] overflow-auto">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <div className="text-xs opacity-70">Templates · {facilityId}</div>
+            <div className="mt-1 text-lg font-semibold">{unitName}</div>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 px-3 py-2 text-sm"
+          >
+            Close
+          </button>
+        </div>
+
+        {err && <div className="mt-3 text-sm text-red-300">{err}</div>}
+
+        <div className="mt-4 space-y-2">
+          {templates.length === 0 && (
+            <div className="text-sm opacity-70">No templates yet. Add the checks your unit repeats every shift.</div>
+          )}
+          {templates.map((t) => (
+            <div
+              key={t.id}
+              className={cx(
+                "rounded-xl border border-white/10 bg-black/30 p-2 flex items-center justify-between gap-2",
+                form.id === t.id && "outline outline-2 outline-white/20",
+                !t.active && "opacity-50"
+              )}
+            >
+              <div className="min-w-0">
+                <div className="text-sm font-medium break-words">{t.title}</div>
+                <div className="text-xs opacity-60">
+                  {t.priority} · {describeRecurrence(t)}
+                  {t.needs_followup && " · Follow-up"}
+                  {!t.active && " · Paused"}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 text-xs shrink-0">
+                <button disabled={busy} onClick={() => edit(t)} className="opacity-70 hover:opacity-100">
+                  Edit
+                </button>
+                <button
+                  disabled={busy}
+                  onClick={() => run(() => saveTemplate(supabase, { ...t, active: !t.active }).then(() => {}))}
+                  className="opacity-70 hover:opacity-100"
+                >
+                  {t.active ? "Pause" : "Resume"}
+                </button>
+                <button disabled={busy} onClick={() => remove(t)} className="opacity-70 hover:opacity-100">
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-5 border-t border-white/10 pt-4">
+          <div className="text-sm opacity-70">{form.id ? "Edit template" : "New template"}</div>
+          <div className="mt-2 grid grid-cols-2 gap-2">
+            <div className="col-span-2">
+              <label htmlFor="tpl-title" className="text-xs opacity-70">
+                Title
+              </label>
+              <input
+                id="tpl-title"
+                value={form.title}
+                onChange={(e) => patch({ title: e.target.value })}
+                maxLength={200}
+                placeholder="e.g., Crash cart check"
+                className={cx("mt-1", inputCls)}
+              />
+              <PhiWarning
+                findings={titlePhi}
+                onRedact={() => patch({ title: redactPhi(form.title, titlePhi) })}
+                className="mt-2"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="tpl-priority" className="text-xs opacity-70">
+                Priority
+              </label>
+              <select
+                id="tpl-priority"
+                value={form.priority}
+                onChange={(e) => patch({ priority: e.target.value as Priority })}
+                className={cx("mt-1", inputCls)}
+              >
+                <option value="Low">Low</option>
+                <option value="Normal">Normal</option>
+                <option value="High">High</option>
+                <option value="Critical">Critical</option>
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="tpl-recurrence" className="text-xs opacity-70">
+                Repeats
+              </label>
+              <select
+                id="tpl-recurrence"
+                value={form.recurrence}
+                onChange={(e) => patch({ recurrence: e.target.value as Recurrence })}
+                className={cx("mt-1", inputCls)}
+              >
+                <option value="none">Quick-create only</option>
+                <option value="shift">Every shift</option>
+                <option value="daily">Daily</option>
+                <option value="weekly">Weekly</option>
+              </select>
+            </div>
+
+            {(form.recurrence === "daily" || form.recurrence === "weekly") && (
+              <div>
+                <label htmlFor="tpl-shift" className="text-xs opacity-70">
+                  On shift
+                </label>
+                <select
+                  id="tpl-shift"
+                  value={form.shift}
+                  onChange={(e) => patch({ shift: e.target.value as Shift })}
+                  className={cx("mt-1", inputCls)}
+                >
+                  <option value="AM">AM</option>
+                  <option value="PM">PM</option>
+                  <option value="NOC">NOC</option>
+                </select>
+              </div>
+            )}
+
+            {form.recurrence === "weekly" && (
+              <div className="col-span-2 flex flex-wrap gap-1.5">
+                {WEEKDAY_LABELS.map((label, d) => (
+                  <button
+                    key={label}
+                    onClick={() => toggleDay(d)}
+                    aria-pressed={form.weekdays.includes(d)}
+                    className={cx(
+                      "rounded-full border px-3 py-1 text-xs",
+                      form.weekdays.includes(d) ? "border-white/30 bg-white/15" : "border-white/10 bg-white/5 opacity-70"
+                    )}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <label className="col-span-2 flex items-center gap-2 text-sm opacity-85">
+              <input
+                type="checkbox"
+                checked={form.needs_followup}
+                onChange={(e) => patch({ needs_followup: e.target.checked })}
+              />
+              Needs follow-up
+            </label>
+
+            <div className="col-span-2 flex items-center justify-end gap-2">
+              {form.id && (
+                <button disabled={busy} onClick={() => setForm(EMPTY_FORM)} className="text-xs opacity-70 hover:opacity-100">
+                  Cancel edit
+                </button>
+              )}
+              <button disabled={busy} onClick={save} className={btnCls}>
+                {busy ? "Saving…" : form.id ? "Save" : "Add template"}
+              </button>
+            </div>
+          </div>
+          {form.recurrence !== "none" && (
+            <div className="mt-2 text-xs opacity-60">
+              Created automatically at the start of the shift (AM 07:00, PM 15:00, NOC 23:00, facility time).
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import React from "react";
+import MentionTextarea from "./MentionTextarea";
+import PhiWarning from "./PhiWarning";
+import PhotoPicker from "./PhotoPicker";
+import { cx } from "../lib/format";
+import type { Mentionable } from "../lib/mentions";
+import { PhiFinding, redactPhi } from "../lib/phi";
+import { MAX_PHOTOS_PER_POST } from "../lib/photos";
+import type { HandoffUpdate } from "../lib/types";
+
+// "Add update" box under the timeline: @mentions, inline PHI warning + redact,
+// photos to attach once the update posts. A reply shows what it answers.
+export default function UpdateComposer({
+  value,
+  onChange,
+  findings,
+  replyTo,
+  onCancelReply,
+  people,
+  authorId,
+  photos,
+  onPhotos,
+  posting,
+  onPost,
+}: {
+  value: string;
+  onChange: (text: string) => void;
+  findings: PhiFinding[]; // PHI scan of value
+  replyTo: HandoffUpdate | null;
+  onCancelReply: () => void;
+  people: Mentionable[];
+  authorId: string; // no self-mentions
+  photos: File[];
+  onPhotos: (files: File[]) => void;
+  posting: boolean;
+  onPost: () => void;
+}) {
+  const empty = !value.trim();
+
+  return (
+    <div className="mt-4">
+      {replyTo ? (
+        <div className="flex items-center justify-between gap-2 text-xs">
+          <span className="min-w-0 truncate opacity-70">
+            Replying to {replyTo.author_display_name_snapshot ?? "update"}: “{replyTo.message}”
+          </span>
+          <button onClick={onCancelReply} className="shrink-0 opacity-70 hover:opacity-100 underline underline-offset-2">
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <label className="text-xs opacity-70">Add update</label>
+      )}
+      <MentionTextarea
+        value={value}
+        onChange={onChange}
+        people={people}
+        excludeUserId={authorId}
+        placeholder="Short, PHI-free update… (@ to mention)"
+        className="mt-1 w-full min-h-[90px] rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm outline-none"
+      />
+      <PhiWarning findings={findings} onRedact={() => onChange(redactPhi(value, findings))} className="mt-2" />
+      <div className="mt-2">
+        <PhotoPicker
+          onFiles={(files) => onPhotos([...photos, ...files].slice(0, MAX_PHOTOS_PER_POST))}
+          draft={photos}
+          onRemove={(i) => onPhotos(photos.filter((_, j) => j !== i))}
+          disabled={posting}
+        />
+      </div>
+      <div className="mt-2 flex items-center justify-between">
+        <div className="text-xs opacity-60">Stored with author snapshot (no names required).</div>
+        <button
+          onClick={onPost}
+          disabled={posting || empty}
+          className={cx(
+            "rounded-xl border border-white/10 px-4 py-2 text-sm",
+            posting || empty ? "bg-white/5 opacity-60" : "bg-white/10 hover:bg-white/15"
+          )}
+        >
+          {posting ? "Posting…" : "Post"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import React from "react";
+import { fmtTime } from "../lib/format";
+import type { PhotoUrls } from "../lib/photos";
+import type { HandoffAttachment, HandoffUpdate } from "../lib/types";
+import MessageText from "./MessageText";
+import PhotoStrip from "./PhotoStrip";
+
+// One update card with its replies (single level), their photos and a Reply link
+export default function UpdateThread({
+  update,
+  replies,
+  pending,
+  myHandle,
+  replyingTo,
+  onReply,
+  photos,
+  photoUrls,
+  onOpenPhoto,
+}: {
+  update: HandoffUpdate;
+  replies: HandoffUpdate[];
+  pending: Set<string>;
+  myHandle: string | null;
+  replyingTo: string | null;
+  onReply: (u: HandoffUpdate) => void;
+  photos: Map<string, HandoffAttachment[]>; // update id -> photos
+  photoUrls: PhotoUrls;
+  onOpenPhoto: (photos: HandoffAttachment[], index: number) => void;
+}) {
+  function meta(u: HandoffUpdate) {
+    return (
+      <>
+        {u.author_display_name_snapshot ?? "—"} · {fmtTime(u.created_at)} · {u.source}
+        {pending.has(u.id) && " · pending sync"}
+      </>
+    );
+  }
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-black/25 p-3">
+      <div className="text-xs opacity-60">{meta(update)}</div>
+      <MessageText text={update.message} myHandle={myHandle} className="mt-1" />
+      <PhotoStrip photos={photos.get(update.id) ?? []} urls={photoUrls} onOpen={onOpenPhoto} />
+
+      {replies.length > 0 && (
+        <div className="mt-2 space-y-2 border-l border-white/10 pl-3">
+          {replies.map((r) => (
+            <div key={r.id}>
+              <div className="text-[11px] opacity-60">{meta(r)}</div>
+              <MessageText text={r.message} myHandle={myHandle} className="mt-0.5" />
+              <PhotoStrip photos={photos.get(r.id) ?? []} urls={photoUrls} onOpen={onOpenPhoto} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {update.source !== "system" && (
+        <div className="mt-2">
+          <button
+            onClick={() => onReply(update)}
+            className="text-xs opacity-70 hover:opacity-100 underline underline-offset-2"
+          >
+            {replyingTo === update.id ? "Replying…" : replies.length > 0 ? `Reply (${replies.length})` : "Reply"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import React from "react";
+import AuditLine from "./AuditLine";
+import UpdateThread from "./UpdateThread";
+import { cx } from "../lib/format";
+import type { TimelineEntry } from "../lib/audit";
+import type { PhotoUrls } from "../lib/photos";
+import type { HandoffAttachment, HandoffUpdate } from "../lib/types";
+
+// "Updates & history": updates (with their replies) interleaved with audit lines,
+// oldest first. The composer goes in as children, below the list.
+export default function UpdateTimeline({
+  timeline,
+  loading,
+  error,
+  auditError,
+  pending,
+  myHandle,
+  replyingTo,
+  onReply,
+  photos,
+  photoUrls,
+  onOpenPhoto,
+  onExportCsv,
+  onExportPdf,
+  exportDisabled,
+  scroll = false,
+  children,
+}: {
+  timeline: TimelineEntry[];
+  loading: boolean;
+  error?: string;
+  auditError?: string;
+  pending: Set<string>;
+  myHandle: string | null;
+  replyingTo: string | null;
+  onReply: (u: HandoffUpdate) => void;
+  photos: Map<string, HandoffAttachment[]>; // update id -> photos
+  photoUrls: PhotoUrls;
+  onOpenPhoto: (photos: HandoffAttachment[], index: number) => void;
+  onExportCsv: () => void;
+  onExportPdf: () => void;
+  exportDisabled?: boolean;
+  scroll?: boolean; // cap the list height (side panel); the drawer scrolls as a whole
+  children?: React.ReactNode;
+}) {
+  const hasUpdates = timeline.some((t) => t.kind === "update");
+
+  return (
+    <div className="mt-4 border-t border-white/10 pt-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm opacity-70">Updates &amp; history</div>
+        <div className="flex items-center gap-3">
+          <button onClick={onExportCsv} className="text-xs opacity-70 hover:opacity-100 underline underline-offset-2">
+            Export CSV
+          </button>
+          <button
+            onClick={onExportPdf}
+            disabled={exportDisabled}
+            className="text-xs opacity-70 hover:opacity-100 underline underline-offset-2"
+          >
+            PDF
+          </button>
+        </div>
+      </div>
+
+      {loading && <div className="mt-2 text-sm opacity-70">Loading…</div>}
+      {error && <div className="mt-2 text-sm text-red-300">{error}</div>}
+      {auditError && <div className="mt-2 text-sm text-red-300">{auditError}</div>}
+
+      <div className={cx("mt-3 space-y-2", scroll && "max-h-[340px] overflow-auto pr-1")}>
+        {!hasUpdates && !loading && <div className="text-sm opacity-70">No updates yet.</div>}
+
+        {timeline.map((t) =>
+          t.kind === "audit" ? (
+            <AuditLine key={`a-${t.entry.id}`} entry={t.entry} />
+          ) : (
+            <UpdateThread
+              key={t.update.id}
+              update={t.update}
+              replies={t.replies}
+              pending={pending}
+              myHandle={myHandle}
+              replyingTo={replyingTo}
+              onReply={onReply}
+              photos={photos}
+              photoUrls={photoUrls}
+              onOpenPhoto={onOpenPhoto}
+            />
+          )
+        )}
+      </div>
+
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,347 @@
+"use client";
+
+export const dynamic = "force-dynamic";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { Lines, StackedBars } from "../components/Charts";
+import { cx, isAbortError } from "../lib/format";
+import useSession from "../hooks/useSession";
+import {
+  Analytics,
+  Bucket,
+  fmtMinutes,
+  loadAnalytics,
+  pivotVolume,
+  TimingRow,
+  VolumeDimension,
+  volumeTotals,
+} from "../lib/analytics";
+import {
+  ALL_UNITS,
+  Directory,
+  loadDirectory,
+  loadSavedContext,
+  unitsFor,
+  validContext,
+} from "../lib/directory";
+
+/* =========================================================
+   ANALYTICS DASHBOARD
+   - Volume over time by priority / shift / unit (stacked bars)
+   - Time to first update + time to resolve: mean, median, p90
+   - Repeat offenders: titles and catalog items that keep coming back
+   - Backlog trend: open at end of day, created vs closed
+   Numbers come from SQL RPCs (live + archived handoffs, RLS applies).
+========================================================= */
+
+const RANGES: { days: number; label: string }[] = [
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+  { days: 365, label: "1 year" },
+];
+
+const DEFAULT_FACILITY = "PHC"; // until the directory / saved context loads
+
+const fieldCls = "rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm outline-none";
+const cardCls = "rounded-2xl border border-white/10 bg-black/25 p-4 cs-card-glow";
+
+function TimingTable({ title, rows, labelOf }: { title: string; rows: TimingRow[]; labelOf: (r: TimingRow) => string }) {
+  if (rows.length === 0) return null;
+  return (
+    <div className="mt-3 overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs opacity-60 text-left">
+            <th className="py-1 pr-3 font-normal">{title}</th>
+            <th className="py-1 pr-3 font-normal text-right">Handoffs</th>
+            <th className="py-1 pr-3 font-normal text-right">1st update mean</th>
+            <th className="py-1 pr-3 font-normal text-right">median</th>
+            <th className="py-1 pr-3 font-normal text-right">p90</th>
+            <th className="py-1 pr-3 font-normal text-right">Resolve mean</th>
+            <th className="py-1 pr-3 font-normal text-right">median</th>
+            <th className="py-1 font-normal text-right">p90</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => (
+            <tr key={labelOf(r)} className="border-t border-white/5">
+              <td className="py-1 pr-3">{labelOf(r)}</td>
+              <td className="py-1 pr-3 text-right">{r.n}</td>
+              <td className="py-1 pr-3 text-right">{fmtMinutes(r.first_update_mean)}</td>
+              <td className="py-1 pr-3 text-right">{fmtMinutes(r.first_update_p50)}</td>
+              <td className="py-1 pr-3 text-right">{fmtMinutes(r.first_update_p90)}</td>
+              <td className="py-1 pr-3 text-right">{fmtMinutes(r.resolve_mean)}</td>
+              <td className="py-1 pr-3 text-right">{fmtMinutes(r.resolve_p50)}</td>
+              <td className="py-1 text-right">{fmtMinutes(r.resolve_p90)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function DashboardPage() {
+  const { supabase, sessionUserId, checked: authChecked } = useSession();
+
+  const [directory, setDirectory] = useState<Directory>({ facilities: [], units: [] });
+  const [facilityId, setFacilityId] = useState<string>(DEFAULT_FACILITY);
+  const [unit, setUnit] = useState<string>(ALL_UNITS);
+
+  const [days, setDays] = useState<number>(30);
+  const [bucket, setBucket] = useState<Bucket>("day");
+  const [dim, setDim] = useState<VolumeDimension>("priority");
+
+  const [data, setData] = useState<Analytics | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [err, setErr] = useState<string>("");
+
+  /* =========================
+     DIRECTORY
+  ========================= */
+  useEffect(() => {
+    if (!supabase) return;
+    if (!sessionUserId) return;
+    let alive = true;
+    loadDirectory(supabase)
+      .then((dir) => {
+        if (!alive) return;
+        setDirectory(dir);
+        const saved = loadSavedContext();
+        const ctx = validContext(dir, saved?.facilityId ?? DEFAULT_FACILITY, saved?.unit ?? ALL_UNITS);
+        if (ctx) {
+          setFacilityId(ctx.facilityId);
+          setUnit(ctx.unit);
+        }
+      })
+      .catch((e: any) => {
+        if (alive) setErr(e?.message ?? "Failed to load directory");
+      });
+    return () => {
+      alive = false;
+    };
+  }, [supabase, sessionUserId]);
+
+  /* =========================
+     LOAD (Abort-safe)
+  ========================= */
+  useEffect(() => {
+    if (!supabase) return;
+    if (!sessionUserId) return;
+
+    const controller = new AbortController();
+    const to = new Date();
+    const from = new Date(to.getTime() - days * 24 * 60 * 60_000);
+
+    setLoading(true);
+    setErr("");
+    loadAnalytics(
+      supabase,
+      { facilityId, unit: unit === ALL_UNITS ? null : unit, from, to },
+      bucket,
+      controller.signal
+    )
+      .then(setData)
+      .catch((e: any) => {
+        if (isAbortError(e)) return;
+        setErr(e?.message ?? "Failed to load analytics");
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [supabase, sessionUserId, facilityId, unit, days, bucket]);
+
+  /* =========================
+     DERIVED
+  ========================= */
+  const volume = useMemo(() => pivotVolume(data?.volume ?? [], dim), [data, dim]);
+  const criticalByUnit = useMemo(
+    () =>
+      Object.entries(volumeTotals((data?.volume ?? []).filter((r) => r.priority === "Critical"), "unit")).sort(
+        (a, b) => b[1] - a[1]
+      ),
+    [data]
+  );
+  const timings = data?.timings ?? [];
+  const overall = timings.filter((r) => r.priority === null && r.shift === null);
+  const byPriority = timings.filter((r) => r.priority !== null && r.shift === null);
+  const byShift = timings.filter((r) => r.priority === null && r.shift !== null);
+  const titles = (data?.offenders ?? []).filter((o) => o.kind === "title");
+  const items = (data?.offenders ?? []).filter((o) => o.kind === "item");
+  const backlog = data?.backlog ?? [];
+
+  /* =========================
+     RENDER
+  ========================= */
+  if (!supabase) {
+    return <div className="p-6 text-sm text-red-300">Missing Supabase env vars.</div>;
+  }
+  if (authChecked && !sessionUserId) {
+    return (
+      <div className="p-6 text-sm">
+        Signed out. <a href="/" className="underline underline-offset-2">Sign in on the handoffs page</a>.
+      </div>
+    );
+  }
+
+  const facilityUnits = unitsFor(directory, facilityId);
+
+  return (
+    <main className="min-h-screen text-white">
+      <style>{`
+        .cs-card-glow {
+          box-shadow: 0 0 0 1px rgba(255, 255, 255, 0.08), 0 10px 30px rgba(0, 0, 0, 0.35);
+        }
+      `}</style>
+
+      <header className="sticky top-0 z-50 border-b border-white/10 bg-black/50 backdrop-blur">
+        <div className="mx-auto max-w-6xl px-4 py-3 flex items-center justify-between gap-3">
+          <div>
+            <div className="text-sm opacity-70">Central Supply Handoff · Dashboard</div>
+            <div className="text-xs opacity-60">
+              Facility: <b>{facilityId}</b> · Unit: <b>{unit === ALL_UNITS ? "All units" : unit}</b>
+              {loading && " · loading…"}
+            </div>
+          </div>
+          <a
+            href="/"
+            className="rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 px-3 py-2 text-sm"
+          >
+            Handoffs
+          </a>
+        </div>
+      </header>
+
+      <section className="mx-auto max-w-6xl px-4 pt-4 pb-12 space-y-4">
+        {/* CONTROLS */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          <select value={facilityId} onChange={(e) => setFacilityId(e.target.value)} className={fieldCls} aria-label="Facility">
+            {!directory.facilities.some((f) => f.id === facilityId) && <option value={facilityId}>{facilityId}</option>}
+            {directory.facilities
+              .filter((f) => f.active)
+              .map((f) => (
+                <option key={f.id} value={f.id}>
+                  {f.name}
+                </option>
+              ))}
+          </select>
+          <select value={unit} onChange={(e) => setUnit(e.target.value)} className={fieldCls} aria-label="Unit">
+            <option value={ALL_UNITS}>All units</option>
+            {facilityUnits.map((u) => (
+              <option key={u.code} value={u.code}>
+                {u.name}
+              </option>
+            ))}
+          </select>
+          <select value={days} onChange={(e) => setDays(Number(e.target.value))} className={fieldCls} aria-label="Range">
+            {RANGES.map((r) => (
+              <option key={r.days} value={r.days}>
+                Last {r.label}
+              </option>
+            ))}
+          </select>
+          <select value={bucket} onChange={(e) => setBucket(e.target.value as Bucket)} className={fieldCls} aria-label="Bucket">
+            <option value="day">By day</option>
+            <option value="week">By week</option>
+            <option value="month">By month</option>
+          </select>
+        </div>
+
+        {err && <div className="text-sm text-red-300">{err}</div>}
+
+        {/* VOLUME */}
+        <div className={cardCls}>
+          <div className="flex items-center justify-between gap-2">
+            <div className="text-sm font-medium">Volume</div>
+            <div className="flex gap-1.5">
+              {(["priority", "shift", "unit"] as VolumeDimension[]).map((d) => (
+                <button
+                  key={d}
+                  onClick={() => setDim(d)}
+                  className={cx(
+                    "text-xs rounded-full px-2 py-1 border",
+                    dim === d ? "border-sky-300/40 bg-sky-500/15" : "border-white/10 bg-white/5 opacity-70"
+                  )}
+                >
+                  by {d}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="mt-3">
+            <StackedBars labels={volume.buckets} series={volume.series} />
+          </div>
+          {criticalByUnit.length > 0 && (
+            <div className="mt-3 text-xs opacity-80">
+              Critical by unit:{" "}
+              {criticalByUnit.map(([u, n], i) => (
+                <span key={u}>
+                  {i > 0 && " · "}
+                  <b>{u}</b> {n}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* TIMINGS */}
+        <div className={cardCls}>
+          <div className="text-sm font-medium">Response times</div>
+          <div className="text-xs opacity-60">
+            Time to first (non-system) update and to resolve, for handoffs created in the range.
+          </div>
+          {timings.length === 0 && !loading && <div className="mt-3 text-sm opacity-60">No data for this range.</div>}
+          <TimingTable title="Overall" rows={overall} labelOf={() => "All"} />
+          <TimingTable title="Priority" rows={byPriority} labelOf={(r) => r.priority ?? "—"} />
+          <TimingTable title="Shift" rows={byShift} labelOf={(r) => r.shift ?? "—"} />
+        </div>
+
+        {/* REPEAT OFFENDERS */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {[
+            { title: "Repeat titles", rows: titles },
+            { title: "Repeat items", rows: items },
+          ].map(({ title, rows }) => (
+            <div key={title} className={cardCls}>
+              <div className="text-sm font-medium">{title}</div>
+              {rows.length === 0 && <div className="mt-2 text-sm opacity-60">Nothing repeats in this range.</div>}
+              <div className="mt-2 space-y-1.5">
+                {rows.map((o) => (
+                  <div key={o.label} className="flex items-start justify-between gap-3 text-sm">
+                    <div className="min-w-0 break-words">
+                      {o.label}
+                      {o.units && <div className="text-xs opacity-60">{o.units}</div>}
+                    </div>
+                    <div className="shrink-0 text-right">
+                      <b>{o.n}</b>
+                      {o.critical_n > 0 && <div className="text-xs text-red-300">{o.critical_n} Critical</div>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* BACKLOG */}
+        <div className={cardCls}>
+          <div className="text-sm font-medium">Backlog</div>
+          <div className="text-xs opacity-60">Open at end of day, and created vs closed per day.</div>
+          <div className="mt-3">
+            <Lines
+              labels={backlog.map((b) => b.day)}
+              series={[
+                { key: "Open", values: backlog.map((b) => b.open_at_end) },
+                { key: "Created", values: backlog.map((b) => b.created) },
+                { key: "Closed", values: backlog.map((b) => b.closed) },
+              ]}
+            />
+          </div>
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,8 @@
+import HandoffBoard from "../../components/HandoffBoard";
+
+export const dynamic = "force-dynamic";
+
+// Facility overview (all units)
+export default function FacilityPage() {
+  return <HandoffBoard />;
+}
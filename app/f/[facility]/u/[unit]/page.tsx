@@ -0,0 +1,7 @@
+import HandoffBoard from "../../../../components/HandoffBoard";
+
+export const dynamic = "force-dynamic";
+
+export default function UnitPage() {
+  return <HandoffBoard />;
+}
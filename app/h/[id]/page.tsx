@@ -0,0 +1,11 @@
+import { notFound } from "next/navigation";
+import HandoffBoard from "../../components/HandoffBoard";
+import { isHandoffId } from "../../lib/routes";
+
+export const dynamic = "force-dynamic";
+
+// The board reads the route from the URL (also when served from the offline shell)
+export default function HandoffPage({ params }: { params: { id: string } }) {
+  if (!isHandoffId(params.id)) notFound();
+  return <HandoffBoard />;
+}
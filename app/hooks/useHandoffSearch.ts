@@ -0,0 +1,198 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../lib/database.types";
+import {
+  deleteView,
+  EMPTY_FILTER,
+  filterFromQuery,
+  filterToQuery,
+  HandoffFilter,
+  loadSavedViews,
+  SavedView,
+  saveView,
+  searchHandoffIds,
+  writeFilterParams,
+} from "../lib/filters";
+import { loadHandoffsByIds } from "../lib/paging";
+import { searchArchive } from "../lib/archive";
+import { ALL_UNITS } from "../lib/directory";
+import { unitPath } from "../lib/routes";
+import { isAbortError } from "../lib/format";
+import type { ArchivedHandoff, Handoff } from "../lib/types";
+
+/* =========================================================
+   SEARCH + FILTERS (see lib/filters)
+   - filter is read from the URL query once on mount, then mirrored back
+     (other params kept), so a view is a shareable link
+   - Text search: full-text RPC + archive, debounced and Abort-safe;
+     matchIds null = no text query. Hits among closed handoffs the list
+     hasn't paged to yet are loaded and handed to onHits
+   - Named saved views per user
+========================================================= */
+
+export default function useHandoffSearch({
+  supabase,
+  sessionUserId,
+  facilityId,
+  unit,
+  handoffs,
+  onHits,
+  reloadTick,
+}: {
+  supabase: SupabaseClient<Database> | null;
+  sessionUserId: string | null;
+  facilityId: string;
+  unit: string; // ALL_UNITS = whole facility
+  handoffs: Handoff[];
+  onHits: (rows: Handoff[]) => void;
+  reloadTick?: number;
+}) {
+  const [filter, setFilter] = useState<HandoffFilter>(EMPTY_FILTER);
+  const [filterLoaded, setFilterLoaded] = useState<boolean>(false);
+  const [matchIds, setMatchIds] = useState<Set<string> | null>(null);
+  const [searching, setSearching] = useState<boolean>(false);
+  const [error, setError] = useState<string>("");
+  const [archived, setArchived] = useState<ArchivedHandoff[]>([]);
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [viewErr, setViewErr] = useState<string>("");
+
+  // Latest list + callback for the search without re-running it on every row change
+  const handoffsRef = useRef<Handoff[]>(handoffs);
+  handoffsRef.current = handoffs;
+  const onHitsRef = useRef(onHits);
+  onHitsRef.current = onHits;
+
+  /* =========================
+     FILTER <-> URL
+  ========================= */
+  useEffect(() => {
+    setFilter(filterFromQuery(window.location.search));
+    setFilterLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!filterLoaded) return;
+    const params = writeFilterParams(new URLSearchParams(window.location.search), filter);
+    const qs = params.toString();
+    window.history.replaceState(window.history.state, "", window.location.pathname + (qs ? `?${qs}` : ""));
+  }, [filter, filterLoaded]);
+
+  /* =========================
+     TEXT SEARCH (debounced, Abort-safe)
+  ========================= */
+  const q = filter.q.trim();
+  useEffect(() => {
+    if (!supabase) return;
+    if (!sessionUserId) return;
+
+    if (!q) {
+      setMatchIds(null);
+      setArchived([]);
+      setSearching(false);
+      setError("");
+      return;
+    }
+
+    const controller = new AbortController();
+    const t = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const args = { facilityId, unit: unit === ALL_UNITS ? null : unit, q };
+        const [ids, old] = await Promise.all([
+          searchHandoffIds(supabase, args, controller.signal),
+          searchArchive(supabase, args, controller.signal),
+        ]);
+
+        const loaded = new Set(handoffsRef.current.map((h) => h.id));
+        const missing = Array.from(ids).filter((id) => !loaded.has(id));
+        const rows = await loadHandoffsByIds(supabase, missing, controller.signal);
+        if (rows.length) onHitsRef.current(rows);
+
+        setMatchIds(ids);
+        setArchived(old);
+        setError("");
+      } catch (e: any) {
+        if (isAbortError(e)) return;
+        setError(e?.message ?? "Search failed");
+      } finally {
+        if (!controller.signal.aborted) setSearching(false);
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(t);
+      controller.abort();
+    };
+  }, [supabase, sessionUserId, q, facilityId, unit, reloadTick]);
+
+  /* =========================
+     SAVED VIEWS
+  ========================= */
+  useEffect(() => {
+    if (!supabase) return;
+    if (!sessionUserId) {
+      setViews([]);
+      return;
+    }
+    let alive = true;
+    loadSavedViews(supabase)
+      .then((v) => {
+        if (alive) setViews(v);
+      })
+      .catch(() => {
+        // views are a convenience; the filter bar works without them
+      });
+    return () => {
+      alive = false;
+    };
+  }, [supabase, sessionUserId]);
+
+  async function saveCurrentView(name: string) {
+    if (!supabase) return;
+    if (!sessionUserId) return;
+    setViewErr("");
+    try {
+      await saveView(supabase, sessionUserId, name, filterToQuery(filter));
+      setViews(await loadSavedViews(supabase));
+    } catch (e: any) {
+      setViewErr(e?.message ?? "Failed to save view");
+    }
+  }
+
+  async function removeView(view: SavedView) {
+    if (!supabase) return;
+    if (!window.confirm(`Delete view "${view.name}"?`)) return;
+    setViewErr("");
+    try {
+      await deleteView(supabase, view.id);
+      setViews((prev) => prev.filter((v) => v.id !== view.id));
+    } catch (e: any) {
+      setViewErr(e?.message ?? "Failed to delete view");
+    }
+  }
+
+  async function copyViewLink() {
+    const qs = filterToQuery(filter);
+    const url = window.location.origin + unitPath(facilityId, unit) + (qs ? `?${qs}` : "");
+    try {
+      await navigator.clipboard.writeText(url);
+    } catch {
+      window.prompt("Copy this link", url);
+    }
+  }
+
+  return {
+    filter,
+    setFilter,
+    matchIds,
+    searching,
+    error: error || viewErr,
+    archived,
+    views,
+    saveCurrentView,
+    removeView,
+    copyViewLink,
+  };
+}
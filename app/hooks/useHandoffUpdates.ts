@@ -0,0 +1,98 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../lib/database.types";
+import { mergeRowChange, RealtimeSource } from "../lib/realtime";
+import { listHandoffUpdates } from "../lib/handoffRepo";
+import { isAbortError } from "../lib/format";
+import type { HandoffUpdate } from "../lib/types";
+
+/* =========================================================
+   UPDATES FOR THE OPEN HANDOFF
+   - Loaded oldest first; realtime inserts are merged and kept in order
+   - reloadTick bumps on every refetch (manual, or after a realtime drop) so
+     the other per-handoff loads (audit, line items, photos) can ride on it
+========================================================= */
+
+function byCreatedAt(a: HandoffUpdate, b: HandoffUpdate) {
+  return Date.parse(a.created_at || "") - Date.parse(b.created_at || "");
+}
+
+export default function useHandoffUpdates({
+  supabase,
+  realtime,
+  sessionUserId,
+  handoffId,
+}: {
+  supabase: SupabaseClient<Database> | null;
+  realtime: RealtimeSource | null;
+  sessionUserId: string | null;
+  handoffId: string | null;
+}) {
+  const [updates, setUpdates] = useState<HandoffUpdate[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>("");
+  const [reloadTick, setReloadTick] = useState<number>(0);
+
+  const reload = () => setReloadTick((t) => t + 1);
+
+  /* =========================
+     LOAD (Abort-safe)
+  ========================= */
+  useEffect(() => {
+    if (!supabase) return;
+    if (!sessionUserId) return;
+    if (!handoffId) {
+      setUpdates([]);
+      setError("");
+      return;
+    }
+
+    const controller = new AbortController();
+
+    const load = async () => {
+      setLoading(true);
+      setError("");
+      try {
+        setUpdates(await listHandoffUpdates(supabase, handoffId, controller.signal));
+      } catch (e: any) {
+        if (isAbortError(e)) return;
+        setError(e?.message ?? "Failed to load updates");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => controller.abort();
+  }, [supabase, sessionUserId, handoffId, reloadTick]);
+
+  /* =========================
+     REALTIME
+  ========================= */
+  useEffect(() => {
+    if (!realtime) return;
+    if (!sessionUserId) return;
+    if (!handoffId) return;
+
+    let dropped = false;
+
+    return realtime.subscribe<HandoffUpdate>(
+      { table: "handoff_updates", eq: { column: "handoff_id", value: handoffId } },
+      (change) => {
+        setUpdates((prev) => mergeRowChange(prev, change, (u) => u.handoff_id === handoffId).sort(byCreatedAt));
+      },
+      (status) => {
+        if (status === "reconnecting" || status === "offline") dropped = true;
+        if (status === "live" && dropped) {
+          dropped = false;
+          setReloadTick((t) => t + 1);
+        }
+      }
+    );
+  }, [realtime, sessionUserId, handoffId]);
+
+  return { updates, setUpdates, loading, error, setError, reloadTick, reload };
+}
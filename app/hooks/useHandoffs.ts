@@ -0,0 +1,173 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../lib/database.types";
+import { mergeRowChange, RealtimeSource, RealtimeStatus } from "../lib/realtime";
+import { Cursor, loadActiveHandoffs, loadClosedPage, loadHandoffsByIds, mergeHandoffs } from "../lib/paging";
+import { ALL_UNITS } from "../lib/directory";
+import { isAbortError } from "../lib/format";
+import type { Handoff } from "../lib/types";
+
+/* =========================================================
+   HANDOFF LIST (one facility / unit)
+   - Active handoffs load eagerly, closed ones a page at a time (loadMore)
+   - Realtime merges row changes live; facility filter server-side, unit client-side
+   - Missed events while disconnected are recovered by a full refetch;
+     onResync lets the caller refetch what hangs off the list too
+   - keepId: a handoff to keep in the list even when it isn't on the first
+     page (deep link, older search hit)
+========================================================= */
+
+export default function useHandoffs({
+  supabase,
+  realtime,
+  sessionUserId,
+  facilityId,
+  unit,
+  keepId,
+  onResync,
+}: {
+  supabase: SupabaseClient<Database> | null;
+  realtime: RealtimeSource | null;
+  sessionUserId: string | null;
+  facilityId: string;
+  unit: string; // ALL_UNITS = whole facility
+  keepId?: () => string | null;
+  onResync?: () => void;
+}) {
+  const [handoffs, setHandoffs] = useState<Handoff[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>("");
+  const [closedCursor, setClosedCursor] = useState<Cursor | null>(null); // null = no more closed pages
+  const [loadingMore, setLoadingMore] = useState<boolean>(false);
+  const [liveStatus, setLiveStatus] = useState<RealtimeStatus>("offline");
+  const [reloadTick, setReloadTick] = useState<number>(0);
+
+  const genRef = useRef<number>(0); // bumps on every full reload; stale pages are dropped
+  // Latest callbacks without resubscribing
+  const keepIdRef = useRef(keepId);
+  keepIdRef.current = keepId;
+  const onResyncRef = useRef(onResync);
+  onResyncRef.current = onResync;
+
+  const reload = () => setReloadTick((t) => t + 1);
+
+  /* =========================
+     LOAD (Abort-safe)
+  ========================= */
+  useEffect(() => {
+    if (!supabase) return;
+    if (!sessionUserId) return;
+
+    const controller = new AbortController();
+    const gen = ++genRef.current;
+
+    const load = async () => {
+      setLoading(true);
+      setError("");
+      try {
+        const ctx = { facilityId, unit: unit === ALL_UNITS ? null : unit };
+        const [active, closed] = await Promise.all([
+          loadActiveHandoffs(supabase, ctx, controller.signal),
+          loadClosedPage(supabase, ctx, null, controller.signal),
+        ]);
+        let rows = [...active, ...closed.rows];
+
+        const openId = keepIdRef.current?.() ?? null;
+        if (openId && !rows.some((h) => h.id === openId)) {
+          rows = mergeHandoffs(rows, await loadHandoffsByIds(supabase, [openId], controller.signal));
+        }
+
+        if (gen !== genRef.current) return;
+        setHandoffs(rows);
+        setClosedCursor(closed.next);
+      } catch (e: any) {
+        if (isAbortError(e)) return; // AbortError ignored (locked requirement)
+        setError(e?.message ?? "Failed to load handoffs");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => controller.abort();
+  }, [supabase, sessionUserId, facilityId, unit, reloadTick]);
+
+  /* =========================
+     REALTIME
+  ========================= */
+  useEffect(() => {
+    if (!realtime) return;
+    if (!sessionUserId) return;
+
+    let dropped = false;
+    const resync = () => {
+      setReloadTick((t) => t + 1);
+      onResyncRef.current?.();
+    };
+
+    const unsubscribe = realtime.subscribe<Handoff>(
+      { table: "handoffs", eq: { column: "facility_id", value: facilityId } },
+      (change) => {
+        setHandoffs((prev) => mergeRowChange(prev, change, (h) => unit === ALL_UNITS || h.unit === unit));
+      },
+      (status) => {
+        setLiveStatus(status);
+        if (status === "reconnecting" || status === "offline") dropped = true;
+        if (status === "live" && dropped) {
+          dropped = false;
+          resync();
+        }
+      }
+    );
+
+    window.addEventListener("online", resync);
+
+    return () => {
+      window.removeEventListener("online", resync);
+      unsubscribe();
+      setLiveStatus("offline");
+    };
+  }, [realtime, sessionUserId, facilityId, unit]);
+
+  /* =========================
+     NEXT CLOSED PAGE
+  ========================= */
+  const loadMore = useCallback(async () => {
+    if (!supabase) return;
+    if (!closedCursor || loadingMore) return;
+
+    const gen = genRef.current;
+    setLoadingMore(true);
+    try {
+      const page = await loadClosedPage(
+        supabase,
+        { facilityId, unit: unit === ALL_UNITS ? null : unit },
+        closedCursor
+      );
+      if (gen !== genRef.current) return; // context changed / reloaded meanwhile
+      setHandoffs((prev) => mergeHandoffs(prev, page.rows));
+      setClosedCursor(page.next);
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to load older handoffs");
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [supabase, closedCursor, loadingMore, facilityId, unit]);
+
+  return {
+    handoffs,
+    setHandoffs,
+    loading,
+    error,
+    setError,
+    closedCursor,
+    loadingMore,
+    loadMore,
+    liveStatus,
+    reloadTick,
+    reload,
+  };
+}
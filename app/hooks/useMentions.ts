@@ -0,0 +1,76 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../lib/database.types";
+import type { RealtimeSource } from "../lib/realtime";
+import { loadMentionable, Mentionable, unreadMentionCount } from "../lib/mentions";
+
+/* =========================================================
+   MENTIONS (see lib/mentions)
+   - mentionable: facility staff for @ autocomplete
+   - unread: inbox badge; recounted when a mention arrives (realtime),
+     when the inbox changes something (reload) and on reloadTick
+   - tick goes to the inbox too, so an open one refetches
+========================================================= */
+
+export default function useMentions({
+  supabase,
+  realtime,
+  sessionUserId,
+  facilityId,
+  reloadTick,
+}: {
+  supabase: SupabaseClient<Database> | null;
+  realtime: RealtimeSource | null;
+  sessionUserId: string | null;
+  facilityId: string;
+  reloadTick?: number;
+}) {
+  const [mentionable, setMentionable] = useState<Mentionable[]>([]);
+  const [unread, setUnread] = useState<number>(0);
+  const [tick, setTick] = useState<number>(0);
+
+  const reload = useCallback(() => setTick((t) => t + 1), []);
+
+  useEffect(() => {
+    if (!supabase) return;
+    if (!sessionUserId || !facilityId) {
+      setMentionable([]);
+      return;
+    }
+    let alive = true;
+    loadMentionable(supabase, facilityId)
+      .then((rows) => alive && setMentionable(rows))
+      .catch(() => alive && setMentionable([])); // autocomplete is a nicety; typing still works
+    return () => {
+      alive = false;
+    };
+  }, [supabase, sessionUserId, facilityId]);
+
+  useEffect(() => {
+    if (!supabase) return;
+    if (!sessionUserId) {
+      setUnread(0);
+      return;
+    }
+    let alive = true;
+    unreadMentionCount(supabase, sessionUserId)
+      .then((n) => alive && setUnread(n))
+      .catch(() => {});
+    return () => {
+      alive = false;
+    };
+  }, [supabase, sessionUserId, tick, reloadTick]);
+
+  useEffect(() => {
+    if (!realtime) return;
+    if (!sessionUserId) return;
+    return realtime.subscribe<{ id: string }>(
+      { table: "handoff_mentions", eq: { column: "user_id", value: sessionUserId } },
+      reload
+    );
+  }, [realtime, sessionUserId, reload]);
+
+  return { mentionable, unread, tick, reload };
+}
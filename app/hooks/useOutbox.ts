@@ -0,0 +1,124 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../lib/database.types";
+import { flushOutbox, forceOp, listOutbox, OutboxOp, pendingIds, removeOp } from "../lib/outbox";
+import type { RealtimeStatus } from "../lib/realtime";
+import type { Handoff, HandoffUpdate } from "../lib/types";
+
+/* =========================================================
+   OUTBOX (offline-first mutations; see lib/outbox)
+   - ops mirrors the IndexedDB queue: pending ids for the badge / overlay,
+     parked conflicts for the "apply anyway / discard" strip
+   - Lists and replays only the signed-in user's ops
+   - Replays on sign-in, when the browser comes back online and when
+     realtime reconnects; onApplied hands each server row to the caller.
+     A background replay that fails lands in error instead of being dropped
+========================================================= */
+
+export default function useOutbox({
+  supabase,
+  sessionUserId,
+  liveStatus,
+  onApplied,
+}: {
+  supabase: SupabaseClient<Database> | null;
+  sessionUserId: string | null;
+  liveStatus: RealtimeStatus;
+  onApplied?: (outcome: { handoff?: Handoff; update?: HandoffUpdate }) => void;
+}) {
+  const [ops, setOps] = useState<OutboxOp[]>([]);
+  const [error, setError] = useState<string>("");
+  const pending = useMemo(() => pendingIds(ops), [ops]);
+  const conflicts = useMemo(() => ops.filter((op) => !!op.conflict), [ops]);
+
+  // Latest values for the replay triggers without re-running them
+  const opsRef = useRef<OutboxOp[]>(ops);
+  opsRef.current = ops;
+  const onAppliedRef = useRef(onApplied);
+  onAppliedRef.current = onApplied;
+
+  const refresh = useCallback(async () => {
+    if (!sessionUserId) {
+      setOps([]);
+      return;
+    }
+    try {
+      setOps(await listOutbox(sessionUserId));
+    } catch {
+      // IndexedDB read failures are non-fatal; the next flush retries
+    }
+  }, [sessionUserId]);
+
+  // Replays the user's ops; server rows replace their optimistic copies. Throws (callers report)
+  const sync = useCallback(async () => {
+    if (!supabase) return null;
+    if (!sessionUserId) return null;
+    const res = await flushOutbox(supabase, sessionUserId, (_op, outcome) => onAppliedRef.current?.(outcome));
+    await refresh();
+    setError("");
+    return res;
+  }, [supabase, sessionUserId, refresh]);
+
+  // Background replays (sign-in, online, reconnect) have no caller to report to
+  const replay = useCallback(async () => {
+    try {
+      await sync();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Couldn't sync queued changes");
+    }
+  }, [sync]);
+
+  const applyAnyway = useCallback(
+    async (op: OutboxOp) => {
+      try {
+        await forceOp(op);
+        await refresh();
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "Couldn't update the queued change");
+        return;
+      }
+      await replay();
+    },
+    [refresh, replay]
+  );
+
+  const discard = useCallback(
+    async (op: OutboxOp) => {
+      if (op.seq == null) return;
+      try {
+        await removeOp(op.seq);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "Couldn't discard the queued change");
+      }
+      await refresh();
+    },
+    [refresh]
+  );
+
+  /* =========================
+     REPLAY: sign-in + back online
+  ========================= */
+  useEffect(() => {
+    if (!supabase) return;
+    if (!sessionUserId) {
+      setOps([]);
+      return;
+    }
+
+    refresh().then(replay);
+
+    window.addEventListener("online", replay);
+    return () => window.removeEventListener("online", replay);
+  }, [supabase, sessionUserId, refresh, replay]);
+
+  /* =========================
+     REPLAY: realtime back (live again)
+  ========================= */
+  useEffect(() => {
+    if (liveStatus === "live" && opsRef.current.some((op) => !op.conflict)) replay();
+  }, [liveStatus, replay]);
+
+  return { ops, pending, conflicts, error, refresh, sync, applyAnyway, discard };
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../lib/database.types";
+import { loadPeople, PeopleIndex } from "../lib/assignment";
+import type { Profile } from "../lib/types";
+
+/* =========================================================
+   PEOPLE (user id -> display name)
+   - Names for whatever the board shows (assignees, photo uploaders);
+     only ids not looked up yet are fetched, and the index only grows
+   - The signed-in user's own profile is known without a query
+========================================================= */
+
+export default function usePeople({
+  supabase,
+  sessionUserId,
+  ids,
+  profile,
+}: {
+  supabase: SupabaseClient<Database> | null;
+  sessionUserId: string | null;
+  ids: (string | null | undefined)[];
+  profile?: Profile | null;
+}) {
+  const [people, setPeople] = useState<PeopleIndex>({});
+
+  // Latest index for the loader without refetching when it grows
+  const peopleRef = useRef<PeopleIndex>(people);
+  peopleRef.current = people;
+
+  // A stable key, so a new array with the same ids doesn't reload
+  const key = useMemo(
+    () =>
+      Array.from(new Set(ids.filter((id): id is string => !!id)))
+        .sort()
+        .join(","),
+    [ids]
+  );
+
+  useEffect(() => {
+    if (profile) setPeople((prev) => ({ ...prev, [profile.user_id]: profile.display_name }));
+  }, [profile]);
+
+  useEffect(() => {
+    if (!supabase) return;
+    if (!sessionUserId) return;
+    if (!key) return;
+    const wanted = key.split(",");
+    if (wanted.every((id) => id in peopleRef.current)) return;
+
+    let alive = true;
+    loadPeople(supabase, wanted, peopleRef.current)
+      .then((next) => {
+        if (alive) setPeople((prev) => ({ ...next, ...prev })); // names already known (own profile) win
+      })
+      .catch(() => {
+        // names are cosmetic; the list still works with "…"
+      });
+    return () => {
+      alive = false;
+    };
+  }, [supabase, sessionUserId, key]);
+
+  return people;
+}
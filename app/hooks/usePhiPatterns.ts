@@ -0,0 +1,45 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../lib/database.types";
+import { DEFAULT_PHI_PATTERNS, loadPhiPatterns, PhiPattern } from "../lib/phi";
+
+/* =========================================================
+   PHI PATTERNS (the facility's set; see lib/phi)
+   - Defaults until it loads, and whenever it can't: the phi_guard
+     triggers still apply the real set on every write
+   - reload after the admin panel changes a pattern
+========================================================= */
+
+export default function usePhiPatterns({
+  supabase,
+  sessionUserId,
+  facilityId,
+}: {
+  supabase: SupabaseClient<Database> | null;
+  sessionUserId: string | null;
+  facilityId: string;
+}) {
+  const [patterns, setPatterns] = useState<PhiPattern[]>(DEFAULT_PHI_PATTERNS);
+  const [tick, setTick] = useState<number>(0);
+
+  const reload = useCallback(() => setTick((t) => t + 1), []);
+
+  useEffect(() => {
+    if (!supabase) return;
+    if (!sessionUserId || !facilityId) {
+      setPatterns(DEFAULT_PHI_PATTERNS);
+      return;
+    }
+    let alive = true;
+    loadPhiPatterns(supabase, facilityId)
+      .then((rows) => alive && setPatterns(rows))
+      .catch(() => alive && setPatterns(DEFAULT_PHI_PATTERNS));
+    return () => {
+      alive = false;
+    };
+  }, [supabase, sessionUserId, facilityId, tick]);
+
+  return { patterns, reload };
+}
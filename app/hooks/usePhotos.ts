@@ -0,0 +1,132 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../lib/database.types";
+import { mergeRowChange, RealtimeSource } from "../lib/realtime";
+import {
+  attachPhoto,
+  deleteAttachment,
+  loadAttachments,
+  MAX_PHOTOS_PER_POST,
+  PhotoUrls,
+  resolvePhotoUrls,
+} from "../lib/photos";
+import { isAbortError } from "../lib/format";
+import type { HandoffAttachment } from "../lib/types";
+
+/* =========================================================
+   PHOTOS FOR THE OPEN HANDOFF
+   - Rows load with the handoff (and again on reloadTick), live inserts /
+     deletes merge in; signed URLs are resolved once per photo and cached
+   - Uploads go straight to the store (no outbox); updateId null = on the
+     handoff itself
+========================================================= */
+
+export default function usePhotos({
+  supabase,
+  realtime,
+  sessionUserId,
+  handoffId,
+  reloadTick,
+}: {
+  supabase: SupabaseClient<Database> | null;
+  realtime: RealtimeSource | null;
+  sessionUserId: string | null;
+  handoffId: string | null;
+  reloadTick?: number;
+}) {
+  const [attachments, setAttachments] = useState<HandoffAttachment[]>([]);
+  const [urls, setUrls] = useState<PhotoUrls>({});
+  const [error, setError] = useState<string>("");
+  const [uploading, setUploading] = useState<boolean>(false);
+
+  // URLs already signed; read by the resolver without re-running it on every new URL
+  const urlsRef = useRef<PhotoUrls>(urls);
+  urlsRef.current = urls;
+
+  /* =========================
+     LOAD (Abort-safe)
+  ========================= */
+  useEffect(() => {
+    if (!supabase) return;
+    if (!sessionUserId) return;
+    setError("");
+    if (!handoffId) {
+      setAttachments([]);
+      setUrls({});
+      return;
+    }
+
+    const controller = new AbortController();
+    loadAttachments(supabase, handoffId, controller.signal)
+      .then(setAttachments)
+      .catch((e: any) => {
+        if (isAbortError(e)) return;
+        setError(e?.message ?? "Failed to load photos");
+      });
+    return () => controller.abort();
+  }, [supabase, sessionUserId, handoffId, reloadTick]);
+
+  /* =========================
+     SIGNED URLS (only the photos not resolved yet)
+  ========================= */
+  useEffect(() => {
+    if (!supabase) return;
+    if (attachments.length === 0) return;
+    let alive = true;
+    const known = urlsRef.current;
+    resolvePhotoUrls(supabase, attachments, known)
+      .then((next) => {
+        if (alive && next !== known) setUrls(next);
+      })
+      .catch((e: any) => alive && setError(e?.message ?? "Failed to load photos"));
+    return () => {
+      alive = false;
+    };
+  }, [supabase, attachments]);
+
+  /* =========================
+     REALTIME
+  ========================= */
+  useEffect(() => {
+    if (!realtime) return;
+    if (!sessionUserId) return;
+    if (!handoffId) return;
+
+    return realtime.subscribe<HandoffAttachment>(
+      { table: "handoff_attachments", eq: { column: "handoff_id", value: handoffId } },
+      (change) => {
+        setAttachments((prev) => mergeRowChange(prev, change, (a) => a.handoff_id === handoffId));
+      }
+    );
+  }, [realtime, sessionUserId, handoffId]);
+
+  /* =========================
+     UPLOAD / DELETE
+  ========================= */
+  async function upload(files: File[], updateId: string | null) {
+    if (!supabase) return;
+    if (!handoffId) return;
+    setUploading(true);
+    setError("");
+    try {
+      for (const file of files.slice(0, MAX_PHOTOS_PER_POST)) {
+        const a = await attachPhoto(supabase, { handoffId, updateId }, file);
+        setAttachments((prev) => (prev.some((x) => x.id === a.id) ? prev : [...prev, a]));
+      }
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to upload photo");
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  async function remove(a: HandoffAttachment) {
+    if (!supabase) return;
+    await deleteAttachment(supabase, a);
+    setAttachments((prev) => prev.filter((x) => x.id !== a.id));
+  }
+
+  return { attachments, urls, error, uploading, upload, remove };
+}
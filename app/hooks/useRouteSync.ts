@@ -0,0 +1,151 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../lib/database.types";
+import { checkRouteAccess, handoffPath, parseRoute, RouteAccess, unitPath } from "../lib/routes";
+import { isAbortError } from "../lib/format";
+
+/* =========================================================
+   ROUTE <-> HISTORY (/f/<facility>[/u/<unit>], /h/<id>; see lib/routes)
+   - The loaded route is checked once signed in: missing vs. no access ->
+     block (RouteNotice); a /h/<id> route opens that handoff
+   - After that the URL mirrors the board: the open handoff, else the unit
+   - showHandoff pushes /h/<id> when opened from the list, so Back closes
+     the drawer (leaveHandoff steps back over it); switching handoffs or
+     facility/unit only replaces the entry
+   - Back / Forward and notification clicks (service worker) come in
+     through onOpenHandoff / onClose / onUnit
+========================================================= */
+
+export type RouteBlock = { kind: Exclude<RouteAccess, "ok">; path: string };
+
+// Same query, new path; `push` adds the drawer's history entry (Back closes it)
+function writeUrl(path: string, push = false) {
+  const params = new URLSearchParams(window.location.search);
+  params.delete("h"); // legacy deep link, now in the path
+  const qs = params.toString();
+  const url = path + (qs ? `?${qs}` : "");
+  if (push) {
+    window.history.pushState({ ...window.history.state, csDrawer: true }, "", url);
+  } else {
+    // An entry that no longer shows a handoff isn't the drawer's any more
+    const csDrawer = !!window.history.state?.csDrawer && parseRoute(path)?.kind === "handoff";
+    window.history.replaceState({ ...window.history.state, csDrawer }, "", url);
+  }
+}
+
+export default function useRouteSync({
+  supabase,
+  sessionUserId,
+  selectedId,
+  facilityId,
+  unit,
+  onOpenHandoff,
+  onClose,
+  onUnit,
+}: {
+  supabase: SupabaseClient<Database> | null;
+  sessionUserId: string | null;
+  selectedId: string | null;
+  facilityId: string;
+  unit: string;
+  onOpenHandoff: (id: string) => void | Promise<void>;
+  onClose: () => void;
+  onUnit: (facilityId: string, unit: string) => void;
+}) {
+  const [ready, setReady] = useState<boolean>(false); // URL mirrors state only after the loaded route is applied
+  const [block, setBlock] = useState<RouteBlock | null>(null);
+
+  // Latest callbacks without re-checking the route or re-adding listeners
+  const onOpenRef = useRef(onOpenHandoff);
+  onOpenRef.current = onOpenHandoff;
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+  const onUnitRef = useRef(onUnit);
+  onUnitRef.current = onUnit;
+
+  /* =========================
+     LOADED ROUTE (once signed in)
+  ========================= */
+  useEffect(() => {
+    if (!supabase) return;
+    if (!sessionUserId) return;
+
+    const route = parseRoute(window.location.pathname, window.location.search) ?? { kind: "home" as const };
+    const controller = new AbortController();
+    (async () => {
+      let access: RouteAccess = "ok";
+      try {
+        access = await checkRouteAccess(supabase, route, controller.signal);
+      } catch (e: any) {
+        if (isAbortError(e)) return;
+        // Offline (or the RPC isn't deployed yet): let the board try the route itself
+      }
+      if (controller.signal.aborted) return;
+      if (access !== "ok") {
+        setBlock({ kind: access, path: window.location.pathname });
+        return;
+      }
+      setBlock(null);
+      if (route.kind === "handoff") await onOpenRef.current(route.id);
+      if (!controller.signal.aborted) setReady(true);
+    })();
+
+    return () => controller.abort();
+  }, [supabase, sessionUserId]);
+
+  /* =========================
+     STATE -> URL
+  ========================= */
+  useEffect(() => {
+    if (!ready || block) return;
+    const path = selectedId ? handoffPath(selectedId) : unitPath(facilityId, unit);
+    if (window.location.pathname !== path || new URLSearchParams(window.location.search).has("h")) {
+      writeUrl(path);
+    }
+  }, [ready, block, selectedId, facilityId, unit]);
+
+  /* =========================
+     BACK / FORWARD
+  ========================= */
+  useEffect(() => {
+    if (!sessionUserId) return;
+    const onPopState = () => {
+      const route = parseRoute(window.location.pathname, window.location.search);
+      if (route?.kind === "handoff") {
+        onOpenRef.current(route.id);
+        return;
+      }
+      onCloseRef.current();
+      if (route?.kind === "unit") onUnitRef.current(route.facilityId, route.unit);
+    };
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, [sessionUserId]);
+
+  /* =========================
+     NOTIFICATION CLICKS (service worker posts the handoff to open)
+  ========================= */
+  useEffect(() => {
+    if (!sessionUserId || typeof navigator === "undefined" || !("serviceWorker" in navigator)) return;
+    const onMessage = (e: MessageEvent) => {
+      if (e.data?.type === "open-handoff" && typeof e.data.id === "string") onOpenRef.current(e.data.id);
+    };
+    navigator.serviceWorker.addEventListener("message", onMessage);
+    return () => navigator.serviceWorker.removeEventListener("message", onMessage);
+  }, [sessionUserId]);
+
+  function showHandoff(id: string) {
+    const path = handoffPath(id);
+    if (window.location.pathname !== path) writeUrl(path, !window.history.state?.csDrawer);
+  }
+
+  // Step back over the entry showHandoff pushed so Back / Forward stay paired;
+  // a drawer loaded straight from /h/<id> has none, and the URL effect replaces it
+  function leaveHandoff() {
+    if (window.history.state?.csDrawer) window.history.back();
+  }
+
+  return { block, showHandoff, leaveHandoff };
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../lib/database.types";
+import { createBrowserClient } from "../lib/supabaseClient";
+import { disablePush } from "../lib/pushClient";
+import { clearOutbox } from "../lib/outbox";
+
+/* =========================================================
+   SESSION
+   - One browser client per mount (realtime channels and every effect key off it)
+   - supabase null = env vars missing; pages render a setup hint
+   - checked flips once the stored session has been read, so pages can tell
+     "signed out" from "not known yet"
+   - signOut also turns off this device's push and clears the offline outbox
+========================================================= */
+
+export default function useSession() {
+  const supabase: SupabaseClient<Database> | null = useMemo(() => createBrowserClient(), []);
+
+  const [sessionUserId, setSessionUserId] = useState<string | null>(null);
+  const [sessionEmail, setSessionEmail] = useState<string | null>(null);
+  const [checked, setChecked] = useState<boolean>(false);
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    if (!supabase) return;
+
+    let alive = true;
+
+    (async () => {
+      const { data, error } = await supabase.auth.getSession();
+      if (!alive) return;
+      setChecked(true);
+      if (error) {
+        setError(error.message);
+        setSessionUserId(null);
+        return;
+      }
+      setSessionUserId(data.session?.user?.id ?? null);
+      setSessionEmail(data.session?.user?.email ?? null);
+    })();
+
+    const { data: sub } = supabase.auth.onAuthStateChange((_event, sess) => {
+      setSessionUserId(sess?.user?.id ?? null);
+      setSessionEmail(sess?.user?.email ?? null);
+    });
+
+    return () => {
+      alive = false;
+      sub.subscription.unsubscribe();
+    };
+  }, [supabase]);
+
+  async function signOut() {
+    if (!supabase) return;
+    await disablePush(supabase).catch(() => {}); // this device stops getting this user's alerts
+    await supabase.auth.signOut();
+    await clearOutbox().catch(() => {}); // queued changes belong to this session only
+    setSessionUserId(null);
+    setSessionEmail(null);
+  }
+
+  return { supabase, sessionUserId, sessionEmail, checked, error, signOut };
+}
@@ -1,5 +1,14 @@
+import type { Metadata, Viewport } from "next";
 import "./globals.css";
 
+export const metadata: Metadata = {
+  title: "Central Supply Handoff",
+  appleWebApp: { capable: true, title: "CS Handoff", statusBarStyle: "black" },
+  icons: { icon: "/icon.svg", apple: "/icon.svg" },
+};
+
+export const viewport: Viewport = { themeColor: "#000000" };
+
 export default function RootLayout({ children }: { children: React.ReactNode }) {
   return (
     <html lang="en" style={{ background: "#000" }}>
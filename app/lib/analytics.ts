@@ -0,0 +1,116 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+import type { Priority, Shift } from "./types";
+
+/* =========================================================
+   ANALYTICS (dashboard; RPCs in the analytics migration)
+   - All numbers come from Postgres (live + archived handoffs)
+   - Helpers here only reshape rows for the charts
+========================================================= */
+
+export type Bucket = "day" | "week" | "month";
+export type VolumeDimension = "priority" | "shift" | "unit";
+
+export type VolumeRow = { bucket: string; priority: Priority; shift: Shift | null; unit: string | null; n: number };
+
+export type TimingRow = {
+  priority: Priority | null; // null = all priorities
+  shift: Shift | "—" | null; // null = all shifts; "—" = no shift recorded
+  n: number;
+  first_update_n: number;
+  first_update_mean: number | null; // minutes
+  first_update_p50: number | null;
+  first_update_p90: number | null;
+  resolve_n: number;
+  resolve_mean: number | null;
+  resolve_p50: number | null;
+  resolve_p90: number | null;
+};
+
+export type OffenderRow = { kind: "title" | "item"; label: string; n: number; critical_n: number; units: string | null };
+
+export type BacklogRow = { day: string; created: number; closed: number; open_at_end: number };
+
+type AnalyticsFn = "analytics_volume" | "analytics_timings" | "analytics_repeat_offenders" | "analytics_backlog";
+
+export type AnalyticsRange = { facilityId: string; unit: string | null; from: Date; to: Date };
+
+export type Analytics = {
+  volume: VolumeRow[];
+  timings: TimingRow[];
+  offenders: OffenderRow[];
+  backlog: BacklogRow[];
+};
+
+function localTz() {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+}
+
+export async function loadAnalytics(
+  supabase: SupabaseClient<Database>,
+  range: AnalyticsRange,
+  bucket: Bucket,
+  signal?: AbortSignal
+): Promise<Analytics> {
+  const base = {
+    p_facility: range.facilityId,
+    p_from: range.from.toISOString(),
+    p_to: range.to.toISOString(),
+    p_unit: range.unit,
+  };
+  const tz = localTz();
+
+  const call = async <T>(fn: AnalyticsFn, args: Database["public"]["Functions"][AnalyticsFn]["Args"]) => {
+    let req = supabase.rpc(fn, args);
+    if (signal) req = req.abortSignal(signal);
+    const { data, error } = await req;
+    if (error) throw error;
+    return (data ?? []) as T[];
+  };
+
+  const [volume, timings, offenders, backlog] = await Promise.all([
+    call<VolumeRow>("analytics_volume", { ...base, p_bucket: bucket, p_tz: tz }),
+    call<TimingRow>("analytics_timings", base),
+    call<OffenderRow>("analytics_repeat_offenders", { ...base, p_limit: 10 }),
+    call<BacklogRow>("analytics_backlog", { ...base, p_tz: tz }),
+  ]);
+  return { volume, timings, offenders, backlog };
+}
+
+/* =========================
+   RESHAPE
+========================= */
+export type Series = { key: string; values: number[] };
+
+// Volume pivot: one series per dimension value, aligned to the sorted buckets
+export function pivotVolume(rows: VolumeRow[], dim: VolumeDimension): { buckets: string[]; series: Series[] } {
+  const buckets = Array.from(new Set(rows.map((r) => r.bucket))).sort();
+  const index = new Map(buckets.map((b, i) => [b, i]));
+  const byKey = new Map<string, number[]>();
+  for (const r of rows) {
+    const key = r[dim] ?? "—";
+    if (!byKey.has(key)) byKey.set(key, buckets.map(() => 0));
+    byKey.get(key)![index.get(r.bucket)!] += r.n;
+  }
+  return { buckets, series: Array.from(byKey, ([key, values]) => ({ key, values })) };
+}
+
+export function volumeTotals(rows: VolumeRow[], dim: VolumeDimension) {
+  const totals: Record<string, number> = {};
+  for (const r of rows) {
+    const key = r[dim] ?? "—";
+    totals[key] = (totals[key] ?? 0) + r.n;
+  }
+  return totals;
+}
+
+export function fmtMinutes(m: number | null | undefined) {
+  if (m === null || m === undefined) return "—";
+  if (m < 60) return `${Math.round(m)}m`;
+  if (m < 60 * 24) return `${(m / 60).toFixed(1)}h`;
+  return `${(m / 60 / 24).toFixed(1)}d`;
+}
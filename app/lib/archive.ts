@@ -0,0 +1,44 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+import type { ArchivedHandoff } from "./types";
+
+/* =========================================================
+   ARCHIVE
+   - Daily job moves closed / soft-deleted handoffs older than
+     ARCHIVE_AFTER_DAYS (default 90) into handoffs_archive
+   - Archived handoffs (with their updates) stay searchable, read-only
+========================================================= */
+
+export const DEFAULT_ARCHIVE_DAYS = 90;
+
+export function archiveAfterDays() {
+  const n = Number(process.env.ARCHIVE_AFTER_DAYS);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : DEFAULT_ARCHIVE_DAYS;
+}
+
+// Server-side (service role). Returns how many handoffs were archived.
+export async function runArchive(supabase: SupabaseClient<Database>, opts: { days: number; limit?: number }) {
+  const { data, error } = await supabase.rpc("archive_closed_handoffs", {
+    p_days: opts.days,
+    p_limit: opts.limit ?? 500,
+  });
+  if (error) throw error;
+  return (data ?? 0) as number;
+}
+
+export async function searchArchive(
+  supabase: SupabaseClient<Database>,
+  args: { facilityId: string; unit: string | null; q: string },
+  signal?: AbortSignal
+): Promise<ArchivedHandoff[]> {
+  let req = supabase.rpc("search_handoff_archive", {
+    p_facility: args.facilityId,
+    p_query: args.q,
+    p_unit: args.unit,
+  });
+  if (signal) req = req.abortSignal(signal);
+  const { data, error } = await req;
+  if (error) throw error;
+  // updates is jsonb (Json in the schema types); archive_closed_handoffs fixes its shape
+  return (data ?? []) as unknown as ArchivedHandoff[];
+}
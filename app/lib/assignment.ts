@@ -0,0 +1,54 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+import type { Handoff } from "./types";
+
+/* =========================================================
+   ASSIGNMENT
+   - One owner per handoff (handoffs.assignee_user_id)
+   - Names come from profiles (readable by any signed-in user)
+   - The DB posts the "Claimed by / Assigned to" system update
+========================================================= */
+
+export type Assignable = { user_id: string; display_name: string; role_title: string | null };
+
+// user_id -> display name
+export type PeopleIndex = Record<string, string>;
+
+export async function listAssignable(
+  supabase: SupabaseClient<Database>,
+  facilityId: string,
+  unit: string
+): Promise<Assignable[]> {
+  const { data, error } = await supabase.rpc("list_assignable", { p_facility: facilityId, p_unit: unit });
+  if (error) throw error;
+  return (data ?? []) as Assignable[];
+}
+
+// Fetches names for ids not already known; returns the merged index
+export async function loadPeople(
+  supabase: SupabaseClient<Database>,
+  ids: string[],
+  known: PeopleIndex
+): Promise<PeopleIndex> {
+  const missing = Array.from(new Set(ids)).filter((id) => !(id in known));
+  if (missing.length === 0) return known;
+
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("user_id, display_name")
+    .in("user_id", missing);
+  if (error) throw error;
+
+  const next = { ...known };
+  for (const row of (data ?? []) as { user_id: string; display_name: string }[]) {
+    next[row.user_id] = row.display_name;
+  }
+  for (const id of missing) if (!(id in next)) next[id] = "Unknown user";
+  return next;
+}
+
+export function assigneeLabel(h: Handoff, people: PeopleIndex, sessionUserId: string | null) {
+  if (!h.assignee_user_id) return null;
+  if (h.assignee_user_id === sessionUserId) return "You";
+  return people[h.assignee_user_id] ?? "…";
+}
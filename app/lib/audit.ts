@@ -0,0 +1,140 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+import { fmtTime, toCsv } from "./format";
+import type { Handoff, HandoffAuditEntry, HandoffUpdate } from "./types";
+
+/* =========================================================
+   AUDIT TRAIL (handoff_audit, written by the handoffs_audit trigger)
+   - Read-only from the app; rendered inline with updates
+   - Per-handoff CSV export of the merged history
+========================================================= */
+
+export const AUDIT_COLUMNS =
+  "id, handoff_id, action, changes, actor_user_id, actor_display_name_snapshot, occurred_at";
+
+export async function loadAudit(
+  supabase: SupabaseClient<Database>,
+  handoffId: string,
+  signal?: AbortSignal
+): Promise<HandoffAuditEntry[]> {
+  let q = supabase
+    .from("handoff_audit")
+    .select(AUDIT_COLUMNS)
+    .eq("handoff_id", handoffId)
+    .order("occurred_at", { ascending: true });
+  if (signal) q = q.abortSignal(signal);
+
+  const { data, error } = await q;
+  if (error) throw error;
+  return (data ?? []) as HandoffAuditEntry[];
+}
+
+/* =========================
+   DESCRIBE
+========================= */
+const FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  priority: "Priority",
+  status: "Status",
+  shift: "Shift",
+  facility_id: "Facility",
+  unit: "Unit",
+  first_update_at: "First update",
+  escalated_at: "Escalated",
+  escalation_count: "Escalations",
+  closed_at: "Closed",
+};
+
+// Set once on insert; repeating them on every "Created" line is noise
+const INSERT_SKIP = new Set(["created_at", "created_by", "ref", "first_update_at", "escalated_at", "escalation_count"]);
+
+function fmtValue(field: string, v: unknown) {
+  if (v === null || v === undefined || v === "") return "—";
+  if (field.endsWith("_at") && typeof v === "string") return fmtTime(v);
+  return String(v);
+}
+
+export function auditActor(e: HandoffAuditEntry) {
+  return e.actor_display_name_snapshot ?? (e.actor_user_id ? "Unknown user" : "System");
+}
+
+export function describeAudit(e: HandoffAuditEntry): string[] {
+  if (e.action === "delete") return ["Deleted"];
+  if (e.action === "archive") return ["Archived"];
+
+  const lines: string[] = [];
+  for (const [field, change] of Object.entries(e.changes ?? {})) {
+    const label = FIELD_LABELS[field] ?? field;
+    if (e.action === "insert") {
+      if (INSERT_SKIP.has(field) || change.new === null) continue;
+      lines.push(`${label}: ${fmtValue(field, change.new)}`);
+    } else {
+      lines.push(`${label}: ${fmtValue(field, change.old)} → ${fmtValue(field, change.new)}`);
+    }
+  }
+  return e.action === "insert" ? ["Created", ...lines] : lines;
+}
+
+/* =========================
+   TIMELINE (updates + audit, oldest first)
+========================= */
+// Replies ride with their parent (oldest first) instead of interleaving
+export type TimelineEntry =
+  | { kind: "update"; at: string; update: HandoffUpdate; replies: HandoffUpdate[] }
+  | { kind: "audit"; at: string; entry: HandoffAuditEntry };
+
+export function buildTimeline(updates: HandoffUpdate[], audit: HandoffAuditEntry[]): TimelineEntry[] {
+  const ids = new Set(updates.map((u) => u.id));
+  const replies = new Map<string, HandoffUpdate[]>();
+  const roots: HandoffUpdate[] = [];
+  for (const u of updates) {
+    if (u.parent_update_id && ids.has(u.parent_update_id)) {
+      replies.set(u.parent_update_id, [...(replies.get(u.parent_update_id) ?? []), u]);
+    } else {
+      roots.push(u);
+    }
+  }
+  const byTime = (a: HandoffUpdate, b: HandoffUpdate) => Date.parse(a.created_at || "") - Date.parse(b.created_at || "");
+
+  const out: TimelineEntry[] = [
+    ...roots.map((u) => ({
+      kind: "update" as const,
+      at: u.created_at,
+      update: u,
+      replies: (replies.get(u.id) ?? []).sort(byTime),
+    })),
+    ...audit.map((e) => ({ kind: "audit" as const, at: e.occurred_at, entry: e })),
+  ];
+  return out.sort((a, b) => Date.parse(a.at || "") - Date.parse(b.at || ""));
+}
+
+/* =========================
+   EXPORT
+========================= */
+export function historyCsv(handoff: Handoff, timeline: TimelineEntry[]) {
+  const rows: string[][] = [["handoff_id", "ref", "time", "kind", "actor", "detail"]];
+  for (const t of timeline) {
+    const base = [handoff.id, handoff.ref != null ? String(handoff.ref) : "", t.at];
+    if (t.kind === "update") {
+      rows.push([
+        ...base,
+        `update (${t.update.source})`,
+        t.update.author_display_name_snapshot ?? "",
+        t.update.message,
+      ]);
+      for (const r of t.replies) {
+        rows.push([
+          handoff.id,
+          base[1],
+          r.created_at,
+          `reply (${r.source})`,
+          r.author_display_name_snapshot ?? "",
+          r.message,
+        ]);
+      }
+    } else {
+      rows.push([...base, `audit (${t.entry.action})`, auditActor(t.entry), describeAudit(t.entry).join("; ")]);
+    }
+  }
+  return toCsv(rows);
+}
@@ -0,0 +1,165 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+import { SUPPLY_ITEM_COLUMNS } from "./catalog";
+import { handoffPath } from "./routes";
+import type { BinLocation, Priority, SupplyItem } from "./types";
+
+/* =========================================================
+   SCAN PARSING + LOOKUP
+   Recognized payloads:
+   - Handoff QR: {origin}/h/<id>  or  cs-handoff:<id>  (older labels: {origin}/?h=<id>)
+   - Bin label:  BIN:<code>  or  cs-bin:<code>
+   - GS1-128:    (01) GTIN [+ (10) lot, (17) expiry, (21) serial, (240) item id]
+   - UPC-A / EAN-13 / EAN-8: GTIN
+   - Anything else: treated as an item number
+========================================================= */
+
+export type ScanResult =
+  | { kind: "handoff"; id: string }
+  | { kind: "bin"; code: string }
+  | { kind: "gtin"; gtin: string; lot?: string; expiry?: string; serial?: string; itemId?: string }
+  | { kind: "item_number"; value: string };
+
+const GS = "\u001d"; // FNC1 as transmitted inside GS1-128 payloads
+
+export function handoffQrPayload(origin: string, id: string) {
+  return origin + handoffPath(id);
+}
+
+// Fixed-length GS1 application identifiers we care about (AI -> data length)
+const gs1Fixed: Record<string, number> = { "00": 18, "01": 14, "02": 14, "11": 6, "13": 6, "15": 6, "17": 6, "20": 2 };
+const gs1Variable = ["10", "21", "240", "90", "91", "92", "93", "94", "95", "96", "97", "98", "99"];
+
+export function parseGs1(raw: string): Record<string, string> | null {
+  // Strip symbology identifier (]C1 = GS1-128, ]d2 = GS1 DataMatrix, ]Q3 = GS1 QR)
+  let s = raw.replace(/^\][A-Za-z]\d/, "");
+  // Human-readable form: (01)09506000134352(10)ABC
+  if (s.startsWith("(")) {
+    const out: Record<string, string> = {};
+    const re = /\((\d{2,4})\)([^(]+)/g;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(s))) out[m[1]] = m[2];
+    return Object.keys(out).length ? out : null;
+  }
+
+  const out: Record<string, string> = {};
+  while (s.length > 0) {
+    if (s.startsWith(GS)) {
+      s = s.slice(1);
+      continue;
+    }
+    const fixedAi = Object.keys(gs1Fixed).find((ai) => s.startsWith(ai));
+    if (fixedAi) {
+      const len = gs1Fixed[fixedAi];
+      const value = s.slice(2, 2 + len);
+      if (value.length !== len) return null;
+      out[fixedAi] = value;
+      s = s.slice(2 + len);
+      continue;
+    }
+    const varAi = gs1Variable.find((ai) => s.startsWith(ai));
+    if (!varAi) return Object.keys(out).length ? out : null;
+    const rest = s.slice(varAi.length);
+    const end = rest.indexOf(GS);
+    out[varAi] = end === -1 ? rest : rest.slice(0, end);
+    s = end === -1 ? "" : rest.slice(end + 1);
+  }
+  return Object.keys(out).length ? out : null;
+}
+
+// GTIN-8/12/13 -> GTIN-14 (what GS1-128 (01) carries)
+export function toGtin14(digits: string) {
+  return digits.padStart(14, "0");
+}
+
+export function parseScan(raw: string): ScanResult | null {
+  const text = raw.trim();
+  if (!text) return null;
+
+  const handoffUrl = text.match(/\/h\/([0-9a-f-]{36})\b/i) ?? text.match(/[?&]h=([0-9a-f-]{36})\b/i);
+  if (handoffUrl) return { kind: "handoff", id: decodeURIComponent(handoffUrl[1]) };
+  const handoffUri = text.match(/^cs-handoff:([0-9a-f-]{36})$/i);
+  if (handoffUri) return { kind: "handoff", id: handoffUri[1] };
+
+  const bin = text.match(/^(?:BIN:|cs-bin:)\s*(.+)$/i);
+  if (bin) return { kind: "bin", code: bin[1].trim().toUpperCase() };
+
+  if (/^\]C1|^\(01\)|^01\d{14}/.test(text) || text.includes(GS)) {
+    const ai = parseGs1(text);
+    if (ai?.["01"]) {
+      return {
+        kind: "gtin",
+        gtin: ai["01"],
+        lot: ai["10"],
+        expiry: ai["17"],
+        serial: ai["21"],
+        itemId: ai["240"],
+      };
+    }
+  }
+
+  if (/^\d{8}$|^\d{12,14}$/.test(text)) return { kind: "gtin", gtin: toGtin14(text) };
+
+  return { kind: "item_number", value: text };
+}
+
+/* =========================
+   LOOKUP
+========================= */
+export type ScanLookup = {
+  item: SupplyItem | null;
+  location: BinLocation | null;
+  priority: Priority;
+};
+
+const BIN_COLUMNS = "code, facility_id, unit, label";
+
+async function findBin(supabase: SupabaseClient<Database>, code: string | null) {
+  if (!code) return null;
+  const { data, error } = await supabase.from("bin_locations").select(BIN_COLUMNS).eq("code", code).maybeSingle();
+  if (error) throw error;
+  return (data ?? null) as BinLocation | null;
+}
+
+async function findItem(supabase: SupabaseClient<Database>, column: "gtin" | "item_number", value: string) {
+  const { data, error } = await supabase
+    .from("supply_items")
+    .select(`${SUPPLY_ITEM_COLUMNS}, gtin, shortage_priority`)
+    .eq(column, value)
+    .eq("active", true)
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return (data ?? null) as SupplyItem | null;
+}
+
+export async function lookupScan(
+  supabase: SupabaseClient<Database>,
+  scan: Exclude<ScanResult, { kind: "handoff" }>
+): Promise<ScanLookup> {
+  if (scan.kind === "bin") {
+    const location = await findBin(supabase, scan.code);
+    const { data, error } = await supabase
+      .from("supply_items")
+      .select(`${SUPPLY_ITEM_COLUMNS}, gtin, shortage_priority`)
+      .eq("bin_location", scan.code)
+      .eq("active", true)
+      .limit(2);
+    if (error) throw error;
+    // One item per bin is the norm; a shared bin only pre-fills the location
+    const items = (data ?? []) as SupplyItem[];
+    const item = items.length === 1 ? items[0] : null;
+    return { item, location, priority: item?.shortage_priority ?? "High" };
+  }
+
+  let item: SupplyItem | null = null;
+  if (scan.kind === "gtin") {
+    item = await findItem(supabase, "gtin", scan.gtin);
+    if (!item && scan.itemId) item = await findItem(supabase, "item_number", scan.itemId);
+  } else {
+    item = await findItem(supabase, "item_number", scan.value);
+  }
+
+  const location = await findBin(supabase, item?.bin_location ?? null);
+  return { item, location, priority: item?.shortage_priority ?? "Normal" };
+}
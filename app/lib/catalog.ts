@@ -0,0 +1,76 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+import type { HandoffLineItem, SupplyItem } from "./types";
+
+/* =========================================================
+   SUPPLY CATALOG + HANDOFF LINE ITEMS
+========================================================= */
+
+export const SUPPLY_ITEM_COLUMNS =
+  "id, item_number, description, unit_of_measure, par_level, bin_location";
+
+export const LINE_ITEM_COLUMNS = `id, handoff_id, item_id, qty_short, qty_needed, substitution, created_at, item:supply_items(${SUPPLY_ITEM_COLUMNS})`;
+
+// PostgREST or() filters treat , ( ) as syntax
+function sanitizeTerm(q: string) {
+  return q.replace(/[,()*%]/g, " ").trim();
+}
+
+export async function searchSupplyItems(
+  supabase: SupabaseClient<Database>,
+  query: string,
+  limit = 8
+): Promise<SupplyItem[]> {
+  const term = sanitizeTerm(query);
+  if (!term) return [];
+
+  const { data, error } = await supabase
+    .from("supply_items")
+    .select(SUPPLY_ITEM_COLUMNS)
+    .eq("active", true)
+    .or(`item_number.ilike.${term}*,description.ilike.*${term}*`)
+    .order("description", { ascending: true })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data ?? []) as SupplyItem[];
+}
+
+export async function loadLineItems(
+  supabase: SupabaseClient<Database>,
+  handoffId: string
+): Promise<HandoffLineItem[]> {
+  const { data, error } = await supabase
+    .from("handoff_line_items")
+    .select(LINE_ITEM_COLUMNS)
+    .eq("handoff_id", handoffId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []) as unknown as HandoffLineItem[];
+}
+
+// Unsaved line for the create form (handoff_id is filled in on create)
+export function newDraftLine(item: SupplyItem, id: string): HandoffLineItem {
+  return {
+    id,
+    handoff_id: "",
+    item_id: item.id,
+    qty_short: null,
+    qty_needed: item.par_level ?? null,
+    substitution: null,
+    created_at: new Date().toISOString(),
+    item,
+  };
+}
+
+// Table columns only (drops the embedded item used for optimistic display)
+export function lineItemInsertRow(l: HandoffLineItem) {
+  const { id, handoff_id, item_id, qty_short, qty_needed, substitution } = l;
+  return { id, handoff_id, item_id, qty_short, qty_needed, substitution };
+}
+
+export function fmtQty(n: number | null, uom?: string | null) {
+  if (n === null || n === undefined) return "—";
+  return uom ? `${n} ${uom}` : String(n);
+}
@@ -0,0 +1,14 @@
+// Scheduled jobs are called by Vercel Cron (Authorization: Bearer $CRON_SECRET)
+// or any external scheduler that sends the same header.
+export function isAuthorizedJob(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  return req.headers.get("authorization") === `Bearer ${secret}`;
+}
+
+// Supabase Database Webhooks (Authorization: Bearer $WEBHOOK_SECRET)
+export function isAuthorizedWebhook(req: Request) {
+  const secret = process.env.WEBHOOK_SECRET;
+  if (!secret) return false;
+  return req.headers.get("authorization") === `Bearer ${secret}`;
+}
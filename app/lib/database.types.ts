@@ -0,0 +1,1435 @@
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
+export type Database = {
+  public: {
+    Tables: {
+      bin_locations: {
+        Row: {
+          code: string;
+          facility_id: string;
+          label: string | null;
+          unit: string;
+        };
+        Insert: {
+          code: string;
+          facility_id: string;
+          label?: string | null;
+          unit: string;
+        };
+        Update: {
+          code?: string;
+          facility_id?: string;
+          label?: string | null;
+          unit?: string;
+        };
+        Relationships: [];
+      };
+      facilities: {
+        Row: {
+          active: boolean;
+          created_at: string;
+          id: string;
+          name: string;
+          time_zone: string | null;
+        };
+        Insert: {
+          active?: boolean;
+          created_at?: string;
+          id: string;
+          name: string;
+          time_zone?: string | null;
+        };
+        Update: {
+          active?: boolean;
+          created_at?: string;
+          id?: string;
+          name?: string;
+          time_zone?: string | null;
+        };
+        Relationships: [];
+      };
+      handoff_attachments: {
+        Row: {
+          bytes: number;
+          content_type: string;
+          created_at: string;
+          created_by: string | null;
+          handoff_id: string;
+          height: number;
+          id: string;
+          path: string;
+          store: string;
+          thumb_path: string;
+          update_id: string | null;
+          width: number;
+        };
+        Insert: {
+          bytes: number;
+          content_type?: string;
+          created_at?: string;
+          created_by?: string | null;
+          handoff_id: string;
+          height: number;
+          id: string;
+          path: string;
+          store?: string;
+          thumb_path: string;
+          update_id?: string | null;
+          width: number;
+        };
+        Update: {
+          bytes?: number;
+          content_type?: string;
+          created_at?: string;
+          created_by?: string | null;
+          handoff_id?: string;
+          height?: number;
+          id?: string;
+          path?: string;
+          store?: string;
+          thumb_path?: string;
+          update_id?: string | null;
+          width?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "handoff_attachments_handoff_id_fkey";
+            columns: ["handoff_id"];
+            isOneToOne: false;
+            referencedRelation: "handoffs";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "handoff_attachments_update_id_fkey";
+            columns: ["update_id"];
+            isOneToOne: false;
+            referencedRelation: "handoff_updates";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      handoff_audit: {
+        Row: {
+          action: string;
+          actor_display_name_snapshot: string | null;
+          actor_user_id: string | null;
+          changes: NonNullable<Json>;
+          facility_id: string | null;
+          handoff_id: string;
+          id: number;
+          occurred_at: string;
+          unit: string | null;
+        };
+        Insert: {
+          action: string;
+          actor_display_name_snapshot?: string | null;
+          actor_user_id?: string | null;
+          changes?: NonNullable<Json>;
+          facility_id?: string | null;
+          handoff_id: string;
+          id?: never;
+          occurred_at?: string;
+          unit?: string | null;
+        };
+        Update: {
+          action?: string;
+          actor_display_name_snapshot?: string | null;
+          actor_user_id?: string | null;
+          changes?: NonNullable<Json>;
+          facility_id?: string | null;
+          handoff_id?: string;
+          id?: never;
+          occurred_at?: string;
+          unit?: string | null;
+        };
+        Relationships: [];
+      };
+      handoff_line_items: {
+        Row: {
+          created_at: string;
+          handoff_id: string;
+          id: string;
+          item_id: string;
+          qty_needed: number | null;
+          qty_short: number | null;
+          substitution: string | null;
+        };
+        Insert: {
+          created_at?: string;
+          handoff_id: string;
+          id?: string;
+          item_id: string;
+          qty_needed?: number | null;
+          qty_short?: number | null;
+          substitution?: string | null;
+        };
+        Update: {
+          created_at?: string;
+          handoff_id?: string;
+          id?: string;
+          item_id?: string;
+          qty_needed?: number | null;
+          qty_short?: number | null;
+          substitution?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "handoff_line_items_handoff_id_fkey";
+            columns: ["handoff_id"];
+            isOneToOne: false;
+            referencedRelation: "handoffs";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "handoff_line_items_item_id_fkey";
+            columns: ["item_id"];
+            isOneToOne: false;
+            referencedRelation: "supply_items";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      handoff_mentions: {
+        Row: {
+          author_user_id: string | null;
+          created_at: string;
+          handoff_id: string;
+          id: string;
+          read_at: string | null;
+          update_id: string;
+          user_id: string;
+        };
+        Insert: {
+          author_user_id?: string | null;
+          created_at?: string;
+          handoff_id: string;
+          id?: string;
+          read_at?: string | null;
+          update_id: string;
+          user_id: string;
+        };
+        Update: {
+          author_user_id?: string | null;
+          created_at?: string;
+          handoff_id?: string;
+          id?: string;
+          read_at?: string | null;
+          update_id?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "handoff_mentions_handoff_id_fkey";
+            columns: ["handoff_id"];
+            isOneToOne: false;
+            referencedRelation: "handoffs";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "handoff_mentions_update_id_fkey";
+            columns: ["update_id"];
+            isOneToOne: false;
+            referencedRelation: "handoff_updates";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      handoff_search: {
+        Row: {
+          handoff_id: string;
+          tsv: unknown;
+        };
+        Insert: {
+          handoff_id: string;
+          tsv: unknown;
+        };
+        Update: {
+          handoff_id?: string;
+          tsv?: unknown;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "handoff_search_handoff_id_fkey";
+            columns: ["handoff_id"];
+            isOneToOne: true;
+            referencedRelation: "handoffs";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      handoff_template_runs: {
+        Row: {
+          created_at: string;
+          handoff_id: string | null;
+          shift: string;
+          shift_date: string;
+          template_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          handoff_id?: string | null;
+          shift: string;
+          shift_date: string;
+          template_id: string;
+        };
+        Update: {
+          created_at?: string;
+          handoff_id?: string | null;
+          shift?: string;
+          shift_date?: string;
+          template_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "handoff_template_runs_handoff_id_fkey";
+            columns: ["handoff_id"];
+            isOneToOne: false;
+            referencedRelation: "handoffs";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "handoff_template_runs_template_id_fkey";
+            columns: ["template_id"];
+            isOneToOne: false;
+            referencedRelation: "handoff_templates";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      handoff_templates: {
+        Row: {
+          active: boolean;
+          created_at: string;
+          created_by: string | null;
+          facility_id: string;
+          id: string;
+          needs_followup: boolean;
+          priority: string;
+          recurrence: string;
+          shift: string | null;
+          title: string;
+          unit: string;
+          updated_at: string;
+          weekdays: number[];
+        };
+        Insert: {
+          active?: boolean;
+          created_at?: string;
+          created_by?: string | null;
+          facility_id: string;
+          id?: string;
+          needs_followup?: boolean;
+          priority?: string;
+          recurrence?: string;
+          shift?: string | null;
+          title: string;
+          unit: string;
+          updated_at?: string;
+          weekdays?: number[];
+        };
+        Update: {
+          active?: boolean;
+          created_at?: string;
+          created_by?: string | null;
+          facility_id?: string;
+          id?: string;
+          needs_followup?: boolean;
+          priority?: string;
+          recurrence?: string;
+          shift?: string | null;
+          title?: string;
+          unit?: string;
+          updated_at?: string;
+          weekdays?: number[];
+        };
+        Relationships: [
+          {
+            foreignKeyName: "handoff_templates_facility_id_unit_fkey";
+            columns: ["facility_id", "unit"];
+            isOneToOne: false;
+            referencedRelation: "units";
+            referencedColumns: ["facility_id", "code"];
+          },
+        ];
+      };
+      handoff_updates: {
+        Row: {
+          author_display_name_snapshot: string | null;
+          author_user_id: string | null;
+          created_at: string;
+          handoff_id: string;
+          id: string;
+          message: string;
+          parent_update_id: string | null;
+          source: string;
+        };
+        Insert: {
+          author_display_name_snapshot?: string | null;
+          author_user_id?: string | null;
+          created_at?: string;
+          handoff_id: string;
+          id?: string;
+          message: string;
+          parent_update_id?: string | null;
+          source?: string;
+        };
+        Update: {
+          author_display_name_snapshot?: string | null;
+          author_user_id?: string | null;
+          created_at?: string;
+          handoff_id?: string;
+          id?: string;
+          message?: string;
+          parent_update_id?: string | null;
+          source?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "handoff_updates_handoff_id_fkey";
+            columns: ["handoff_id"];
+            isOneToOne: false;
+            referencedRelation: "handoffs";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "handoff_updates_parent_update_id_fkey";
+            columns: ["parent_update_id"];
+            isOneToOne: false;
+            referencedRelation: "handoff_updates";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      handoffs: {
+        Row: {
+          assigned_at: string | null;
+          assignee_user_id: string | null;
+          closed_at: string | null;
+          created_at: string;
+          created_by: string | null;
+          deleted_at: string | null;
+          deleted_by: string | null;
+          escalated_at: string | null;
+          escalation_count: number;
+          facility_id: string | null;
+          first_update_at: string | null;
+          id: string;
+          priority: string;
+          ref: number;
+          shift: string | null;
+          source: string;
+          status: string;
+          title: string;
+          unit: string | null;
+        };
+        Insert: {
+          assigned_at?: string | null;
+          assignee_user_id?: string | null;
+          closed_at?: string | null;
+          created_at?: string;
+          created_by?: string | null;
+          deleted_at?: string | null;
+          deleted_by?: string | null;
+          escalated_at?: string | null;
+          escalation_count?: number;
+          facility_id?: string | null;
+          first_update_at?: string | null;
+          id?: string;
+          priority?: string;
+          ref?: number;
+          shift?: string | null;
+          source?: string;
+          status?: string;
+          title: string;
+          unit?: string | null;
+        };
+        Update: {
+          assigned_at?: string | null;
+          assignee_user_id?: string | null;
+          closed_at?: string | null;
+          created_at?: string;
+          created_by?: string | null;
+          deleted_at?: string | null;
+          deleted_by?: string | null;
+          escalated_at?: string | null;
+          escalation_count?: number;
+          facility_id?: string | null;
+          first_update_at?: string | null;
+          id?: string;
+          priority?: string;
+          ref?: number;
+          shift?: string | null;
+          source?: string;
+          status?: string;
+          title?: string;
+          unit?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "handoffs_facility_unit_fkey";
+            columns: ["facility_id", "unit"];
+            isOneToOne: false;
+            referencedRelation: "units";
+            referencedColumns: ["facility_id", "code"];
+          },
+        ];
+      };
+      handoffs_archive: {
+        Row: {
+          archived_at: string;
+          attachments: NonNullable<Json>;
+          closed_at: string;
+          created_at: string;
+          deleted_at: string | null;
+          facility_id: string | null;
+          id: string;
+          line_items: NonNullable<Json>;
+          priority: string;
+          ref: number | null;
+          row: NonNullable<Json>;
+          shift: string | null;
+          status: string;
+          title: string;
+          tsv: unknown;
+          unit: string | null;
+          updates: NonNullable<Json>;
+        };
+        Insert: {
+          archived_at?: string;
+          attachments?: NonNullable<Json>;
+          closed_at: string;
+          created_at: string;
+          deleted_at?: string | null;
+          facility_id?: string | null;
+          id: string;
+          line_items?: NonNullable<Json>;
+          priority: string;
+          ref?: number | null;
+          row: NonNullable<Json>;
+          shift?: string | null;
+          status: string;
+          title: string;
+          tsv: unknown;
+          unit?: string | null;
+          updates?: NonNullable<Json>;
+        };
+        Update: {
+          archived_at?: string;
+          attachments?: NonNullable<Json>;
+          closed_at?: string;
+          created_at?: string;
+          deleted_at?: string | null;
+          facility_id?: string | null;
+          id?: string;
+          line_items?: NonNullable<Json>;
+          priority?: string;
+          ref?: number | null;
+          row?: NonNullable<Json>;
+          shift?: string | null;
+          status?: string;
+          title?: string;
+          tsv?: unknown;
+          unit?: string | null;
+          updates?: NonNullable<Json>;
+        };
+        Relationships: [];
+      };
+      memberships: {
+        Row: {
+          created_at: string;
+          facility_id: string | null;
+          id: string;
+          role: string;
+          unit: string | null;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          facility_id?: string | null;
+          id?: string;
+          role: string;
+          unit?: string | null;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          facility_id?: string | null;
+          id?: string;
+          role?: string;
+          unit?: string | null;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "memberships_facility_id_fkey";
+            columns: ["facility_id"];
+            isOneToOne: false;
+            referencedRelation: "facilities";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      notification_prefs: {
+        Row: {
+          assignment: boolean;
+          critical: boolean;
+          escalation: boolean;
+          mention: boolean;
+          quiet_allow_critical: boolean;
+          quiet_end: string | null;
+          quiet_start: string | null;
+          timezone: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          assignment?: boolean;
+          critical?: boolean;
+          escalation?: boolean;
+          mention?: boolean;
+          quiet_allow_critical?: boolean;
+          quiet_end?: string | null;
+          quiet_start?: string | null;
+          timezone?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Update: {
+          assignment?: boolean;
+          critical?: boolean;
+          escalation?: boolean;
+          mention?: boolean;
+          quiet_allow_critical?: boolean;
+          quiet_end?: string | null;
+          quiet_start?: string | null;
+          timezone?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      phi_events: {
+        Row: {
+          action: string;
+          actor_display_name_snapshot: string | null;
+          actor_user_id: string | null;
+          created_at: string;
+          detected_by: string;
+          excerpt: string | null;
+          facility_id: string | null;
+          field: string;
+          handoff_id: string | null;
+          id: number;
+          rule_keys: string[];
+          unit: string | null;
+        };
+        Insert: {
+          action: string;
+          actor_display_name_snapshot?: string | null;
+          actor_user_id?: string | null;
+          created_at?: string;
+          detected_by: string;
+          excerpt?: string | null;
+          facility_id?: string | null;
+          field: string;
+          handoff_id?: string | null;
+          id?: never;
+          rule_keys: string[];
+          unit?: string | null;
+        };
+        Update: {
+          action?: string;
+          actor_display_name_snapshot?: string | null;
+          actor_user_id?: string | null;
+          created_at?: string;
+          detected_by?: string;
+          excerpt?: string | null;
+          facility_id?: string | null;
+          field?: string;
+          handoff_id?: string | null;
+          id?: never;
+          rule_keys?: string[];
+          unit?: string | null;
+        };
+        Relationships: [];
+      };
+      phi_patterns: {
+        Row: {
+          action: string;
+          case_sensitive: boolean;
+          category: string;
+          enabled: boolean;
+          facility_id: string | null;
+          id: string;
+          key: string;
+          label: string;
+          pattern: string;
+          updated_at: string;
+        };
+        Insert: {
+          action?: string;
+          case_sensitive?: boolean;
+          category: string;
+          enabled?: boolean;
+          facility_id?: string | null;
+          id?: string;
+          key: string;
+          label: string;
+          pattern: string;
+          updated_at?: string;
+        };
+        Update: {
+          action?: string;
+          case_sensitive?: boolean;
+          category?: string;
+          enabled?: boolean;
+          facility_id?: string | null;
+          id?: string;
+          key?: string;
+          label?: string;
+          pattern?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "phi_patterns_facility_id_fkey";
+            columns: ["facility_id"];
+            isOneToOne: false;
+            referencedRelation: "facilities";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      profiles: {
+        Row: {
+          badge_id: string | null;
+          created_at: string;
+          default_facility_id: string | null;
+          default_unit: string | null;
+          display_name: string;
+          preferred_shift: string | null;
+          role_title: string | null;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          badge_id?: string | null;
+          created_at?: string;
+          default_facility_id?: string | null;
+          default_unit?: string | null;
+          display_name: string;
+          preferred_shift?: string | null;
+          role_title?: string | null;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          badge_id?: string | null;
+          created_at?: string;
+          default_facility_id?: string | null;
+          default_unit?: string | null;
+          display_name?: string;
+          preferred_shift?: string | null;
+          role_title?: string | null;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "profiles_default_facility_id_default_unit_fkey";
+            columns: ["default_facility_id", "default_unit"];
+            isOneToOne: false;
+            referencedRelation: "units";
+            referencedColumns: ["facility_id", "code"];
+          },
+          {
+            foreignKeyName: "profiles_default_facility_id_fkey";
+            columns: ["default_facility_id"];
+            isOneToOne: false;
+            referencedRelation: "facilities";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      push_subscriptions: {
+        Row: {
+          auth: string;
+          created_at: string;
+          endpoint: string;
+          id: string;
+          last_sent_at: string | null;
+          p256dh: string;
+          user_agent: string | null;
+          user_id: string;
+        };
+        Insert: {
+          auth: string;
+          created_at?: string;
+          endpoint: string;
+          id?: string;
+          last_sent_at?: string | null;
+          p256dh: string;
+          user_agent?: string | null;
+          user_id?: string;
+        };
+        Update: {
+          auth?: string;
+          created_at?: string;
+          endpoint?: string;
+          id?: string;
+          last_sent_at?: string | null;
+          p256dh?: string;
+          user_agent?: string | null;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      saved_views: {
+        Row: {
+          created_at: string;
+          id: string;
+          name: string;
+          query: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          name: string;
+          query: string;
+          user_id?: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          name?: string;
+          query?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      shift_report_acknowledgements: {
+        Row: {
+          acknowledged_at: string;
+          acknowledged_by: string;
+          acknowledged_by_display_name_snapshot: string | null;
+          handoff_id: string;
+          id: string;
+          report_id: string;
+        };
+        Insert: {
+          acknowledged_at?: string;
+          acknowledged_by?: string;
+          acknowledged_by_display_name_snapshot?: string | null;
+          handoff_id: string;
+          id?: string;
+          report_id: string;
+        };
+        Update: {
+          acknowledged_at?: string;
+          acknowledged_by?: string;
+          acknowledged_by_display_name_snapshot?: string | null;
+          handoff_id?: string;
+          id?: string;
+          report_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "shift_report_acknowledgements_report_id_handoff_id_fkey";
+            columns: ["report_id", "handoff_id"];
+            isOneToOne: true;
+            referencedRelation: "shift_report_items";
+            referencedColumns: ["report_id", "handoff_id"];
+          },
+        ];
+      };
+      shift_report_items: {
+        Row: {
+          handoff_id: string;
+          priority: string;
+          report_id: string;
+          status: string;
+          title: string;
+        };
+        Insert: {
+          handoff_id: string;
+          priority: string;
+          report_id: string;
+          status: string;
+          title: string;
+        };
+        Update: {
+          handoff_id?: string;
+          priority?: string;
+          report_id?: string;
+          status?: string;
+          title?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "shift_report_items_report_id_fkey";
+            columns: ["report_id"];
+            isOneToOne: false;
+            referencedRelation: "shift_reports";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      shift_reports: {
+        Row: {
+          accepted_at: string | null;
+          created_at: string;
+          facility_id: string;
+          id: string;
+          incoming_lead_display_name_snapshot: string | null;
+          incoming_lead_user_id: string | null;
+          incoming_shift: string;
+          outgoing_lead_display_name_snapshot: string | null;
+          outgoing_lead_user_id: string;
+          outgoing_notes: string | null;
+          outgoing_shift: string;
+          status: string;
+          unit: string;
+        };
+        Insert: {
+          accepted_at?: string | null;
+          created_at?: string;
+          facility_id: string;
+          id?: string;
+          incoming_lead_display_name_snapshot?: string | null;
+          incoming_lead_user_id?: string | null;
+          incoming_shift: string;
+          outgoing_lead_display_name_snapshot?: string | null;
+          outgoing_lead_user_id?: string;
+          outgoing_notes?: string | null;
+          outgoing_shift: string;
+          status?: string;
+          unit: string;
+        };
+        Update: {
+          accepted_at?: string | null;
+          created_at?: string;
+          facility_id?: string;
+          id?: string;
+          incoming_lead_display_name_snapshot?: string | null;
+          incoming_lead_user_id?: string | null;
+          incoming_shift?: string;
+          outgoing_lead_display_name_snapshot?: string | null;
+          outgoing_lead_user_id?: string;
+          outgoing_notes?: string | null;
+          outgoing_shift?: string;
+          status?: string;
+          unit?: string;
+        };
+        Relationships: [];
+      };
+      sla_targets: {
+        Row: {
+          facility_id: string | null;
+          first_update_minutes: number | null;
+          id: string;
+          priority: string;
+          resolve_minutes: number | null;
+        };
+        Insert: {
+          facility_id?: string | null;
+          first_update_minutes?: number | null;
+          id?: string;
+          priority: string;
+          resolve_minutes?: number | null;
+        };
+        Update: {
+          facility_id?: string | null;
+          first_update_minutes?: number | null;
+          id?: string;
+          priority?: string;
+          resolve_minutes?: number | null;
+        };
+        Relationships: [];
+      };
+      sms_contacts: {
+        Row: {
+          created_at: string;
+          display_name: string;
+          facility_id: string;
+          id: string;
+          on_call: boolean;
+          phone: string;
+          unit: string | null;
+          user_id: string | null;
+        };
+        Insert: {
+          created_at?: string;
+          display_name: string;
+          facility_id: string;
+          id?: string;
+          on_call?: boolean;
+          phone: string;
+          unit?: string | null;
+          user_id?: string | null;
+        };
+        Update: {
+          created_at?: string;
+          display_name?: string;
+          facility_id?: string;
+          id?: string;
+          on_call?: boolean;
+          phone?: string;
+          unit?: string | null;
+          user_id?: string | null;
+        };
+        Relationships: [];
+      };
+      sms_messages: {
+        Row: {
+          body: string;
+          created_at: string;
+          direction: string;
+          error: string | null;
+          handoff_id: string | null;
+          id: string;
+          phone: string;
+          provider_id: string | null;
+        };
+        Insert: {
+          body: string;
+          created_at?: string;
+          direction: string;
+          error?: string | null;
+          handoff_id?: string | null;
+          id?: string;
+          phone: string;
+          provider_id?: string | null;
+        };
+        Update: {
+          body?: string;
+          created_at?: string;
+          direction?: string;
+          error?: string | null;
+          handoff_id?: string | null;
+          id?: string;
+          phone?: string;
+          provider_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "sms_messages_handoff_id_fkey";
+            columns: ["handoff_id"];
+            isOneToOne: false;
+            referencedRelation: "handoffs";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      supply_items: {
+        Row: {
+          active: boolean;
+          bin_location: string | null;
+          created_at: string;
+          description: string;
+          gtin: string | null;
+          id: string;
+          item_number: string;
+          par_level: number | null;
+          shortage_priority: string;
+          unit_of_measure: string;
+        };
+        Insert: {
+          active?: boolean;
+          bin_location?: string | null;
+          created_at?: string;
+          description: string;
+          gtin?: string | null;
+          id?: string;
+          item_number: string;
+          par_level?: number | null;
+          shortage_priority?: string;
+          unit_of_measure?: string;
+        };
+        Update: {
+          active?: boolean;
+          bin_location?: string | null;
+          created_at?: string;
+          description?: string;
+          gtin?: string | null;
+          id?: string;
+          item_number?: string;
+          par_level?: number | null;
+          shortage_priority?: string;
+          unit_of_measure?: string;
+        };
+        Relationships: [];
+      };
+      units: {
+        Row: {
+          active: boolean;
+          code: string;
+          created_at: string;
+          facility_id: string;
+          name: string;
+        };
+        Insert: {
+          active?: boolean;
+          code: string;
+          created_at?: string;
+          facility_id: string;
+          name: string;
+        };
+        Update: {
+          active?: boolean;
+          code?: string;
+          created_at?: string;
+          facility_id?: string;
+          name?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "units_facility_id_fkey";
+            columns: ["facility_id"];
+            isOneToOne: false;
+            referencedRelation: "facilities";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+    };
+    Views: {
+      handoff_facts: {
+        Row: {
+          closed_at: string | null;
+          created_at: string | null;
+          facility_id: string | null;
+          first_update_at: string | null;
+          id: string | null;
+          priority: string | null;
+          shift: string | null;
+          status: string | null;
+          title: string | null;
+          unit: string | null;
+        };
+        Relationships: [];
+      };
+    };
+    Functions: {
+      accept_shift_report: {
+        Args: { p_display_name?: string; p_report_id: string };
+        Returns: {
+          accepted_at: string | null;
+          created_at: string;
+          facility_id: string;
+          id: string;
+          incoming_lead_display_name_snapshot: string | null;
+          incoming_lead_user_id: string | null;
+          incoming_shift: string;
+          outgoing_lead_display_name_snapshot: string | null;
+          outgoing_lead_user_id: string;
+          outgoing_notes: string | null;
+          outgoing_shift: string;
+          status: string;
+          unit: string;
+        };
+        SetofOptions: {
+          from: "*";
+          to: "shift_reports";
+          isOneToOne: true;
+          isSetofReturn: false;
+        };
+      };
+      analytics_backlog: {
+        Args: { p_facility: string; p_from: string; p_to: string; p_tz?: string; p_unit?: string };
+        Returns: {
+          closed: number;
+          created: number;
+          day: string;
+          open_at_end: number;
+        }[];
+      };
+      analytics_repeat_offenders: {
+        Args: { p_facility: string; p_from: string; p_limit?: number; p_to: string; p_unit?: string };
+        Returns: {
+          critical_n: number;
+          kind: string;
+          label: string;
+          n: number;
+          units: string;
+        }[];
+      };
+      analytics_timings: {
+        Args: { p_facility: string; p_from: string; p_to: string; p_unit?: string };
+        Returns: {
+          first_update_mean: number;
+          first_update_n: number;
+          first_update_p50: number;
+          first_update_p90: number;
+          n: number;
+          priority: string;
+          resolve_mean: number;
+          resolve_n: number;
+          resolve_p50: number;
+          resolve_p90: number;
+          shift: string;
+        }[];
+      };
+      analytics_volume: {
+        Args: { p_bucket?: string; p_facility: string; p_from: string; p_to: string; p_tz?: string; p_unit?: string };
+        Returns: {
+          bucket: string;
+          n: number;
+          priority: string;
+          shift: string;
+          unit: string;
+        }[];
+      };
+      archive_closed_handoffs: { Args: { p_days?: number; p_limit?: number }; Returns: number };
+      can_see_handoff: { Args: { p_handoff: string; p_min_role?: string }; Returns: boolean };
+      grant_role: {
+        Args: { p_email: string; p_facility: string; p_role: string; p_unit: string };
+        Returns: {
+          created_at: string;
+          facility_id: string | null;
+          id: string;
+          role: string;
+          unit: string | null;
+          user_id: string;
+        };
+        SetofOptions: {
+          from: "*";
+          to: "memberships";
+          isOneToOne: true;
+          isSetofReturn: false;
+        };
+      };
+      handoff_is_closed: { Args: { p_status: string }; Returns: boolean };
+      handoff_prefix_query: { Args: { p_query: string }; Returns: unknown };
+      handoff_search_refresh: { Args: { p_handoff_id: string }; Returns: undefined };
+      handoff_transition_allowed: { Args: { p_from: string; p_to: string }; Returns: boolean };
+      has_role: { Args: { p_facility: string; p_min_role: string; p_unit: string }; Returns: boolean };
+      is_org_admin: { Args: Record<PropertyKey, never>; Returns: boolean };
+      list_assignable: {
+        Args: { p_facility: string; p_unit: string };
+        Returns: {
+          display_name: string;
+          role_title: string;
+          user_id: string;
+        }[];
+      };
+      list_members: {
+        Args: { p_facility: string };
+        Returns: {
+          email: string;
+          facility_id: string;
+          id: string;
+          role: string;
+          unit: string;
+          user_id: string;
+        }[];
+      };
+      list_mentionable: {
+        Args: { p_facility: string };
+        Returns: {
+          display_name: string;
+          role_title: string;
+          user_id: string;
+        }[];
+      };
+      log_phi_block: {
+        Args: { p_excerpt: string; p_facility: string; p_field: string; p_rule_keys: string[]; p_unit: string };
+        Returns: undefined;
+      };
+      mention_handle: { Args: { p_name: string }; Returns: string };
+      my_rank: { Args: { p_facility: string; p_unit?: string }; Returns: number };
+      phi_effective_patterns: {
+        Args: { p_facility: string };
+        Returns: {
+          action: string;
+          case_sensitive: boolean;
+          category: string;
+          enabled: boolean;
+          facility_id: string | null;
+          id: string;
+          key: string;
+          label: string;
+          pattern: string;
+          updated_at: string;
+        }[];
+        SetofOptions: {
+          from: "*";
+          to: "phi_patterns";
+          isOneToOne: false;
+          isSetofReturn: true;
+        };
+      };
+      phi_guard: {
+        Args: {
+          p_actor: string;
+          p_facility: string;
+          p_field: string;
+          p_handoff: string;
+          p_text: string;
+          p_unit: string;
+        };
+        Returns: undefined;
+      };
+      phi_patterns_for: {
+        Args: { p_facility: string };
+        Returns: {
+          action: string;
+          case_sensitive: boolean;
+          category: string;
+          key: string;
+          label: string;
+          pattern: string;
+        }[];
+      };
+      phi_redact: { Args: { p_facility: string; p_text: string }; Returns: string };
+      phi_scan: {
+        Args: { p_facility: string; p_text: string };
+        Returns: {
+          action: string;
+          key: string;
+        }[];
+      };
+      photo_path_handoff: { Args: { p_name: string }; Returns: string };
+      profile_name_from_email: { Args: { p_email: string }; Returns: string };
+      role_rank: { Args: { p_role: string }; Returns: number };
+      route_access: { Args: { p_facility: string; p_handoff: string; p_unit: string }; Returns: string };
+      search_handoff_archive: {
+        Args: { p_facility: string; p_query: string; p_unit?: string };
+        Returns: {
+          archived_at: string;
+          closed_at: string;
+          created_at: string;
+          facility_id: string;
+          id: string;
+          priority: string;
+          rank: number;
+          ref: number;
+          shift: string;
+          status: string;
+          title: string;
+          unit: string;
+          updates: Json;
+        }[];
+      };
+      search_handoffs: {
+        Args: { p_facility: string; p_query: string; p_unit?: string };
+        Returns: {
+          id: string;
+          rank: number;
+        }[];
+      };
+      show_limit: { Args: Record<PropertyKey, never>; Returns: number };
+      show_trgm: { Args: { "": string }; Returns: string[] };
+      user_can_access: { Args: { p_facility: string; p_unit: string; p_user: string }; Returns: boolean };
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
+
+type DatabaseWithoutInternals = Omit<Database, "__InternalSupabase">;
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "public">];
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    keyof (DefaultSchema["Tables"] & DefaultSchema["Views"]) | { schema: keyof DatabaseWithoutInternals },
+  TableName extends (DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals;
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never) = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof DatabaseWithoutInternals }
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R;
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] & DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R;
+      }
+      ? R
+      : never
+    : never;
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"] | { schema: keyof DatabaseWithoutInternals },
+  TableName extends (DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals;
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never) = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof DatabaseWithoutInternals }
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I;
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I;
+      }
+      ? I
+      : never
+    : never;
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"] | { schema: keyof DatabaseWithoutInternals },
+  TableName extends (DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals;
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never) = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof DatabaseWithoutInternals }
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U;
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U;
+      }
+      ? U
+      : never
+    : never;
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema["Enums"] | { schema: keyof DatabaseWithoutInternals },
+  EnumName extends (DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals;
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"]
+    : never) = never,
+> = DefaultSchemaEnumNameOrOptions extends { schema: keyof DatabaseWithoutInternals }
+  ? DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema["Enums"]
+    ? DefaultSchema["Enums"][DefaultSchemaEnumNameOrOptions]
+    : never;
+
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+    keyof DefaultSchema["CompositeTypes"] | { schema: keyof DatabaseWithoutInternals },
+  CompositeTypeName extends (PublicCompositeTypeNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals;
+  }
+    ? keyof DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"]
+    : never) = never,
+> = PublicCompositeTypeNameOrOptions extends { schema: keyof DatabaseWithoutInternals }
+  ? DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof DefaultSchema["CompositeTypes"]
+    ? DefaultSchema["CompositeTypes"][PublicCompositeTypeNameOrOptions]
+    : never;
+
+export const Constants = {
+  public: {
+    Enums: {},
+  },
+} as const;
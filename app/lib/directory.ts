@@ -0,0 +1,106 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+import { isClosed, isDeleted } from "./lifecycle";
+import type { Facility, Handoff, Unit } from "./types";
+
+/* =========================================================
+   FACILITY / UNIT DIRECTORY
+   - Codes are the keys stored on handoffs (facility_id, unit)
+   - ALL_UNITS is the "all units in facility" overview
+   - Last context is remembered per device (localStorage)
+========================================================= */
+
+export const ALL_UNITS = "*";
+
+export type Directory = {
+  facilities: Facility[];
+  units: Unit[];
+};
+
+export async function loadDirectory(supabase: SupabaseClient<Database>): Promise<Directory> {
+  const [facRes, unitRes] = await Promise.all([
+    supabase.from("facilities").select("id, name, active, time_zone").order("name", { ascending: true }),
+    supabase.from("units").select("facility_id, code, name, active").order("name", { ascending: true }),
+  ]);
+  if (facRes.error) throw facRes.error;
+  if (unitRes.error) throw unitRes.error;
+  return {
+    facilities: (facRes.data ?? []) as Facility[],
+    units: (unitRes.data ?? []) as Unit[],
+  };
+}
+
+export function unitsFor(dir: Directory, facilityId: string, includeInactive = false) {
+  return dir.units.filter((u) => u.facility_id === facilityId && (includeInactive || u.active));
+}
+
+// Keeps a (facility, unit) pair valid against the directory
+export function validContext(
+  dir: Directory,
+  facilityId: string,
+  unit: string
+): { facilityId: string; unit: string } | null {
+  const facilities = dir.facilities.filter((f) => f.active);
+  if (facilities.length === 0) return null;
+
+  const facility = facilities.find((f) => f.id === facilityId) ?? facilities[0];
+  const units = unitsFor(dir, facility.id);
+  if (unit === ALL_UNITS) return { facilityId: facility.id, unit };
+
+  const u = units.find((x) => x.code === unit) ?? units[0];
+  return { facilityId: facility.id, unit: u ? u.code : ALL_UNITS };
+}
+
+export type UnitSummary = { unit: Unit; open: number; critical: number };
+
+// Per-unit counts for the overview, from the (facility-wide) loaded list
+export function summarizeUnits(units: Unit[], handoffs: Handoff[]): UnitSummary[] {
+  return units
+    .map((unit) => {
+      const mine = handoffs.filter((h) => h.unit === unit.code && !isClosed(h.status) && !isDeleted(h));
+      return {
+        unit,
+        open: mine.length,
+        critical: mine.filter((h) => h.priority === "Critical").length,
+      };
+    })
+    .sort((a, b) => b.critical - a.critical || b.open - a.open || a.unit.name.localeCompare(b.unit.name));
+}
+
+/* =========================
+   MANAGEMENT
+========================= */
+export async function saveFacility(supabase: SupabaseClient<Database>, f: Facility) {
+  const { error } = await supabase.from("facilities").upsert(f, { onConflict: "id" });
+  if (error) throw error;
+}
+
+export async function saveUnit(supabase: SupabaseClient<Database>, u: Unit) {
+  const { error } = await supabase.from("units").upsert(u, { onConflict: "facility_id,code" });
+  if (error) throw error;
+}
+
+/* =========================
+   PER-DEVICE CONTEXT
+========================= */
+const CONTEXT_KEY = "cs-handoff:context";
+
+export function loadSavedContext(): { facilityId: string; unit: string } | null {
+  try {
+    const raw = window.localStorage.getItem(CONTEXT_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    if (typeof parsed?.facilityId !== "string" || typeof parsed?.unit !== "string") return null;
+    return { facilityId: parsed.facilityId, unit: parsed.unit };
+  } catch {
+    return null;
+  }
+}
+
+export function saveContext(ctx: { facilityId: string; unit: string }) {
+  try {
+    window.localStorage.setItem(CONTEXT_KEY, JSON.stringify(ctx));
+  } catch {
+    // storage full / disabled: context just isn't remembered
+  }
+}
@@ -0,0 +1,104 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+import { escalateHandoff, insertHandoffUpdate, parseHandoffs, selectHandoffs } from "./handoffRepo";
+import { escalatedPriority, evaluateSla, fmtDuration, loadSlaTargets, resolveSlaConfig } from "./sla";
+import { ACTIVE_STATUSES } from "./lifecycle";
+import type { NotificationHook } from "./notify";
+import type { Handoff, Priority } from "./types";
+
+/* =========================================================
+   ESCALATION JOB (server-side; see app/api/jobs/escalate)
+   For every unresolved handoff past an SLA target:
+     1) bump priority (Critical stays Critical) + restart the SLA clock
+     2) post a 'system' handoff_update
+     3) fire the notification hook
+   The update is conditional on escalation_count so overlapping runs
+   can't escalate the same handoff twice.
+   Active handoffs are read in id-keyset pages: an unpaged select stops
+   at PostgREST's row limit (1000 by default) without saying so.
+========================================================= */
+
+export const ESCALATION_PAGE_SIZE = 500;
+
+async function loadActiveHandoffs(supabase: SupabaseClient<Database>): Promise<Handoff[]> {
+  const all: Handoff[] = [];
+  let after: string | null = null;
+  for (;;) {
+    let q = selectHandoffs(supabase).in("status", ACTIVE_STATUSES).is("deleted_at", null);
+    if (after) q = q.gt("id", after);
+    const { data, error } = await q.order("id", { ascending: true }).limit(ESCALATION_PAGE_SIZE);
+    if (error) throw error;
+    const rows = parseHandoffs(data);
+    all.push(...rows);
+    if (rows.length < ESCALATION_PAGE_SIZE) return all;
+    after = rows[rows.length - 1].id;
+  }
+}
+
+export type EscalationResult = {
+  handoff_id: string;
+  from: Priority;
+  to: Priority;
+  reason: string;
+};
+
+export async function runEscalation(
+  supabase: SupabaseClient<Database>,
+  opts: { now?: number; notify: NotificationHook }
+): Promise<EscalationResult[]> {
+  const now = opts.now ?? Date.now();
+
+  const rows = await loadSlaTargets(supabase);
+
+  const handoffs = await loadActiveHandoffs(supabase);
+
+  const results: EscalationResult[] = [];
+
+  for (const h of handoffs) {
+    const state = evaluateSla(h, resolveSlaConfig(rows, h.facility_id), now);
+    if (!state || !state.overdue) continue;
+
+    const from = h.priority;
+    const to = escalatedPriority(from);
+    const count = h.escalation_count ?? 0;
+
+    const bumped = await escalateHandoff(supabase, h.id, count, {
+      priority: to,
+      escalated_at: new Date(now).toISOString(),
+      escalation_count: count + 1,
+    });
+    if (!bumped) continue; // another run got there first
+
+    const what = state.kind === "first_update" ? "first update" : "resolution";
+    const reason =
+      `SLA missed: no ${what} within ${fmtDuration(state.targetMins * 60_000)} ` +
+      `(overdue ${fmtDuration(state.remainingMs)}). ` +
+      (to === from ? `Re-escalated at ${to}.` : `Escalated ${from} → ${to}.`);
+
+    await insertHandoffUpdate(supabase, {
+      id: crypto.randomUUID(),
+      handoff_id: h.id,
+      message: reason,
+      source: "system",
+      author_user_id: null,
+      author_display_name_snapshot: "SLA monitor",
+    });
+
+    try {
+      await opts.notify({
+        type: "escalation",
+        handoff: bumped,
+        fromPriority: from,
+        toPriority: to,
+        reason,
+      });
+    } catch (e) {
+      // Escalation is already recorded; a failed alert must not undo it
+      console.error("[escalation] notify failed:", e);
+    }
+
+    results.push({ handoff_id: h.id, from, to, reason });
+  }
+
+  return results;
+}
@@ -0,0 +1,63 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+import { downloadBlob } from "./format";
+
+/* =========================================================
+   EXPORT (browser side of /api/export/*)
+   Routes read with the caller's token, so requests go through fetch
+   with the Authorization header instead of plain links.
+========================================================= */
+
+function localTz() {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+}
+
+export function exportPath(path: string, params: URLSearchParams | Record<string, string | null>) {
+  const qs = params instanceof URLSearchParams ? new URLSearchParams(params) : new URLSearchParams();
+  if (!(params instanceof URLSearchParams)) {
+    for (const [k, v] of Object.entries(params)) if (v) qs.set(k, v);
+  }
+  qs.set("tz", localTz());
+  return `${path}?${qs.toString()}`;
+}
+
+async function fetchExport(supabase: SupabaseClient<Database>, path: string) {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) throw new Error("Sign in again to export.");
+
+  const res = await fetch(path, { headers: { Authorization: `Bearer ${token}` } });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.error ?? `Export failed (${res.status})`);
+  }
+  const disposition = res.headers.get("content-disposition") ?? "";
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? "export";
+  return { blob: await res.blob(), filename };
+}
+
+export async function downloadExport(supabase: SupabaseClient<Database>, path: string) {
+  const { blob, filename } = await fetchExport(supabase, path);
+  downloadBlob(filename, blob);
+}
+
+// Print view in a new tab. The tab is opened before the fetch so popup blockers
+// treat it as part of the click; falls back to a download if it was blocked.
+export async function openPrintable(supabase: SupabaseClient<Database>, path: string) {
+  const win = window.open("", "_blank");
+  try {
+    const { blob, filename } = await fetchExport(supabase, path);
+    if (!win) {
+      downloadBlob(filename, blob);
+      return;
+    }
+    win.location.href = URL.createObjectURL(blob);
+  } catch (e) {
+    win?.close();
+    throw e;
+  }
+}
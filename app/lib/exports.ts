@@ -0,0 +1,420 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+import { assigneeLabel, loadPeople, PeopleIndex } from "./assignment";
+import { auditActor, buildTimeline, describeAudit, loadAudit, TimelineEntry } from "./audit";
+import { fmtQty, loadLineItems } from "./catalog";
+import { applyFilter, compareTriage, HandoffFilter, searchHandoffIds, sortHandoffs } from "./filters";
+import { toCsv } from "./format";
+import { ACTIVE_STATUSES, STATUS_LABEL } from "./lifecycle";
+import {
+  getHandoff,
+  listHandoffUpdates,
+  parseHandoffs,
+  parseHandoffUpdates,
+  selectHandoffs,
+  selectHandoffUpdates,
+} from "./handoffRepo";
+import { PdfBlock, renderPdf } from "./pdf";
+import { fmtDuration } from "./sla";
+import type { Handoff, HandoffLineItem, HandoffUpdate, Priority } from "./types";
+
+/* =========================================================
+   EXPORTS (server routes under /api/export)
+   - Filtered list: CSV / PDF
+   - Single handoff + full timeline: CSV / PDF
+   - Shift summary: print-optimized HTML (or PDF) for the supply room
+   Data is read with the caller's token, so RLS decides what's exported.
+========================================================= */
+
+export type ExportFormat = "csv" | "pdf" | "html";
+
+export const EXPORT_ROW_CAP = 5000;
+
+// Server clocks run UTC; times are rendered in the caller's zone (?tz=)
+export function fmtTimeIn(ts: string | null | undefined, tz: string) {
+  if (!ts) return "";
+  const d = new Date(ts);
+  if (isNaN(d.getTime())) return ts;
+  try {
+    return d.toLocaleString("en-US", { timeZone: tz, dateStyle: "short", timeStyle: "short" });
+  } catch {
+    return d.toISOString();
+  }
+}
+
+export function safeTz(tz: string | null) {
+  if (!tz) return "UTC";
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return tz;
+  } catch {
+    return "UTC";
+  }
+}
+
+export function exportFilename(base: string, ext: string) {
+  const day = new Date().toISOString().slice(0, 10);
+  return `${base.replace(/[^\w.-]+/g, "-")}-${day}.${ext}`;
+}
+
+/* =========================
+   LOAD
+========================= */
+type ListScope = { facilityId: string; unit: string | null };
+
+export async function loadExportList(
+  supabase: SupabaseClient<Database>,
+  scope: ListScope,
+  filter: HandoffFilter,
+  sessionUserId: string | null
+): Promise<{ handoffs: Handoff[]; people: PeopleIndex }> {
+  let q = selectHandoffs(supabase).eq("facility_id", scope.facilityId).is("deleted_at", null);
+  if (scope.unit) q = q.eq("unit", scope.unit);
+  // Date range narrows the fetch; applyFilter re-checks by local day
+  if (filter.from) q = q.gte("created_at", new Date(Date.parse(filter.from) - 86_400_000).toISOString());
+  if (filter.to) q = q.lt("created_at", new Date(Date.parse(filter.to) + 2 * 86_400_000).toISOString());
+
+  const { data, error } = await q.order("created_at", { ascending: false }).limit(EXPORT_ROW_CAP);
+  if (error) throw error;
+
+  const matchIds = filter.q.trim()
+    ? await searchHandoffIds(supabase, { facilityId: scope.facilityId, unit: scope.unit, q: filter.q })
+    : null;
+  const handoffs = sortHandoffs(
+    applyFilter(parseHandoffs(data), filter, { sessionUserId, matchIds }),
+    filter.sort
+  );
+  const people = await loadPeople(
+    supabase,
+    handoffs.map((h) => h.assignee_user_id).filter((id): id is string => !!id),
+    {}
+  );
+  return { handoffs, people };
+}
+
+export async function loadHandoffExport(supabase: SupabaseClient<Database>, id: string) {
+  const handoff = await getHandoff(supabase, id);
+  if (!handoff) return null;
+
+  const [updates, audit, lines] = await Promise.all([
+    listHandoffUpdates(supabase, id),
+    loadAudit(supabase, id),
+    loadLineItems(supabase, id),
+  ]);
+  const people = await loadPeople(supabase, handoff.assignee_user_id ? [handoff.assignee_user_id] : [], {});
+  return { handoff, timeline: buildTimeline(updates, audit), lines, people };
+}
+
+export type ShiftSummaryItem = { handoff: Handoff; lastUpdate: HandoffUpdate | null };
+
+export async function loadShiftSummary(supabase: SupabaseClient<Database>, scope: ListScope) {
+  let q = selectHandoffs(supabase)
+    .eq("facility_id", scope.facilityId)
+    .in("status", ACTIVE_STATUSES)
+    .is("deleted_at", null);
+  if (scope.unit) q = q.eq("unit", scope.unit);
+  const { data, error } = await q.limit(EXPORT_ROW_CAP);
+  if (error) throw error;
+  const handoffs = parseHandoffs(data).sort(compareTriage);
+
+  // Latest update per handoff (one query, newest first)
+  const latest = new Map<string, HandoffUpdate>();
+  if (handoffs.length) {
+    const { data: ups, error: upErr } = await selectHandoffUpdates(supabase)
+      .in(
+        "handoff_id",
+        handoffs.map((h) => h.id)
+      )
+      .order("created_at", { ascending: false });
+    if (upErr) throw upErr;
+    for (const u of parseHandoffUpdates(ups)) if (!latest.has(u.handoff_id)) latest.set(u.handoff_id, u);
+  }
+
+  const people = await loadPeople(
+    supabase,
+    handoffs.map((h) => h.assignee_user_id).filter((id): id is string => !!id),
+    {}
+  );
+  const items: ShiftSummaryItem[] = handoffs.map((h) => ({ handoff: h, lastUpdate: latest.get(h.id) ?? null }));
+  return { items, people };
+}
+
+/* =========================
+   LIST
+========================= */
+export function listCsv(handoffs: Handoff[], people: PeopleIndex, tz: string) {
+  const rows: string[][] = [
+    ["ref", "id", "facility", "unit", "shift", "priority", "status", "title", "owner", "source", "created", "closed"],
+  ];
+  for (const h of handoffs) {
+    rows.push([
+      h.ref != null ? String(h.ref) : "",
+      h.id,
+      h.facility_id ?? "",
+      h.unit ?? "",
+      h.shift ?? "",
+      h.priority,
+      STATUS_LABEL[h.status] ?? h.status,
+      h.title,
+      assigneeLabel(h, people, null) ?? "",
+      h.source ?? "app",
+      fmtTimeIn(h.created_at, tz),
+      fmtTimeIn(h.closed_at, tz),
+    ]);
+  }
+  return toCsv(rows);
+}
+
+export function listPdf(handoffs: Handoff[], people: PeopleIndex, opts: { title: string; subtitle: string; tz: string }) {
+  const blocks: PdfBlock[] = [
+    { kind: "title", text: opts.title },
+    { kind: "meta", text: opts.subtitle },
+    { kind: "gap" },
+  ];
+  for (const h of handoffs) {
+    const owner = assigneeLabel(h, people, null);
+    blocks.push(
+      { kind: "heading", text: `${h.ref != null ? `#${h.ref}  ` : ""}${h.title}` },
+      {
+        kind: "meta",
+        text: [
+          h.priority,
+          STATUS_LABEL[h.status] ?? h.status,
+          h.unit ?? "—",
+          h.shift ?? "—",
+          owner ? `Owner: ${owner}` : "Unassigned",
+          `Created ${fmtTimeIn(h.created_at, opts.tz)}`,
+          h.closed_at ? `Closed ${fmtTimeIn(h.closed_at, opts.tz)}` : "",
+        ]
+          .filter(Boolean)
+          .join(" · "),
+      }
+    );
+  }
+  if (handoffs.length === 0) blocks.push({ kind: "text", text: "No handoffs match these filters." });
+  return renderPdf(blocks, { title: opts.title });
+}
+
+/* =========================
+   SINGLE HANDOFF
+========================= */
+function updateLines(u: HandoffUpdate, tz: string, reply: boolean): PdfBlock[] {
+  const meta = `${u.author_display_name_snapshot ?? "—"} · ${fmtTimeIn(u.created_at, tz)} · ${u.source}`;
+  return [
+    { kind: "meta", text: reply ? `Reply · ${meta}` : meta },
+    { kind: "text", text: u.message },
+    { kind: "gap" },
+  ];
+}
+
+function timelineLines(t: TimelineEntry, tz: string): PdfBlock[] {
+  if (t.kind === "update") {
+    return [updateLines(t.update, tz, false), ...t.replies.map((r) => updateLines(r, tz, true))].flat();
+  }
+  return [
+    {
+      kind: "meta",
+      text: `${auditActor(t.entry)} · ${fmtTimeIn(t.entry.occurred_at, tz)} · ${describeAudit(t.entry).join("; ")}`,
+    },
+    { kind: "gap" },
+  ];
+}
+
+export function handoffPdf(
+  h: Handoff,
+  timeline: TimelineEntry[],
+  lines: HandoffLineItem[],
+  people: PeopleIndex,
+  tz: string
+) {
+  const title = `${h.ref != null ? `#${h.ref} ` : ""}${h.title}`;
+  const owner = assigneeLabel(h, people, null);
+  const blocks: PdfBlock[] = [
+    { kind: "title", text: title },
+    {
+      kind: "meta",
+      text: [
+        h.facility_id ?? "—",
+        h.unit ?? "—",
+        h.shift ?? "—",
+        h.priority,
+        STATUS_LABEL[h.status] ?? h.status,
+        owner ? `Owner: ${owner}` : "Unassigned",
+      ].join(" · "),
+    },
+    { kind: "meta", text: `Created ${fmtTimeIn(h.created_at, tz)}${h.closed_at ? ` · Closed ${fmtTimeIn(h.closed_at, tz)}` : ""}` },
+  ];
+
+  if (lines.length) {
+    blocks.push({ kind: "heading", text: "Line items" });
+    for (const l of lines) {
+      const uom = l.item?.unit_of_measure;
+      blocks.push({
+        kind: "text",
+        text:
+          `${l.item ? `#${l.item.item_number} ${l.item.description}` : l.item_id}` +
+          ` · short ${fmtQty(l.qty_short, uom)} · need ${fmtQty(l.qty_needed, uom)}` +
+          (l.substitution ? ` · sub: ${l.substitution}` : ""),
+      });
+    }
+  }
+
+  blocks.push({ kind: "heading", text: "Timeline" });
+  if (timeline.length === 0) blocks.push({ kind: "text", text: "No updates yet." });
+  for (const t of timeline) blocks.push(...timelineLines(t, tz));
+
+  return renderPdf(blocks, { title });
+}
+
+/* =========================
+   SHIFT SUMMARY (print)
+========================= */
+function esc(s: string) {
+  return s.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+}
+
+const PRIORITY_ORDER: Priority[] = ["Critical", "High", "Normal", "Low"];
+
+export function shiftSummaryTitle(scope: { facilityName: string; unit: string | null; shift: string | null }) {
+  return `Shift summary · ${scope.facilityName} · ${scope.unit ?? "All units"}${scope.shift ? ` · ${scope.shift}` : ""}`;
+}
+
+export function shiftSummaryPdf(
+  items: ShiftSummaryItem[],
+  people: PeopleIndex,
+  opts: { title: string; tz: string; now: number }
+) {
+  const blocks: PdfBlock[] = [
+    { kind: "title", text: opts.title },
+    { kind: "meta", text: `Generated ${fmtTimeIn(new Date(opts.now).toISOString(), opts.tz)} · ${items.length} open` },
+  ];
+  for (const p of PRIORITY_ORDER) {
+    const group = items.filter((i) => i.handoff.priority === p);
+    if (group.length === 0) continue;
+    blocks.push({ kind: "heading", text: `${p} (${group.length})` });
+    for (const { handoff: h, lastUpdate } of group) {
+      const owner = assigneeLabel(h, people, null);
+      blocks.push(
+        { kind: "text", text: `${h.ref != null ? `#${h.ref}  ` : ""}${h.title}` },
+        {
+          kind: "meta",
+          text: [
+            STATUS_LABEL[h.status],
+            h.unit ?? "—",
+            owner ? `Owner: ${owner}` : "Unassigned",
+            `open ${fmtDuration(opts.now - Date.parse(h.created_at))}`,
+            lastUpdate ? `Last: ${lastUpdate.message}` : "",
+          ]
+            .filter(Boolean)
+            .join(" · "),
+        }
+      );
+    }
+  }
+  if (items.length === 0) blocks.push({ kind: "text", text: "Nothing open. Clean handoff." });
+  return renderPdf(blocks, { title: opts.title });
+}
+
+export function shiftSummaryHtml(
+  items: ShiftSummaryItem[],
+  people: PeopleIndex,
+  opts: { title: string; tz: string; now: number }
+) {
+  const sections = PRIORITY_ORDER.map((p) => {
+    const group = items.filter((i) => i.handoff.priority === p);
+    if (group.length === 0) return "";
+    const rows = group
+      .map(({ handoff: h, lastUpdate }) => {
+        const owner = assigneeLabel(h, people, null);
+        return `<tr>
+  <td class="ref">${h.ref != null ? `#${h.ref}` : ""}</td>
+  <td><div class="title">${esc(h.title)}</div>${
+          lastUpdate
+            ? `<div class="last">${esc(lastUpdate.message)} <span class="muted">— ${esc(
+                lastUpdate.author_display_name_snapshot ?? "—"
+              )}, ${esc(fmtTimeIn(lastUpdate.created_at, opts.tz))}</span></div>`
+            : ""
+        }</td>
+  <td>${esc(STATUS_LABEL[h.status])}</td>
+  <td>${esc(h.unit ?? "—")}</td>
+  <td>${owner ? esc(owner) : '<b class="warn">Unassigned</b>'}</td>
+  <td class="num">${esc(fmtDuration(opts.now - Date.parse(h.created_at)))}</td>
+</tr>`;
+      })
+      .join("\n");
+    return `<section class="group ${p.toLowerCase()}">
+<h2>${p} <span class="muted">(${group.length})</span></h2>
+<table>
+<thead><tr><th>#</th><th>Handoff / last update</th><th>Status</th><th>Unit</th><th>Owner</th><th class="num">Open</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</section>`;
+  }).join("\n");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${esc(opts.title)}</title>
+<style>
+  @page { size: letter; margin: 12mm; }
+  * { box-sizing: border-box; }
+  body { font: 12pt/1.35 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #000; background: #fff; margin: 16px; }
+  h1 { font-size: 18pt; margin: 0 0 2px; }
+  h2 { font-size: 13pt; margin: 18px 0 6px; border-bottom: 2px solid #000; padding-bottom: 2px; }
+  .critical h2 { border-bottom-width: 4px; }
+  .muted { color: #555; font-weight: normal; }
+  table { width: 100%; border-collapse: collapse; }
+  th { text-align: left; font-size: 9pt; text-transform: uppercase; color: #444; border-bottom: 1px solid #999; padding: 3px 6px; }
+  td { vertical-align: top; border-bottom: 1px solid #ddd; padding: 5px 6px; }
+  tr { page-break-inside: avoid; break-inside: avoid; }
+  .ref { white-space: nowrap; color: #444; }
+  .title { font-weight: 600; }
+  .last { font-size: 10pt; margin-top: 2px; }
+  .num { text-align: right; white-space: nowrap; }
+  .warn { text-decoration: underline; }
+  .toolbar { margin-bottom: 12px; }
+  .toolbar button { font: inherit; padding: 6px 14px; }
+  @media print {
+    body { margin: 0; font-size: 11pt; }
+    .toolbar { display: none; }
+    h2 { break-after: avoid; page-break-after: avoid; }
+  }
+</style>
+</head>
+<body>
+<div class="toolbar"><button onclick="window.print()">Print</button></div>
+<h1>${esc(opts.title)}</h1>
+<div class="muted">Generated ${esc(fmtTimeIn(new Date(opts.now).toISOString(), opts.tz))} · ${items.length} open</div>
+${items.length ? sections : "<p>Nothing open. Clean handoff.</p>"}
+</body>
+</html>
+`;
+}
+
+/* =========================
+   RESPONSE
+========================= */
+const CONTENT_TYPE: Record<ExportFormat, string> = {
+  csv: "text/csv;charset=utf-8",
+  pdf: "application/pdf",
+  html: "text/html;charset=utf-8",
+};
+
+export function parseFormat(raw: string | null, allowed: ExportFormat[]): ExportFormat | null {
+  return allowed.find((f) => f === raw) ?? null;
+}
+
+// html opens inline (print); csv / pdf download
+export function exportResponse(body: string | Uint8Array, format: ExportFormat, filename: string) {
+  return new Response(body as BodyInit, {
+    headers: {
+      "Content-Type": CONTENT_TYPE[format],
+      "Content-Disposition": `${format === "html" ? "inline" : "attachment"}; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
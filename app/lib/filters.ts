@@ -0,0 +1,267 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+import { isClosed } from "./lifecycle";
+import type { Handoff, HandoffSource, HandoffStatus, Priority, Shift } from "./types";
+
+/* =========================================================
+   LIST FILTERS, SORT MODES, SAVED VIEWS
+   - Filter state round-trips through the URL query string, so a view
+     is shareable as a link and a saved view is just a stored query
+   - Text search runs server-side (search_handoffs RPC, tsvector);
+     every other filter is applied to the loaded list
+========================================================= */
+
+export type SortMode = "triage" | "newest" | "oldest" | "priority" | "title";
+export type AssigneeFilter = "any" | "me" | "unassigned";
+
+export type HandoffFilter = {
+  q: string;
+  priorities: Priority[];
+  statuses: HandoffStatus[];
+  shifts: Shift[];
+  sources: HandoffSource[];
+  from: string | null; // yyyy-mm-dd (created_at, local day)
+  to: string | null;
+  assignee: AssigneeFilter;
+  sort: SortMode;
+};
+
+export const EMPTY_FILTER: HandoffFilter = {
+  q: "",
+  priorities: [],
+  statuses: [],
+  shifts: [],
+  sources: [],
+  from: null,
+  to: null,
+  assignee: "any",
+  sort: "triage",
+};
+
+export const SORT_LABEL: Record<SortMode, string> = {
+  triage: "Triage (default)",
+  newest: "Newest first",
+  oldest: "Oldest first",
+  priority: "Priority",
+  title: "Title A–Z",
+};
+
+export function isFilterActive(f: HandoffFilter) {
+  return (
+    f.q.trim() !== "" ||
+    f.priorities.length > 0 ||
+    f.statuses.length > 0 ||
+    f.shifts.length > 0 ||
+    f.sources.length > 0 ||
+    !!f.from ||
+    !!f.to ||
+    f.assignee !== "any"
+  );
+}
+
+export function toggleIn<T>(list: T[], v: T): T[] {
+  return list.includes(v) ? list.filter((x) => x !== v) : [...list, v];
+}
+
+/* =========================
+   URL QUERY STRING
+   Only filter keys are touched; other params are left alone.
+========================= */
+const KEYS = {
+  q: "q",
+  priorities: "p",
+  statuses: "st",
+  shifts: "sh",
+  sources: "src",
+  from: "from",
+  to: "to",
+  assignee: "a",
+  sort: "sort",
+};
+
+export function writeFilterParams(params: URLSearchParams, f: HandoffFilter) {
+  const set = (k: string, v: string | null) => (v ? params.set(k, v) : params.delete(k));
+  set(KEYS.q, f.q.trim() || null);
+  set(KEYS.priorities, f.priorities.join(",") || null);
+  set(KEYS.statuses, f.statuses.join(",") || null);
+  set(KEYS.shifts, f.shifts.join(",") || null);
+  set(KEYS.sources, f.sources.join(",") || null);
+  set(KEYS.from, f.from);
+  set(KEYS.to, f.to);
+  set(KEYS.assignee, f.assignee === "any" ? null : f.assignee);
+  set(KEYS.sort, f.sort === "triage" ? null : f.sort);
+  return params;
+}
+
+export function filterToQuery(f: HandoffFilter) {
+  return writeFilterParams(new URLSearchParams(), f).toString();
+}
+
+function list<T extends string>(raw: string | null, allowed: readonly T[]): T[] {
+  if (!raw) return [];
+  return raw.split(",").filter((v): v is T => (allowed as readonly string[]).includes(v));
+}
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+export function filterFromQuery(search: string | URLSearchParams): HandoffFilter {
+  const p = typeof search === "string" ? new URLSearchParams(search) : search;
+  const day = (k: string) => {
+    const v = p.get(k);
+    return v && DAY.test(v) ? v : null;
+  };
+  const a = p.get(KEYS.assignee);
+  const sort = p.get(KEYS.sort);
+  return {
+    q: p.get(KEYS.q) ?? "",
+    priorities: list(p.get(KEYS.priorities), ["Critical", "High", "Normal", "Low"] as const),
+    statuses: list(p.get(KEYS.statuses), [
+      "open",
+      "in_progress",
+      "needs_followup",
+      "resolved",
+      "reopened",
+      "cancelled",
+      "duplicate",
+    ] as const),
+    shifts: list(p.get(KEYS.shifts), ["AM", "PM", "NOC"] as const),
+    sources: list(p.get(KEYS.sources), ["app", "scan", "sms", "system", "template"] as const),
+    from: day(KEYS.from),
+    to: day(KEYS.to),
+    assignee: a === "me" || a === "unassigned" ? a : "any",
+    sort: sort && sort in SORT_LABEL ? (sort as SortMode) : "triage",
+  };
+}
+
+/* =========================
+   APPLY
+========================= */
+function localDay(ts: string) {
+  const d = new Date(ts);
+  if (isNaN(d.getTime())) return "";
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+// matchIds: ids returned by the text search (null = no text query)
+export function applyFilter(
+  handoffs: Handoff[],
+  f: HandoffFilter,
+  ctx: { sessionUserId: string | null; matchIds: Set<string> | null }
+) {
+  return handoffs.filter((h) => {
+    if (ctx.matchIds && !ctx.matchIds.has(h.id)) return false;
+    if (f.priorities.length && !f.priorities.includes(h.priority)) return false;
+    if (f.statuses.length && !f.statuses.includes(h.status)) return false;
+    if (f.shifts.length && (!h.shift || !f.shifts.includes(h.shift))) return false;
+    if (f.sources.length && !f.sources.includes(h.source ?? "app")) return false;
+    if (f.from || f.to) {
+      const day = localDay(h.created_at);
+      if (f.from && day < f.from) return false;
+      if (f.to && day > f.to) return false;
+    }
+    if (f.assignee === "me" && (!ctx.sessionUserId || h.assignee_user_id !== ctx.sessionUserId)) return false;
+    if (f.assignee === "unassigned" && h.assignee_user_id) return false;
+    return true;
+  });
+}
+
+/* =========================
+   SORT
+========================= */
+export const priorityRank: Record<Priority, number> = {
+  Critical: 0,
+  High: 1,
+  Normal: 2,
+  Low: 3,
+};
+
+function newestFirst(a: Handoff, b: Handoff) {
+  const at = Date.parse(a.created_at || "");
+  const bt = Date.parse(b.created_at || "");
+  return (isNaN(bt) ? 0 : bt) - (isNaN(at) ? 0 : at);
+}
+
+/*
+  Triage (deterministic, Critical forced top):
+    1) active before closed (resolved / cancelled / duplicate)
+    2) within active: Critical first (hard-priority)
+    3) then follow-up before open
+    4) then priority (Critical, High, Normal, Low)
+    5) then newest
+*/
+export function compareTriage(a: Handoff, b: Handoff) {
+  const aClosed = isClosed(a.status);
+  const bClosed = isClosed(b.status);
+  if (aClosed !== bClosed) return aClosed ? 1 : -1;
+
+  const aCritical = a.priority === "Critical" && !aClosed;
+  const bCritical = b.priority === "Critical" && !bClosed;
+  if (aCritical !== bCritical) return aCritical ? -1 : 1;
+
+  const aFU = a.status === "needs_followup";
+  const bFU = b.status === "needs_followup";
+  if (aFU !== bFU) return aFU ? -1 : 1;
+
+  const pr = priorityRank[a.priority] - priorityRank[b.priority];
+  if (pr !== 0) return pr;
+
+  return newestFirst(a, b);
+}
+
+const COMPARATORS: Record<SortMode, (a: Handoff, b: Handoff) => number> = {
+  triage: compareTriage,
+  newest: newestFirst,
+  oldest: (a, b) => -newestFirst(a, b),
+  priority: (a, b) => priorityRank[a.priority] - priorityRank[b.priority] || newestFirst(a, b),
+  title: (a, b) => a.title.localeCompare(b.title) || newestFirst(a, b),
+};
+
+export function sortHandoffs(handoffs: Handoff[], mode: SortMode) {
+  return [...handoffs].sort(COMPARATORS[mode]);
+}
+
+/* =========================
+   SERVER SEARCH
+========================= */
+export async function searchHandoffIds(
+  supabase: SupabaseClient<Database>,
+  args: { facilityId: string; unit: string | null; q: string },
+  signal?: AbortSignal
+): Promise<Set<string>> {
+  let req = supabase.rpc("search_handoffs", {
+    p_facility: args.facilityId,
+    p_query: args.q,
+    p_unit: args.unit,
+  });
+  if (signal) req = req.abortSignal(signal);
+  const { data, error } = await req;
+  if (error) throw error;
+  return new Set(((data ?? []) as { id: string }[]).map((r) => r.id));
+}
+
+/* =========================
+   SAVED VIEWS
+========================= */
+export type SavedView = { id: string; name: string; query: string };
+
+export async function loadSavedViews(supabase: SupabaseClient<Database>): Promise<SavedView[]> {
+  const { data, error } = await supabase
+    .from("saved_views")
+    .select("id, name, query")
+    .order("name", { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as SavedView[];
+}
+
+export async function saveView(supabase: SupabaseClient<Database>, userId: string, name: string, query: string) {
+  const { error } = await supabase
+    .from("saved_views")
+    .upsert({ user_id: userId, name: name.trim(), query }, { onConflict: "user_id,name" });
+  if (error) throw error;
+}
+
+export async function deleteView(supabase: SupabaseClient<Database>, id: string) {
+  const { error } = await supabase.from("saved_views").delete().eq("id", id);
+  if (error) throw error;
+}
@@ -0,0 +1,50 @@
+/* =========================================================
+   SMALL UI HELPERS (shared by page + components)
+========================================================= */
+
+export function fmtTime(ts?: string | null) {
+  if (!ts) return "";
+  try {
+    const d = new Date(ts);
+    return d.toLocaleString();
+  } catch {
+    return ts;
+  }
+}
+
+// Aborted fetches (effect cleanup, superseded searches) are expected, not errors.
+// Checks the name too: Node / supabase-js rethrow plain objects, not DOMExceptions.
+export function isAbortError(err: unknown) {
+  return (
+    (typeof DOMException !== "undefined" && err instanceof DOMException && err.name === "AbortError") ||
+    (typeof err === "object" && err !== null && "name" in err && (err as any).name === "AbortError")
+  );
+}
+
+export function cx(...parts: Array<string | false | null | undefined>) {
+  return parts.filter(Boolean).join(" ");
+}
+
+export function downloadText(filename: string, text: string, type = "text/csv;charset=utf-8") {
+  downloadBlob(filename, new Blob([text], { type }));
+}
+
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function csvCell(v: string) {
+  return /[",\n\r]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+}
+
+// RFC 4180 (CRLF line endings, quoted only when needed)
+export function toCsv(rows: string[][]) {
+  return rows.map((r) => r.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
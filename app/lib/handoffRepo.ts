@@ -0,0 +1,250 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, TablesInsert } from "./database.types";
+import type { Handoff, HandoffSource, HandoffStatus, HandoffUpdate, Priority, Shift, UpdateSource } from "./types";
+
+/* =========================================================
+   HANDOFF REPOSITORY (handoffs + handoff_updates)
+   - The app's only way into these two tables: the browser (list paging,
+     the drawer, outbox replay) and the server (jobs, webhooks, SMS,
+     exports); queries are typed against database.types
+   - Schema types say `string` for checked columns, so every returned
+     row is validated against the unions in lib/types before it reaches
+     the UI; a row that doesn't fit throws instead of rendering half-typed
+   - Unions mirror the checks in 20261018280000_handoff_constraints.sql
+========================================================= */
+
+export const HANDOFF_COLUMNS =
+  "id, ref, facility_id, unit, shift, title, priority, status, created_at, created_by, first_update_at, escalated_at, escalation_count, closed_at, deleted_at, assignee_user_id, source";
+
+export const UPDATE_COLUMNS =
+  "id, handoff_id, message, source, author_user_id, author_display_name_snapshot, created_at, parent_update_id";
+
+export type HandoffInsert = Pick<
+  Handoff,
+  "id" | "facility_id" | "unit" | "title" | "priority" | "status" | "shift" | "created_by"
+> & { source?: HandoffSource };
+
+export type HandoffPatch = Partial<
+  Pick<Handoff, "title" | "priority" | "shift" | "unit" | "status" | "assignee_user_id" | "deleted_at">
+>;
+
+export type HandoffUpdateInsert = Omit<HandoffUpdate, "created_at">;
+
+// What the SLA job changes (service role; the browser never escalates)
+export type HandoffEscalation = Pick<Handoff, "priority" | "escalated_at" | "escalation_count">;
+
+/* =========================
+   RUNTIME VALIDATION
+========================= */
+type Check = (v: unknown) => boolean;
+
+// Records (not arrays) so adding a union member without listing it here fails to compile
+const SHIFT: Record<Shift, true> = { AM: true, PM: true, NOC: true };
+const PRIORITY: Record<Priority, true> = { Low: true, Normal: true, High: true, Critical: true };
+const STATUS: Record<HandoffStatus, true> = {
+  open: true,
+  in_progress: true,
+  needs_followup: true,
+  resolved: true,
+  reopened: true,
+  cancelled: true,
+  duplicate: true,
+};
+const HANDOFF_SOURCE: Record<HandoffSource, true> = { app: true, scan: true, sms: true, system: true, template: true };
+const UPDATE_SOURCE: Record<UpdateSource, true> = { app: true, sms: true, system: true };
+
+const str: Check = (v) => typeof v === "string";
+const num: Check = (v) => typeof v === "number" && Number.isFinite(v);
+const oneOf =
+  (values: Record<string, true>): Check =>
+  (v) =>
+    typeof v === "string" && Object.prototype.hasOwnProperty.call(values, v);
+const nullable =
+  (c: Check): Check =>
+  (v) =>
+    v === null || c(v);
+// Columns a narrower select may leave out
+const optional =
+  (c: Check): Check =>
+  (v) =>
+    v === undefined || c(v);
+
+const HANDOFF_SHAPE: Record<keyof Handoff, Check> = {
+  id: str,
+  ref: optional(num),
+  facility_id: nullable(str),
+  unit: nullable(str),
+  shift: nullable(oneOf(SHIFT)),
+  title: str,
+  priority: oneOf(PRIORITY),
+  status: oneOf(STATUS),
+  created_at: str,
+  created_by: nullable(str),
+  source: optional(oneOf(HANDOFF_SOURCE)),
+  first_update_at: optional(nullable(str)),
+  escalated_at: optional(nullable(str)),
+  escalation_count: optional(num),
+  assignee_user_id: optional(nullable(str)),
+  assigned_at: optional(nullable(str)),
+  closed_at: optional(nullable(str)),
+  deleted_at: optional(nullable(str)),
+  deleted_by: optional(nullable(str)),
+};
+
+const UPDATE_SHAPE: Record<keyof HandoffUpdate, Check> = {
+  id: str,
+  handoff_id: str,
+  message: str,
+  source: oneOf(UPDATE_SOURCE),
+  author_user_id: nullable(str),
+  author_display_name_snapshot: nullable(str),
+  created_at: str,
+  parent_update_id: optional(nullable(str)),
+};
+
+function validate<T>(table: string, shape: Record<string, Check>, fields: string[], row: unknown): T {
+  if (!row || typeof row !== "object") throw new Error(`Unexpected ${table} row: ${JSON.stringify(row)}`);
+  const r = row as Record<string, unknown>;
+  for (const f of fields) {
+    if (!shape[f](r[f])) {
+      throw new Error(`Unexpected ${table} row ${String(r.id ?? "")}: ${f} = ${JSON.stringify(r[f])}`);
+    }
+  }
+  return row as T;
+}
+
+export function parseHandoff(row: unknown): Handoff {
+  return validate<Handoff>("handoffs", HANDOFF_SHAPE, Object.keys(HANDOFF_SHAPE), row);
+}
+
+export function parseHandoffs(rows: unknown[] | null): Handoff[] {
+  return (rows ?? []).map(parseHandoff);
+}
+
+// A narrower select or an embed ("handoff:handoffs (title, ref)"): only the named columns are checked
+export function parseHandoffFields<K extends keyof Handoff>(row: unknown, fields: K[]): Pick<Handoff, K> {
+  return validate<Pick<Handoff, K>>("handoffs", HANDOFF_SHAPE, fields, row);
+}
+
+export function parseHandoffUpdate(row: unknown): HandoffUpdate {
+  return validate<HandoffUpdate>("handoff_updates", UPDATE_SHAPE, Object.keys(UPDATE_SHAPE), row);
+}
+
+export function parseHandoffUpdates(rows: unknown[] | null): HandoffUpdate[] {
+  return (rows ?? []).map(parseHandoffUpdate);
+}
+
+/* =========================
+   HANDOFFS
+========================= */
+// Base query for list views (callers add filters / order / paging, then parseHandoffs)
+export function selectHandoffs(supabase: SupabaseClient<Database>) {
+  return supabase.from("handoffs").select(HANDOFF_COLUMNS);
+}
+
+// null = gone, or not visible to the caller (RLS)
+export async function getHandoff(supabase: SupabaseClient<Database>, id: string, signal?: AbortSignal) {
+  let req = selectHandoffs(supabase).eq("id", id);
+  if (signal) req = req.abortSignal(signal);
+  const { data, error } = await req.maybeSingle();
+  if (error) throw error;
+  return data ? parseHandoff(data) : null;
+}
+
+// Just the named columns (outbox conflict checks read the current value of what they change)
+export async function getHandoffFields<K extends keyof Handoff>(
+  supabase: SupabaseClient<Database>,
+  id: string,
+  fields: K[]
+): Promise<Pick<Handoff, "id" | K> | null> {
+  const cols: ("id" | K)[] = ["id", ...fields.filter((f) => f !== "id")];
+  const { data, error } = await supabase.from("handoffs").select(cols.join(", ")).eq("id", id).maybeSingle();
+  if (error) throw error;
+  return data ? parseHandoffFields(data, cols) : null;
+}
+
+// null = the row already exists (an outbox replay after a lost ack)
+export async function insertHandoff(supabase: SupabaseClient<Database>, row: HandoffInsert): Promise<Handoff | null> {
+  const insert: TablesInsert<"handoffs"> = { ...row, source: row.source ?? "app" };
+  const { data, error } = await supabase.from("handoffs").insert(insert).select(HANDOFF_COLUMNS).single();
+  if (error && error.code === "23505") return null;
+  if (error) throw error;
+  return parseHandoff(data);
+}
+
+// null = no row updated (gone, or RLS hid it)
+export async function updateHandoff(
+  supabase: SupabaseClient<Database>,
+  id: string,
+  patch: HandoffPatch
+): Promise<Handoff | null> {
+  const { data, error } = await supabase
+    .from("handoffs")
+    .update(patch)
+    .eq("id", id)
+    .select(HANDOFF_COLUMNS)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? parseHandoff(data) : null;
+}
+
+// Compare-and-set on escalation_count, so two overlapping runs can't both escalate;
+// null = another run got there first (or the row is gone)
+export async function escalateHandoff(
+  supabase: SupabaseClient<Database>,
+  id: string,
+  fromCount: number,
+  patch: HandoffEscalation
+): Promise<Handoff | null> {
+  const { data, error } = await supabase
+    .from("handoffs")
+    .update(patch)
+    .eq("id", id)
+    .eq("escalation_count", fromCount)
+    .select(HANDOFF_COLUMNS)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? parseHandoff(data) : null;
+}
+
+/* =========================
+   UPDATES
+========================= */
+// Base query across handoffs (exports: latest update per handoff); callers parseHandoffUpdates
+export function selectHandoffUpdates(supabase: SupabaseClient<Database>) {
+  return supabase.from("handoff_updates").select(UPDATE_COLUMNS);
+}
+
+export async function listHandoffUpdates(
+  supabase: SupabaseClient<Database>,
+  handoffId: string,
+  signal?: AbortSignal
+): Promise<HandoffUpdate[]> {
+  let req = selectHandoffUpdates(supabase)
+    .eq("handoff_id", handoffId)
+    .order("created_at", { ascending: true });
+  if (signal) req = req.abortSignal(signal);
+  const { data, error } = await req;
+  if (error) throw error;
+  return parseHandoffUpdates(data);
+}
+
+// null = already inserted (replay after a lost ack)
+export async function insertHandoffUpdate(
+  supabase: SupabaseClient<Database>,
+  row: HandoffUpdateInsert
+): Promise<HandoffUpdate | null> {
+  const insert: TablesInsert<"handoff_updates"> = {
+    id: row.id,
+    handoff_id: row.handoff_id,
+    message: row.message,
+    source: row.source,
+    author_user_id: row.author_user_id,
+    author_display_name_snapshot: row.author_display_name_snapshot,
+    parent_update_id: row.parent_update_id ?? null,
+  };
+  const { data, error } = await supabase.from("handoff_updates").insert(insert).select(UPDATE_COLUMNS).single();
+  if (error && error.code === "23505") return null;
+  if (error) throw error;
+  return parseHandoffUpdate(data);
+}
@@ -0,0 +1,64 @@
+import type { Handoff, HandoffStatus } from "./types";
+
+/* =========================================================
+   HANDOFF LIFECYCLE (keep in sync with handoff_transition_allowed)
+   open -> in_progress -> needs_followup -> resolved -> reopened
+   plus cancelled / duplicate as alternative closes
+========================================================= */
+
+export const STATUS_LABEL: Record<HandoffStatus, string> = {
+  open: "Open",
+  in_progress: "In progress",
+  needs_followup: "Follow-up",
+  resolved: "Resolved",
+  reopened: "Reopened",
+  cancelled: "Cancelled",
+  duplicate: "Duplicate",
+};
+
+// Still needs work: SLA clocks run, shift reports carry them over
+export const ACTIVE_STATUSES: HandoffStatus[] = ["open", "in_progress", "needs_followup", "reopened"];
+export const CLOSED_STATUSES: HandoffStatus[] = ["resolved", "cancelled", "duplicate"];
+
+export function isClosed(status: HandoffStatus) {
+  return CLOSED_STATUSES.includes(status);
+}
+
+export const TRANSITIONS: Record<HandoffStatus, HandoffStatus[]> = {
+  open: ["in_progress", "needs_followup", "resolved", "cancelled", "duplicate"],
+  in_progress: ["needs_followup", "resolved", "cancelled", "duplicate"],
+  needs_followup: ["in_progress", "resolved", "cancelled", "duplicate"],
+  reopened: ["in_progress", "needs_followup", "resolved", "cancelled", "duplicate"],
+  resolved: ["reopened"],
+  cancelled: ["reopened"],
+  duplicate: ["reopened"],
+};
+
+export function canTransition(from: HandoffStatus, to: HandoffStatus) {
+  return TRANSITIONS[from].includes(to);
+}
+
+/* =========================
+   EDITS
+========================= */
+export type HandoffEditable = Pick<Handoff, "title" | "priority" | "shift" | "unit">;
+export const EDITABLE_FIELDS: (keyof HandoffEditable)[] = ["title", "priority", "shift", "unit"];
+
+// One field of a patch, keyed and typed together (loops over EDITABLE_FIELDS)
+export function setField<K extends keyof HandoffEditable>(o: Partial<HandoffEditable>, k: K, v: HandoffEditable[K]) {
+  o[k] = v;
+}
+
+// Only the fields that actually differ (empty patch = nothing to save)
+export function diffEdit(h: Handoff, draft: HandoffEditable): Partial<HandoffEditable> {
+  const patch: Partial<HandoffEditable> = {};
+  for (const f of EDITABLE_FIELDS) {
+    const next = f === "title" ? draft.title.trim() : draft[f];
+    if (next !== h[f]) setField(patch, f, next);
+  }
+  return patch;
+}
+
+export function isDeleted(h: Pick<Handoff, "deleted_at">) {
+  return !!h.deleted_at;
+}
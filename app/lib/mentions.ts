@@ -0,0 +1,141 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+import { parseHandoffFields } from "./handoffRepo";
+import type { Handoff } from "./types";
+
+/* =========================================================
+   @MENTIONS
+   - A handle is the display name with everything but letters and
+     digits removed ("Jane Doe" -> @JaneDoe); matching ignores case
+     (mirrors public.mention_handle)
+   - Mentions are resolved by a DB trigger into handoff_mentions
+     (facility staff only); the client only suggests and highlights
+========================================================= */
+
+export type Mentionable = { user_id: string; display_name: string; role_title: string | null };
+
+export type MentionInboxItem = {
+  id: string;
+  update_id: string;
+  handoff_id: string;
+  created_at: string;
+  read_at: string | null;
+  update: { message: string; author_display_name_snapshot: string | null; parent_update_id: string | null } | null;
+  handoff: Pick<Handoff, "title" | "ref" | "unit" | "priority"> | null; // null = no longer visible
+};
+
+// As PostgREST returns it; the embedded handoff is checked like any other handoff row
+type MentionInboxRow = Omit<MentionInboxItem, "handoff"> & { handoff: unknown };
+
+const NON_HANDLE = new RegExp("[^\\p{L}\\p{N}]", "gu");
+const MENTION_SRC = "(^|[^\\p{L}\\p{N}_@])@([\\p{L}\\p{N}][\\p{L}\\p{N}._-]*)";
+
+export function mentionHandle(displayName: string) {
+  return displayName.replace(NON_HANDLE, "");
+}
+
+export function normalizeHandle(handle: string) {
+  return mentionHandle(handle).toLowerCase();
+}
+
+// Distinct handles in a message, normalized for matching
+export function extractMentions(text: string): string[] {
+  const out = new Set<string>();
+  const re = new RegExp(MENTION_SRC, "gu");
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text))) {
+    const h = normalizeHandle(m[2]);
+    if (h) out.add(h);
+  }
+  return Array.from(out);
+}
+
+// Text split into plain runs and @mentions (for highlighting)
+export function splitMentions(text: string): { text: string; handle: string | null }[] {
+  const parts: { text: string; handle: string | null }[] = [];
+  const re = new RegExp(MENTION_SRC, "gu");
+  let last = 0;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text))) {
+    const start = m.index + m[1].length;
+    if (start > last) parts.push({ text: text.slice(last, start), handle: null });
+    parts.push({ text: `@${m[2]}`, handle: normalizeHandle(m[2]) });
+    last = start + m[2].length + 1;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), handle: null });
+  return parts;
+}
+
+// "@par|" being typed at the caret -> where it starts + what's typed so far
+export function mentionQueryAt(text: string, caret: number): { start: number; query: string } | null {
+  const before = text.slice(0, caret);
+  const m = new RegExp("(^|[^\\p{L}\\p{N}_@])@([\\p{L}\\p{N}._-]{0,40})$", "u").exec(before);
+  if (!m) return null;
+  return { start: caret - m[2].length - 1, query: m[2] };
+}
+
+export function suggestMentions(people: Mentionable[], query: string, excludeUserId?: string | null, limit = 6) {
+  const q = normalizeHandle(query);
+  const scored = people
+    .filter((p) => p.user_id !== excludeUserId)
+    .map((p) => {
+      const handle = normalizeHandle(p.display_name);
+      const words = p.display_name.toLowerCase().split(/\s+/);
+      const rank = !q ? 1 : handle.startsWith(q) ? 0 : words.some((w) => w.startsWith(q)) ? 1 : handle.includes(q) ? 2 : -1;
+      return { p, rank };
+    })
+    .filter((s) => s.rank >= 0);
+  scored.sort((a, b) => a.rank - b.rank || a.p.display_name.localeCompare(b.p.display_name));
+  return scored.slice(0, limit).map((s) => s.p);
+}
+
+/* =========================
+   DATA
+========================= */
+export async function loadMentionable(supabase: SupabaseClient<Database>, facilityId: string): Promise<Mentionable[]> {
+  const { data, error } = await supabase.rpc("list_mentionable", { p_facility: facilityId });
+  if (error) throw error;
+  return (data ?? []) as Mentionable[];
+}
+
+export async function loadMentionInbox(supabase: SupabaseClient<Database>, userId: string, limit = 100) {
+  const { data, error } = await supabase
+    .from("handoff_mentions")
+    .select(
+      "id, update_id, handoff_id, created_at, read_at, " +
+        "update:handoff_updates (message, author_display_name_snapshot, parent_update_id), " +
+        "handoff:handoffs (title, ref, unit, priority)"
+    )
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return ((data ?? []) as unknown as MentionInboxRow[]).map(
+    (m): MentionInboxItem => ({
+      ...m,
+      handoff: m.handoff ? parseHandoffFields(m.handoff, ["title", "ref", "unit", "priority"]) : null,
+    })
+  );
+}
+
+export async function unreadMentionCount(supabase: SupabaseClient<Database>, userId: string) {
+  const { count, error } = await supabase
+    .from("handoff_mentions")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .is("read_at", null);
+  if (error) throw error;
+  return count ?? 0;
+}
+
+// ids omitted = everything unread
+export async function markMentionsRead(supabase: SupabaseClient<Database>, userId: string, ids?: string[]) {
+  let q = supabase
+    .from("handoff_mentions")
+    .update({ read_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .is("read_at", null);
+  if (ids) q = q.in("id", ids);
+  const { error } = await q;
+  if (error) throw error;
+}
@@ -0,0 +1,103 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+import type { NotificationPrefs } from "./types";
+
+/* =========================================================
+   NOTIFICATION PREFERENCES (shared: settings panel + server push)
+   - No row = defaults (everything on, no quiet hours)
+   - Quiet hours are wall-clock times in the user's own time zone;
+     a window like 22:00-06:00 wraps midnight
+========================================================= */
+
+export type PushKind = "critical" | "escalation" | "assignment" | "mention";
+
+export const PREFS_COLUMNS =
+  "user_id, critical, escalation, assignment, mention, quiet_start, quiet_end, quiet_allow_critical, timezone";
+
+export function defaultPrefs(userId: string, timezone = "UTC"): NotificationPrefs {
+  return {
+    user_id: userId,
+    critical: true,
+    escalation: true,
+    assignment: true,
+    mention: true,
+    quiet_start: null,
+    quiet_end: null,
+    quiet_allow_critical: true,
+    timezone,
+  };
+}
+
+function minutesOf(hhmm: string) {
+  const [h, m] = hhmm.split(":").map((n) => parseInt(n, 10));
+  return (h || 0) * 60 + (m || 0);
+}
+
+function localMinutes(at: Date, timezone: string) {
+  try {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(at);
+    const get = (t: string) => parseInt(parts.find((p) => p.type === t)?.value ?? "0", 10);
+    return get("hour") * 60 + get("minute");
+  } catch {
+    return at.getUTCHours() * 60 + at.getUTCMinutes(); // unknown zone: treat as UTC
+  }
+}
+
+export function inQuietHours(prefs: NotificationPrefs, at = new Date()) {
+  if (!prefs.quiet_start || !prefs.quiet_end) return false;
+  const start = minutesOf(prefs.quiet_start);
+  const end = minutesOf(prefs.quiet_end);
+  if (start === end) return false;
+  const now = localMinutes(at, prefs.timezone);
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+// critical = the handoff is (or just became) Critical
+export function wantsPush(prefs: NotificationPrefs, kind: PushKind, critical: boolean, at = new Date()) {
+  if (!prefs[kind]) return false;
+  if (!inQuietHours(prefs, at)) return true;
+  return critical && prefs.quiet_allow_critical;
+}
+
+/* =========================
+   LOAD / SAVE (caller's own row)
+========================= */
+export async function loadNotificationPrefs(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  timezone?: string
+): Promise<NotificationPrefs> {
+  const { data, error } = await supabase
+    .from("notification_prefs")
+    .select(PREFS_COLUMNS)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as NotificationPrefs | null) ?? defaultPrefs(userId, timezone);
+}
+
+export async function saveNotificationPrefs(
+  supabase: SupabaseClient<Database>,
+  prefs: NotificationPrefs
+): Promise<NotificationPrefs> {
+  const quiet = prefs.quiet_start && prefs.quiet_end;
+  const { data, error } = await supabase
+    .from("notification_prefs")
+    .upsert(
+      {
+        ...prefs,
+        quiet_start: quiet ? prefs.quiet_start : null,
+        quiet_end: quiet ? prefs.quiet_end : null,
+      },
+      { onConflict: "user_id" }
+    )
+    .select(PREFS_COLUMNS)
+    .single();
+  if (error) throw error;
+  return data as NotificationPrefs;
+}
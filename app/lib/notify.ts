@@ -0,0 +1,59 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+import { pushConfigured, pushNotifier } from "./push";
+import { defaultSmsSender, smsNotifier } from "./sms";
+import type { Handoff, HandoffUpdate, Priority } from "./types";
+
+/* =========================================================
+   NOTIFICATION HOOK
+   - Server-side fan-out point for alerts (escalations, new Criticals, assignment, @mentions)
+   - Default: log + SMS to on-call contacts + Web Push to subscribed users (if VAPID
+     keys are set) + POST JSON to NOTIFY_WEBHOOK_URL if set
+========================================================= */
+
+export type NotificationEvent =
+  | {
+      type: "escalation";
+      handoff: Handoff;
+      fromPriority: Priority;
+      toPriority: Priority;
+      reason: string;
+    }
+  | { type: "critical_created"; handoff: Handoff }
+  | { type: "assigned"; handoff: Handoff; assigneeUserId: string }
+  | { type: "mention"; handoff: Handoff; update: HandoffUpdate; userIds: string[] };
+
+export type NotificationHook = (event: NotificationEvent) => Promise<void>;
+
+export function webhookNotifier(url: string): NotificationHook {
+  return async (event) => {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(event),
+    });
+    if (!res.ok) throw new Error(`Notify webhook failed: ${res.status}`);
+  };
+}
+
+export const logNotifier: NotificationHook = async (event) => {
+  console.info("[notify]", event.type, event.handoff.id, event.type === "escalation" ? event.reason : "");
+};
+
+// Runs every hook; one failing hook doesn't block the others
+export function fanOut(...hooks: NotificationHook[]): NotificationHook {
+  return async (event) => {
+    const results = await Promise.allSettled(hooks.map((hook) => hook(event)));
+    for (const r of results) {
+      if (r.status === "rejected") console.error("[notify] hook failed:", r.reason);
+    }
+  };
+}
+
+export function defaultNotifier(supabase: SupabaseClient<Database>): NotificationHook {
+  const hooks = [logNotifier, smsNotifier(supabase, defaultSmsSender())];
+  if (pushConfigured()) hooks.push(pushNotifier(supabase));
+  const url = process.env.NOTIFY_WEBHOOK_URL;
+  if (url) hooks.push(webhookNotifier(url));
+  return fanOut(...hooks);
+}
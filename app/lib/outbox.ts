@@ -0,0 +1,377 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+import { lineItemInsertRow } from "./catalog";
+import { getHandoffFields, insertHandoff, insertHandoffUpdate, updateHandoff } from "./handoffRepo";
+import { HandoffEditable, isClosed, STATUS_LABEL } from "./lifecycle";
+import type { Handoff, HandoffLineItem, HandoffStatus, HandoffUpdate } from "./types";
+
+/* =========================================================
+   OFFLINE OUTBOX (IndexedDB)
+   - Every mutation is queued first, then replayed in order
+   - Client-generated ids make replays idempotent (dup key = already applied)
+   - Network errors stop the replay; it resumes on the next flush
+   - Conflicts (row changed/removed by someone else) park the op until the
+     user applies it anyway or discards it
+   - Falls back to an in-memory queue when IndexedDB is unavailable
+   - The queue is per device, but every op carries the user who queued it:
+     only that user's ops are listed and replayed (a shared unit phone never
+     sends one person's edits under the next person's session), and
+     sign-out clears the queue
+========================================================= */
+
+type OutboxBase = {
+  seq?: number; // IndexedDB autoIncrement key (replay order)
+  user_id: string; // who queued it; replayed only under that user's session
+  queued_at: string;
+  conflict?: string | null; // reason the op is parked
+  force?: boolean; // user chose "apply anyway"
+};
+
+export type OutboxOp = OutboxBase &
+  (
+    | { kind: "create_handoff"; row: Handoff; lines?: HandoffLineItem[] }
+    | {
+        kind: "add_update";
+        row: HandoffUpdate;
+        expected_status: HandoffStatus | null; // handoff status the author saw
+      }
+    | { kind: "set_status"; handoff_id: string; from: HandoffStatus; to: HandoffStatus }
+    | {
+        kind: "edit_handoff";
+        handoff_id: string;
+        base: Partial<HandoffEditable>; // values the editor started from
+        patch: Partial<HandoffEditable>;
+      }
+    | { kind: "set_deleted"; handoff_id: string; deleted: boolean }
+    | { kind: "assign"; handoff_id: string; from: string | null; to: string | null; to_name?: string }
+  );
+
+// An op as the UI builds it; enqueue adds the queue key and the user
+type Unqueued<T> = T extends OutboxOp ? Omit<T, "seq" | "user_id"> : never;
+export type NewOutboxOp = Unqueued<OutboxOp>;
+
+export type FlushResult = {
+  applied: number;
+  conflicts: number;
+  offline: boolean; // replay stopped on a network error
+};
+
+const DB_NAME = "cs-handoff";
+const DB_VERSION = 1;
+const STORE = "outbox";
+
+export function newClientId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) return crypto.randomUUID();
+  // RFC4122-ish v4 fallback for older mobile browsers
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    return (c === "x" ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
+export function isNetworkError(err: unknown) {
+  if (typeof navigator !== "undefined" && navigator.onLine === false) return true;
+  const msg = String((err as any)?.message ?? err ?? "");
+  return /failed to fetch|networkerror|network request failed|load failed|fetch failed/i.test(msg);
+}
+
+/* =========================
+   STORAGE
+========================= */
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let memoryQueue: OutboxOp[] = [];
+let memorySeq = 0;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === "undefined") return resolve(null);
+    try {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: "seq", autoIncrement: true });
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => resolve(null); // private mode etc.
+    } catch {
+      resolve(null);
+    }
+  });
+  return dbPromise;
+}
+
+function reqToPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// The user's ops in replay order (ops queued before ops carried a user match nobody)
+export async function listOutbox(userId: string): Promise<OutboxOp[]> {
+  const db = await openDb();
+  const all = db
+    ? ((await reqToPromise(db.transaction(STORE, "readonly").objectStore(STORE).getAll())) as OutboxOp[])
+    : memoryQueue;
+  return all.filter((op) => op.user_id === userId).sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+}
+
+export async function enqueue(userId: string, op: NewOutboxOp): Promise<OutboxOp> {
+  const db = await openDb();
+  const rest = { ...op, user_id: userId };
+  if (!db) {
+    const saved = { ...rest, seq: ++memorySeq } as OutboxOp;
+    memoryQueue.push(saved);
+    return saved;
+  }
+  const seq = await reqToPromise(db.transaction(STORE, "readwrite").objectStore(STORE).add(rest));
+  return { ...rest, seq: seq as number } as OutboxOp;
+}
+
+async function putOp(op: OutboxOp) {
+  const db = await openDb();
+  if (!db) {
+    memoryQueue = memoryQueue.map((o) => (o.seq === op.seq ? op : o));
+    return;
+  }
+  await reqToPromise(db.transaction(STORE, "readwrite").objectStore(STORE).put(op));
+}
+
+export async function removeOp(seq: number) {
+  const db = await openDb();
+  if (!db) {
+    memoryQueue = memoryQueue.filter((o) => o.seq !== seq);
+    return;
+  }
+  await reqToPromise(db.transaction(STORE, "readwrite").objectStore(STORE).delete(seq));
+}
+
+// Sign-out: nothing queued on this device outlives the session that queued it
+export async function clearOutbox() {
+  const db = await openDb();
+  if (!db) {
+    memoryQueue = [];
+    return;
+  }
+  await reqToPromise(db.transaction(STORE, "readwrite").objectStore(STORE).clear());
+}
+
+// User resolved a conflict by choosing "apply anyway"
+export async function forceOp(op: OutboxOp) {
+  await putOp({ ...op, conflict: null, force: true });
+}
+
+/* =========================
+   REPLAY
+========================= */
+type ApplyOutcome =
+  | { kind: "applied"; handoff?: Handoff; update?: HandoffUpdate }
+  | { kind: "conflict"; reason: string };
+
+async function fetchStatus(supabase: SupabaseClient<Database>, id: string) {
+  const current = await getHandoffFields(supabase, id, ["status"]);
+  return current?.status ?? null;
+}
+
+const GONE: ApplyOutcome = { kind: "conflict", reason: "Handoff no longer exists." };
+
+async function applyOp(supabase: SupabaseClient<Database>, op: OutboxOp): Promise<ApplyOutcome> {
+  if (op.kind === "create_handoff") {
+    const { id, facility_id, unit, title, priority, status, shift, created_by, source } = op.row;
+    const handoff = await insertHandoff(supabase, {
+      id,
+      facility_id,
+      unit,
+      title,
+      priority,
+      status,
+      shift,
+      created_by,
+      source,
+    }); // null: replayed after a lost ack
+
+    if (op.lines?.length) {
+      const { error: linesErr } = await supabase
+        .from("handoff_line_items")
+        .upsert(op.lines.map(lineItemInsertRow), { onConflict: "id", ignoreDuplicates: true });
+      if (linesErr) throw linesErr;
+    }
+
+    return handoff ? { kind: "applied", handoff } : { kind: "applied" };
+  }
+
+  if (op.kind === "add_update") {
+    if (!op.force) {
+      const current = await fetchStatus(supabase, op.row.handoff_id);
+      if (current === null) return GONE;
+      if (isClosed(current) && !(op.expected_status && isClosed(op.expected_status))) {
+        return {
+          kind: "conflict",
+          reason: `Handoff was marked ${STATUS_LABEL[current].toLowerCase()} by someone else while you were offline.`,
+        };
+      }
+    }
+    const update = await insertHandoffUpdate(supabase, op.row);
+    return update ? { kind: "applied", update } : { kind: "applied" };
+  }
+
+  if (op.kind === "edit_handoff") {
+    const fields = Object.keys(op.patch) as (keyof HandoffEditable)[];
+    const current = await getHandoffFields(supabase, op.handoff_id, fields);
+    if (!current) return GONE;
+    if (!op.force) {
+      // Field-level: only a field someone else changed to something else conflicts
+      const clash = fields.filter((f) => current[f] !== op.base[f] && current[f] !== op.patch[f]);
+      if (clash.length) {
+        return { kind: "conflict", reason: `${clash.join(", ")} changed by someone else while you were offline.` };
+      }
+    }
+    const handoff = await updateHandoff(supabase, op.handoff_id, op.patch);
+    return handoff ? { kind: "applied", handoff } : GONE;
+  }
+
+  if (op.kind === "set_deleted") {
+    const handoff = await updateHandoff(supabase, op.handoff_id, { deleted_at: op.deleted ? op.queued_at : null });
+    return handoff ? { kind: "applied", handoff } : GONE;
+  }
+
+  if (op.kind === "assign") {
+    const current = await getHandoffFields(supabase, op.handoff_id, ["assignee_user_id"]);
+    if (!current) return GONE;
+    const owner = current.assignee_user_id ?? null;
+    if (owner === op.to) return { kind: "applied" };
+    if (owner !== op.from && !op.force) {
+      return { kind: "conflict", reason: "Someone else took ownership while you were offline." };
+    }
+    const handoff = await updateHandoff(supabase, op.handoff_id, { assignee_user_id: op.to });
+    return handoff ? { kind: "applied", handoff } : GONE;
+  }
+
+  // set_status
+  const current = await fetchStatus(supabase, op.handoff_id);
+  if (current === null) return GONE;
+  if (current === op.to) return { kind: "applied" }; // someone else made the same change
+  if (current !== op.from && !op.force) {
+    return {
+      kind: "conflict",
+      reason: `Status was changed to "${current}" by someone else while you were offline.`,
+    };
+  }
+  const handoff = await updateHandoff(supabase, op.handoff_id, { status: op.to });
+  return handoff ? { kind: "applied", handoff } : GONE;
+}
+
+let flushing: { userId: string; run: Promise<FlushResult> } | null = null;
+
+// Replays the user's queued ops in order, under `supabase`'s session (the same user).
+// Concurrent calls for the same user share one run; another user's waits for it.
+export function flushOutbox(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  onApplied?: (op: OutboxOp, outcome: { handoff?: Handoff; update?: HandoffUpdate }) => void
+): Promise<FlushResult> {
+  if (flushing?.userId === userId) return flushing.run;
+  const previous = flushing?.run.catch(() => null);
+
+  const run = (async () => {
+    await previous;
+    const result: FlushResult = { applied: 0, conflicts: 0, offline: false };
+    const ops = await listOutbox(userId);
+
+    for (const op of ops) {
+      if (op.conflict) {
+        result.conflicts++;
+        continue;
+      }
+      try {
+        const outcome = await applyOp(supabase, op);
+        if (outcome.kind === "conflict") {
+          await putOp({ ...op, conflict: outcome.reason });
+          result.conflicts++;
+          continue;
+        }
+        await removeOp(op.seq!);
+        result.applied++;
+        onApplied?.(op, outcome);
+      } catch (e: any) {
+        if (isNetworkError(e)) {
+          result.offline = true;
+          break; // keep order: nothing after this op is sent
+        }
+        // Server rejected it (RLS, constraint, ...): park it so the queue keeps moving
+        await putOp({ ...op, conflict: `Rejected by server: ${e?.message ?? "unknown error"}` });
+        result.conflicts++;
+      }
+    }
+
+    return result;
+  })().finally(() => {
+    if (flushing?.run === run) flushing = null;
+  });
+
+  flushing = { userId, run };
+  return run;
+}
+
+/* =========================
+   OPTIMISTIC OVERLAY
+   Server lists + queued ops = what the user should see
+========================= */
+export function overlayHandoffs(server: Handoff[], ops: OutboxOp[], keep: (h: Handoff) => boolean) {
+  let out = server;
+  for (const op of ops) {
+    if (op.kind === "create_handoff" && keep(op.row) && !out.some((h) => h.id === op.row.id)) {
+      out = [op.row, ...out];
+    } else if (op.kind === "set_status" && !op.conflict) {
+      out = out.map((h) => (h.id === op.handoff_id ? { ...h, status: op.to } : h));
+    } else if (op.kind === "edit_handoff" && !op.conflict) {
+      out = out.map((h) => (h.id === op.handoff_id ? { ...h, ...op.patch } : h));
+    } else if (op.kind === "assign" && !op.conflict) {
+      out = out.map((h) => (h.id === op.handoff_id ? { ...h, assignee_user_id: op.to } : h));
+    } else if (op.kind === "set_deleted" && !op.conflict) {
+      out = out.map((h) => (h.id === op.handoff_id ? { ...h, deleted_at: op.deleted ? op.queued_at : null } : h));
+    }
+  }
+  return out;
+}
+
+export function overlayUpdates(server: HandoffUpdate[], ops: OutboxOp[], handoffId: string) {
+  const pending = ops
+    .filter(
+      (op): op is Extract<OutboxOp, { kind: "add_update" }> =>
+        op.kind === "add_update" && op.row.handoff_id === handoffId
+    )
+    .map((op) => op.row)
+    .filter((row) => !server.some((u) => u.id === row.id));
+  return pending.length ? [...server, ...pending] : server;
+}
+
+export function pendingLineItems(ops: OutboxOp[], handoffId: string): HandoffLineItem[] {
+  for (const op of ops) {
+    if (op.kind === "create_handoff" && op.row.id === handoffId) return op.lines ?? [];
+  }
+  return [];
+}
+
+// Ids (handoffs + updates) that still have queued work
+export function pendingIds(ops: OutboxOp[]): Set<string> {
+  const ids = new Set<string>();
+  for (const op of ops) {
+    if (op.kind === "create_handoff") ids.add(op.row.id);
+    else if (op.kind === "add_update") ids.add(op.row.id);
+    else ids.add(op.handoff_id);
+  }
+  return ids;
+}
+
+export function describeOp(op: OutboxOp) {
+  if (op.kind === "create_handoff") return `Create "${op.row.title}"`;
+  if (op.kind === "add_update") return `Update: "${op.row.message.slice(0, 60)}"`;
+  if (op.kind === "edit_handoff") return `Edit ${Object.keys(op.patch).join(", ")}`;
+  if (op.kind === "set_deleted") return op.deleted ? "Delete handoff" : "Restore handoff";
+  if (op.kind === "assign") return op.to ? `Assign to ${op.to_name ?? "someone"}` : "Unassign";
+  return `Mark ${STATUS_LABEL[op.to].toLowerCase()}`;
+}
@@ -0,0 +1,88 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+import { parseHandoffs, selectHandoffs } from "./handoffRepo";
+import { ACTIVE_STATUSES, CLOSED_STATUSES } from "./lifecycle";
+import type { Handoff } from "./types";
+
+/* =========================================================
+   LIST PAGING
+   - Active handoffs load eagerly (they're what the shift works from)
+   - Closed ones page in by (created_at, id) keyset as the list scrolls
+   - Old closed handoffs move to the archive (see lib/archive)
+========================================================= */
+
+export const CLOSED_PAGE_SIZE = 50;
+
+export type Cursor = { created_at: string; id: string };
+
+type ListContext = { facilityId: string; unit: string | null }; // unit null = whole facility
+
+function scoped(supabase: SupabaseClient<Database>, ctx: ListContext) {
+  let q = selectHandoffs(supabase).eq("facility_id", ctx.facilityId);
+  if (ctx.unit) q = q.eq("unit", ctx.unit);
+  return q;
+}
+
+export async function loadActiveHandoffs(
+  supabase: SupabaseClient<Database>,
+  ctx: ListContext,
+  signal?: AbortSignal
+): Promise<Handoff[]> {
+  let req = scoped(supabase, ctx)
+    .in("status", ACTIVE_STATUSES)
+    .order("created_at", { ascending: false });
+  if (signal) req = req.abortSignal(signal);
+  const { data, error } = await req;
+  if (error) throw error;
+  return parseHandoffs(data);
+}
+
+// next = cursor for the following page; null once the end is reached
+export async function loadClosedPage(
+  supabase: SupabaseClient<Database>,
+  ctx: ListContext,
+  after: Cursor | null,
+  signal?: AbortSignal
+): Promise<{ rows: Handoff[]; next: Cursor | null }> {
+  let q = scoped(supabase, ctx).in("status", CLOSED_STATUSES);
+  if (after) {
+    const ts = `"${after.created_at}"`;
+    q = q.or(`created_at.lt.${ts},and(created_at.eq.${ts},id.lt.${after.id})`);
+  }
+  let req = q
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(CLOSED_PAGE_SIZE);
+  if (signal) req = req.abortSignal(signal);
+
+  const { data, error } = await req;
+  if (error) throw error;
+  const rows = parseHandoffs(data);
+  const last = rows[rows.length - 1];
+  return {
+    rows,
+    next: rows.length === CLOSED_PAGE_SIZE && last ? { created_at: last.created_at, id: last.id } : null,
+  };
+}
+
+// Rows the list hasn't paged to yet (e.g. older search hits, deep links)
+export async function loadHandoffsByIds(
+  supabase: SupabaseClient<Database>,
+  ids: string[],
+  signal?: AbortSignal
+): Promise<Handoff[]> {
+  if (ids.length === 0) return [];
+  let req = selectHandoffs(supabase).in("id", ids);
+  if (signal) req = req.abortSignal(signal);
+  const { data, error } = await req;
+  if (error) throw error;
+  return parseHandoffs(data);
+}
+
+// Merge fetched rows into the list, replacing any already loaded
+export function mergeHandoffs(prev: Handoff[], rows: Handoff[]) {
+  if (rows.length === 0) return prev;
+  const incoming = new Map(rows.map((r) => [r.id, r]));
+  const kept = prev.filter((h) => !incoming.has(h.id));
+  return [...kept, ...rows];
+}
@@ -0,0 +1,138 @@
+/* =========================================================
+   MINIMAL PDF WRITER (server-side exports)
+   - Text only: Helvetica / Helvetica-Bold, US Letter, word wrap,
+     automatic page breaks, page numbers in the footer
+   - WinAnsi text: characters outside Latin-1 are transliterated
+     or replaced with "?"
+   Enough for lists and timelines; no images, no tables.
+========================================================= */
+
+export type PdfBlock =
+  | { kind: "title"; text: string }
+  | { kind: "heading"; text: string }
+  | { kind: "text"; text: string }
+  | { kind: "meta"; text: string } // small grey line
+  | { kind: "gap" };
+
+const PAGE_W = 612;
+const PAGE_H = 792;
+const MARGIN = 48;
+const FOOTER = 24;
+
+const STYLE: Record<Exclude<PdfBlock["kind"], "gap">, { font: "F1" | "F2"; size: number; gray: number }> = {
+  title: { font: "F2", size: 16, gray: 0 },
+  heading: { font: "F2", size: 11, gray: 0 },
+  text: { font: "F1", size: 10, gray: 0 },
+  meta: { font: "F1", size: 8, gray: 0.4 },
+};
+
+const REPLACE: Record<string, string> = {
+  "—": "-",
+  "–": "-",
+  "→": "->",
+  "…": "...",
+  "‘": "'",
+  "’": "'",
+  "“": '"',
+  "”": '"',
+  "•": "-",
+};
+
+function toWinAnsi(s: string) {
+  return Array.from(s.replace(/\r/g, ""))
+    .map((ch) => {
+      if (REPLACE[ch]) return REPLACE[ch];
+      const c = ch.charCodeAt(0);
+      return c === 10 || (c >= 32 && c < 127) || (c >= 160 && c <= 255) ? ch : "?";
+    })
+    .join("");
+}
+
+function escape(s: string) {
+  return s.replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)");
+}
+
+// Helvetica averages ~0.5em per character; bold a little wider
+function wrap(text: string, size: number, bold: boolean) {
+  const maxChars = Math.max(10, Math.floor((PAGE_W - 2 * MARGIN) / (size * (bold ? 0.58 : 0.52))));
+  const out: string[] = [];
+  for (const para of text.split("\n")) {
+    let line = "";
+    for (const word of para.split(/\s+/).filter(Boolean)) {
+      if (word.length > maxChars) {
+        if (line) out.push(line);
+        for (let i = 0; i < word.length; i += maxChars) out.push(word.slice(i, i + maxChars));
+        line = "";
+        continue;
+      }
+      if ((line ? line.length + 1 : 0) + word.length > maxChars) {
+        out.push(line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    }
+    out.push(line);
+  }
+  return out;
+}
+
+export function renderPdf(blocks: PdfBlock[], opts: { title?: string } = {}): Uint8Array {
+  // Lay out into pages of text operations
+  const pages: string[][] = [[]];
+  let y = PAGE_H - MARGIN;
+
+  for (const b of blocks) {
+    if (b.kind === "gap") {
+      y -= 8;
+      continue;
+    }
+    const st = STYLE[b.kind];
+    const lead = st.size * 1.3;
+    if (b.kind === "heading") y -= 6;
+    for (const line of wrap(toWinAnsi(b.text), st.size, st.font === "F2")) {
+      if (y - lead < MARGIN + FOOTER) {
+        pages.push([]);
+        y = PAGE_H - MARGIN;
+      }
+      y -= lead;
+      pages[pages.length - 1].push(
+        `BT /${st.font} ${st.size} Tf ${st.gray} g ${MARGIN} ${y.toFixed(1)} Td (${escape(line)}) Tj ET`
+      );
+    }
+  }
+
+  // Objects: 1 catalog, 2 pages, 3 font, 4 bold font, 5 info, then page + content pairs
+  const objects: string[] = [];
+  const kids: string[] = [];
+  pages.forEach((ops, i) => {
+    const pageNo = 6 + i * 2;
+    kids.push(`${pageNo} 0 R`);
+    const footer = `BT /F1 8 Tf 0.4 g ${MARGIN} ${MARGIN - 12} Td (${escape(
+      toWinAnsi(`${opts.title ?? ""}  ·  page ${i + 1} of ${pages.length}`.trim())
+    )}) Tj ET`;
+    const stream = [...ops, footer].join("\n");
+    objects[pageNo] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_W} ${PAGE_H}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageNo + 1} 0 R >>`;
+    objects[pageNo + 1] = `<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`;
+  });
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${kids.join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+  objects[5] = `<< /Title (${escape(toWinAnsi(opts.title ?? "Export"))}) /Producer (Central Supply Handoff) >>`;
+
+  let out = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let n = 1; n < objects.length; n++) {
+    offsets[n] = Buffer.byteLength(out, "latin1");
+    out += `${n} 0 obj\n${objects[n]}\nendobj\n`;
+  }
+  const xref = Buffer.byteLength(out, "latin1");
+  out += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let n = 1; n < objects.length; n++) out += `${String(offsets[n]).padStart(10, "0")} 00000 n \n`;
+  out += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return new Uint8Array(Buffer.from(out, "latin1"));
+}
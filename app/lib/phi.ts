@@ -0,0 +1,271 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+
+/* =========================================================
+   PHI SCREENING
+   - Handoffs are about supplies and equipment, not patients: titles and
+     updates are screened for MRNs, patient names, DOBs, room + bed and
+     phone numbers before submit, and again by DB triggers on every write
+     path (app, outbox replay, SMS)
+   - Patterns are per facility (phi_patterns; facility rows override the
+     global defaults by key) and must compile in both JS and Postgres
+   - block: submit refused + logged; flag: saved, logged for review
+========================================================= */
+
+export type PhiCategory = "mrn" | "patient_name" | "dob" | "room_bed" | "phone" | "other";
+export type PhiAction = "block" | "flag";
+export type PhiField = "title" | "update" | "sms";
+
+export type PhiPattern = {
+  key: string;
+  category: PhiCategory;
+  label: string;
+  pattern: string;
+  case_sensitive: boolean;
+  action: PhiAction;
+};
+
+export type PhiPatternRow = PhiPattern & {
+  id: string;
+  facility_id: string | null;
+  enabled: boolean;
+  updated_at: string;
+};
+
+export type PhiFinding = {
+  key: string;
+  label: string;
+  action: PhiAction;
+  match: string; // trimmed to the sensitive part
+  index: number;
+};
+
+export type PhiEvent = {
+  id: number;
+  facility_id: string | null;
+  unit: string | null;
+  field: PhiField;
+  action: "blocked" | "flagged";
+  rule_keys: string[];
+  excerpt: string | null;
+  detected_by: "client" | "server";
+  actor_user_id: string | null;
+  actor_display_name_snapshot: string | null;
+  handoff_id: string | null;
+  created_at: string;
+};
+
+// Raised by public.phi_guard when a write is blocked
+export const PHI_ERROR_CODE = "PH001";
+
+export const PHI_CATEGORY_LABEL: Record<PhiCategory, string> = {
+  mrn: "MRN",
+  patient_name: "Patient name",
+  dob: "Date of birth",
+  room_bed: "Room + bed",
+  phone: "Phone number",
+  other: "Other",
+};
+
+// Mirrors the seed in 20261018270000_phi_guard.sql (used until the facility's set loads)
+export const DEFAULT_PHI_PATTERNS: PhiPattern[] = [
+  {
+    key: "mrn",
+    category: "mrn",
+    label: "MRN",
+    pattern: "(^|[^a-z0-9])(mrn|med(ical)?[ .]*rec(ord)?)[ .]*(#|no\\.?|num(ber)?)?[ :#=-]*[a-z]{0,2}[0-9]{5,10}",
+    case_sensitive: false,
+    action: "block",
+  },
+  {
+    key: "patient_name",
+    category: "patient_name",
+    label: "Patient name",
+    pattern:
+      "(^|[^A-Za-z])([Pp][Tt]\\.?|[Pp]atient|PATIENT|PT)[ :-]+((Mr|Mrs|Ms|Dr)\\.? +)?(?!(Room|Rm|Bed|Transport|Care|Supply|Supplies|Unit|Floor|Side|Area)([^A-Za-z]|$))[A-Z][a-z]+( +[A-Z][a-z]+)?",
+    case_sensitive: true,
+    action: "block",
+  },
+  {
+    // First + last name in any case ("pt john doe"); two words, so "pt lift" and the like pass
+    key: "patient_name_full",
+    category: "patient_name",
+    label: "Patient name",
+    pattern:
+      "(^|[^a-z])(pt\\.?|patient)[ :-]+((mr|mrs|ms|dr)\\.? +)?(?!(room|rm|beds?|transport|care|supply|supplies|unit|floor|side|area|lifts?|belongings|charts?|labels?|gowns?|scales?|monitors?|warmers?|stretchers?|wheelchairs?|chairs?|carts?|call|family|education|safety|id|bands?|kits?|trays?|pumps?|bags?|needs?|is|was|has|had|in|on|at|to|for|with|and|or|the|a|an|of|from|no|not|ready|waiting|going)([^a-z]|$))[a-z]{2,} +(?!(room|rm|beds?|transport|care|supply|supplies|unit|floor|side|area|lifts?|belongings|charts?|labels?|gowns?|scales?|monitors?|warmers?|stretchers?|wheelchairs?|chairs?|carts?|call|family|education|safety|id|bands?|kits?|trays?|pumps?|bags?|needs?|is|was|has|had|in|on|at|to|for|with|and|or|the|a|an|of|from|no|not|ready|waiting|going)([^a-z]|$))[a-z]{2,}([^a-z]|$)",
+    case_sensitive: false,
+    action: "block",
+  },
+  {
+    key: "dob",
+    category: "dob",
+    label: "Date of birth",
+    pattern: "(^|[^a-z])(dob|d\\.o\\.b\\.?|date of birth|born)[ :-]*[0-9]{1,2}[/.-][0-9]{1,2}[/.-][0-9]{2,4}",
+    case_sensitive: false,
+    action: "block",
+  },
+  {
+    key: "room_bed",
+    category: "room_bed",
+    label: "Room + bed",
+    pattern: "(^|[^a-z0-9])(rm|room)[ .#:]*[0-9]{1,4}[a-z]?[ ,/-]*(bed|bd)[ .#:]*[a-z0-9]{1,2}([^a-z0-9]|$)",
+    case_sensitive: false,
+    action: "block",
+  },
+  {
+    key: "room_bed_short",
+    category: "room_bed",
+    label: "Room + bed",
+    pattern: "(^|[^a-z0-9])(rm|room)[ .#:]*[0-9]{3,4}[ -]?[a-d]([^a-z0-9]|$)",
+    case_sensitive: false,
+    action: "block",
+  },
+  {
+    key: "phone",
+    category: "phone",
+    label: "Phone number",
+    pattern: "(^|[^0-9])(\\+?1[ .-]?)?(\\([2-9][0-9]{2}\\)|[2-9][0-9]{2})[ .-]?[0-9]{3}[ .-][0-9]{4}([^0-9]|$)",
+    case_sensitive: false,
+    action: "block",
+  },
+];
+
+const EDGE = /^[^A-Za-z0-9(+]+|[^A-Za-z0-9.)]+$/g;
+
+// null when the source doesn't compile here (a facility pattern only Postgres accepts)
+export function compilePhiPattern(p: Pick<PhiPattern, "pattern" | "case_sensitive">): RegExp | null {
+  try {
+    return new RegExp(p.pattern, p.case_sensitive ? "g" : "gi");
+  } catch {
+    return null;
+  }
+}
+
+export function scanPhi(text: string, patterns: PhiPattern[] = DEFAULT_PHI_PATTERNS): PhiFinding[] {
+  const out: PhiFinding[] = [];
+  if (!text.trim()) return out;
+  for (const p of patterns) {
+    const re = compilePhiPattern(p);
+    if (!re) continue;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(text))) {
+      // Boundary characters the pattern consumed aren't part of the PHI
+      const lead = m[0].length - m[0].replace(/^[^A-Za-z0-9(+]+/, "").length;
+      const match = m[0].replace(EDGE, "");
+      if (match) out.push({ key: p.key, label: p.label, action: p.action, match, index: m.index + lead });
+      if (m[0].length === 0) re.lastIndex++;
+    }
+  }
+  return out.sort((a, b) => a.index - b.index);
+}
+
+export function blockingPhi(findings: PhiFinding[]) {
+  return findings.filter((f) => f.action === "block");
+}
+
+// "MRN, Phone number"
+export function phiSummary(findings: PhiFinding[]) {
+  return Array.from(new Set(findings.map((f) => f.label))).join(", ");
+}
+
+// Each finding replaced by "[Label]"; overlapping findings collapse into one
+export function redactPhi(text: string, findings: PhiFinding[]) {
+  const spans = findings
+    .map((f) => ({ start: f.index, end: f.index + f.match.length, label: f.label }))
+    .sort((a, b) => a.start - b.start);
+  let out = "";
+  let pos = 0;
+  for (const s of spans) {
+    if (s.end <= pos) continue;
+    out += text.slice(pos, Math.max(pos, s.start));
+    if (s.start >= pos) out += `[${s.label}]`;
+    pos = s.end;
+  }
+  return out + text.slice(pos);
+}
+
+export function isPhiError(e: any) {
+  return e?.code === PHI_ERROR_CODE;
+}
+
+// Global defaults with the facility's overrides applied (same rule as public.phi_effective_patterns)
+export function effectivePhiPatterns(rows: PhiPatternRow[], facilityId: string | null) {
+  const byKey = new Map<string, PhiPatternRow>();
+  for (const r of rows) if (r.facility_id === null) byKey.set(r.key, r);
+  for (const r of rows) if (facilityId && r.facility_id === facilityId) byKey.set(r.key, r);
+  return Array.from(byKey.values()).sort((a, b) => a.category.localeCompare(b.category) || a.key.localeCompare(b.key));
+}
+
+/* =========================
+   DATA
+========================= */
+// The enabled set for screening (works for every member; override rows are admin-only)
+export async function loadPhiPatterns(supabase: SupabaseClient<Database>, facilityId: string): Promise<PhiPattern[]> {
+  const { data, error } = await supabase.rpc("phi_patterns_for", { p_facility: facilityId });
+  if (error) throw error;
+  return (data ?? []) as PhiPattern[];
+}
+
+// Only the redacted text leaves the browser; the server redacts it again
+export async function logPhiBlock(
+  supabase: SupabaseClient<Database>,
+  args: { facilityId: string; unit: string | null; field: PhiField; text: string; findings: PhiFinding[] }
+) {
+  const { error } = await supabase.rpc("log_phi_block", {
+    p_facility: args.facilityId,
+    p_unit: args.unit,
+    p_field: args.field,
+    p_rule_keys: Array.from(new Set(args.findings.map((f) => f.key))),
+    p_excerpt: redactPhi(args.text, args.findings).slice(0, 300),
+  });
+  if (error) throw error;
+}
+
+export async function loadPhiEvents(supabase: SupabaseClient<Database>, facilityId: string, limit = 200) {
+  const { data, error } = await supabase
+    .from("phi_events")
+    .select("*")
+    .eq("facility_id", facilityId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data ?? []) as PhiEvent[];
+}
+
+export async function loadPhiPatternRows(supabase: SupabaseClient<Database>, facilityId: string) {
+  const { data, error } = await supabase
+    .from("phi_patterns")
+    .select("id, facility_id, key, category, label, pattern, case_sensitive, action, enabled, updated_at")
+    .or(`facility_id.is.null,facility_id.eq.${facilityId}`);
+  if (error) throw error;
+  return (data ?? []) as PhiPatternRow[];
+}
+
+// Facility override (or facility-only pattern), keyed by (facility_id, key)
+export async function savePhiOverride(
+  supabase: SupabaseClient<Database>,
+  facilityId: string,
+  p: PhiPattern & { enabled: boolean }
+) {
+  if (!compilePhiPattern(p)) throw new Error("That pattern isn't a valid regular expression.");
+  const { error } = await supabase.from("phi_patterns").upsert(
+    {
+      facility_id: facilityId,
+      key: p.key,
+      category: p.category,
+      label: p.label,
+      pattern: p.pattern,
+      case_sensitive: p.case_sensitive,
+      action: p.action,
+      enabled: p.enabled,
+    },
+    { onConflict: "facility_id,key" }
+  );
+  if (error) throw error;
+}
+
+// Back to the global default (or gone, for facility-only keys)
+export async function deletePhiOverride(supabase: SupabaseClient<Database>, facilityId: string, key: string) {
+  const { error } = await supabase.from("phi_patterns").delete().eq("facility_id", facilityId).eq("key", key);
+  if (error) throw error;
+}
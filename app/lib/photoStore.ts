@@ -0,0 +1,81 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+
+/* =========================================================
+   PHOTO STORE (where attachment files live)
+   - supabase: private Storage bucket, displayed through signed URLs
+   - local: dev only; files go through /api/photos to PHOTO_DIR on the
+     Next server's disk (NEXT_PUBLIC_PHOTO_STORE=local + PHOTO_STORE=local)
+   Paths are <handoff_id>/<attachment_id>[_thumb].jpg in both.
+========================================================= */
+
+export type StoreKind = "supabase" | "local";
+
+export type PhotoStore = {
+  kind: StoreKind;
+  upload: (path: string, blob: Blob) => Promise<void>;
+  urls: (paths: string[]) => Promise<Record<string, string>>; // path -> displayable URL
+  remove: (paths: string[]) => Promise<void>;
+};
+
+export const PHOTO_BUCKET = "handoff-photos";
+const SIGNED_URL_TTL = 60 * 60; // seconds
+
+export function supabasePhotoStore(supabase: SupabaseClient<Database>): PhotoStore {
+  const bucket = () => supabase.storage.from(PHOTO_BUCKET);
+  return {
+    kind: "supabase",
+    async upload(path, blob) {
+      const { error } = await bucket().upload(path, blob, { contentType: "image/jpeg", upsert: false });
+      if (error) throw error;
+    },
+    async urls(paths) {
+      if (paths.length === 0) return {};
+      const { data, error } = await bucket().createSignedUrls(paths, SIGNED_URL_TTL);
+      if (error) throw error;
+      const out: Record<string, string> = {};
+      for (const row of data ?? []) if (row.path && row.signedUrl) out[row.path] = row.signedUrl;
+      return out;
+    },
+    async remove(paths) {
+      if (paths.length === 0) return;
+      const { error } = await bucket().remove(paths);
+      if (error) throw error;
+    },
+  };
+}
+
+export function localPhotoStore(supabase: SupabaseClient<Database>): PhotoStore {
+  async function authHeader(): Promise<Record<string, string>> {
+    const { data } = await supabase.auth.getSession();
+    const token = data.session?.access_token;
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+  return {
+    kind: "local",
+    async upload(path, blob) {
+      const res = await fetch(`/api/photos/${path}`, {
+        method: "PUT",
+        headers: { ...(await authHeader()), "Content-Type": "image/jpeg" },
+        body: blob,
+      });
+      if (!res.ok) throw new Error(`Photo upload failed (${res.status})`);
+    },
+    async urls(paths) {
+      return Object.fromEntries(paths.map((p) => [p, `/api/photos/${p}`]));
+    },
+    async remove(paths) {
+      const headers = await authHeader();
+      await Promise.all(paths.map((p) => fetch(`/api/photos/${p}`, { method: "DELETE", headers })));
+    },
+  };
+}
+
+export function photoStoreFor(supabase: SupabaseClient<Database>, kind: StoreKind): PhotoStore {
+  return kind === "local" ? localPhotoStore(supabase) : supabasePhotoStore(supabase);
+}
+
+// Store new uploads go to (existing rows remember their own)
+export function defaultPhotoStore(supabase: SupabaseClient<Database>): PhotoStore {
+  return photoStoreFor(supabase, process.env.NEXT_PUBLIC_PHOTO_STORE === "local" ? "local" : "supabase");
+}
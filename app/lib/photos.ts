@@ -0,0 +1,180 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+import { newClientId } from "./outbox";
+import { defaultPhotoStore, photoStoreFor } from "./photoStore";
+import type { HandoffAttachment } from "./types";
+
+/* =========================================================
+   PHOTO ATTACHMENTS
+   - Compressed in the browser before upload: longest side 1600px,
+     JPEG; plus a 320px thumbnail for the timeline
+   - Re-encoding through a canvas drops EXIF (GPS, device, time);
+     orientation is applied to the pixels first so nothing turns sideways
+   - Upload needs a connection (not queued in the outbox); the row is
+     inserted only after both files are stored
+========================================================= */
+
+export const ATTACHMENT_COLUMNS =
+  "id, handoff_id, update_id, store, path, thumb_path, content_type, width, height, bytes, created_by, created_at";
+
+export const MAX_PHOTOS_PER_POST = 4;
+const FULL_MAX = 1600;
+const THUMB_MAX = 320;
+const MAX_INPUT_BYTES = 25 * 1024 * 1024;
+
+export type ProcessedPhoto = { full: Blob; thumb: Blob; width: number; height: number };
+
+export type PhotoUrls = Record<string, { thumb: string; full: string }>; // attachment id ->
+
+/* =========================
+   BROWSER PROCESSING
+========================= */
+async function decode(file: Blob): Promise<{ source: CanvasImageSource; width: number; height: number; close: () => void }> {
+  if (typeof createImageBitmap === "function") {
+    try {
+      const bmp = await createImageBitmap(file, { imageOrientation: "from-image" } as ImageBitmapOptions);
+      return { source: bmp, width: bmp.width, height: bmp.height, close: () => bmp.close() };
+    } catch {
+      // older Safari: fall through to <img>
+    }
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.decoding = "async";
+    img.src = url;
+    await img.decode();
+    return { source: img, width: img.naturalWidth, height: img.naturalHeight, close: () => URL.revokeObjectURL(url) };
+  } catch {
+    URL.revokeObjectURL(url);
+    throw new Error("That file isn't an image this browser can read.");
+  }
+}
+
+function encode(source: CanvasImageSource, w: number, h: number, max: number, quality: number) {
+  const scale = Math.min(1, max / Math.max(w, h));
+  const cw = Math.max(1, Math.round(w * scale));
+  const ch = Math.max(1, Math.round(h * scale));
+  const canvas = document.createElement("canvas");
+  canvas.width = cw;
+  canvas.height = ch;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas unavailable");
+  ctx.fillStyle = "#fff"; // transparent PNGs -> white, not black
+  ctx.fillRect(0, 0, cw, ch);
+  ctx.drawImage(source, 0, 0, cw, ch);
+  return new Promise<{ blob: Blob; width: number; height: number }>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve({ blob, width: cw, height: ch }) : reject(new Error("Image encoding failed"))),
+      "image/jpeg",
+      quality
+    )
+  );
+}
+
+export async function processPhoto(file: File): Promise<ProcessedPhoto> {
+  if (!file.type.startsWith("image/")) throw new Error(`${file.name || "File"} is not an image.`);
+  if (file.size > MAX_INPUT_BYTES) throw new Error(`${file.name || "Photo"} is too large.`);
+
+  const img = await decode(file);
+  try {
+    const full = await encode(img.source, img.width, img.height, FULL_MAX, 0.8);
+    const thumb = await encode(img.source, img.width, img.height, THUMB_MAX, 0.7);
+    return { full: full.blob, thumb: thumb.blob, width: full.width, height: full.height };
+  } finally {
+    img.close();
+  }
+}
+
+/* =========================
+   DATA
+========================= */
+export async function loadAttachments(
+  supabase: SupabaseClient<Database>,
+  handoffId: string,
+  signal?: AbortSignal
+): Promise<HandoffAttachment[]> {
+  let req = supabase
+    .from("handoff_attachments")
+    .select(ATTACHMENT_COLUMNS)
+    .eq("handoff_id", handoffId)
+    .order("created_at", { ascending: true });
+  if (signal) req = req.abortSignal(signal);
+  const { data, error } = await req;
+  if (error) throw error;
+  return (data ?? []) as HandoffAttachment[];
+}
+
+export async function attachPhoto(
+  supabase: SupabaseClient<Database>,
+  target: { handoffId: string; updateId?: string | null },
+  file: File
+): Promise<HandoffAttachment> {
+  const photo = await processPhoto(file);
+  const store = defaultPhotoStore(supabase);
+  const id = newClientId();
+  const path = `${target.handoffId}/${id}.jpg`;
+  const thumbPath = `${target.handoffId}/${id}_thumb.jpg`;
+
+  await store.upload(path, photo.full);
+  await store.upload(thumbPath, photo.thumb);
+
+  const { data, error } = await supabase
+    .from("handoff_attachments")
+    .insert({
+      id,
+      handoff_id: target.handoffId,
+      update_id: target.updateId ?? null,
+      store: store.kind,
+      path,
+      thumb_path: thumbPath,
+      content_type: "image/jpeg",
+      width: photo.width,
+      height: photo.height,
+      bytes: photo.full.size,
+    })
+    .select(ATTACHMENT_COLUMNS)
+    .single();
+  if (error) {
+    await store.remove([path, thumbPath]).catch(() => {});
+    throw error;
+  }
+  return data as HandoffAttachment;
+}
+
+export async function deleteAttachment(supabase: SupabaseClient<Database>, a: HandoffAttachment) {
+  const { error } = await supabase.from("handoff_attachments").delete().eq("id", a.id);
+  if (error) throw error;
+  await photoStoreFor(supabase, a.store).remove([a.path, a.thumb_path]);
+}
+
+// Displayable URLs for rows not already resolved (signed URLs expire; refetch per open)
+export async function resolvePhotoUrls(
+  supabase: SupabaseClient<Database>,
+  rows: HandoffAttachment[],
+  known: PhotoUrls = {}
+): Promise<PhotoUrls> {
+  const missing = rows.filter((a) => !known[a.id]);
+  if (missing.length === 0) return known;
+
+  const out: PhotoUrls = { ...known };
+  for (const kind of ["supabase", "local"] as const) {
+    const group = missing.filter((a) => a.store === kind);
+    if (group.length === 0) continue;
+    const urls = await photoStoreFor(supabase, kind).urls(group.flatMap((a) => [a.thumb_path, a.path]));
+    for (const a of group) {
+      if (urls[a.path]) out[a.id] = { thumb: urls[a.thumb_path] ?? urls[a.path], full: urls[a.path] };
+    }
+  }
+  return out;
+}
+
+// update id (or "" for the handoff itself) -> its photos
+export function groupAttachments(rows: HandoffAttachment[]) {
+  const out = new Map<string, HandoffAttachment[]>();
+  for (const a of rows) {
+    const key = a.update_id ?? "";
+    out.set(key, [...(out.get(key) ?? []), a]);
+  }
+  return out;
+}
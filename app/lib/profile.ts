@@ -0,0 +1,69 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+import type { Profile } from "./types";
+
+/* =========================================================
+   USER PROFILE
+   - Row is created by the auth.users trigger on first sign-in;
+     ensureProfile covers users created before the migration ran
+   - display_name is the snapshot written on updates / acks
+========================================================= */
+
+export const PROFILE_COLUMNS =
+  "user_id, display_name, role_title, badge_id, default_facility_id, default_unit, preferred_shift";
+
+// Mirrors public.profile_name_from_email
+export function nameFromEmail(email: string | null | undefined) {
+  const local = (email ?? "").split("@")[0].trim();
+  return local.length > 0 ? local : "New user";
+}
+
+export function profileSnapshot(profile: Profile | null, fallbackEmail?: string | null) {
+  const name = profile?.display_name.trim() ?? "";
+  return name.length > 0 ? name : nameFromEmail(fallbackEmail);
+}
+
+export async function ensureProfile(
+  supabase: SupabaseClient<Database>,
+  user: { id: string; email?: string | null }
+): Promise<Profile> {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select(PROFILE_COLUMNS)
+    .eq("user_id", user.id)
+    .maybeSingle();
+  if (error) throw error;
+  if (data) return data as Profile;
+
+  const { data: created, error: insErr } = await supabase
+    .from("profiles")
+    .upsert(
+      { user_id: user.id, display_name: nameFromEmail(user.email) },
+      { onConflict: "user_id", ignoreDuplicates: false }
+    )
+    .select(PROFILE_COLUMNS)
+    .single();
+  if (insErr) throw insErr;
+  return created as Profile;
+}
+
+export async function saveProfile(supabase: SupabaseClient<Database>, profile: Profile): Promise<Profile> {
+  const name = profile.display_name.trim();
+  if (!name) throw new Error("Display name is required.");
+
+  const { data, error } = await supabase
+    .from("profiles")
+    .update({
+      display_name: name,
+      role_title: profile.role_title?.trim() || null,
+      badge_id: profile.badge_id?.trim() || null,
+      default_facility_id: profile.default_facility_id || null,
+      default_unit: profile.default_facility_id ? profile.default_unit || null : null,
+      preferred_shift: profile.preferred_shift,
+    })
+    .eq("user_id", profile.user_id)
+    .select(PROFILE_COLUMNS)
+    .single();
+  if (error) throw error;
+  return data as Profile;
+}
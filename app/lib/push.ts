@@ -0,0 +1,178 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+import webpush from "web-push";
+import { defaultPrefs, PREFS_COLUMNS, PushKind, wantsPush } from "./notificationPrefs";
+import type { NotificationEvent, NotificationHook } from "./notify";
+import { handoffPath } from "./routes";
+import type { NotificationPrefs } from "./types";
+
+/* =========================================================
+   WEB PUSH (server)
+   - VAPID keys from env; unset = push disabled (hook not installed)
+   - Recipients: unit members for new Criticals / escalations, the
+     assignee for assignments, mentioned users for @mentions
+   - Each recipient's preferences + quiet hours decide; the actor
+     never gets pushed about their own change
+   - Subscriptions the push service reports gone (404/410) are deleted
+   Payloads carry the handoff title / unit / ref only (no PHI).
+========================================================= */
+
+type Subscription = { id: string; user_id: string; endpoint: string; p256dh: string; auth: string };
+
+export type PushPayload = { title: string; body: string; url: string; tag: string };
+
+export function pushConfigured() {
+  return Boolean(process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY);
+}
+
+let vapidSet = false;
+function ensureVapid() {
+  if (vapidSet) return;
+  webpush.setVapidDetails(
+    process.env.VAPID_SUBJECT || "mailto:admin@example.com",
+    process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY!,
+    process.env.VAPID_PRIVATE_KEY!
+  );
+  vapidSet = true;
+}
+
+/* =========================
+   RECIPIENTS
+========================= */
+// Anyone with a membership covering the handoff's unit (any role)
+export async function unitMemberIds(supabase: SupabaseClient<Database>, facilityId: string, unit: string | null) {
+  let q = supabase
+    .from("memberships")
+    .select("user_id")
+    .or(`facility_id.is.null,facility_id.eq."${facilityId}"`);
+  if (unit) q = q.or(`unit.is.null,unit.eq."${unit}"`);
+  const { data, error } = await q;
+  if (error) throw error;
+  return Array.from(new Set((data ?? []).map((r: any) => r.user_id as string)));
+}
+
+async function recipients(
+  supabase: SupabaseClient<Database>,
+  event: NotificationEvent
+): Promise<{ kind: PushKind; userIds: string[]; critical: boolean }> {
+  const h = event.handoff;
+  switch (event.type) {
+    case "critical_created":
+      return {
+        kind: "critical",
+        userIds: h.facility_id
+          ? (await unitMemberIds(supabase, h.facility_id, h.unit)).filter((id) => id !== h.created_by)
+          : [],
+        critical: true,
+      };
+    case "escalation":
+      return {
+        kind: "escalation",
+        userIds: h.facility_id ? await unitMemberIds(supabase, h.facility_id, h.unit) : [],
+        critical: event.toPriority === "Critical",
+      };
+    case "assigned":
+      return { kind: "assignment", userIds: [event.assigneeUserId], critical: h.priority === "Critical" };
+    case "mention":
+      return {
+        kind: "mention",
+        userIds: event.userIds.filter((id) => id !== event.update.author_user_id),
+        critical: h.priority === "Critical",
+      };
+  }
+}
+
+/* =========================
+   MESSAGE
+========================= */
+export function pushPayload(event: NotificationEvent): PushPayload {
+  const h = event.handoff;
+  const where = [h.unit, h.ref ? `#${h.ref}` : null].filter(Boolean).join(" · ");
+  const url = handoffPath(h.id);
+  switch (event.type) {
+    case "critical_created":
+      return { title: `Critical: ${h.title}`, body: `New handoff · ${where}`, url, tag: `critical-${h.id}` };
+    case "escalation":
+      return {
+        title: `Escalated to ${event.toPriority}: ${h.title}`,
+        body: `${event.reason} · ${where}`,
+        url,
+        tag: `escalation-${h.id}`,
+      };
+    case "assigned":
+      return { title: `Assigned to you: ${h.title}`, body: `${h.priority} · ${where}`, url, tag: `assigned-${h.id}` };
+    case "mention": {
+      const who = event.update.author_display_name_snapshot ?? "Someone";
+      const msg = event.update.message.length > 140 ? `${event.update.message.slice(0, 139)}…` : event.update.message;
+      return { title: `${who} mentioned you: ${h.title}`, body: msg, url, tag: `mention-${event.update.id}` };
+    }
+  }
+}
+
+/* =========================
+   SEND
+========================= */
+async function filterByPrefs(supabase: SupabaseClient<Database>, userIds: string[], kind: PushKind, critical: boolean) {
+  const { data, error } = await supabase.from("notification_prefs").select(PREFS_COLUMNS).in("user_id", userIds);
+  if (error) throw error;
+  const prefs = new Map((data ?? []).map((p: any) => [p.user_id as string, p as NotificationPrefs]));
+  const now = new Date();
+  return userIds.filter((id) => wantsPush(prefs.get(id) ?? defaultPrefs(id), kind, critical, now));
+}
+
+export async function sendPush(
+  supabase: SupabaseClient<Database>,
+  userIds: string[],
+  payload: PushPayload,
+  opts: { urgent?: boolean } = {}
+) {
+  if (userIds.length === 0) return { sent: 0, removed: 0 };
+  ensureVapid();
+
+  const { data, error } = await supabase
+    .from("push_subscriptions")
+    .select("id, user_id, endpoint, p256dh, auth")
+    .in("user_id", userIds);
+  if (error) throw error;
+  const subs = (data ?? []) as Subscription[];
+
+  const body = JSON.stringify(payload);
+  const delivered: string[] = [];
+  const gone: string[] = [];
+  await Promise.all(
+    subs.map(async (s) => {
+      try {
+        await webpush.sendNotification({ endpoint: s.endpoint, keys: { p256dh: s.p256dh, auth: s.auth } }, body, {
+          TTL: 60 * 60,
+          urgency: opts.urgent ? "high" : "normal",
+        });
+        delivered.push(s.id);
+      } catch (e: any) {
+        if (e?.statusCode === 404 || e?.statusCode === 410) gone.push(s.id);
+        else console.error("[push] send failed:", e?.statusCode ?? "", e?.body ?? e?.message ?? e);
+      }
+    })
+  );
+
+  if (gone.length > 0) {
+    const { error: delErr } = await supabase.from("push_subscriptions").delete().in("id", gone);
+    if (delErr) throw delErr;
+  }
+  if (delivered.length > 0) {
+    const { error: updErr } = await supabase
+      .from("push_subscriptions")
+      .update({ last_sent_at: new Date().toISOString() })
+      .in("id", delivered);
+    if (updErr) throw updErr;
+  }
+  return { sent: delivered.length, removed: gone.length };
+}
+
+export function pushNotifier(supabase: SupabaseClient<Database>): NotificationHook {
+  return async (event) => {
+    const { kind, userIds, critical } = await recipients(supabase, event);
+    if (userIds.length === 0) return;
+    const wanted = await filterByPrefs(supabase, userIds, kind, critical);
+    await sendPush(supabase, wanted, pushPayload(event), { urgent: critical });
+  };
+}
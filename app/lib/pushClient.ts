@@ -0,0 +1,95 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+
+/* =========================================================
+   WEB PUSH (browser)
+   - Service worker lives at /sw.js (push + notification click + app shell)
+   - One push_subscriptions row per device endpoint; signing out removes
+     this device's row so the next user doesn't get the last user's alerts
+========================================================= */
+
+export type PushState = "unsupported" | "unconfigured" | "denied" | "off" | "on";
+
+export const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY ?? "";
+
+export function pushSupported() {
+  return (
+    typeof window !== "undefined" &&
+    "serviceWorker" in navigator &&
+    "PushManager" in window &&
+    "Notification" in window
+  );
+}
+
+export async function registerServiceWorker() {
+  if (typeof window === "undefined" || !("serviceWorker" in navigator)) return null;
+  return navigator.serviceWorker.register("/sw.js");
+}
+
+async function currentSubscription() {
+  const reg = await navigator.serviceWorker.getRegistration();
+  return reg ? reg.pushManager.getSubscription() : null;
+}
+
+export async function pushState(): Promise<PushState> {
+  if (!pushSupported()) return "unsupported";
+  if (!VAPID_PUBLIC_KEY) return "unconfigured";
+  if (Notification.permission === "denied") return "denied";
+  return (await currentSubscription()) ? "on" : "off";
+}
+
+function urlBase64ToUint8Array(base64: string) {
+  const padded = (base64 + "=".repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  const raw = atob(padded);
+  return Uint8Array.from(raw, (c) => c.charCodeAt(0));
+}
+
+// Must run from a click (permission prompt)
+export async function enablePush(supabase: SupabaseClient<Database>) {
+  if (!pushSupported()) throw new Error("This browser doesn't support push notifications.");
+  if (!VAPID_PUBLIC_KEY) throw new Error("Push notifications aren't configured on this server.");
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") throw new Error("Notifications are blocked for this site.");
+
+  const reg = (await navigator.serviceWorker.getRegistration()) ?? (await registerServiceWorker());
+  if (!reg) throw new Error("Service worker failed to register.");
+  await navigator.serviceWorker.ready;
+
+  const subscribe = () =>
+    reg.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY),
+    });
+  const save = (sub: PushSubscription) => {
+    const json = sub.toJSON();
+    return supabase.from("push_subscriptions").upsert(
+      {
+        endpoint: sub.endpoint,
+        p256dh: json.keys?.p256dh,
+        auth: json.keys?.auth,
+        user_agent: navigator.userAgent.slice(0, 300),
+      },
+      { onConflict: "endpoint" }
+    );
+  };
+
+  const existing = await reg.pushManager.getSubscription();
+  let { error } = await save(existing ?? (await subscribe()));
+  if (error && existing) {
+    // Endpoint still registered to another user on this device (RLS blocks the
+    // upsert): drop it and start over with a fresh endpoint
+    await existing.unsubscribe();
+    ({ error } = await save(await subscribe()));
+  }
+  if (error) throw error;
+}
+
+export async function disablePush(supabase: SupabaseClient<Database>) {
+  if (!pushSupported()) return;
+  const sub = await currentSubscription();
+  if (!sub) return;
+  const { error } = await supabase.from("push_subscriptions").delete().eq("endpoint", sub.endpoint);
+  await sub.unsubscribe();
+  if (error) throw error;
+}
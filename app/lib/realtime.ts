@@ -0,0 +1,112 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+
+/* =========================================================
+   REALTIME (PLUGGABLE CHANNEL)
+   - Page code talks to a RealtimeSource, not to Supabase directly
+   - Supabase Realtime postgres_changes is the default source
+   - Row changes are merged into local lists by id
+========================================================= */
+
+export type RealtimeStatus = "connecting" | "live" | "reconnecting" | "offline";
+
+export type RowChangeType = "INSERT" | "UPDATE" | "DELETE";
+
+export type RowChange<T> = {
+  type: RowChangeType;
+  row: T | null; // new row (null on DELETE)
+  old: Partial<T> | null; // old row (needs REPLICA IDENTITY FULL for more than the PK)
+};
+
+export type TableSubscription = {
+  table: string;
+  // Single-column equality filter, e.g. { column: "facility_id", value: "PHC" }
+  eq?: { column: string; value: string };
+};
+
+export type RealtimeSource = {
+  subscribe<T>(
+    spec: TableSubscription,
+    onChange: (change: RowChange<T>) => void,
+    onStatus?: (status: RealtimeStatus) => void
+  ): () => void;
+};
+
+let channelSeq = 0;
+
+export function supabaseRealtimeSource(supabase: SupabaseClient<Database>): RealtimeSource {
+  return {
+    subscribe<T>(
+      spec: TableSubscription,
+      onChange: (change: RowChange<T>) => void,
+      onStatus?: (status: RealtimeStatus) => void
+    ) {
+      const filter = spec.eq ? `${spec.eq.column}=eq.${spec.eq.value}` : undefined;
+      // Unique topic per subscription so two views on the same table don't collide
+      const topic = `cs:${spec.table}:${filter ?? "all"}:${++channelSeq}`;
+
+      let everLive = false;
+      onStatus?.("connecting");
+
+      const channel = supabase
+        .channel(topic)
+        .on(
+          "postgres_changes" as any,
+          { event: "*", schema: "public", table: spec.table, filter },
+          (payload: any) => {
+            const type = payload?.eventType as RowChangeType;
+            const row = type === "DELETE" ? null : ((payload?.new ?? null) as T | null);
+            const old = (payload?.old ?? null) as Partial<T> | null;
+            onChange({ type, row, old });
+          }
+        )
+        .subscribe((status) => {
+          if (status === "SUBSCRIBED") {
+            everLive = true;
+            onStatus?.("live");
+          } else if (status === "CLOSED") {
+            onStatus?.("offline");
+          } else {
+            // TIMED_OUT / CHANNEL_ERROR: realtime-js keeps retrying on its own
+            onStatus?.(everLive ? "reconnecting" : "offline");
+          }
+        });
+
+      return () => {
+        supabase.removeChannel(channel);
+      };
+    },
+  };
+}
+
+/* =========================
+   MERGE HELPERS
+========================= */
+
+// Applies a row change to a list keyed by id.
+// `keep` decides whether an inserted/updated row belongs in this list at all
+// (e.g. handoffs filtered to one unit); rows that stop matching are dropped.
+export function mergeRowChange<T extends { id: string | number }>(
+  list: T[],
+  change: RowChange<T>,
+  keep: (row: T) => boolean = () => true
+): T[] {
+  if (change.type === "DELETE") {
+    const id = change.old?.id;
+    if (!id) return list;
+    return list.some((r) => r.id === id) ? list.filter((r) => r.id !== id) : list;
+  }
+
+  const row = change.row;
+  if (!row) return list;
+
+  const idx = list.findIndex((r) => r.id === row.id);
+  if (!keep(row)) {
+    return idx === -1 ? list : list.filter((r) => r.id !== row.id);
+  }
+  if (idx === -1) return [...list, row];
+
+  const next = [...list];
+  next[idx] = row;
+  return next;
+}
@@ -0,0 +1,190 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+import { insertHandoff } from "./handoffRepo";
+import type { HandoffTemplate, Shift } from "./types";
+
+/* =========================================================
+   RECURRING TEMPLATES JOB (server-side; see app/api/jobs/recurring)
+   Each run looks at the shift that is on *now* in each facility's time zone
+   and creates the handoffs its templates call for:
+     shift   every shift
+     daily   when it's the template's shift
+     weekly  when it's the template's shift on one of its weekdays
+   A slot is claimed in handoff_template_runs before the insert, so running
+   more often than once a shift (or twice at once) never duplicates. A run
+   that starts late in a shift still catches up; a missed shift is skipped.
+========================================================= */
+
+// Local start hour of each shift; NOC runs past midnight and belongs to the day it started
+export const SHIFT_START_HOUR: Record<Shift, number> = { AM: 7, PM: 15, NOC: 23 };
+
+export type ShiftSlot = {
+  date: string; // YYYY-MM-DD (facility-local day the shift started)
+  shift: Shift;
+  weekday: number; // of `date`, 0 = Sunday
+};
+
+export type RecurringResult = {
+  template_id: string;
+  shift_date: string;
+  shift: Shift;
+  handoff_id?: string;
+  error?: string;
+};
+
+// Facilities without a time_zone use SHIFT_TIME_ZONE (IANA name), else UTC
+export function shiftTimeZone() {
+  return process.env.SHIFT_TIME_ZONE || "UTC";
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function localParts(now: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    hourCycle: "h23",
+    weekday: "short",
+  }).formatToParts(new Date(now));
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    hour: parseInt(get("hour"), 10),
+    weekday: WEEKDAYS.indexOf(get("weekday")),
+  };
+}
+
+// supabase-js returns errors as plain { message } objects, not Error instances
+function errorMessage(e: unknown, fallback: string) {
+  if (e instanceof Error) return e.message;
+  if (e && typeof e === "object" && typeof (e as { message?: unknown }).message === "string") {
+    return (e as { message: string }).message;
+  }
+  return fallback;
+}
+
+// Throws RangeError for an unknown time zone
+export function shiftSlot(now: number, timeZone: string): ShiftSlot {
+  const { date, hour, weekday } = localParts(now, timeZone);
+  if (hour >= SHIFT_START_HOUR.NOC) return { date, shift: "NOC", weekday };
+  if (hour >= SHIFT_START_HOUR.PM) return { date, shift: "PM", weekday };
+  if (hour >= SHIFT_START_HOUR.AM) return { date, shift: "AM", weekday };
+  // Small hours: still last night's NOC
+  const prev = new Date(Date.parse(`${date}T00:00:00Z`) - 86_400_000).toISOString().slice(0, 10);
+  return { date: prev, shift: "NOC", weekday: (weekday + 6) % 7 };
+}
+
+export function isDue(t: Pick<HandoffTemplate, "recurrence" | "shift" | "weekdays">, slot: ShiftSlot) {
+  switch (t.recurrence) {
+    case "shift":
+      return true;
+    case "daily":
+      return t.shift === slot.shift;
+    case "weekly":
+      return t.shift === slot.shift && t.weekdays.includes(slot.weekday);
+    default:
+      return false;
+  }
+}
+
+export async function runRecurringTemplates(
+  supabase: SupabaseClient<Database>,
+  opts: { now?: number; timeZone: string }
+): Promise<RecurringResult[]> {
+  const now = opts.now ?? Date.now();
+  const fallbackZone = opts.timeZone;
+
+  const [tplRes, facRes, unitRes] = await Promise.all([
+    supabase
+      .from("handoff_templates")
+      .select("id, facility_id, unit, title, priority, needs_followup, recurrence, shift, weekdays, active")
+      .eq("active", true)
+      .neq("recurrence", "none"),
+    supabase.from("facilities").select("id, active, time_zone"),
+    supabase.from("units").select("facility_id, code, active"),
+  ]);
+  if (tplRes.error) throw tplRes.error;
+  if (facRes.error) throw facRes.error;
+  if (unitRes.error) throw unitRes.error;
+
+  const facilities = new Map(
+    ((facRes.data ?? []) as { id: string; active: boolean; time_zone: string | null }[]).map((f) => [f.id, f])
+  );
+  const activeUnits = new Set(
+    ((unitRes.data ?? []) as { facility_id: string; code: string; active: boolean }[])
+      .filter((u) => u.active)
+      .map((u) => `${u.facility_id}/${u.code}`)
+  );
+
+  const results: RecurringResult[] = [];
+
+  for (const t of (tplRes.data ?? []) as HandoffTemplate[]) {
+    const facility = facilities.get(t.facility_id);
+    if (!facility?.active || !activeUnits.has(`${t.facility_id}/${t.unit}`)) continue;
+
+    let slot: ShiftSlot;
+    try {
+      slot = shiftSlot(now, facility.time_zone || fallbackZone);
+    } catch {
+      slot = shiftSlot(now, fallbackZone); // bad time_zone value: better a shifted clock than none
+    }
+    if (!isDue(t, slot)) continue;
+
+    const result: RecurringResult = { template_id: t.id, shift_date: slot.date, shift: slot.shift };
+
+    const { data: claimed, error: claimErr } = await supabase
+      .from("handoff_template_runs")
+      .upsert(
+        { template_id: t.id, shift_date: slot.date, shift: slot.shift },
+        { onConflict: "template_id,shift_date,shift", ignoreDuplicates: true }
+      )
+      .select("template_id");
+    if (claimErr) throw claimErr;
+    if (!claimed || claimed.length === 0) continue; // already created this shift
+
+    const id = crypto.randomUUID();
+    let handoffId: string;
+    try {
+      // null = a row with this id already exists, i.e. it's ours
+      const created = await insertHandoff(supabase, {
+        id,
+        facility_id: t.facility_id,
+        unit: t.unit,
+        title: t.title,
+        priority: t.priority,
+        status: t.needs_followup ? "needs_followup" : "open",
+        shift: slot.shift,
+        source: "template",
+        created_by: null,
+      });
+      handoffId = created?.id ?? id;
+    } catch (e) {
+      // Give the slot back so the next run retries (e.g. a PHI pattern added since the template was saved)
+      const { error: releaseErr } = await supabase
+        .from("handoff_template_runs")
+        .delete()
+        .eq("template_id", t.id)
+        .eq("shift_date", slot.date)
+        .eq("shift", slot.shift);
+      const reason = errorMessage(e, "Insert failed");
+      // Not released = still claimed, so no later run retries this slot; say so
+      results.push({ ...result, error: releaseErr ? `${reason} (slot still claimed: ${releaseErr.message})` : reason });
+      continue;
+    }
+
+    const { error: linkErr } = await supabase
+      .from("handoff_template_runs")
+      .update({ handoff_id: handoffId })
+      .eq("template_id", t.id)
+      .eq("shift_date", slot.date)
+      .eq("shift", slot.shift);
+    if (linkErr) throw linkErr;
+
+    results.push({ ...result, handoff_id: handoffId });
+  }
+
+  return results;
+}
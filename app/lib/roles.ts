@@ -0,0 +1,141 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+import { canTransition, isClosed } from "./lifecycle";
+import type { Handoff, HandoffAttachment, HandoffStatus } from "./types";
+
+/* =========================================================
+   ROLES (UI mirror of the RLS policies / triggers)
+   - Postgres is the source of truth; these checks only hide or
+     disable controls the server would reject anyway
+   - Scope: facility_id null = every facility; unit null = every unit
+========================================================= */
+
+export type Role = "tech" | "shift_lead" | "supervisor" | "admin";
+
+export const roleRank: Record<Role, number> = {
+  tech: 1,
+  shift_lead: 2,
+  supervisor: 3,
+  admin: 4,
+};
+
+export const roleLabel: Record<Role, string> = {
+  tech: "Tech",
+  shift_lead: "Shift lead",
+  supervisor: "Supervisor",
+  admin: "Admin",
+};
+
+export type Membership = {
+  id: string;
+  user_id: string;
+  facility_id: string | null;
+  unit: string | null;
+  role: Role;
+};
+
+export type MemberRow = Membership & { email: string };
+
+// Highest role that applies to a facility/unit. unit null = facility-wide question, which
+// only facility-wide memberships answer (has_role: a unit admin is not a facility admin)
+export function roleIn(
+  memberships: Membership[],
+  facilityId: string | null,
+  unit: string | null
+): Role | null {
+  let best: Role | null = null;
+  for (const m of memberships) {
+    if (m.facility_id !== null && m.facility_id !== facilityId) continue;
+    if (m.unit !== null && m.unit !== unit) continue;
+    if (!best || roleRank[m.role] > roleRank[best]) best = m.role;
+  }
+  return best;
+}
+
+export function atLeast(role: Role | null, min: Role) {
+  return role !== null && roleRank[role] >= roleRank[min];
+}
+
+/* =========================
+   RULES (keep in sync with handoffs_enforce_roles)
+========================= */
+export function canResolve(memberships: Membership[], h: Handoff) {
+  return canSetStatus(memberships, h, "resolved");
+}
+
+export function canReopen(memberships: Membership[], h: Handoff) {
+  return atLeast(roleIn(memberships, h.facility_id, h.unit), "shift_lead");
+}
+
+// Lifecycle rule + role rule: closing a Critical or reopening anything needs a lead
+export function canSetStatus(memberships: Membership[], h: Handoff, to: HandoffStatus) {
+  if (!canTransition(h.status, to)) return false;
+  const role = roleIn(memberships, h.facility_id, h.unit);
+  if (isClosed(h.status)) return atLeast(role, "shift_lead");
+  if (isClosed(to) && h.priority === "Critical") return atLeast(role, "shift_lead");
+  return atLeast(role, "tech");
+}
+
+export function canDowngradeCritical(memberships: Membership[], h: Handoff) {
+  return atLeast(roleIn(memberships, h.facility_id, h.unit), "shift_lead");
+}
+
+export function canDelete(memberships: Membership[], h: Handoff, userId: string | null) {
+  return (!!userId && h.created_by === userId) || atLeast(roleIn(memberships, h.facility_id, h.unit), "shift_lead");
+}
+
+// Uploader, or a supervisor in the handoff's unit (handoff_attachments_delete)
+export function canDeletePhoto(memberships: Membership[], h: Handoff, a: HandoffAttachment, userId: string | null) {
+  return (!!userId && a.created_by === userId) || atLeast(roleIn(memberships, h.facility_id, h.unit), "supervisor");
+}
+
+export function canLeadShift(memberships: Membership[], facilityId: string, unit: string) {
+  return atLeast(roleIn(memberships, facilityId, unit), "shift_lead");
+}
+
+export function canManageFacility(memberships: Membership[], facilityId: string) {
+  return atLeast(roleIn(memberships, facilityId, null), "admin");
+}
+
+export function isOrgAdmin(memberships: Membership[]) {
+  return memberships.some((m) => m.facility_id === null && m.role === "admin");
+}
+
+/* =========================
+   DATA
+========================= */
+export async function loadMyMemberships(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): Promise<Membership[]> {
+  const { data, error } = await supabase
+    .from("memberships")
+    .select("id, user_id, facility_id, unit, role")
+    .eq("user_id", userId);
+  if (error) throw error;
+  return (data ?? []) as Membership[];
+}
+
+export async function listMembers(supabase: SupabaseClient<Database>, facilityId: string): Promise<MemberRow[]> {
+  const { data, error } = await supabase.rpc("list_members", { p_facility: facilityId });
+  if (error) throw error;
+  return (data ?? []) as MemberRow[];
+}
+
+export async function grantRole(
+  supabase: SupabaseClient<Database>,
+  args: { email: string; facilityId: string; unit: string | null; role: Role }
+) {
+  const { error } = await supabase.rpc("grant_role", {
+    p_email: args.email,
+    p_facility: args.facilityId,
+    p_unit: args.unit,
+    p_role: args.role,
+  });
+  if (error) throw error;
+}
+
+export async function revokeMembership(supabase: SupabaseClient<Database>, id: string) {
+  const { error } = await supabase.from("memberships").delete().eq("id", id);
+  if (error) throw error;
+}
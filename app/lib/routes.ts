@@ -0,0 +1,100 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+import { ALL_UNITS } from "./directory";
+
+/* =========================================================
+   ROUTES (deep links)
+   - /f/<facility>            facility overview (all units)
+   - /f/<facility>/u/<unit>   one unit's board
+   - /h/<id>                  one handoff, drawer open
+   - /                        last context on this device
+   - Filter params ride along in the query (lib/filters); ?h=<id> from older
+     QR labels / notifications still opens the handoff
+   - Whether a route exists vs. is hidden by RLS comes from route_access()
+========================================================= */
+
+export type BoardRoute =
+  | { kind: "home" }
+  | { kind: "unit"; facilityId: string; unit: string } // unit = ALL_UNITS for the overview
+  | { kind: "handoff"; id: string };
+
+export type RouteAccess = "ok" | "not_found" | "forbidden";
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isHandoffId(id: string) {
+  return UUID_RE.test(id);
+}
+
+export function unitPath(facilityId: string, unit: string) {
+  const f = `/f/${encodeURIComponent(facilityId)}`;
+  return unit === ALL_UNITS ? f : `${f}/u/${encodeURIComponent(unit)}`;
+}
+
+export function handoffPath(id: string) {
+  return `/h/${encodeURIComponent(id)}`;
+}
+
+function decode(part: string) {
+  try {
+    return decodeURIComponent(part);
+  } catch {
+    return null;
+  }
+}
+
+// null = not a board route (or malformed)
+export function parseRoute(pathname: string, search = ""): BoardRoute | null {
+  const parts = pathname.split("/").filter(Boolean).map(decode);
+  if (parts.some((p) => p === null || p === "")) return null;
+
+  if (parts.length === 0) {
+    const legacy = new URLSearchParams(search).get("h");
+    return legacy && isHandoffId(legacy) ? { kind: "handoff", id: legacy } : { kind: "home" };
+  }
+  if (parts[0] === "h" && parts.length === 2) {
+    return isHandoffId(parts[1]!) ? { kind: "handoff", id: parts[1]! } : null;
+  }
+  if (parts[0] === "f" && parts.length === 2) {
+    return { kind: "unit", facilityId: parts[1]!, unit: ALL_UNITS };
+  }
+  if (parts[0] === "f" && parts[2] === "u" && parts.length === 4) {
+    return { kind: "unit", facilityId: parts[1]!, unit: parts[3]! };
+  }
+  return null;
+}
+
+export function routePath(route: BoardRoute) {
+  if (route.kind === "handoff") return handoffPath(route.id);
+  if (route.kind === "unit") return unitPath(route.facilityId, route.unit);
+  return "/";
+}
+
+// Where the magic link lands: the page the user asked for (minus any old ?h=, which
+// the path now carries). Supabase only honours it if it matches an allowed redirect URL.
+export function authRedirectUrl(loc: { origin: string; pathname: string; search: string }) {
+  const route = parseRoute(loc.pathname, loc.search);
+  const params = new URLSearchParams(loc.search);
+  params.delete("h");
+  const qs = params.toString();
+  return loc.origin + (route ? routePath(route) : "/") + (qs ? `?${qs}` : "");
+}
+
+// RLS hides a handoff / unit the same way whether it's missing or off-limits;
+// this security-definer RPC tells the two apart (no row data comes back).
+export async function checkRouteAccess(
+  supabase: SupabaseClient<Database>,
+  route: BoardRoute,
+  signal?: AbortSignal
+): Promise<RouteAccess> {
+  if (route.kind === "home") return "ok";
+  const params =
+    route.kind === "handoff"
+      ? { p_facility: null, p_unit: null, p_handoff: route.id }
+      : { p_facility: route.facilityId, p_unit: route.unit === ALL_UNITS ? null : route.unit, p_handoff: null };
+  let q = supabase.rpc("route_access", params);
+  if (signal) q = q.abortSignal(signal);
+  const { data, error } = await q;
+  if (error) throw error;
+  return data === "ok" || data === "forbidden" ? data : "not_found";
+}
@@ -0,0 +1,173 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+import { parseHandoffs, selectHandoffs } from "./handoffRepo";
+import { ACTIVE_STATUSES } from "./lifecycle";
+import type {
+  Handoff,
+  Priority,
+  Shift,
+  ShiftReport,
+  ShiftReportAck,
+  ShiftReportItem,
+} from "./types";
+
+/* =========================================================
+   SHIFT-CHANGE REPORTS
+   - Outgoing lead: compile unresolved handoffs -> notes -> submit
+   - Incoming lead: acknowledge each Critical/High item -> accept
+   - Ack -> 'system' handoff_update is written by a DB trigger
+   - Accept is an RPC so the "all acked" rule holds server-side too
+========================================================= */
+
+export const shiftOrder: Shift[] = ["AM", "PM", "NOC"];
+
+export function nextShift(shift: Shift): Shift {
+  return shiftOrder[(shiftOrder.indexOf(shift) + 1) % shiftOrder.length];
+}
+
+export function requiresAck(priority: Priority) {
+  return priority === "Critical" || priority === "High";
+}
+
+export type OpenShiftReport = {
+  report: ShiftReport;
+  items: ShiftReportItem[];
+  acks: ShiftReportAck[];
+};
+
+export function missingAcks({ items, acks }: OpenShiftReport) {
+  return items.filter(
+    (i) => requiresAck(i.priority) && !acks.some((a) => a.handoff_id === i.handoff_id)
+  );
+}
+
+// Every active (not closed, not deleted) handoff for the context
+export async function compileShiftReport(
+  supabase: SupabaseClient<Database>,
+  facilityId: string,
+  unit: string
+): Promise<Handoff[]> {
+  const { data, error } = await selectHandoffs(supabase)
+    .eq("facility_id", facilityId)
+    .eq("unit", unit)
+    .in("status", ACTIVE_STATUSES)
+    .is("deleted_at", null)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return parseHandoffs(data);
+}
+
+export async function submitShiftReport(
+  supabase: SupabaseClient<Database>,
+  args: {
+    facilityId: string;
+    unit: string;
+    outgoingShift: Shift;
+    incomingShift: Shift;
+    notes: string;
+    leadUserId: string;
+    leadDisplayName: string;
+    handoffs: Handoff[];
+  }
+): Promise<ShiftReport> {
+  const { data, error } = await supabase
+    .from("shift_reports")
+    .insert({
+      facility_id: args.facilityId,
+      unit: args.unit,
+      outgoing_shift: args.outgoingShift,
+      incoming_shift: args.incomingShift,
+      outgoing_notes: args.notes.trim() || null,
+      outgoing_lead_user_id: args.leadUserId,
+      outgoing_lead_display_name_snapshot: args.leadDisplayName,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+
+  const report = data as ShiftReport;
+
+  if (args.handoffs.length > 0) {
+    const items = args.handoffs.map((h) => ({
+      report_id: report.id,
+      handoff_id: h.id,
+      title: h.title,
+      priority: h.priority,
+      status: h.status,
+    }));
+    const { error: itemsErr } = await supabase.from("shift_report_items").insert(items);
+    if (itemsErr) {
+      // Don't leave an empty report behind
+      await supabase.from("shift_reports").delete().eq("id", report.id);
+      throw itemsErr;
+    }
+  }
+
+  return report;
+}
+
+// Latest report for the context that is still waiting for the incoming lead
+export async function loadOpenShiftReport(
+  supabase: SupabaseClient<Database>,
+  facilityId: string,
+  unit: string
+): Promise<OpenShiftReport | null> {
+  const { data, error } = await supabase
+    .from("shift_reports")
+    .select("*")
+    .eq("facility_id", facilityId)
+    .eq("unit", unit)
+    .eq("status", "submitted")
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+
+  const report = data as ShiftReport;
+
+  const [itemsRes, acksRes] = await Promise.all([
+    supabase.from("shift_report_items").select("*").eq("report_id", report.id),
+    supabase.from("shift_report_acknowledgements").select("*").eq("report_id", report.id),
+  ]);
+  if (itemsRes.error) throw itemsRes.error;
+  if (acksRes.error) throw acksRes.error;
+
+  return {
+    report,
+    items: (itemsRes.data ?? []) as ShiftReportItem[],
+    acks: (acksRes.data ?? []) as ShiftReportAck[],
+  };
+}
+
+export async function acknowledgeItem(
+  supabase: SupabaseClient<Database>,
+  args: { reportId: string; handoffId: string; userId: string; displayName: string }
+): Promise<ShiftReportAck> {
+  const { data, error } = await supabase
+    .from("shift_report_acknowledgements")
+    .insert({
+      report_id: args.reportId,
+      handoff_id: args.handoffId,
+      acknowledged_by: args.userId,
+      acknowledged_by_display_name_snapshot: args.displayName,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+  return data as ShiftReportAck;
+}
+
+export async function acceptShiftReport(
+  supabase: SupabaseClient<Database>,
+  reportId: string,
+  displayName: string
+): Promise<ShiftReport> {
+  const { data, error } = await supabase.rpc("accept_shift_report", {
+    p_report_id: reportId,
+    p_display_name: displayName,
+  });
+  if (error) throw error;
+  return data as ShiftReport;
+}
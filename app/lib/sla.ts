@@ -0,0 +1,133 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+import { isClosed } from "./lifecycle";
+import type { Handoff, Priority } from "./types";
+
+/* =========================================================
+   SLA (shared by the UI chips and the escalation job; pure apart
+   from loading sla_targets)
+   - Per-priority targets: time-to-first-update + time-to-resolve
+   - Clock starts at created_at, restarts at escalated_at
+   - Defaults below; rows in sla_targets override (facility row > global row)
+========================================================= */
+
+export type SlaTarget = {
+  firstUpdateMins: number | null; // null = no target
+  resolveMins: number | null;
+};
+
+export type SlaConfig = Record<Priority, SlaTarget>;
+
+export type SlaTargetRow = {
+  facility_id: string | null; // null = all facilities
+  priority: Priority;
+  first_update_minutes: number | null;
+  resolve_minutes: number | null;
+};
+
+export const DEFAULT_SLA: SlaConfig = {
+  Critical: { firstUpdateMins: 15, resolveMins: 120 },
+  High: { firstUpdateMins: 60, resolveMins: 480 },
+  Normal: { firstUpdateMins: null, resolveMins: null },
+  Low: { firstUpdateMins: null, resolveMins: null },
+};
+
+export async function loadSlaTargets(supabase: SupabaseClient<Database>): Promise<SlaTargetRow[]> {
+  const { data, error } = await supabase
+    .from("sla_targets")
+    .select("facility_id, priority, first_update_minutes, resolve_minutes");
+  if (error) throw error;
+  return (data ?? []) as SlaTargetRow[];
+}
+
+export function resolveSlaConfig(rows: SlaTargetRow[], facilityId: string | null): SlaConfig {
+  const config: SlaConfig = { ...DEFAULT_SLA };
+  // Global rows first, then facility rows win
+  const ordered = [
+    ...rows.filter((r) => r.facility_id === null),
+    ...rows.filter((r) => r.facility_id !== null && r.facility_id === facilityId),
+  ];
+  for (const r of ordered) {
+    config[r.priority] = {
+      firstUpdateMins: r.first_update_minutes,
+      resolveMins: r.resolve_minutes,
+    };
+  }
+  return config;
+}
+
+export type SlaKind = "first_update" | "resolve";
+
+export type SlaState = {
+  kind: SlaKind; // the most urgent outstanding target
+  dueAt: number; // epoch ms
+  remainingMs: number; // negative = overdue
+  overdue: boolean;
+  targetMins: number;
+};
+
+export function slaClockStart(h: Pick<Handoff, "created_at" | "escalated_at">) {
+  const t = Date.parse(h.escalated_at || h.created_at || "");
+  return isNaN(t) ? null : t;
+}
+
+export function evaluateSla(
+  h: Pick<Handoff, "priority" | "status" | "created_at" | "escalated_at" | "first_update_at">,
+  config: SlaConfig,
+  now: number
+): SlaState | null {
+  if (isClosed(h.status)) return null;
+
+  const start = slaClockStart(h);
+  if (start === null) return null;
+
+  const target = config[h.priority];
+  const candidates: SlaState[] = [];
+
+  if (target.firstUpdateMins !== null && !h.first_update_at) {
+    const dueAt = start + target.firstUpdateMins * 60_000;
+    candidates.push({
+      kind: "first_update",
+      dueAt,
+      remainingMs: dueAt - now,
+      overdue: now > dueAt,
+      targetMins: target.firstUpdateMins,
+    });
+  }
+  if (target.resolveMins !== null) {
+    const dueAt = start + target.resolveMins * 60_000;
+    candidates.push({
+      kind: "resolve",
+      dueAt,
+      remainingMs: dueAt - now,
+      overdue: now > dueAt,
+      targetMins: target.resolveMins,
+    });
+  }
+
+  if (candidates.length === 0) return null;
+  return candidates.reduce((a, b) => (b.dueAt < a.dueAt ? b : a));
+}
+
+const escalationLadder: Priority[] = ["Low", "Normal", "High", "Critical"];
+
+// Critical stays Critical (it is re-flagged, not bumped)
+export function escalatedPriority(p: Priority): Priority {
+  const i = escalationLadder.indexOf(p);
+  return escalationLadder[Math.min(i + 1, escalationLadder.length - 1)];
+}
+
+export function fmtDuration(ms: number) {
+  const mins = Math.max(0, Math.round(Math.abs(ms) / 60_000));
+  if (mins < 60) return `${mins}m`;
+  const h = Math.floor(mins / 60);
+  const m = mins % 60;
+  return m ? `${h}h ${m}m` : `${h}h`;
+}
+
+export function slaLabel(state: SlaState) {
+  const what = state.kind === "first_update" ? "1st update" : "Resolve";
+  return state.overdue
+    ? `${what} overdue ${fmtDuration(state.remainingMs)}`
+    : `${what} in ${fmtDuration(state.remainingMs)}`;
+}
@@ -0,0 +1,280 @@
+import crypto from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+import { insertHandoffUpdate, parseHandoff, selectHandoffs } from "./handoffRepo";
+import { isClosed, STATUS_LABEL } from "./lifecycle";
+import type { NotificationHook } from "./notify";
+import { isPhiError } from "./phi";
+import type { Handoff } from "./types";
+
+/* =========================================================
+   SMS (server-only)
+   - SmsSender: provider boundary (Twilio REST or local fake)
+   - Inbound: "#1234 restocked 2 cases" -> handoff_updates (source: sms);
+     PHI is refused by the DB trigger, logged redacted, and the sender told why
+   - Outbound: Critical alerts to on-call sms_contacts
+========================================================= */
+
+export type SmsSender = {
+  send(to: string, body: string): Promise<{ id: string }>;
+};
+
+export type SmsContact = {
+  id: string;
+  phone: string;
+  display_name: string;
+  user_id: string | null;
+  facility_id: string;
+  unit: string | null;
+  on_call: boolean;
+};
+
+export function twilioSender(accountSid: string, authToken: string, from: string): SmsSender {
+  return {
+    async send(to, body) {
+      const res = await fetch(
+        `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: "Basic " + Buffer.from(`${accountSid}:${authToken}`).toString("base64"),
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+          body: new URLSearchParams({ To: to, From: from, Body: body }).toString(),
+        }
+      );
+      const json: any = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.message ?? `Twilio send failed: ${res.status}`);
+      return { id: String(json.sid) };
+    },
+  };
+}
+
+// Local/dev sender: keeps messages in memory and logs them
+export type FakeSmsSender = SmsSender & { sent: Array<{ to: string; body: string }> };
+
+export function fakeSmsSender(): FakeSmsSender {
+  const sent: Array<{ to: string; body: string }> = [];
+  return {
+    sent,
+    async send(to, body) {
+      sent.push({ to, body });
+      console.info(`[sms:fake] -> ${to}: ${body}`);
+      return { id: `fake-${sent.length}` };
+    },
+  };
+}
+
+export function defaultSmsSender(): SmsSender {
+  const sid = process.env.TWILIO_ACCOUNT_SID;
+  const token = process.env.TWILIO_AUTH_TOKEN;
+  const from = process.env.TWILIO_FROM_NUMBER;
+  if (process.env.SMS_PROVIDER !== "fake" && sid && token && from) {
+    return twilioSender(sid, token, from);
+  }
+  return fakeSmsSender();
+}
+
+/* =========================
+   INBOUND
+========================= */
+
+// Twilio request signature: base64(HMAC-SHA1(authToken, url + sorted key/value pairs))
+export function verifyTwilioSignature(
+  authToken: string,
+  url: string,
+  params: Record<string, string>,
+  signature: string | null
+) {
+  if (!signature) return false;
+  const data = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url);
+  const expected = crypto.createHmac("sha1", authToken).update(data, "utf8").digest("base64");
+  const a = Buffer.from(expected);
+  const b = Buffer.from(signature);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+export type ParsedReply = { ref: number; message: string };
+
+// "#1234 restocked 2 cases" / "1234: restocked" -> { ref: 1234, message: "restocked 2 cases" }
+// The ref needs its "#" or a colon: a bare leading number is a quantity ("3 boxes left"),
+// and "12:30 ..." is a time, not ref 12
+const REPLY_RE = /^(?:#\s*(\d{1,12})(?:\s*[:\-]\s*|\s+)|(\d{1,12})\s*:(?!\d)\s*)([\s\S]+)$/;
+
+export function parseSmsReply(body: string): ParsedReply | null {
+  const m = body.trim().match(REPLY_RE);
+  if (!m) return null;
+  const message = m[3].trim();
+  if (!message) return null;
+  return { ref: Number(m[1] ?? m[2]), message: message.slice(0, 1000) };
+}
+
+export function normalizePhone(raw: string) {
+  const digits = raw.replace(/[^\d+]/g, "");
+  if (digits.startsWith("+")) return digits;
+  if (digits.length === 10) return `+1${digits}`; // US default
+  return `+${digits}`;
+}
+
+export type InboundResult = { ok: boolean; reply: string; handoffId?: string };
+
+export async function handleInboundSms(
+  supabase: SupabaseClient<Database>,
+  from: string,
+  body: string
+): Promise<InboundResult> {
+  const phone = normalizePhone(from);
+
+  const { data: contact, error: contactErr } = await supabase
+    .from("sms_contacts")
+    .select("id, phone, display_name, user_id, facility_id, unit, on_call")
+    .eq("phone", phone)
+    .maybeSingle();
+  if (contactErr) throw contactErr;
+  if (!contact) return { ok: false, reply: "This number is not registered for handoff updates." };
+
+  const c = contact as SmsContact;
+
+  const parsed = parseSmsReply(body);
+  if (!parsed) return { ok: false, reply: "Format: #<handoff number> <update>, e.g. #1234 restocked 2 cases" };
+
+  const { data, error: handoffErr } = await selectHandoffs(supabase)
+    .eq("ref", parsed.ref)
+    .is("deleted_at", null)
+    .maybeSingle();
+  if (handoffErr) throw handoffErr;
+  const handoff = data ? parseHandoff(data) : null;
+
+  // Contacts only reach handoffs in their own facility (and unit, if scoped)
+  const inScope =
+    handoff &&
+    handoff.facility_id === c.facility_id &&
+    (c.unit === null || handoff.unit === c.unit);
+  if (!inScope) return { ok: false, reply: `Handoff #${parsed.ref} not found.` };
+
+  try {
+    await insertHandoffUpdate(supabase, {
+      id: crypto.randomUUID(),
+      handoff_id: handoff.id,
+      message: parsed.message,
+      source: "sms",
+      author_user_id: c.user_id,
+      author_display_name_snapshot: c.display_name,
+    });
+  } catch (e: any) {
+    if (!isPhiError(e)) throw e;
+    await logBlockedSms(supabase, c, handoff, phone, body, e.details);
+    return {
+      ok: false,
+      reply: `Not posted to #${parsed.ref}: it looks like patient info (${e.details.split(",").join(", ")}). Resend without it.`,
+    };
+  }
+
+  await supabase.from("sms_messages").insert({
+    direction: "inbound",
+    phone,
+    body,
+    handoff_id: handoff.id,
+  });
+
+  const note = isClosed(handoff.status)
+    ? ` (note: this handoff is ${STATUS_LABEL[handoff.status].toLowerCase()})`
+    : "";
+  return { ok: true, reply: `Update added to #${parsed.ref}${note}.`, handoffId: handoff.id };
+}
+
+// Neither log keeps the raw text: both get the facility-redacted version
+async function logBlockedSms(
+  supabase: SupabaseClient<Database>,
+  c: SmsContact,
+  handoff: { id: string; facility_id: string; unit: string },
+  phone: string,
+  body: string,
+  ruleKeys: string
+) {
+  const { data: redacted } = await supabase.rpc("phi_redact", { p_facility: handoff.facility_id, p_text: body });
+  const excerpt = typeof redacted === "string" ? redacted : "[redacted]";
+  await supabase.from("phi_events").insert({
+    facility_id: handoff.facility_id,
+    unit: handoff.unit,
+    field: "sms",
+    action: "blocked",
+    rule_keys: ruleKeys.split(",").filter(Boolean),
+    excerpt,
+    detected_by: "server",
+    actor_user_id: c.user_id,
+    actor_display_name_snapshot: c.display_name,
+    handoff_id: handoff.id,
+  });
+  await supabase.from("sms_messages").insert({ direction: "inbound", phone, body: excerpt, handoff_id: handoff.id });
+}
+
+export function twiml(message?: string) {
+  const esc = (s: string) =>
+    s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  const inner = message ? `<Message>${esc(message)}</Message>` : "";
+  return `<?xml version="1.0" encoding="UTF-8"?><Response>${inner}</Response>`;
+}
+
+/* =========================
+   OUTBOUND
+========================= */
+
+export function criticalAlertText(h: Handoff) {
+  const ref = h.ref != null ? `#${h.ref} ` : "";
+  return (
+    `CRITICAL ${ref}${h.facility_id ?? "—"}/${h.unit ?? "—"}: ${h.title}` +
+    (h.ref != null ? `\nReply "#${h.ref} <update>" to post an update.` : "")
+  );
+}
+
+export async function onCallContacts(
+  supabase: SupabaseClient<Database>,
+  facilityId: string | null,
+  unit: string | null
+): Promise<SmsContact[]> {
+  if (!facilityId) return [];
+  const { data, error } = await supabase
+    .from("sms_contacts")
+    .select("id, phone, display_name, user_id, facility_id, unit, on_call")
+    .eq("facility_id", facilityId)
+    .eq("on_call", true);
+  if (error) throw error;
+  return ((data ?? []) as SmsContact[]).filter((c) => c.unit === null || c.unit === unit);
+}
+
+export async function sendCriticalAlert(supabase: SupabaseClient<Database>, sender: SmsSender, h: Handoff) {
+  const contacts = await onCallContacts(supabase, h.facility_id, h.unit);
+  const body = criticalAlertText(h);
+
+  for (const c of contacts) {
+    let providerId: string | null = null;
+    let error: string | null = null;
+    try {
+      providerId = (await sender.send(c.phone, body)).id;
+    } catch (e: any) {
+      error = e?.message ?? "send failed";
+    }
+    await supabase.from("sms_messages").insert({
+      direction: "outbound",
+      phone: c.phone,
+      body,
+      handoff_id: h.id,
+      provider_id: providerId,
+      error,
+    });
+  }
+
+  return contacts.length;
+}
+
+// Notification hook: texts on-call contacts when something is (or becomes) Critical
+export function smsNotifier(supabase: SupabaseClient<Database>, sender: SmsSender): NotificationHook {
+  return async (event) => {
+    if (event.type === "critical_created" || (event.type === "escalation" && event.toPriority === "Critical")) {
+      await sendCriticalAlert(supabase, sender, event.handoff);
+    }
+  };
+}
@@ -0,0 +1,34 @@
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+
+// Server-side client that acts as the signed-in caller, so RLS applies exactly as in
+// the browser. The caller sends its access token as Authorization: Bearer <jwt>.
+export function bearerToken(req: Request) {
+  const h = req.headers.get("authorization") ?? "";
+  const m = /^Bearer\s+(.+)$/i.exec(h);
+  return m ? m[1] : null;
+}
+
+export function createUserClient(accessToken: string): SupabaseClient<Database> {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL or NEXT_PUBLIC_SUPABASE_ANON_KEY");
+  }
+
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+    global: { headers: { Authorization: `Bearer ${accessToken}` } },
+  });
+}
+
+// Route guard: a client for the caller plus their user id, or null when the token is missing/invalid
+export async function userFromRequest(req: Request): Promise<{ supabase: SupabaseClient<Database>; userId: string } | null> {
+  const token = bearerToken(req);
+  if (!token) return null;
+  const supabase = createUserClient(token);
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return { supabase, userId: data.user.id };
+}
@@ -0,0 +1,86 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+import type { HandoffDraft, HandoffTemplate, Shift } from "./types";
+
+/* =========================================================
+   HANDOFF TEMPLATES (routine items per unit)
+   - Quick-create: one tap turns a template into a draft and submits it
+     through the outbox like any other create (source 'template')
+   - Recurring ones are created by the server job (lib/recurrence)
+   - Shift leads and up manage them (RLS); everyone on the unit uses them
+========================================================= */
+
+export const TEMPLATE_COLUMNS =
+  "id, facility_id, unit, title, priority, needs_followup, recurrence, shift, weekdays, active, created_by, created_at, updated_at";
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export async function loadTemplates(
+  supabase: SupabaseClient<Database>,
+  facilityId: string,
+  unit: string
+): Promise<HandoffTemplate[]> {
+  const { data, error } = await supabase
+    .from("handoff_templates")
+    .select(TEMPLATE_COLUMNS)
+    .eq("facility_id", facilityId)
+    .eq("unit", unit)
+    .order("title", { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as HandoffTemplate[];
+}
+
+// Insert (no id) or update; returns the saved row
+export async function saveTemplate(
+  supabase: SupabaseClient<Database>,
+  t: Omit<HandoffTemplate, "id"> & { id?: string }
+): Promise<HandoffTemplate> {
+  const row = {
+    ...(t.id ? { id: t.id } : {}),
+    facility_id: t.facility_id,
+    unit: t.unit,
+    title: t.title.trim(),
+    priority: t.priority,
+    needs_followup: t.needs_followup,
+    recurrence: t.recurrence,
+    shift: t.recurrence === "daily" || t.recurrence === "weekly" ? t.shift : null,
+    weekdays: t.recurrence === "weekly" ? [...t.weekdays].sort((a, b) => a - b) : [],
+    active: t.active,
+  };
+  const { data, error } = await supabase.from("handoff_templates").upsert(row).select(TEMPLATE_COLUMNS).single();
+  if (error) throw error;
+  return data as HandoffTemplate;
+}
+
+export async function deleteTemplate(supabase: SupabaseClient<Database>, id: string) {
+  const { error } = await supabase.from("handoff_templates").delete().eq("id", id);
+  if (error) throw error;
+}
+
+// "Every shift", "Daily · AM", "Mon, Thu · NOC", "Quick-create only"
+export function describeRecurrence(t: Pick<HandoffTemplate, "recurrence" | "shift" | "weekdays">) {
+  switch (t.recurrence) {
+    case "shift":
+      return "Every shift";
+    case "daily":
+      return `Daily · ${t.shift}`;
+    case "weekly":
+      return `${t.weekdays.map((d) => WEEKDAY_LABELS[d]).join(", ")} · ${t.shift}`;
+    default:
+      return "Quick-create only";
+  }
+}
+
+// The draft a quick-create submits: it's for the shift being worked now, whatever
+// the template's schedule says
+export function templateDraft(t: HandoffTemplate, currentShift: Shift): HandoffDraft {
+  return {
+    title: t.title,
+    shift: currentShift,
+    priority: t.priority,
+    needsFollowup: t.needs_followup,
+    source: "template",
+    lines: [],
+    showLines: false,
+  };
+}
@@ -0,0 +1,226 @@
+/* =========================================================
+   SHARED TYPES (mirror the handoffs / handoff_updates tables)
+========================================================= */
+
+export type Shift = "AM" | "PM" | "NOC";
+export type Priority = "Low" | "Normal" | "High" | "Critical";
+export type HandoffStatus =
+  | "open"
+  | "in_progress"
+  | "needs_followup"
+  | "resolved"
+  | "reopened"
+  | "cancelled"
+  | "duplicate"; // transitions: lib/lifecycle.ts
+export type UpdateSource = "app" | "sms" | "system";
+export type HandoffSource = "app" | "scan" | "sms" | "system" | "template"; // how the handoff was created
+
+export type Handoff = {
+  id: string;
+  ref?: number; // short number for SMS replies ("#1234 ...")
+  facility_id: string | null;
+  unit: string | null;
+  shift: Shift | null;
+  title: string;
+  priority: Priority;
+  status: HandoffStatus;
+  created_at: string; // timestamptz
+  created_by: string | null;
+  source?: HandoffSource;
+  // SLA bookkeeping (maintained by DB trigger / escalation job)
+  first_update_at?: string | null;
+  escalated_at?: string | null;
+  escalation_count?: number;
+  // Owner (claim / assign); ownership changes post a system update
+  assignee_user_id?: string | null;
+  assigned_at?: string | null;
+  closed_at?: string | null; // set by DB trigger on close, cleared on reopen
+  // Soft delete (restorable); hidden from lists unless "Show deleted"
+  deleted_at?: string | null;
+  deleted_by?: string | null;
+};
+
+export type HandoffUpdate = {
+  id: string;
+  handoff_id: string;
+  message: string;
+  source: UpdateSource;
+  author_user_id: string | null;
+  author_display_name_snapshot: string | null;
+  created_at: string;
+  parent_update_id?: string | null; // reply to (one level; replies to a reply join its thread)
+};
+
+export type HandoffAttachment = {
+  id: string;
+  handoff_id: string;
+  update_id: string | null; // null = attached to the handoff itself
+  store: "supabase" | "local";
+  path: string; // <handoff_id>/<id>.jpg
+  thumb_path: string;
+  content_type: string;
+  width: number;
+  height: number;
+  bytes: number;
+  created_by: string | null;
+  created_at: string;
+};
+
+export type ShiftReportStatus = "submitted" | "accepted";
+
+export type ShiftReport = {
+  id: string;
+  facility_id: string;
+  unit: string;
+  outgoing_shift: Shift;
+  incoming_shift: Shift;
+  status: ShiftReportStatus;
+  outgoing_notes: string | null;
+  outgoing_lead_user_id: string;
+  outgoing_lead_display_name_snapshot: string | null;
+  incoming_lead_user_id: string | null;
+  incoming_lead_display_name_snapshot: string | null;
+  created_at: string;
+  accepted_at: string | null;
+};
+
+export type ShiftReportItem = {
+  report_id: string;
+  handoff_id: string;
+  title: string; // snapshot at report time
+  priority: Priority;
+  status: Exclude<HandoffStatus, "resolved" | "cancelled" | "duplicate">;
+};
+
+export type ShiftReportAck = {
+  id: string;
+  report_id: string;
+  handoff_id: string;
+  acknowledged_by: string;
+  acknowledged_by_display_name_snapshot: string | null;
+  acknowledged_at: string;
+};
+
+export type SupplyItem = {
+  id: string;
+  item_number: string;
+  description: string;
+  unit_of_measure: string;
+  par_level: number | null;
+  bin_location: string | null;
+  gtin?: string | null; // GTIN-14, matched by the scanner
+  shortage_priority?: Priority; // priority pre-filled when the item is scanned short
+};
+
+export type BinLocation = {
+  code: string; // what the bin label encodes (BIN:<code>)
+  facility_id: string;
+  unit: string;
+  label: string | null;
+};
+
+export type HandoffLineItem = {
+  id: string;
+  handoff_id: string;
+  item_id: string;
+  qty_short: number | null;
+  qty_needed: number | null;
+  substitution: string | null;
+  created_at: string;
+  item?: SupplyItem | null; // embedded supply_items row
+};
+
+// The create form before submit (facility / unit come from the page context)
+export type HandoffDraft = {
+  title: string;
+  shift: Shift;
+  priority: Priority;
+  needsFollowup: boolean;
+  source: HandoffSource; // "scan" when pre-filled by the scanner
+  lines: HandoffLineItem[]; // handoff_id set on create
+  showLines: boolean;
+};
+
+export type Facility = {
+  id: string; // code, e.g. "PHC" (handoffs.facility_id)
+  name: string;
+  active: boolean;
+  time_zone?: string | null; // IANA name; shift clock for recurring templates
+};
+
+export type Unit = {
+  facility_id: string;
+  code: string; // handoffs.unit
+  name: string;
+  active: boolean;
+};
+
+// Routine handoffs saved per unit (lib/templates); the recurring job
+// creates them on schedule (lib/recurrence)
+export type Recurrence = "none" | "shift" | "daily" | "weekly";
+
+export type HandoffTemplate = {
+  id: string;
+  facility_id: string;
+  unit: string;
+  title: string;
+  priority: Priority;
+  needs_followup: boolean;
+  recurrence: Recurrence;
+  shift: Shift | null; // daily / weekly: which shift
+  weekdays: number[]; // weekly: 0 = Sunday .. 6 = Saturday
+  active: boolean;
+  created_by?: string | null;
+  created_at?: string;
+  updated_at?: string;
+};
+
+export type Profile = {
+  user_id: string;
+  display_name: string; // used for author / ack snapshots
+  role_title: string | null; // free text job title (access roles live in memberships)
+  badge_id: string | null;
+  default_facility_id: string | null;
+  default_unit: string | null;
+  preferred_shift: Shift | null;
+};
+
+export type NotificationPrefs = {
+  user_id: string;
+  critical: boolean;
+  escalation: boolean;
+  assignment: boolean;
+  mention: boolean;
+  quiet_start: string | null; // "HH:MM[:SS]" in timezone; both null = no quiet hours
+  quiet_end: string | null;
+  quiet_allow_critical: boolean;
+  timezone: string;
+};
+
+export type AuditChange = { old: unknown; new: unknown };
+
+export type HandoffAuditEntry = {
+  id: number;
+  handoff_id: string;
+  action: "insert" | "update" | "delete" | "archive";
+  changes: Record<string, AuditChange>; // field -> old/new (written by DB trigger)
+  actor_user_id: string | null; // null = system job / service role
+  actor_display_name_snapshot: string | null;
+  occurred_at: string;
+};
+
+// Closed handoff moved out of the live table by the archive job (read-only)
+export type ArchivedHandoff = {
+  id: string;
+  ref: number | null;
+  facility_id: string | null;
+  unit: string | null;
+  shift: Shift | null;
+  title: string;
+  priority: Priority;
+  status: HandoffStatus;
+  created_at: string;
+  closed_at: string;
+  archived_at: string;
+  updates: Pick<HandoffUpdate, "created_at" | "message" | "source" | "author_display_name_snapshot">[];
+};
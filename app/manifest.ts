@@ -0,0 +1,19 @@
+import type { MetadataRoute } from "next";
+
+// Installable PWA (service worker: /public/sw.js)
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Central Supply Handoff",
+    short_name: "CS Handoff",
+    description: "Shift handoffs for central supply",
+    start_url: "/",
+    scope: "/",
+    display: "standalone",
+    background_color: "#000000",
+    theme_color: "#000000",
+    icons: [
+      { src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "any" },
+      { src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "maskable" },
+    ],
+  };
+}
@@ -0,0 +1,5 @@
+import RouteNotice from "./components/RouteNotice";
+
+export default function NotFound() {
+  return <RouteNotice kind="not_found" />;
+}
@@ -0,0 +1,111 @@
+/* =========================================================
+   SERVICE WORKER (Central Supply Handoff)
+   - Web Push: show the alert; clicking focuses an open tab and opens
+     the handoff there, or opens a new window at /h/<id>
+   - App shell: navigations are network-first with the cached page as
+     the offline fallback (data sync is the IndexedDB outbox's job);
+     hashed /_next/static assets are cache-first
+========================================================= */
+
+const SHELL_CACHE = "cs-handoff-shell-v1";
+const STATIC_CACHE = "cs-handoff-static-v1";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.add("/"))
+      .catch(() => undefined)
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(keys.filter((k) => k !== SHELL_CACHE && k !== STATIC_CACHE).map((k) => caches.delete(k)))
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const req = event.request;
+  if (req.method !== "GET") return;
+  const url = new URL(req.url);
+  if (url.origin !== self.location.origin || url.pathname.startsWith("/api/")) return;
+
+  if (req.mode === "navigate") {
+    event.respondWith(
+      fetch(req)
+        .then((res) => {
+          if (res.ok && url.pathname === "/") {
+            const copy = res.clone();
+            caches.open(SHELL_CACHE).then((cache) => cache.put("/", copy));
+          }
+          return res;
+        })
+        // Any route (/h/<id>, /f/...) can use the "/" shell: the board reads its route from the URL
+        .catch(() => caches.match("/").then((cached) => cached || Response.error()))
+    );
+    return;
+  }
+
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(
+      caches.match(req).then(
+        (cached) =>
+          cached ||
+          fetch(req).then((res) => {
+            if (res.ok) {
+              const copy = res.clone();
+              caches.open(STATIC_CACHE).then((cache) => cache.put(req, copy));
+            }
+            return res;
+          })
+      )
+    );
+  }
+});
+
+/* =========================
+   PUSH
+========================= */
+self.addEventListener("push", (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch {
+    data = { title: event.data ? event.data.text() : "Handoff update" };
+  }
+  event.waitUntil(
+    self.registration.showNotification(data.title || "Handoff update", {
+      body: data.body || "",
+      tag: data.tag,
+      renotify: Boolean(data.tag),
+      icon: "/icon.svg",
+      badge: "/icon.svg",
+      data: { url: data.url || "/" },
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const target = new URL(event.notification.data?.url || "/", self.location.origin);
+  // /h/<id>; ?h=<id> from notifications sent before the route existed
+  const handoffId = target.pathname.match(/^\/h\/([0-9a-f-]{36})$/i)?.[1] || target.searchParams.get("h");
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((w) => new URL(w.url).origin === self.location.origin);
+      if (open && handoffId) {
+        open.postMessage({ type: "open-handoff", id: handoffId });
+        return open.focus();
+      }
+      return self.clients.openWindow(target.href);
+    })
+  );
+});
@@ -0,0 +1,31 @@
+-- Base tables: handoffs + handoff_updates as they stood before the first feature
+-- migration. Every later migration alters these; columns added since (ref, SLA
+-- bookkeeping, assignment, soft delete, source, closed_at, replies, ...) live in
+-- the migration that introduced them. On a database created by hand before
+-- migrations existed this is a no-op; 20261018280000_handoff_constraints brings
+-- its checks in line.
+
+create table if not exists public.handoffs (
+  id uuid primary key default gen_random_uuid(),  -- client-generated for offline creates
+  facility_id text,
+  unit text,
+  shift text check (shift in ('AM', 'PM', 'NOC')),
+  title text not null,
+  priority text not null default 'Normal' check (priority in ('Low', 'Normal', 'High', 'Critical')),
+  status text not null default 'open' check (status in ('open', 'needs_followup', 'resolved')),
+  created_at timestamptz not null default now(),
+  created_by uuid default auth.uid() references auth.users (id) on delete set null
+);
+
+create table if not exists public.handoff_updates (
+  id uuid primary key default gen_random_uuid(),
+  handoff_id uuid not null references public.handoffs (id) on delete cascade,
+  message text not null,
+  source text not null default 'app' check (source in ('app', 'sms', 'system')),
+  author_user_id uuid references auth.users (id) on delete set null,
+  author_display_name_snapshot text,               -- profile name at post time (no PHI)
+  created_at timestamptz not null default now()
+);
+
+create index if not exists handoff_updates_handoff_idx
+  on public.handoff_updates (handoff_id, created_at);
@@ -0,0 +1,23 @@
+-- Realtime: publish handoffs + handoff_updates to Supabase Realtime (postgres_changes).
+-- REPLICA IDENTITY FULL so UPDATE/DELETE payloads carry the old row
+-- (facility filter on DELETE and client-side unit filter need it).
+
+alter table public.handoffs replica identity full;
+alter table public.handoff_updates replica identity full;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'handoffs'
+  ) then
+    alter publication supabase_realtime add table public.handoffs;
+  end if;
+
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'handoff_updates'
+  ) then
+    alter publication supabase_realtime add table public.handoff_updates;
+  end if;
+end $$;
@@ -0,0 +1,132 @@
+-- Shift-change handoff reports.
+-- Outgoing lead compiles every unresolved handoff for a facility/unit into a report
+-- (items are snapshotted), incoming lead acknowledges each Critical/High item, then
+-- accepts the report. Each acknowledgement is mirrored into handoff_updates as a
+-- 'system' entry so it shows in the handoff timeline.
+
+create table if not exists public.shift_reports (
+  id uuid primary key default gen_random_uuid(),
+  facility_id text not null,
+  unit text not null,
+  outgoing_shift text not null check (outgoing_shift in ('AM', 'PM', 'NOC')),
+  incoming_shift text not null check (incoming_shift in ('AM', 'PM', 'NOC')),
+  status text not null default 'submitted' check (status in ('submitted', 'accepted')),
+  outgoing_notes text,
+  outgoing_lead_user_id uuid not null default auth.uid(),
+  outgoing_lead_display_name_snapshot text,
+  incoming_lead_user_id uuid,
+  incoming_lead_display_name_snapshot text,
+  created_at timestamptz not null default now(),
+  accepted_at timestamptz
+);
+
+create index if not exists shift_reports_context_idx
+  on public.shift_reports (facility_id, unit, created_at desc);
+
+create table if not exists public.shift_report_items (
+  report_id uuid not null references public.shift_reports (id) on delete cascade,
+  handoff_id uuid not null references public.handoffs (id) on delete cascade,
+  -- snapshot at report time; the live handoff may change afterwards
+  title text not null,
+  priority text not null check (priority in ('Low', 'Normal', 'High', 'Critical')),
+  status text not null check (status in ('open', 'needs_followup')),
+  primary key (report_id, handoff_id)
+);
+
+create table if not exists public.shift_report_acknowledgements (
+  id uuid primary key default gen_random_uuid(),
+  report_id uuid not null,
+  handoff_id uuid not null,
+  acknowledged_by uuid not null default auth.uid(),
+  acknowledged_by_display_name_snapshot text,
+  acknowledged_at timestamptz not null default now(),
+  unique (report_id, handoff_id),
+  foreign key (report_id, handoff_id)
+    references public.shift_report_items (report_id, handoff_id) on delete cascade
+);
+
+-- Acknowledgement -> guard + system timeline entry
+create or replace function public.shift_report_ack_to_timeline()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r public.shift_reports;
+begin
+  select * into r from public.shift_reports where id = new.report_id;
+
+  if r.status = 'accepted' then
+    raise exception 'Shift report already accepted';
+  end if;
+  if new.acknowledged_by = r.outgoing_lead_user_id then
+    raise exception 'The outgoing lead cannot acknowledge their own shift report';
+  end if;
+
+  insert into public.handoff_updates
+    (handoff_id, message, source, author_user_id, author_display_name_snapshot)
+  values (
+    new.handoff_id,
+    format('Acknowledged at shift change (%s → %s).', r.outgoing_shift, r.incoming_shift),
+    'system',
+    new.acknowledged_by,
+    coalesce(new.acknowledged_by_display_name_snapshot, 'CS Staff')
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists shift_report_ack_to_timeline on public.shift_report_acknowledgements;
+create trigger shift_report_ack_to_timeline
+  after insert on public.shift_report_acknowledgements
+  for each row execute function public.shift_report_ack_to_timeline();
+
+-- Accept: every Critical/High item must be acknowledged first
+create or replace function public.accept_shift_report(p_report_id uuid, p_display_name text default null)
+returns public.shift_reports
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  r public.shift_reports;
+  missing int;
+begin
+  select * into r from public.shift_reports where id = p_report_id for update;
+
+  if not found then
+    raise exception 'Shift report not found';
+  end if;
+  if r.status = 'accepted' then
+    return r;
+  end if;
+  if auth.uid() = r.outgoing_lead_user_id then
+    raise exception 'The outgoing lead cannot accept their own shift report';
+  end if;
+
+  select count(*) into missing
+  from public.shift_report_items i
+  where i.report_id = p_report_id
+    and i.priority in ('Critical', 'High')
+    and not exists (
+      select 1 from public.shift_report_acknowledgements a
+      where a.report_id = i.report_id and a.handoff_id = i.handoff_id
+    );
+
+  if missing > 0 then
+    raise exception '% Critical/High item(s) still need acknowledgement', missing;
+  end if;
+
+  update public.shift_reports
+  set status = 'accepted',
+      accepted_at = now(),
+      incoming_lead_user_id = auth.uid(),
+      incoming_lead_display_name_snapshot = p_display_name
+  where id = p_report_id
+  returning * into r;
+
+  return r;
+end;
+$$;
@@ -0,0 +1,57 @@
+-- SLA targets + escalation bookkeeping.
+-- first_update_at: first non-system update (maintained by trigger below)
+-- escalated_at / escalation_count: written by the escalation job (/api/jobs/escalate);
+-- the SLA clock restarts at escalated_at.
+
+alter table public.handoffs
+  add column if not exists first_update_at timestamptz,
+  add column if not exists escalated_at timestamptz,
+  add column if not exists escalation_count integer not null default 0;
+
+-- Per-priority targets. facility_id null = default for every facility.
+-- No row for a priority = app defaults (lib/sla.ts DEFAULT_SLA).
+create table if not exists public.sla_targets (
+  id uuid primary key default gen_random_uuid(),
+  facility_id text,
+  priority text not null check (priority in ('Low', 'Normal', 'High', 'Critical')),
+  first_update_minutes integer check (first_update_minutes > 0),
+  resolve_minutes integer check (resolve_minutes > 0)
+);
+
+create unique index if not exists sla_targets_scope_idx
+  on public.sla_targets (coalesce(facility_id, ''), priority);
+
+create or replace function public.handoffs_track_first_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.source <> 'system' then
+    update public.handoffs
+    set first_update_at = new.created_at
+    where id = new.handoff_id and first_update_at is null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists handoffs_track_first_update on public.handoff_updates;
+create trigger handoffs_track_first_update
+  after insert on public.handoff_updates
+  for each row execute function public.handoffs_track_first_update();
+
+-- Backfill from existing timelines
+update public.handoffs h
+set first_update_at = u.first_at
+from (
+  select handoff_id, min(created_at) as first_at
+  from public.handoff_updates
+  where source <> 'system'
+  group by handoff_id
+) u
+where u.handoff_id = h.id and h.first_update_at is null;
+
+create index if not exists handoffs_unresolved_idx
+  on public.handoffs (status) where status <> 'resolved';
@@ -0,0 +1,38 @@
+-- SMS channel.
+-- handoffs.ref: short human number used in texts ("#1234 restocked 2 cases").
+-- sms_contacts: phones allowed to text in, and who gets Critical alerts (on_call).
+
+alter table public.handoffs
+  add column if not exists ref bigint generated by default as identity;
+
+create unique index if not exists handoffs_ref_idx on public.handoffs (ref);
+
+create table if not exists public.sms_contacts (
+  id uuid primary key default gen_random_uuid(),
+  phone text not null unique check (phone ~ '^\+[1-9][0-9]{6,14}$'), -- E.164
+  display_name text not null,
+  user_id uuid references auth.users (id) on delete set null,
+  facility_id text not null,
+  unit text, -- null = every unit in the facility
+  on_call boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists sms_contacts_on_call_idx
+  on public.sms_contacts (facility_id) where on_call;
+
+-- Delivery log for outbound alerts (provider id / error per recipient)
+create table if not exists public.sms_messages (
+  id uuid primary key default gen_random_uuid(),
+  direction text not null check (direction in ('inbound', 'outbound')),
+  phone text not null,
+  body text not null,
+  handoff_id uuid references public.handoffs (id) on delete set null,
+  provider_id text,
+  error text,
+  created_at timestamptz not null default now()
+);
+
+-- Outbound Critical alerts: add a Supabase Database Webhook on public.handoffs
+-- (INSERT) -> POST {APP_URL}/api/hooks/handoffs with
+-- "Authorization: Bearer {WEBHOOK_SECRET}".
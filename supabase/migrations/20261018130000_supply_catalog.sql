@@ -0,0 +1,34 @@
+-- Supply item catalog + structured line items on handoffs.
+
+create table if not exists public.supply_items (
+  id uuid primary key default gen_random_uuid(),
+  item_number text not null unique,
+  description text not null,
+  unit_of_measure text not null default 'EA',
+  par_level integer check (par_level >= 0),
+  bin_location text,
+  active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+-- Typeahead: prefix on item number, substring on description
+create extension if not exists pg_trgm;
+create index if not exists supply_items_description_trgm_idx
+  on public.supply_items using gin (description gin_trgm_ops);
+create index if not exists supply_items_item_number_idx
+  on public.supply_items (item_number text_pattern_ops);
+
+create table if not exists public.handoff_line_items (
+  id uuid primary key default gen_random_uuid(),
+  handoff_id uuid not null references public.handoffs (id) on delete cascade,
+  item_id uuid not null references public.supply_items (id),
+  qty_short integer check (qty_short >= 0),
+  qty_needed integer check (qty_needed >= 0),
+  substitution text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists handoff_line_items_handoff_idx
+  on public.handoff_line_items (handoff_id);
+create index if not exists handoff_line_items_item_idx
+  on public.handoff_line_items (item_id);
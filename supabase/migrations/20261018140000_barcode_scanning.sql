@@ -0,0 +1,21 @@
+-- Barcode / QR scanning.
+-- supply_items.gtin: GTIN-14 from UPC/EAN/GS1-128 (01); shortage_priority pre-fills
+-- the create form. bin_locations maps a bin label code to its facility/unit.
+
+alter table public.supply_items
+  add column if not exists gtin text check (gtin ~ '^\d{14}$'),
+  add column if not exists shortage_priority text not null default 'Normal'
+    check (shortage_priority in ('Low', 'Normal', 'High', 'Critical'));
+
+create unique index if not exists supply_items_gtin_idx
+  on public.supply_items (gtin) where gtin is not null;
+
+create index if not exists supply_items_bin_location_idx
+  on public.supply_items (bin_location);
+
+create table if not exists public.bin_locations (
+  code text primary key, -- uppercase, as printed on the label (BIN:<code>)
+  facility_id text not null,
+  unit text not null,
+  label text
+);
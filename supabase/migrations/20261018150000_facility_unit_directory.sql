@@ -0,0 +1,39 @@
+-- Facilities + units as first-class records.
+-- handoffs.facility_id / handoffs.unit keep their text values (codes) and now
+-- reference the directory, so typos can no longer create orphaned handoffs.
+
+create table if not exists public.facilities (
+  id text primary key check (id ~ '^[A-Za-z0-9_-]{1,32}$'), -- code, e.g. PHC
+  name text not null,
+  active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.units (
+  facility_id text not null references public.facilities (id) on update cascade,
+  code text not null check (code ~ '^[A-Za-z0-9 _-]{1,48}$'), -- e.g. Main, 4W
+  name text not null,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  primary key (facility_id, code)
+);
+
+-- Backfill from what is already in use
+insert into public.facilities (id, name)
+select distinct h.facility_id, h.facility_id
+from public.handoffs h
+where h.facility_id is not null
+on conflict (id) do nothing;
+
+insert into public.units (facility_id, code, name)
+select distinct h.facility_id, h.unit, h.unit
+from public.handoffs h
+where h.facility_id is not null and h.unit is not null
+on conflict (facility_id, code) do nothing;
+
+alter table public.handoffs
+  drop constraint if exists handoffs_facility_unit_fkey;
+alter table public.handoffs
+  add constraint handoffs_facility_unit_fkey
+  foreign key (facility_id, unit) references public.units (facility_id, code)
+  on update cascade;
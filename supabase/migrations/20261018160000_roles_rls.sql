@@ -0,0 +1,390 @@
+-- Role-based access control.
+-- memberships: role per user, scoped to a facility (and optionally a unit).
+--   facility_id null = every facility (org admin); unit null = every unit in the facility.
+-- Roles, lowest to highest: tech < shift_lead < supervisor < admin.
+-- Status rules RLS can't express (old vs new row) live in a BEFORE UPDATE trigger.
+-- Service-role calls (jobs, webhooks) have no auth.uid() and bypass these checks.
+--
+-- Bootstrap the first admin from the SQL editor:
+--   insert into public.memberships (user_id, facility_id, role)
+--   select id, null, 'admin' from auth.users where email = 'you@hospital.org';
+
+create table if not exists public.memberships (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  facility_id text references public.facilities (id) on update cascade on delete cascade,
+  unit text,
+  role text not null check (role in ('tech', 'shift_lead', 'supervisor', 'admin')),
+  created_at timestamptz not null default now(),
+  check (unit is null or facility_id is not null)
+);
+
+create unique index if not exists memberships_scope_idx
+  on public.memberships (user_id, coalesce(facility_id, ''), coalesce(unit, ''));
+
+/* =========================
+   HELPERS (security definer: read memberships without tripping RLS)
+========================= */
+create or replace function public.role_rank(p_role text)
+returns int
+language sql
+immutable
+as $$
+  select case p_role
+    when 'tech' then 1
+    when 'shift_lead' then 2
+    when 'supervisor' then 3
+    when 'admin' then 4
+    else 0
+  end;
+$$;
+
+-- Highest rank the current user holds for a facility/unit (0 = no access)
+create or replace function public.my_rank(p_facility text, p_unit text default null)
+returns int
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(max(public.role_rank(m.role)), 0)
+  from public.memberships m
+  where m.user_id = auth.uid()
+    and (m.facility_id is null or m.facility_id = p_facility)
+    and (m.unit is null or p_unit is null or m.unit = p_unit);
+$$;
+
+-- Role check for a unit, or (p_unit null) for the facility itself. A facility-level
+-- check only counts facility-wide memberships: a unit admin is not a facility admin.
+-- "Any membership in the facility" (reading the directory) is my_rank(facility) > 0.
+create or replace function public.has_role(p_facility text, p_unit text, p_min_role text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.memberships m
+    where m.user_id = auth.uid()
+      and (m.facility_id is null or m.facility_id = p_facility)
+      and (m.unit is null or m.unit = p_unit)
+      and public.role_rank(m.role) >= public.role_rank(p_min_role)
+  );
+$$;
+
+create or replace function public.is_org_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.memberships m
+    where m.user_id = auth.uid() and m.facility_id is null and m.role = 'admin'
+  );
+$$;
+
+/* =========================
+   STATUS RULES
+   - Resolving a Critical handoff: shift_lead+
+   - Reopening a resolved handoff: shift_lead+
+========================= */
+create or replace function public.handoffs_enforce_roles()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    return new; -- service role / jobs
+  end if;
+
+  if old.status <> 'resolved' and new.status = 'resolved' and old.priority = 'Critical'
+     and not public.has_role(old.facility_id, old.unit, 'shift_lead') then
+    raise exception 'Only a shift lead or above can resolve a Critical handoff'
+      using errcode = '42501';
+  end if;
+
+  if old.status = 'resolved' and new.status <> 'resolved'
+     and not public.has_role(old.facility_id, old.unit, 'shift_lead') then
+    raise exception 'Only a shift lead or above can reopen a resolved handoff'
+      using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists handoffs_enforce_roles on public.handoffs;
+create trigger handoffs_enforce_roles
+  before update on public.handoffs
+  for each row execute function public.handoffs_enforce_roles();
+
+/* =========================
+   ROW-LEVEL SECURITY
+========================= */
+alter table public.memberships enable row level security;
+alter table public.facilities enable row level security;
+alter table public.units enable row level security;
+alter table public.handoffs enable row level security;
+alter table public.handoff_updates enable row level security;
+alter table public.handoff_line_items enable row level security;
+alter table public.shift_reports enable row level security;
+alter table public.shift_report_items enable row level security;
+alter table public.shift_report_acknowledgements enable row level security;
+alter table public.sla_targets enable row level security;
+alter table public.supply_items enable row level security;
+alter table public.bin_locations enable row level security;
+alter table public.sms_contacts enable row level security;
+alter table public.sms_messages enable row level security;
+
+-- memberships: see your own; admins see/manage the ones in their scope (a facility
+-- admin the whole facility, a unit admin that unit's; has_role(f, null, ...) is facility-wide only)
+drop policy if exists memberships_select on public.memberships;
+create policy memberships_select on public.memberships for select to authenticated
+  using (user_id = auth.uid() or public.is_org_admin()
+         or (facility_id is not null and public.has_role(facility_id, unit, 'admin')));
+
+drop policy if exists memberships_write on public.memberships;
+create policy memberships_write on public.memberships for all to authenticated
+  using (public.is_org_admin() or (facility_id is not null and public.has_role(facility_id, unit, 'admin')))
+  with check (public.is_org_admin() or (facility_id is not null and public.has_role(facility_id, unit, 'admin')));
+
+-- facilities: members see theirs; org admins create, facility admins edit
+drop policy if exists facilities_select on public.facilities;
+create policy facilities_select on public.facilities for select to authenticated
+  using (public.my_rank(id) > 0);
+
+drop policy if exists facilities_insert on public.facilities;
+create policy facilities_insert on public.facilities for insert to authenticated
+  with check (public.is_org_admin());
+
+drop policy if exists facilities_update on public.facilities;
+create policy facilities_update on public.facilities for update to authenticated
+  using (public.has_role(id, null, 'admin'))
+  with check (public.has_role(id, null, 'admin'));
+
+-- units: members of the facility see all its units (for the overview); admins manage
+drop policy if exists units_select on public.units;
+create policy units_select on public.units for select to authenticated
+  using (public.my_rank(facility_id) > 0);
+
+drop policy if exists units_write on public.units;
+create policy units_write on public.units for all to authenticated
+  using (public.has_role(facility_id, null, 'admin'))
+  with check (public.has_role(facility_id, null, 'admin'));
+
+-- handoffs: members of the unit read/create/update; admins delete
+drop policy if exists handoffs_select on public.handoffs;
+create policy handoffs_select on public.handoffs for select to authenticated
+  using (public.has_role(facility_id, unit, 'tech'));
+
+drop policy if exists handoffs_insert on public.handoffs;
+create policy handoffs_insert on public.handoffs for insert to authenticated
+  with check (public.has_role(facility_id, unit, 'tech') and created_by = auth.uid());
+
+drop policy if exists handoffs_update on public.handoffs;
+create policy handoffs_update on public.handoffs for update to authenticated
+  using (public.has_role(facility_id, unit, 'tech'))
+  with check (public.has_role(facility_id, unit, 'tech'));
+
+drop policy if exists handoffs_delete on public.handoffs;
+create policy handoffs_delete on public.handoffs for delete to authenticated
+  using (public.has_role(facility_id, unit, 'admin'));
+
+-- handoff children: visible/writable when the parent handoff is
+drop policy if exists handoff_updates_select on public.handoff_updates;
+create policy handoff_updates_select on public.handoff_updates for select to authenticated
+  using (exists (select 1 from public.handoffs h where h.id = handoff_id));
+
+drop policy if exists handoff_updates_insert on public.handoff_updates;
+create policy handoff_updates_insert on public.handoff_updates for insert to authenticated
+  with check (author_user_id = auth.uid() and source = 'app'
+              and exists (select 1 from public.handoffs h where h.id = handoff_id));
+
+drop policy if exists handoff_line_items_select on public.handoff_line_items;
+create policy handoff_line_items_select on public.handoff_line_items for select to authenticated
+  using (exists (select 1 from public.handoffs h where h.id = handoff_id));
+
+drop policy if exists handoff_line_items_insert on public.handoff_line_items;
+create policy handoff_line_items_insert on public.handoff_line_items for insert to authenticated
+  with check (exists (select 1 from public.handoffs h where h.id = handoff_id));
+
+-- shift reports: members of the unit; acknowledging/accepting is checked in SQL below
+drop policy if exists shift_reports_select on public.shift_reports;
+create policy shift_reports_select on public.shift_reports for select to authenticated
+  using (public.has_role(facility_id, unit, 'tech'));
+
+drop policy if exists shift_reports_insert on public.shift_reports;
+create policy shift_reports_insert on public.shift_reports for insert to authenticated
+  with check (public.has_role(facility_id, unit, 'shift_lead') and outgoing_lead_user_id = auth.uid());
+
+drop policy if exists shift_reports_delete on public.shift_reports;
+create policy shift_reports_delete on public.shift_reports for delete to authenticated
+  using (outgoing_lead_user_id = auth.uid() and status = 'submitted');
+
+drop policy if exists shift_report_items_select on public.shift_report_items;
+create policy shift_report_items_select on public.shift_report_items for select to authenticated
+  using (exists (select 1 from public.shift_reports r where r.id = report_id));
+
+drop policy if exists shift_report_items_insert on public.shift_report_items;
+create policy shift_report_items_insert on public.shift_report_items for insert to authenticated
+  with check (exists (select 1 from public.shift_reports r
+                      where r.id = report_id and r.outgoing_lead_user_id = auth.uid()));
+
+drop policy if exists shift_report_acks_select on public.shift_report_acknowledgements;
+create policy shift_report_acks_select on public.shift_report_acknowledgements for select to authenticated
+  using (exists (select 1 from public.shift_reports r where r.id = report_id));
+
+drop policy if exists shift_report_acks_insert on public.shift_report_acknowledgements;
+create policy shift_report_acks_insert on public.shift_report_acknowledgements for insert to authenticated
+  with check (acknowledged_by = auth.uid()
+              and exists (select 1 from public.shift_reports r
+                          where r.id = report_id and public.has_role(r.facility_id, r.unit, 'shift_lead')));
+
+-- reference data: readable by any signed-in user, managed by supervisors+
+drop policy if exists sla_targets_select on public.sla_targets;
+create policy sla_targets_select on public.sla_targets for select to authenticated using (true);
+
+drop policy if exists sla_targets_write on public.sla_targets;
+create policy sla_targets_write on public.sla_targets for all to authenticated
+  using (case when facility_id is null then public.is_org_admin()
+              else public.has_role(facility_id, null, 'supervisor') end)
+  with check (case when facility_id is null then public.is_org_admin()
+                   else public.has_role(facility_id, null, 'supervisor') end);
+
+drop policy if exists supply_items_select on public.supply_items;
+create policy supply_items_select on public.supply_items for select to authenticated using (true);
+
+drop policy if exists supply_items_write on public.supply_items;
+create policy supply_items_write on public.supply_items for all to authenticated
+  using (exists (select 1 from public.memberships m
+                 where m.user_id = auth.uid() and public.role_rank(m.role) >= 3))
+  with check (exists (select 1 from public.memberships m
+                      where m.user_id = auth.uid() and public.role_rank(m.role) >= 3));
+
+drop policy if exists bin_locations_select on public.bin_locations;
+create policy bin_locations_select on public.bin_locations for select to authenticated
+  using (public.my_rank(facility_id) > 0);
+
+drop policy if exists bin_locations_write on public.bin_locations;
+create policy bin_locations_write on public.bin_locations for all to authenticated
+  using (public.has_role(facility_id, null, 'supervisor'))
+  with check (public.has_role(facility_id, null, 'supervisor'));
+
+-- SMS directory/log: supervisors+ of the facility (the webhook uses the service role)
+drop policy if exists sms_contacts_all on public.sms_contacts;
+create policy sms_contacts_all on public.sms_contacts for all to authenticated
+  using (public.has_role(facility_id, null, 'supervisor'))
+  with check (public.has_role(facility_id, null, 'supervisor'));
+
+drop policy if exists sms_messages_select on public.sms_messages;
+create policy sms_messages_select on public.sms_messages for select to authenticated
+  using (exists (select 1 from public.handoffs h
+                 where h.id = handoff_id and public.has_role(h.facility_id, h.unit, 'supervisor')));
+
+/* =========================
+   SHIFT REPORT ACCEPT (lead-only; definer so it can flip status without an update policy)
+========================= */
+create or replace function public.accept_shift_report(p_report_id uuid, p_display_name text default null)
+returns public.shift_reports
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r public.shift_reports;
+  missing int;
+begin
+  select * into r from public.shift_reports where id = p_report_id for update;
+
+  if not found then
+    raise exception 'Shift report not found';
+  end if;
+  if r.status = 'accepted' then
+    return r;
+  end if;
+  if auth.uid() = r.outgoing_lead_user_id then
+    raise exception 'The outgoing lead cannot accept their own shift report';
+  end if;
+  if not public.has_role(r.facility_id, r.unit, 'shift_lead') then
+    raise exception 'Only a shift lead or above can accept a shift report' using errcode = '42501';
+  end if;
+
+  select count(*) into missing
+  from public.shift_report_items i
+  where i.report_id = p_report_id
+    and i.priority in ('Critical', 'High')
+    and not exists (
+      select 1 from public.shift_report_acknowledgements a
+      where a.report_id = i.report_id and a.handoff_id = i.handoff_id
+    );
+
+  if missing > 0 then
+    raise exception '% Critical/High item(s) still need acknowledgement', missing;
+  end if;
+
+  update public.shift_reports
+  set status = 'accepted',
+      accepted_at = now(),
+      incoming_lead_user_id = auth.uid(),
+      incoming_lead_display_name_snapshot = p_display_name
+  where id = p_report_id
+  returning * into r;
+
+  return r;
+end;
+$$;
+
+/* =========================
+   MEMBER MANAGEMENT (admins, within their scope; resolves emails via auth.users)
+========================= */
+create or replace function public.list_members(p_facility text)
+returns table (id uuid, user_id uuid, email text, facility_id text, unit text, role text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.id, m.user_id, u.email::text, m.facility_id, m.unit, m.role
+  from public.memberships m
+  join auth.users u on u.id = m.user_id
+  where m.facility_id = p_facility
+    and (public.is_org_admin() or public.has_role(p_facility, m.unit, 'admin'))
+  order by u.email;
+$$;
+
+create or replace function public.grant_role(p_email text, p_facility text, p_unit text, p_role text)
+returns public.memberships
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid;
+  m public.memberships;
+  v_unit text := nullif(trim(p_unit), '');
+begin
+  -- Facility-scoped grants need a facility admin; a unit admin can only grant in their unit
+  if not (public.is_org_admin() or public.has_role(p_facility, v_unit, 'admin')) then
+    raise exception 'Only admins can manage members' using errcode = '42501';
+  end if;
+
+  select id into uid from auth.users where lower(email) = lower(trim(p_email));
+  if uid is null then
+    raise exception 'No user with email % has signed in yet', p_email;
+  end if;
+
+  insert into public.memberships (user_id, facility_id, unit, role)
+  values (uid, p_facility, v_unit, p_role)
+  on conflict (user_id, (coalesce(facility_id, '')), (coalesce(unit, '')))
+  do update set role = excluded.role
+  returning * into m;
+
+  return m;
+end;
+$$;
@@ -0,0 +1,104 @@
+-- Persisted user profiles.
+-- One row per auth user, created on first sign-in (auth.users trigger) and
+-- editable by its owner. Author/ack snapshots are taken from display_name, so
+-- timelines stop filling up with anonymous "CS Staff" entries.
+
+create table if not exists public.profiles (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  display_name text not null check (length(trim(display_name)) between 1 and 80),
+  role_title text,                 -- free text, e.g. "CS Tech II" (not the access role)
+  badge_id text,                   -- badge / employee ID
+  default_facility_id text references public.facilities (id) on update cascade on delete set null,
+  default_unit text,
+  preferred_shift text check (preferred_shift in ('AM', 'PM', 'NOC')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  foreign key (default_facility_id, default_unit)
+    references public.units (facility_id, code) on update cascade
+);
+
+-- "jane.doe@…" -> "jane.doe"; the user renames themselves from the profile screen
+create or replace function public.profile_name_from_email(p_email text)
+returns text
+language sql
+immutable
+as $$
+  select coalesce(nullif(split_part(coalesce(p_email, ''), '@', 1), ''), 'New user')
+$$;
+
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.profiles (user_id, display_name)
+  values (new.id, public.profile_name_from_email(new.email))
+  on conflict (user_id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+after insert on auth.users
+for each row execute function public.handle_new_user();
+
+-- Backfill users that signed in before profiles existed
+insert into public.profiles (user_id, display_name)
+select u.id, public.profile_name_from_email(u.email)
+from auth.users u
+on conflict (user_id) do nothing;
+
+create or replace function public.profiles_touch()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_touch on public.profiles;
+create trigger profiles_touch
+before update on public.profiles
+for each row execute function public.profiles_touch();
+
+-- Server-side fallback: app/SMS/system writers that omit the snapshot still get a name
+create or replace function public.handoff_updates_author_snapshot()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.author_user_id is not null and coalesce(trim(new.author_display_name_snapshot), '') = '' then
+    select p.display_name into new.author_display_name_snapshot
+    from public.profiles p where p.user_id = new.author_user_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists handoff_updates_author_snapshot on public.handoff_updates;
+create trigger handoff_updates_author_snapshot
+before insert on public.handoff_updates
+for each row execute function public.handoff_updates_author_snapshot();
+
+-- RLS: everyone signed in can read names (timelines, member lists); only you edit yours
+alter table public.profiles enable row level security;
+
+drop policy if exists profiles_select on public.profiles;
+create policy profiles_select on public.profiles for select to authenticated
+  using (true);
+
+drop policy if exists profiles_insert on public.profiles;
+create policy profiles_insert on public.profiles for insert to authenticated
+  with check (user_id = auth.uid());
+
+drop policy if exists profiles_update on public.profiles;
+create policy profiles_update on public.profiles for update to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
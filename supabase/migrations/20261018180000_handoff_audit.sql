@@ -0,0 +1,111 @@
+-- Append-only audit trail for handoffs.
+-- Every insert/update/delete on public.handoffs writes one row with the actor
+-- (auth.uid(); null = service role / job), timestamp and the changed fields as
+-- {"field": {"old": ..., "new": ...}}. Rows can't be updated or deleted, not
+-- even by the service role.
+
+create table if not exists public.handoff_audit (
+  id bigint generated always as identity primary key,
+  handoff_id uuid not null,           -- no FK: the trail outlives the handoff
+  facility_id text,                   -- copied for RLS after a delete
+  unit text,
+  action text not null check (action in ('insert', 'update', 'delete')),
+  changes jsonb not null default '{}'::jsonb,
+  actor_user_id uuid,
+  actor_display_name_snapshot text,
+  occurred_at timestamptz not null default now()
+);
+
+create index if not exists handoff_audit_handoff_idx
+  on public.handoff_audit (handoff_id, occurred_at);
+
+/* =========================
+   WRITER
+========================= */
+create or replace function public.handoffs_audit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_j jsonb := case when tg_op = 'INSERT' then '{}'::jsonb else to_jsonb(old) end;
+  new_j jsonb := case when tg_op = 'DELETE' then '{}'::jsonb else to_jsonb(new) end;
+  diff jsonb := '{}'::jsonb;
+  k text;
+  uid uuid := auth.uid();
+  row_id uuid := coalesce(new.id, old.id);
+begin
+  for k in select jsonb_object_keys(old_j || new_j) loop
+    if k = 'id' then
+      continue;
+    end if;
+    if (old_j -> k) is distinct from (new_j -> k) then
+      diff := diff || jsonb_build_object(k, jsonb_build_object('old', old_j -> k, 'new', new_j -> k));
+    end if;
+  end loop;
+
+  if tg_op = 'UPDATE' and diff = '{}'::jsonb then
+    return null; -- no-op update (e.g. re-saving the same status)
+  end if;
+
+  insert into public.handoff_audit
+    (handoff_id, facility_id, unit, action, changes, actor_user_id, actor_display_name_snapshot)
+  values (
+    row_id,
+    coalesce(new_j ->> 'facility_id', old_j ->> 'facility_id'),
+    coalesce(new_j ->> 'unit', old_j ->> 'unit'),
+    lower(tg_op),
+    diff,
+    uid,
+    (select p.display_name from public.profiles p where p.user_id = uid)
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists handoffs_audit on public.handoffs;
+create trigger handoffs_audit
+after insert or update or delete on public.handoffs
+for each row execute function public.handoffs_audit();
+
+/* =========================
+   APPEND-ONLY
+========================= */
+create or replace function public.handoff_audit_immutable()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'handoff_audit is append-only' using errcode = '42501';
+end;
+$$;
+
+drop trigger if exists handoff_audit_immutable on public.handoff_audit;
+create trigger handoff_audit_immutable
+before update or delete on public.handoff_audit
+for each row execute function public.handoff_audit_immutable();
+
+revoke update, delete, truncate on public.handoff_audit from anon, authenticated;
+
+/* =========================
+   RLS: readable by members of the handoff's unit; written only by the trigger
+========================= */
+alter table public.handoff_audit enable row level security;
+
+drop policy if exists handoff_audit_select on public.handoff_audit;
+create policy handoff_audit_select on public.handoff_audit for select to authenticated
+  using (public.has_role(facility_id, unit, 'tech'));
+
+/* =========================
+   REALTIME (open details panel shows new entries live)
+========================= */
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'handoff_audit'
+  ) then
+    alter publication supabase_realtime add table public.handoff_audit;
+  end if;
+end $$;
@@ -0,0 +1,144 @@
+-- Handoff lifecycle: explicit state machine, editable fields, soft delete.
+--   open -> in_progress -> needs_followup -> resolved -> reopened
+--   cancelled / duplicate close a handoff the same way resolved does
+-- Keep handoff_transition_allowed in sync with TRANSITIONS in app/lib/lifecycle.ts.
+
+/* =========================
+   STATUS VALUES
+========================= */
+do $$
+declare
+  c record;
+begin
+  for c in
+    select conname from pg_constraint
+    where conrelid = 'public.handoffs'::regclass
+      and contype = 'c'
+      and pg_get_constraintdef(oid) ilike '%status%'
+  loop
+    execute format('alter table public.handoffs drop constraint %I', c.conname);
+  end loop;
+end $$;
+
+alter table public.handoffs
+  add constraint handoffs_status_check
+  check (status in ('open', 'in_progress', 'needs_followup', 'resolved', 'reopened', 'cancelled', 'duplicate'));
+
+alter table public.shift_report_items
+  drop constraint if exists shift_report_items_status_check;
+alter table public.shift_report_items
+  add constraint shift_report_items_status_check
+  check (status in ('open', 'in_progress', 'needs_followup', 'reopened'));
+
+/* =========================
+   SOFT DELETE
+========================= */
+alter table public.handoffs
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by uuid references auth.users (id) on delete set null;
+
+drop index if exists public.handoffs_unresolved_idx;
+create index if not exists handoffs_active_idx
+  on public.handoffs (status)
+  where status in ('open', 'in_progress', 'needs_followup', 'reopened') and deleted_at is null;
+
+/* =========================
+   TRANSITIONS
+========================= */
+create or replace function public.handoff_is_closed(p_status text)
+returns boolean
+language sql
+immutable
+as $$
+  select p_status in ('resolved', 'cancelled', 'duplicate')
+$$;
+
+create or replace function public.handoff_transition_allowed(p_from text, p_to text)
+returns boolean
+language sql
+immutable
+as $$
+  select case p_from
+    when 'open'           then p_to in ('in_progress', 'needs_followup', 'resolved', 'cancelled', 'duplicate')
+    when 'in_progress'    then p_to in ('needs_followup', 'resolved', 'cancelled', 'duplicate')
+    when 'needs_followup' then p_to in ('in_progress', 'resolved', 'cancelled', 'duplicate')
+    when 'reopened'       then p_to in ('in_progress', 'needs_followup', 'resolved', 'cancelled', 'duplicate')
+    when 'resolved'       then p_to = 'reopened'
+    when 'cancelled'      then p_to = 'reopened'
+    when 'duplicate'      then p_to = 'reopened'
+    else false
+  end
+$$;
+
+-- Applies to everyone, jobs included: an illegal jump is a bug wherever it comes from
+create or replace function public.handoffs_enforce_lifecycle()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is distinct from old.status
+     and not public.handoff_transition_allowed(old.status, new.status) then
+    raise exception 'Invalid status change: % -> %', old.status, new.status
+      using errcode = '23514';
+  end if;
+
+  if new.deleted_at is distinct from old.deleted_at then
+    new.deleted_by := case when new.deleted_at is null then null else auth.uid() end;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists handoffs_enforce_lifecycle on public.handoffs;
+create trigger handoffs_enforce_lifecycle
+  before update on public.handoffs
+  for each row execute function public.handoffs_enforce_lifecycle();
+
+/* =========================
+   ROLE RULES (replaces the 20261018160000 version)
+   - Closing a Critical handoff (resolved/cancelled/duplicate): shift_lead+
+   - Reopening anything closed: shift_lead+
+   - Downgrading a Critical: shift_lead+
+   - Soft delete / restore: the creator or shift_lead+
+========================= */
+create or replace function public.handoffs_enforce_roles()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  lead boolean;
+begin
+  if auth.uid() is null then
+    return new; -- service role / jobs
+  end if;
+
+  lead := public.has_role(old.facility_id, old.unit, 'shift_lead');
+
+  if not public.handoff_is_closed(old.status) and public.handoff_is_closed(new.status)
+     and old.priority = 'Critical' and not lead then
+    raise exception 'Only a shift lead or above can close a Critical handoff'
+      using errcode = '42501';
+  end if;
+
+  if public.handoff_is_closed(old.status) and not public.handoff_is_closed(new.status) and not lead then
+    raise exception 'Only a shift lead or above can reopen a handoff'
+      using errcode = '42501';
+  end if;
+
+  if old.priority = 'Critical' and new.priority <> 'Critical' and not lead then
+    raise exception 'Only a shift lead or above can downgrade a Critical handoff'
+      using errcode = '42501';
+  end if;
+
+  if new.deleted_at is distinct from old.deleted_at
+     and old.created_by is distinct from auth.uid() and not lead then
+    raise exception 'Only the creator or a shift lead can delete or restore a handoff'
+      using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
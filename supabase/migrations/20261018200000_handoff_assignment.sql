@@ -0,0 +1,111 @@
+-- Assignment: one owner per handoff.
+-- Ownership changes post a `system` update to the timeline so the handoff's
+-- story reads end to end; the audit trail still records the raw field change.
+
+alter table public.handoffs
+  add column if not exists assignee_user_id uuid references auth.users (id) on delete set null,
+  add column if not exists assigned_at timestamptz;
+
+create index if not exists handoffs_assignee_idx
+  on public.handoffs (assignee_user_id)
+  where assignee_user_id is not null;
+
+/* =========================
+   WHO CAN OWN A HANDOFF (members of its unit, any role)
+========================= */
+create or replace function public.user_can_access(p_user uuid, p_facility text, p_unit text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.memberships m
+    where m.user_id = p_user
+      and (m.facility_id is null or m.facility_id = p_facility)
+      and (m.unit is null or p_unit is null or m.unit = p_unit)
+  );
+$$;
+
+-- Picker for "Assign to…": caller must be a member of the unit themselves
+create or replace function public.list_assignable(p_facility text, p_unit text)
+returns table (user_id uuid, display_name text, role_title text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.user_id, p.display_name, p.role_title
+  from public.profiles p
+  where public.has_role(p_facility, p_unit, 'tech')
+    and public.user_can_access(p.user_id, p_facility, p_unit)
+  order by lower(p.display_name);
+$$;
+
+/* =========================
+   TRIGGERS
+========================= */
+create or replace function public.handoffs_assignment_guard()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.assignee_user_id is distinct from old.assignee_user_id then
+    if new.assignee_user_id is not null
+       and not public.user_can_access(new.assignee_user_id, new.facility_id, new.unit) then
+      raise exception 'Assignee is not a member of %/%', new.facility_id, new.unit
+        using errcode = '23514';
+    end if;
+    new.assigned_at := case when new.assignee_user_id is null then null else now() end;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists handoffs_assignment_guard on public.handoffs;
+create trigger handoffs_assignment_guard
+  before update on public.handoffs
+  for each row execute function public.handoffs_assignment_guard();
+
+create or replace function public.handoffs_assignment_note()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  actor uuid := auth.uid();
+  actor_name text;
+  assignee_name text;
+  msg text;
+begin
+  if new.assignee_user_id is not distinct from old.assignee_user_id then
+    return null;
+  end if;
+
+  select display_name into actor_name from public.profiles where user_id = actor;
+  select display_name into assignee_name from public.profiles where user_id = new.assignee_user_id;
+
+  msg := case
+    when new.assignee_user_id is null then
+      format('Unassigned by %s', coalesce(actor_name, 'system'))
+    when new.assignee_user_id = actor then
+      format('Claimed by %s', coalesce(assignee_name, 'unknown user'))
+    else
+      format('Assigned to %s by %s', coalesce(assignee_name, 'unknown user'), coalesce(actor_name, 'system'))
+  end;
+
+  insert into public.handoff_updates (handoff_id, message, source, author_user_id, author_display_name_snapshot)
+  values (new.id, msg, 'system', null, 'System');
+
+  return null;
+end;
+$$;
+
+drop trigger if exists handoffs_assignment_note on public.handoffs;
+create trigger handoffs_assignment_note
+  after update of assignee_user_id on public.handoffs
+  for each row execute function public.handoffs_assignment_note();
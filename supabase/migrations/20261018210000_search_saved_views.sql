@@ -0,0 +1,131 @@
+-- Full-text search over handoff titles + update messages, handoff source,
+-- and per-user saved views.
+--
+-- The search document lives in its own table (one row per handoff) so
+-- refreshing it never touches handoffs and never shows up in the audit trail.
+
+/* =========================
+   HANDOFF SOURCE (filter chip)
+========================= */
+alter table public.handoffs
+  add column if not exists source text not null default 'app'
+  check (source in ('app', 'scan', 'sms', 'system'));
+
+/* =========================
+   SEARCH DOCUMENT
+========================= */
+create table if not exists public.handoff_search (
+  handoff_id uuid primary key references public.handoffs (id) on delete cascade,
+  tsv tsvector not null
+);
+
+create index if not exists handoff_search_tsv_idx on public.handoff_search using gin (tsv);
+
+-- Title weighs more than update text
+create or replace function public.handoff_search_refresh(p_handoff_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.handoff_search (handoff_id, tsv)
+  select h.id,
+         setweight(to_tsvector('english', coalesce(h.title, '')), 'A')
+         || setweight(to_tsvector('english', coalesce(
+              (select string_agg(u.message, ' ') from public.handoff_updates u where u.handoff_id = h.id), ''
+            )), 'B')
+  from public.handoffs h
+  where h.id = p_handoff_id
+  on conflict (handoff_id) do update set tsv = excluded.tsv;
+$$;
+
+create or replace function public.handoffs_search_sync()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.handoff_search_refresh(new.id);
+  return null;
+end;
+$$;
+
+drop trigger if exists handoffs_search_sync on public.handoffs;
+create trigger handoffs_search_sync
+  after insert or update of title on public.handoffs
+  for each row execute function public.handoffs_search_sync();
+
+create or replace function public.handoff_updates_search_sync()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.handoff_search_refresh(new.handoff_id);
+  return null;
+end;
+$$;
+
+drop trigger if exists handoff_updates_search_sync on public.handoff_updates;
+create trigger handoff_updates_search_sync
+  after insert on public.handoff_updates
+  for each row execute function public.handoff_updates_search_sync();
+
+-- Backfill
+select public.handoff_search_refresh(h.id) from public.handoffs h;
+
+alter table public.handoff_search enable row level security;
+
+drop policy if exists handoff_search_select on public.handoff_search;
+create policy handoff_search_select on public.handoff_search for select to authenticated
+  using (exists (select 1 from public.handoffs h where h.id = handoff_id));
+
+/* =========================
+   SEARCH RPC (invoker rights: RLS on handoffs still applies)
+   Every word is a prefix match: "iv ki" finds "IV kits".
+========================= */
+create or replace function public.search_handoffs(p_facility text, p_query text, p_unit text default null)
+returns table (id uuid, rank real)
+language sql
+stable
+as $$
+  with words as (
+    select regexp_replace(w, '[^[:alnum:]]', '', 'g') as w
+    from regexp_split_to_table(lower(trim(coalesce(p_query, ''))), '\s+') w
+  ),
+  q as (
+    select to_tsquery('english', string_agg(w || ':*', ' & ')) as q
+    from words
+    where w <> ''
+  )
+  select h.id, ts_rank(s.tsv, q.q) as rank
+  from q
+  join public.handoff_search s on s.tsv @@ q.q
+  join public.handoffs h on h.id = s.handoff_id
+  where q.q is not null
+    and h.facility_id = p_facility
+    and (p_unit is null or h.unit = p_unit)
+  order by rank desc
+  limit 500;
+$$;
+
+/* =========================
+   SAVED VIEWS (per user; query = the list URL's query string)
+========================= */
+create table if not exists public.saved_views (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) between 1 and 60),
+  query text not null,
+  created_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+alter table public.saved_views enable row level security;
+
+drop policy if exists saved_views_own on public.saved_views;
+create policy saved_views_own on public.saved_views for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
@@ -0,0 +1,253 @@
+-- List pagination + archive of old closed handoffs.
+--
+-- The app loads active handoffs eagerly and pages through closed ones by
+-- (created_at, id) keyset. Closed (or soft-deleted) handoffs older than N days
+-- are moved into handoffs_archive by a daily job: the row, its updates and line
+-- items are snapshotted as jsonb alongside a search document, then the live rows
+-- are removed. Archived handoffs stay reachable through search_handoff_archive.
+
+/* =========================
+   KEYSET PAGING
+========================= */
+create index if not exists handoffs_page_idx
+  on public.handoffs (facility_id, unit, created_at desc, id desc);
+
+/* =========================
+   SHIFT REPORTS KEEP THEIR SNAPSHOTS
+   Items are already snapshotted; don't lose them when a handoff is archived.
+========================= */
+alter table public.shift_report_items
+  drop constraint if exists shift_report_items_handoff_id_fkey;
+
+/* =========================
+   ARCHIVE TABLE (read-only for members; written by the job)
+========================= */
+create table if not exists public.handoffs_archive (
+  id uuid primary key,                -- same id as the live handoff
+  ref bigint,
+  facility_id text,
+  unit text,
+  shift text,
+  title text not null,
+  priority text not null,
+  status text not null,
+  created_at timestamptz not null,
+  closed_at timestamptz not null,     -- last status change (or soft delete)
+  archived_at timestamptz not null default now(),
+  deleted_at timestamptz,
+  row jsonb not null,                 -- full handoff row at archive time
+  updates jsonb not null default '[]'::jsonb,
+  line_items jsonb not null default '[]'::jsonb,
+  tsv tsvector not null
+);
+
+create index if not exists handoffs_archive_context_idx
+  on public.handoffs_archive (facility_id, unit, closed_at desc);
+create index if not exists handoffs_archive_tsv_idx
+  on public.handoffs_archive using gin (tsv);
+
+alter table public.handoffs_archive enable row level security;
+
+drop policy if exists handoffs_archive_select on public.handoffs_archive;
+create policy handoffs_archive_select on public.handoffs_archive for select to authenticated
+  using (public.has_role(facility_id, unit, 'tech'));
+
+revoke insert, update, delete on public.handoffs_archive from anon, authenticated;
+
+/* =========================
+   AUDIT: archive moves show as 'archive', not 'delete'
+========================= */
+alter table public.handoff_audit drop constraint if exists handoff_audit_action_check;
+alter table public.handoff_audit
+  add constraint handoff_audit_action_check check (action in ('insert', 'update', 'delete', 'archive'));
+
+create or replace function public.handoffs_audit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_j jsonb := case when tg_op = 'INSERT' then '{}'::jsonb else to_jsonb(old) end;
+  new_j jsonb := case when tg_op = 'DELETE' then '{}'::jsonb else to_jsonb(new) end;
+  diff jsonb := '{}'::jsonb;
+  k text;
+  uid uuid := auth.uid();
+  row_id uuid := coalesce(new.id, old.id);
+  archiving boolean := coalesce(current_setting('app.archiving', true), '') = 'on';
+begin
+  if tg_op = 'DELETE' and archiving then
+    insert into public.handoff_audit (handoff_id, facility_id, unit, action, changes, actor_user_id)
+    values (row_id, old.facility_id, old.unit, 'archive', '{}'::jsonb, null);
+    return null;
+  end if;
+
+  for k in select jsonb_object_keys(old_j || new_j) loop
+    if k = 'id' then
+      continue;
+    end if;
+    if (old_j -> k) is distinct from (new_j -> k) then
+      diff := diff || jsonb_build_object(k, jsonb_build_object('old', old_j -> k, 'new', new_j -> k));
+    end if;
+  end loop;
+
+  if tg_op = 'UPDATE' and diff = '{}'::jsonb then
+    return null; -- no-op update (e.g. re-saving the same status)
+  end if;
+
+  insert into public.handoff_audit
+    (handoff_id, facility_id, unit, action, changes, actor_user_id, actor_display_name_snapshot)
+  values (
+    row_id,
+    coalesce(new_j ->> 'facility_id', old_j ->> 'facility_id'),
+    coalesce(new_j ->> 'unit', old_j ->> 'unit'),
+    lower(tg_op),
+    diff,
+    uid,
+    (select p.display_name from public.profiles p where p.user_id = uid)
+  );
+  return null;
+end;
+$$;
+
+/* =========================
+   ARCHIVE JOB (service role; /api/jobs/archive)
+========================= */
+create or replace function public.archive_closed_handoffs(p_days integer default 90, p_limit integer default 500)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  ids uuid[];
+begin
+  with candidates as (
+    select h.id,
+           coalesce(
+             h.deleted_at,
+             (select max(a.occurred_at) from public.handoff_audit a
+               where a.handoff_id = h.id and a.changes ? 'status'),
+             h.created_at
+           ) as closed_at
+    from public.handoffs h
+    where public.handoff_is_closed(h.status) or h.deleted_at is not null
+  )
+  select coalesce(array_agg(id), '{}') into ids
+  from (
+    select id from candidates
+    where closed_at < now() - make_interval(days => p_days)
+    order by closed_at
+    limit p_limit
+  ) due;
+
+  if cardinality(ids) = 0 then
+    return 0;
+  end if;
+
+  insert into public.handoffs_archive
+    (id, ref, facility_id, unit, shift, title, priority, status, created_at, closed_at,
+     deleted_at, row, updates, line_items, tsv)
+  select
+    h.id, h.ref, h.facility_id, h.unit, h.shift, h.title, h.priority, h.status, h.created_at,
+    coalesce(
+      h.deleted_at,
+      (select max(a.occurred_at) from public.handoff_audit a
+        where a.handoff_id = h.id and a.changes ? 'status'),
+      h.created_at
+    ),
+    h.deleted_at,
+    to_jsonb(h),
+    coalesce(
+      (select jsonb_agg(jsonb_build_object(
+                'created_at', u.created_at,
+                'message', u.message,
+                'source', u.source,
+                'author_display_name_snapshot', u.author_display_name_snapshot
+              ) order by u.created_at)
+         from public.handoff_updates u where u.handoff_id = h.id),
+      '[]'::jsonb
+    ),
+    coalesce(
+      (select jsonb_agg(to_jsonb(li)) from public.handoff_line_items li where li.handoff_id = h.id),
+      '[]'::jsonb
+    ),
+    coalesce((select s.tsv from public.handoff_search s where s.handoff_id = h.id), ''::tsvector)
+  from public.handoffs h
+  where h.id = any (ids)
+  on conflict (id) do nothing;
+
+  perform set_config('app.archiving', 'on', true);
+  delete from public.handoff_updates where handoff_id = any (ids);
+  delete from public.handoffs where id = any (ids);
+  perform set_config('app.archiving', 'off', true);
+
+  return cardinality(ids);
+end;
+$$;
+
+revoke execute on function public.archive_closed_handoffs(integer, integer) from public, anon, authenticated;
+
+/* =========================
+   SEARCH (live + archive share the prefix-query builder)
+========================= */
+create or replace function public.handoff_prefix_query(p_query text)
+returns tsquery
+language sql
+immutable
+as $$
+  select to_tsquery('english', string_agg(w || ':*', ' & '))
+  from (
+    select regexp_replace(w, '[^[:alnum:]]', '', 'g') as w
+    from regexp_split_to_table(lower(trim(coalesce(p_query, ''))), '\s+') w
+  ) words
+  where w <> '';
+$$;
+
+create or replace function public.search_handoffs(p_facility text, p_query text, p_unit text default null)
+returns table (id uuid, rank real)
+language sql
+stable
+as $$
+  select h.id, ts_rank(s.tsv, q.q) as rank
+  from (select public.handoff_prefix_query(p_query) as q) q
+  join public.handoff_search s on s.tsv @@ q.q
+  join public.handoffs h on h.id = s.handoff_id
+  where q.q is not null
+    and h.facility_id = p_facility
+    and (p_unit is null or h.unit = p_unit)
+  order by rank desc
+  limit 500;
+$$;
+
+-- Invoker rights: RLS on handoffs_archive applies. Soft-deleted rows stay hidden.
+create or replace function public.search_handoff_archive(p_facility text, p_query text, p_unit text default null)
+returns table (
+  id uuid,
+  ref bigint,
+  facility_id text,
+  unit text,
+  shift text,
+  title text,
+  priority text,
+  status text,
+  created_at timestamptz,
+  closed_at timestamptz,
+  archived_at timestamptz,
+  updates jsonb,
+  rank real
+)
+language sql
+stable
+as $$
+  select a.id, a.ref, a.facility_id, a.unit, a.shift, a.title, a.priority, a.status,
+         a.created_at, a.closed_at, a.archived_at, a.updates, ts_rank(a.tsv, q.q) as rank
+  from (select public.handoff_prefix_query(p_query) as q) q
+  join public.handoffs_archive a on a.tsv @@ q.q
+  where q.q is not null
+    and a.deleted_at is null
+    and a.facility_id = p_facility
+    and (p_unit is null or a.unit = p_unit)
+  order by rank desc, a.closed_at desc
+  limit 100;
+$$;
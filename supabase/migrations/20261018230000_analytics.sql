@@ -0,0 +1,240 @@
+-- Analytics for the /dashboard route.
+-- handoffs.closed_at is kept by trigger so time-to-resolve and backlog don't need
+-- to replay the audit trail. handoff_facts unions live + archived handoffs; every
+-- RPC runs with invoker rights, so RLS limits results to the caller's units.
+
+/* =========================
+   CLOSED AT (set on close, cleared on reopen)
+========================= */
+alter table public.handoffs
+  add column if not exists closed_at timestamptz;
+
+create or replace function public.handoffs_track_closed()
+returns trigger
+language plpgsql
+as $$
+begin
+  if public.handoff_is_closed(new.status) then
+    if tg_op = 'INSERT' or not public.handoff_is_closed(old.status) then
+      new.closed_at := now();
+    end if;
+  else
+    new.closed_at := null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists handoffs_track_closed on public.handoffs;
+create trigger handoffs_track_closed
+  before insert or update of status on public.handoffs
+  for each row execute function public.handoffs_track_closed();
+
+-- Backfill from the audit trail (last status change), else creation time.
+-- Derived bookkeeping, not an edit: keep it out of the audit trail.
+alter table public.handoffs disable trigger handoffs_audit;
+
+update public.handoffs h
+set closed_at = coalesce(
+  (select max(a.occurred_at) from public.handoff_audit a
+    where a.handoff_id = h.id and a.changes ? 'status'),
+  h.created_at
+)
+where public.handoff_is_closed(h.status) and h.closed_at is null;
+
+alter table public.handoffs enable trigger handoffs_audit;
+
+create index if not exists handoffs_closed_at_idx
+  on public.handoffs (facility_id, closed_at)
+  where closed_at is not null;
+
+/* =========================
+   FACTS (live + archive)
+========================= */
+create or replace view public.handoff_facts
+with (security_invoker = true)
+as
+  select h.id, h.facility_id, h.unit, h.shift, h.priority, h.title, h.status,
+         h.created_at, h.first_update_at, h.closed_at
+  from public.handoffs h
+  where h.deleted_at is null
+  union all
+  select a.id, a.facility_id, a.unit, a.shift, a.priority, a.title, a.status,
+         a.created_at, (a.row ->> 'first_update_at')::timestamptz, a.closed_at
+  from public.handoffs_archive a
+  where a.deleted_at is null;
+
+/* =========================
+   VOLUME by bucket x priority x shift x unit
+   p_bucket: day | week | month; buckets are local days in p_tz
+========================= */
+create or replace function public.analytics_volume(
+  p_facility text,
+  p_from timestamptz,
+  p_to timestamptz,
+  p_unit text default null,
+  p_bucket text default 'day',
+  p_tz text default 'UTC'
+)
+returns table (bucket date, priority text, shift text, unit text, n bigint)
+language sql
+stable
+as $$
+  select date_trunc(
+           case when p_bucket in ('week', 'month') then p_bucket else 'day' end,
+           f.created_at at time zone p_tz
+         )::date as bucket,
+         f.priority, f.shift, f.unit, count(*) as n
+  from public.handoff_facts f
+  where f.facility_id = p_facility
+    and (p_unit is null or f.unit = p_unit)
+    and f.created_at >= p_from and f.created_at < p_to
+  group by 1, 2, 3, 4
+  order by 1;
+$$;
+
+/* =========================
+   TIMINGS (minutes): first update + resolve, mean / median / p90
+   Rows for overall (priority and shift null), per priority, per shift, per both.
+   Resolve only counts 'resolved' (cancelled / duplicate aren't work done).
+========================= */
+create or replace function public.analytics_timings(
+  p_facility text,
+  p_from timestamptz,
+  p_to timestamptz,
+  p_unit text default null
+)
+returns table (
+  priority text,
+  shift text,
+  n bigint,
+  first_update_n bigint,
+  first_update_mean numeric,
+  first_update_p50 numeric,
+  first_update_p90 numeric,
+  resolve_n bigint,
+  resolve_mean numeric,
+  resolve_p50 numeric,
+  resolve_p90 numeric
+)
+language sql
+stable
+as $$
+  with f as (
+    select f.priority,
+           coalesce(f.shift, '—') as shift, -- so null only ever means "all shifts"
+           extract(epoch from (f.first_update_at - f.created_at)) / 60 as fu,
+           case when f.status = 'resolved'
+                then extract(epoch from (f.closed_at - f.created_at)) / 60 end as rs
+    from public.handoff_facts f
+    where f.facility_id = p_facility
+      and (p_unit is null or f.unit = p_unit)
+      and f.created_at >= p_from and f.created_at < p_to
+  )
+  select f.priority, f.shift,
+         count(*),
+         count(fu),
+         round(avg(fu)::numeric, 1),
+         round((percentile_cont(0.5) within group (order by fu))::numeric, 1),
+         round((percentile_cont(0.9) within group (order by fu))::numeric, 1),
+         count(rs),
+         round(avg(rs)::numeric, 1),
+         round((percentile_cont(0.5) within group (order by rs))::numeric, 1),
+         round((percentile_cont(0.9) within group (order by rs))::numeric, 1)
+  from f
+  group by grouping sets ((), (f.priority), (f.shift), (f.priority, f.shift));
+$$;
+
+/* =========================
+   REPEAT OFFENDERS: titles (case/space-insensitive) and catalog items that
+   keep coming back, most frequent first
+========================= */
+create or replace function public.analytics_repeat_offenders(
+  p_facility text,
+  p_from timestamptz,
+  p_to timestamptz,
+  p_unit text default null,
+  p_limit integer default 10
+)
+returns table (kind text, label text, n bigint, critical_n bigint, units text)
+language sql
+stable
+as $$
+  with f as (
+    select f.id, f.title, f.priority, f.unit
+    from public.handoff_facts f
+    where f.facility_id = p_facility
+      and (p_unit is null or f.unit = p_unit)
+      and f.created_at >= p_from and f.created_at < p_to
+  ),
+  items as (
+    select li.handoff_id, li.item_id from public.handoff_line_items li
+    union all
+    select a.id, (x ->> 'item_id')::uuid
+    from public.handoffs_archive a, jsonb_array_elements(a.line_items) x
+  )
+  (
+    select 'title'::text, min(f.title), count(*), count(*) filter (where f.priority = 'Critical'),
+           string_agg(distinct f.unit, ', ')
+    from f
+    group by lower(regexp_replace(trim(f.title), '\s+', ' ', 'g'))
+    having count(*) > 1
+    order by 3 desc, 4 desc
+    limit p_limit
+  )
+  union all
+  (
+    select 'item'::text, s.item_number || ' · ' || s.description,
+           count(distinct f.id), count(distinct f.id) filter (where f.priority = 'Critical'),
+           string_agg(distinct f.unit, ', ')
+    from f
+    join items i on i.handoff_id = f.id
+    join public.supply_items s on s.id = i.item_id
+    group by s.id, s.item_number, s.description
+    having count(distinct f.id) > 1
+    order by 3 desc, 4 desc
+    limit p_limit
+  );
+$$;
+
+/* =========================
+   BACKLOG TREND: per local day, created / closed that day and still open at
+   end of day (includes handoffs created before the range). Capped at 366 days.
+========================= */
+create or replace function public.analytics_backlog(
+  p_facility text,
+  p_from timestamptz,
+  p_to timestamptz,
+  p_unit text default null,
+  p_tz text default 'UTC'
+)
+returns table (day date, created bigint, closed bigint, open_at_end bigint)
+language sql
+stable
+as $$
+  with days as (
+    select g::date as day,
+           g at time zone p_tz as day_start,
+           (g + interval '1 day') at time zone p_tz as day_end
+    from generate_series(
+      date_trunc('day', greatest(p_from, p_to - interval '366 days') at time zone p_tz),
+      date_trunc('day', (p_to - interval '1 second') at time zone p_tz),
+      interval '1 day'
+    ) g
+  ),
+  f as (
+    select f.created_at, f.closed_at
+    from public.handoff_facts f
+    where f.facility_id = p_facility
+      and (p_unit is null or f.unit = p_unit)
+      and f.created_at < p_to
+  )
+  select d.day,
+         count(f.created_at) filter (where f.created_at >= d.day_start),
+         count(f.created_at) filter (where f.closed_at >= d.day_start and f.closed_at < d.day_end),
+         count(f.created_at) filter (where f.closed_at is null or f.closed_at >= d.day_end)
+  from days d
+  left join f on f.created_at < d.day_end
+  group by d.day
+  order by d.day;
+$$;
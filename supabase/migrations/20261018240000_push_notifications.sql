@@ -0,0 +1,65 @@
+-- Web Push: browser subscriptions + per-user notification preferences.
+-- Both tables are owner-only; the server fan-out (lib/push) reads them with the
+-- service role to pick recipients, apply preferences / quiet hours and drop
+-- subscriptions the push service reports as gone.
+
+create table if not exists public.push_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  endpoint text not null unique,
+  p256dh text not null,
+  auth text not null,
+  user_agent text,
+  created_at timestamptz not null default now(),
+  last_sent_at timestamptz
+);
+
+create index if not exists push_subscriptions_user_idx
+  on public.push_subscriptions (user_id);
+
+create table if not exists public.notification_prefs (
+  user_id uuid primary key default auth.uid() references auth.users (id) on delete cascade,
+  critical boolean not null default true,      -- new Critical handoffs in my units
+  escalation boolean not null default true,    -- SLA escalations in my units
+  assignment boolean not null default true,    -- handoff assigned to me
+  mention boolean not null default true,       -- @mentioned in an update
+  quiet_start time,                            -- both null = no quiet hours
+  quiet_end time,
+  quiet_allow_critical boolean not null default true, -- Critical still comes through
+  timezone text not null default 'UTC',
+  updated_at timestamptz not null default now(),
+  check ((quiet_start is null) = (quiet_end is null))
+);
+
+/* =========================
+   RLS (owner only)
+========================= */
+alter table public.push_subscriptions enable row level security;
+alter table public.notification_prefs enable row level security;
+
+drop policy if exists push_subscriptions_own on public.push_subscriptions;
+create policy push_subscriptions_own on public.push_subscriptions
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+drop policy if exists notification_prefs_own on public.notification_prefs;
+create policy notification_prefs_own on public.notification_prefs
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create or replace function public.notification_prefs_touch()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists notification_prefs_touch on public.notification_prefs;
+create trigger notification_prefs_touch
+before update on public.notification_prefs
+for each row execute function public.notification_prefs_touch();
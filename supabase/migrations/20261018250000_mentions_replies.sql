@@ -0,0 +1,150 @@
+-- @mentions + single-level replies on handoff updates.
+-- A mention is "@" + a person's display name with spaces/punctuation dropped
+-- (any case): "@JaneDoe" mentions "Jane Doe". Only staff of the handoff's
+-- facility can be mentioned. Mentions are resolved once, on insert, into
+-- handoff_mentions (the per-user inbox); renaming later doesn't rewrite them.
+
+alter table public.handoff_updates
+  add column if not exists parent_update_id uuid references public.handoff_updates (id) on delete cascade;
+
+create index if not exists handoff_updates_parent_idx
+  on public.handoff_updates (parent_update_id)
+  where parent_update_id is not null;
+
+create table if not exists public.handoff_mentions (
+  id uuid primary key default gen_random_uuid(),
+  update_id uuid not null references public.handoff_updates (id) on delete cascade,
+  handoff_id uuid not null references public.handoffs (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  author_user_id uuid,
+  created_at timestamptz not null default now(),
+  read_at timestamptz,
+  unique (update_id, user_id)
+);
+
+create index if not exists handoff_mentions_inbox_idx
+  on public.handoff_mentions (user_id, created_at desc);
+
+/* =========================
+   HELPERS
+========================= */
+create or replace function public.mention_handle(p_name text)
+returns text
+language sql
+immutable
+as $$
+  select lower(regexp_replace(coalesce(p_name, ''), '[^[:alnum:]]', '', 'g'));
+$$;
+
+-- Autocomplete: staff with any membership in the facility; caller must be one too
+create or replace function public.list_mentionable(p_facility text)
+returns table (user_id uuid, display_name text, role_title text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.user_id, p.display_name, p.role_title
+  from public.profiles p
+  where public.user_can_access(auth.uid(), p_facility, null)
+    and public.user_can_access(p.user_id, p_facility, null)
+  order by lower(p.display_name);
+$$;
+
+/* =========================
+   TRIGGERS
+========================= */
+-- Replies are one level deep and stay on the parent's handoff
+create or replace function public.handoff_updates_reply_guard()
+returns trigger
+language plpgsql
+as $$
+declare
+  parent record;
+begin
+  if new.parent_update_id is null then
+    return new;
+  end if;
+  select handoff_id, parent_update_id into parent
+  from public.handoff_updates where id = new.parent_update_id;
+  if not found or parent.handoff_id <> new.handoff_id then
+    raise exception 'Reply target is not an update on this handoff' using errcode = '23514';
+  end if;
+  if parent.parent_update_id is not null then
+    new.parent_update_id := parent.parent_update_id; -- reply to a reply joins the thread
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists handoff_updates_reply_guard on public.handoff_updates;
+create trigger handoff_updates_reply_guard
+before insert on public.handoff_updates
+for each row execute function public.handoff_updates_reply_guard();
+
+create or replace function public.handoff_updates_mentions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_facility text;
+begin
+  if new.source = 'system' or position('@' in new.message) = 0 then
+    return null;
+  end if;
+  select facility_id into v_facility from public.handoffs where id = new.handoff_id;
+  if v_facility is null then
+    return null;
+  end if;
+
+  insert into public.handoff_mentions (update_id, handoff_id, user_id, author_user_id)
+  select distinct new.id, new.handoff_id, p.user_id, new.author_user_id
+  from public.profiles p
+  where public.mention_handle(p.display_name) in (
+      select public.mention_handle(m[1])
+      from regexp_matches(new.message, '(?:^|[^[:alnum:]_@])@([[:alnum:]][[:alnum:]._-]*)', 'g') as m
+    )
+    and public.mention_handle(p.display_name) <> ''
+    and p.user_id is distinct from new.author_user_id
+    and public.user_can_access(p.user_id, v_facility, null)
+  on conflict (update_id, user_id) do nothing;
+  return null;
+end;
+$$;
+
+drop trigger if exists handoff_updates_mentions on public.handoff_updates;
+create trigger handoff_updates_mentions
+after insert on public.handoff_updates
+for each row execute function public.handoff_updates_mentions();
+
+/* =========================
+   RLS (inbox is per user; mark read = update read_at)
+========================= */
+alter table public.handoff_mentions enable row level security;
+
+drop policy if exists handoff_mentions_select on public.handoff_mentions;
+create policy handoff_mentions_select on public.handoff_mentions for select to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists handoff_mentions_update on public.handoff_mentions;
+create policy handoff_mentions_update on public.handoff_mentions for update to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+revoke update on public.handoff_mentions from authenticated;
+grant update (read_at) on public.handoff_mentions to authenticated;
+
+/* =========================
+   REALTIME (unread badge)
+========================= */
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'handoff_mentions'
+  ) then
+    alter publication supabase_realtime add table public.handoff_mentions;
+  end if;
+end $$;
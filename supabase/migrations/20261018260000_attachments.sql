@@ -0,0 +1,216 @@
+-- Photo attachments on handoffs and updates.
+-- Files live in the private `handoff-photos` Storage bucket under
+-- <handoff_id>/<attachment_id>.jpg (+ _thumb.jpg). The client compresses and
+-- re-encodes before upload (which also drops EXIF), so only JPEGs land here.
+-- The row is written after both files upload; access follows the handoff.
+-- Archiving keeps the files and copies the rows into handoffs_archive.attachments.
+
+create table if not exists public.handoff_attachments (
+  id uuid primary key,                                  -- client-generated (names the files)
+  handoff_id uuid not null references public.handoffs (id) on delete cascade,
+  update_id uuid references public.handoff_updates (id) on delete cascade, -- null = on the handoff itself
+  store text not null default 'supabase' check (store in ('supabase', 'local')),
+  path text not null,
+  thumb_path text not null,
+  content_type text not null default 'image/jpeg',
+  width int not null check (width > 0),
+  height int not null check (height > 0),
+  bytes int not null check (bytes > 0 and bytes <= 5 * 1024 * 1024),
+  created_by uuid default auth.uid() references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists handoff_attachments_handoff_idx
+  on public.handoff_attachments (handoff_id, created_at);
+
+-- Photo on an update must belong to that update's handoff
+create or replace function public.handoff_attachments_guard()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.update_id is not null and not exists (
+    select 1 from public.handoff_updates u where u.id = new.update_id and u.handoff_id = new.handoff_id
+  ) then
+    raise exception 'Update is not on this handoff' using errcode = '23514';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists handoff_attachments_guard on public.handoff_attachments;
+create trigger handoff_attachments_guard
+before insert on public.handoff_attachments
+for each row execute function public.handoff_attachments_guard();
+
+/* =========================
+   HELPERS
+========================= */
+-- Storage paths start with the handoff id; caller must be able to see that handoff
+create or replace function public.can_see_handoff(p_handoff uuid, p_min_role text default 'tech')
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.handoffs h
+    where h.id = p_handoff
+      and public.has_role(h.facility_id, h.unit, p_min_role)
+  );
+$$;
+
+create or replace function public.photo_path_handoff(p_name text)
+returns uuid
+language sql
+immutable
+as $$
+  select case
+    when split_part(p_name, '/', 1) ~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      then split_part(p_name, '/', 1)::uuid
+  end;
+$$;
+
+/* =========================
+   RLS
+========================= */
+alter table public.handoff_attachments enable row level security;
+
+drop policy if exists handoff_attachments_select on public.handoff_attachments;
+create policy handoff_attachments_select on public.handoff_attachments for select to authenticated
+  using (public.can_see_handoff(handoff_id));
+
+drop policy if exists handoff_attachments_insert on public.handoff_attachments;
+create policy handoff_attachments_insert on public.handoff_attachments for insert to authenticated
+  with check (created_by = auth.uid() and public.can_see_handoff(handoff_id));
+
+-- Uploader removes their own; supervisors can remove any in their units
+drop policy if exists handoff_attachments_delete on public.handoff_attachments;
+create policy handoff_attachments_delete on public.handoff_attachments for delete to authenticated
+  using (created_by = auth.uid() or public.can_see_handoff(handoff_id, 'supervisor'));
+
+/* =========================
+   STORAGE (private bucket; signed URLs for display)
+========================= */
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('handoff-photos', 'handoff-photos', false, 5242880, array['image/jpeg'])
+on conflict (id) do nothing;
+
+drop policy if exists handoff_photos_select on storage.objects;
+create policy handoff_photos_select on storage.objects for select to authenticated
+  using (bucket_id = 'handoff-photos' and public.can_see_handoff(public.photo_path_handoff(name)));
+
+drop policy if exists handoff_photos_insert on storage.objects;
+create policy handoff_photos_insert on storage.objects for insert to authenticated
+  with check (bucket_id = 'handoff-photos' and public.can_see_handoff(public.photo_path_handoff(name)));
+
+drop policy if exists handoff_photos_delete on storage.objects;
+create policy handoff_photos_delete on storage.objects for delete to authenticated
+  using (
+    bucket_id = 'handoff-photos'
+    and (owner = auth.uid() or public.can_see_handoff(public.photo_path_handoff(name), 'supervisor'))
+  );
+
+/* =========================
+   REALTIME (open drawer picks up new photos)
+========================= */
+alter table public.handoff_attachments replica identity full;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'handoff_attachments'
+  ) then
+    alter publication supabase_realtime add table public.handoff_attachments;
+  end if;
+end $$;
+
+/* =========================
+   ARCHIVE (photo rows cascade away with the handoff; snapshot them first)
+   Same job as 20261018220000_pagination_archive, plus the attachments column.
+   The files stay in the bucket, listed by path in the snapshot.
+========================= */
+alter table public.handoffs_archive
+  add column if not exists attachments jsonb not null default '[]'::jsonb;
+
+create or replace function public.archive_closed_handoffs(p_days integer default 90, p_limit integer default 500)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  ids uuid[];
+begin
+  with candidates as (
+    select h.id,
+           coalesce(
+             h.deleted_at,
+             (select max(a.occurred_at) from public.handoff_audit a
+               where a.handoff_id = h.id and a.changes ? 'status'),
+             h.created_at
+           ) as closed_at
+    from public.handoffs h
+    where public.handoff_is_closed(h.status) or h.deleted_at is not null
+  )
+  select coalesce(array_agg(id), '{}') into ids
+  from (
+    select id from candidates
+    where closed_at < now() - make_interval(days => p_days)
+    order by closed_at
+    limit p_limit
+  ) due;
+
+  if cardinality(ids) = 0 then
+    return 0;
+  end if;
+
+  insert into public.handoffs_archive
+    (id, ref, facility_id, unit, shift, title, priority, status, created_at, closed_at,
+     deleted_at, row, updates, line_items, attachments, tsv)
+  select
+    h.id, h.ref, h.facility_id, h.unit, h.shift, h.title, h.priority, h.status, h.created_at,
+    coalesce(
+      h.deleted_at,
+      (select max(a.occurred_at) from public.handoff_audit a
+        where a.handoff_id = h.id and a.changes ? 'status'),
+      h.created_at
+    ),
+    h.deleted_at,
+    to_jsonb(h),
+    coalesce(
+      (select jsonb_agg(jsonb_build_object(
+                'created_at', u.created_at,
+                'message', u.message,
+                'source', u.source,
+                'author_display_name_snapshot', u.author_display_name_snapshot
+              ) order by u.created_at)
+         from public.handoff_updates u where u.handoff_id = h.id),
+      '[]'::jsonb
+    ),
+    coalesce(
+      (select jsonb_agg(to_jsonb(li)) from public.handoff_line_items li where li.handoff_id = h.id),
+      '[]'::jsonb
+    ),
+    coalesce(
+      (select jsonb_agg(to_jsonb(pa) order by pa.created_at)
+         from public.handoff_attachments pa where pa.handoff_id = h.id),
+      '[]'::jsonb
+    ),
+    coalesce((select s.tsv from public.handoff_search s where s.handoff_id = h.id), ''::tsvector)
+  from public.handoffs h
+  where h.id = any (ids)
+  on conflict (id) do nothing;
+
+  perform set_config('app.archiving', 'on', true);
+  delete from public.handoff_updates where handoff_id = any (ids);
+  delete from public.handoffs where id = any (ids);
+  perform set_config('app.archiving', 'off', true);
+
+  return cardinality(ids);
+end;
+$$;
+
+revoke execute on function public.archive_closed_handoffs(integer, integer) from public, anon, authenticated;
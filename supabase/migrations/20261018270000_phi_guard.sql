@@ -0,0 +1,257 @@
+-- PHI screening on handoff titles and update messages.
+-- Patterns are POSIX regexes also compiled by the browser (lib/phi), so they stick
+-- to syntax both engines share: no \b (use explicit boundary groups), no lookbehind.
+-- Global rows (facility_id null) are the defaults; a facility row with the same
+-- key overrides one (e.g. enabled = false, or action 'flag' instead of 'block').
+--   block: the write is rejected (SQLSTATE PH001); the client logs the attempt
+--   flag:  the write goes through and is logged here for review
+-- Logged excerpts are redacted; the log itself never holds the matched text.
+
+create table if not exists public.phi_patterns (
+  id uuid primary key default gen_random_uuid(),
+  facility_id text references public.facilities (id) on update cascade on delete cascade,
+  key text not null,                      -- stable id; facility rows override global rows by key
+  category text not null check (category in ('mrn', 'patient_name', 'dob', 'room_bed', 'phone', 'other')),
+  label text not null,
+  pattern text not null,
+  case_sensitive boolean not null default false,
+  action text not null default 'block' check (action in ('block', 'flag')),
+  enabled boolean not null default true,
+  updated_at timestamptz not null default now(),
+  unique nulls not distinct (facility_id, key)
+);
+
+create table if not exists public.phi_events (
+  id bigint generated always as identity primary key,
+  facility_id text,
+  unit text,
+  field text not null check (field in ('title', 'update', 'sms')),
+  action text not null check (action in ('blocked', 'flagged')),
+  rule_keys text[] not null,
+  excerpt text,                           -- redacted text, for context
+  detected_by text not null check (detected_by in ('client', 'server')),
+  actor_user_id uuid default auth.uid(),
+  actor_display_name_snapshot text,
+  handoff_id uuid,                        -- set when the write went through (flag)
+  created_at timestamptz not null default now()
+);
+
+create index if not exists phi_events_facility_idx
+  on public.phi_events (facility_id, created_at desc);
+
+/* =========================
+   DEFAULT PATTERNS (keep in sync with DEFAULT_PHI_PATTERNS in lib/phi.ts)
+========================= */
+insert into public.phi_patterns (facility_id, key, category, label, pattern, case_sensitive, action)
+values
+  (null, 'mrn', 'mrn', 'MRN',
+   '(^|[^a-z0-9])(mrn|med(ical)?[ .]*rec(ord)?)[ .]*(#|no\.?|num(ber)?)?[ :#=-]*[a-z]{0,2}[0-9]{5,10}', false, 'block'),
+  (null, 'patient_name', 'patient_name', 'Patient name',
+   '(^|[^A-Za-z])([Pp][Tt]\.?|[Pp]atient|PATIENT|PT)[ :-]+((Mr|Mrs|Ms|Dr)\.? +)?(?!(Room|Rm|Bed|Transport|Care|Supply|Supplies|Unit|Floor|Side|Area)([^A-Za-z]|$))[A-Z][a-z]+( +[A-Z][a-z]+)?',
+   true, 'block'),
+  (null, 'patient_name_full', 'patient_name', 'Patient name',
+   '(^|[^a-z])(pt\.?|patient)[ :-]+((mr|mrs|ms|dr)\.? +)?(?!(room|rm|beds?|transport|care|supply|supplies|unit|floor|side|area|lifts?|belongings|charts?|labels?|gowns?|scales?|monitors?|warmers?|stretchers?|wheelchairs?|chairs?|carts?|call|family|education|safety|id|bands?|kits?|trays?|pumps?|bags?|needs?|is|was|has|had|in|on|at|to|for|with|and|or|the|a|an|of|from|no|not|ready|waiting|going)([^a-z]|$))[a-z]{2,} +(?!(room|rm|beds?|transport|care|supply|supplies|unit|floor|side|area|lifts?|belongings|charts?|labels?|gowns?|scales?|monitors?|warmers?|stretchers?|wheelchairs?|chairs?|carts?|call|family|education|safety|id|bands?|kits?|trays?|pumps?|bags?|needs?|is|was|has|had|in|on|at|to|for|with|and|or|the|a|an|of|from|no|not|ready|waiting|going)([^a-z]|$))[a-z]{2,}([^a-z]|$)',
+   false, 'block'),
+  (null, 'dob', 'dob', 'Date of birth',
+   '(^|[^a-z])(dob|d\.o\.b\.?|date of birth|born)[ :-]*[0-9]{1,2}[/.-][0-9]{1,2}[/.-][0-9]{2,4}', false, 'block'),
+  (null, 'room_bed', 'room_bed', 'Room + bed',
+   '(^|[^a-z0-9])(rm|room)[ .#:]*[0-9]{1,4}[a-z]?[ ,/-]*(bed|bd)[ .#:]*[a-z0-9]{1,2}([^a-z0-9]|$)', false, 'block'),
+  (null, 'room_bed_short', 'room_bed', 'Room + bed',
+   '(^|[^a-z0-9])(rm|room)[ .#:]*[0-9]{3,4}[ -]?[a-d]([^a-z0-9]|$)', false, 'block'),
+  (null, 'phone', 'phone', 'Phone number',
+   '(^|[^0-9])(\+?1[ .-]?)?(\([2-9][0-9]{2}\)|[2-9][0-9]{2})[ .-]?[0-9]{3}[ .-][0-9]{4}([^0-9]|$)', false, 'block')
+on conflict do nothing;
+
+/* =========================
+   SCAN / REDACT
+========================= */
+create or replace function public.phi_effective_patterns(p_facility text)
+returns setof public.phi_patterns
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select distinct on (p.key) p.*
+  from public.phi_patterns p
+  where p.facility_id is null or p.facility_id = p_facility
+  order by p.key, p.facility_id nulls last;
+$$;
+
+-- Browser copy of the pattern set (any signed-in member of the facility)
+create or replace function public.phi_patterns_for(p_facility text)
+returns table (key text, category text, label text, pattern text, case_sensitive boolean, action text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select e.key, e.category, e.label, e.pattern, e.case_sensitive, e.action
+  from public.phi_effective_patterns(p_facility) e
+  where e.enabled
+    and (auth.uid() is null or public.user_can_access(auth.uid(), p_facility, null));
+$$;
+
+create or replace function public.phi_scan(p_facility text, p_text text)
+returns table (key text, action text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select e.key, e.action
+  from public.phi_effective_patterns(p_facility) e
+  where e.enabled
+    and coalesce(p_text, '') <> ''
+    and case when e.case_sensitive then p_text ~ e.pattern else p_text ~* e.pattern end;
+$$;
+
+create or replace function public.phi_redact(p_facility text, p_text text)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  e record;
+  out text := coalesce(p_text, '');
+begin
+  for e in select * from public.phi_effective_patterns(p_facility) where enabled loop
+    out := regexp_replace(out, e.pattern, '[redacted]', case when e.case_sensitive then 'g' else 'gi' end);
+  end loop;
+  return left(out, 300);
+end;
+$$;
+
+-- Blocked attempts are logged by the client (the rejected write rolls back with it)
+create or replace function public.log_phi_block(
+  p_facility text,
+  p_unit text,
+  p_field text,
+  p_rule_keys text[],
+  p_excerpt text
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.phi_events
+    (facility_id, unit, field, action, rule_keys, excerpt, detected_by, actor_user_id, actor_display_name_snapshot)
+  select p_facility, p_unit, p_field, 'blocked', coalesce(p_rule_keys, '{}'),
+         public.phi_redact(p_facility, p_excerpt), 'client', auth.uid(),
+         (select display_name from public.profiles where user_id = auth.uid())
+  where auth.uid() is not null and public.user_can_access(auth.uid(), p_facility, null);
+$$;
+
+/* =========================
+   TRIGGERS (server-side check on every write path: app, outbox replay, SMS)
+========================= */
+create or replace function public.phi_guard(
+  p_facility text,
+  p_unit text,
+  p_field text,
+  p_text text,
+  p_handoff uuid,
+  p_actor uuid
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  blocked text[];
+  flagged text[];
+begin
+  select array_agg(s.key) filter (where s.action = 'block'),
+         array_agg(s.key) filter (where s.action = 'flag')
+    into blocked, flagged
+  from public.phi_scan(p_facility, p_text) s;
+
+  if blocked is not null then
+    raise exception 'Looks like PHI (%). Remove it and try again.', array_to_string(blocked, ', ')
+      using errcode = 'PH001', detail = array_to_string(blocked, ',');
+  end if;
+
+  if flagged is not null then
+    insert into public.phi_events
+      (facility_id, unit, field, action, rule_keys, excerpt, detected_by, actor_user_id,
+       actor_display_name_snapshot, handoff_id)
+    values
+      (p_facility, p_unit, p_field, 'flagged', flagged, public.phi_redact(p_facility, p_text), 'server',
+       p_actor, (select display_name from public.profiles where user_id = p_actor), p_handoff);
+  end if;
+end;
+$$;
+
+create or replace function public.handoffs_phi_guard()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' or new.title is distinct from old.title then
+    perform public.phi_guard(new.facility_id, new.unit, 'title', new.title, new.id, auth.uid());
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists handoffs_phi_guard on public.handoffs;
+create trigger handoffs_phi_guard
+before insert or update of title on public.handoffs
+for each row execute function public.handoffs_phi_guard();
+
+create or replace function public.handoff_updates_phi_guard()
+returns trigger
+language plpgsql
+as $$
+declare
+  h record;
+begin
+  if new.source = 'system' then
+    return new;
+  end if;
+  select facility_id, unit into h from public.handoffs where id = new.handoff_id;
+  perform public.phi_guard(h.facility_id, h.unit, case when new.source = 'sms' then 'sms' else 'update' end,
+                           new.message, new.handoff_id, coalesce(new.author_user_id, auth.uid()));
+  return new;
+end;
+$$;
+
+drop trigger if exists handoff_updates_phi_guard on public.handoff_updates;
+create trigger handoff_updates_phi_guard
+before insert on public.handoff_updates
+for each row execute function public.handoff_updates_phi_guard();
+
+/* =========================
+   RLS (members get their effective set via phi_patterns_for; admins manage + review)
+========================= */
+alter table public.phi_patterns enable row level security;
+alter table public.phi_events enable row level security;
+
+-- Defaults are readable by everyone signed in (the admin panel shows what an override replaces)
+drop policy if exists phi_patterns_select on public.phi_patterns;
+create policy phi_patterns_select on public.phi_patterns for select to authenticated
+  using (facility_id is null or public.has_role(facility_id, null, 'admin'));
+
+drop policy if exists phi_patterns_write on public.phi_patterns;
+create policy phi_patterns_write on public.phi_patterns for all to authenticated
+  using (
+    (facility_id is null and public.is_org_admin())
+    or (facility_id is not null and public.has_role(facility_id, null, 'admin'))
+  )
+  with check (
+    (facility_id is null and public.is_org_admin())
+    or (facility_id is not null and public.has_role(facility_id, null, 'admin'))
+  );
+
+drop policy if exists phi_events_select on public.phi_events;
+create policy phi_events_select on public.phi_events for select to authenticated
+  using (public.has_role(facility_id, null, 'admin'));
+
+drop trigger if exists phi_patterns_touch on public.phi_patterns;
+create trigger phi_patterns_touch
+before update on public.phi_patterns
+for each row execute function public.profiles_touch();
@@ -0,0 +1,53 @@
+-- Named checks on handoffs + handoff_updates matching the TypeScript unions in
+-- app/lib/types.ts (Shift, Priority, HandoffStatus, HandoffSource, UpdateSource).
+-- Keep the two in sync (regenerate app/lib/database.types.ts with `npm run db:types`);
+-- app/lib/handoffRepo.ts validates rows against the unions.
+--
+-- Databases that predate 20261018080000_handoffs_base may carry unnamed checks
+-- (or none); those on the same columns are dropped first so each rule exists once.
+
+do $$
+declare
+  c record;
+begin
+  for c in
+    select conrelid::regclass as tbl, conname from pg_constraint
+    where contype = 'c'
+      and (
+        (conrelid = 'public.handoffs'::regclass
+          and pg_get_constraintdef(oid) ~* '\m(shift|priority|source|title)\M'
+          and pg_get_constraintdef(oid) !~* '\mstatus\M')
+        or (conrelid = 'public.handoff_updates'::regclass
+          and pg_get_constraintdef(oid) ~* '\m(source|message)\M')
+      )
+  loop
+    execute format('alter table %s drop constraint %I', c.tbl, c.conname);
+  end loop;
+end $$;
+
+/* =========================
+   HANDOFFS
+========================= */
+alter table public.handoffs
+  add constraint handoffs_shift_check check (shift in ('AM', 'PM', 'NOC')),
+  add constraint handoffs_priority_check check (priority in ('Low', 'Normal', 'High', 'Critical')),
+  add constraint handoffs_source_check check (source in ('app', 'scan', 'sms', 'system')),
+  add constraint handoffs_title_check check (length(btrim(title)) between 1 and 200);
+
+alter table public.handoffs
+  drop constraint if exists handoffs_escalation_count_check;
+alter table public.handoffs
+  add constraint handoffs_escalation_count_check check (escalation_count >= 0);
+
+/* =========================
+   HANDOFF UPDATES
+========================= */
+alter table public.handoff_updates
+  add constraint handoff_updates_source_check check (source in ('app', 'sms', 'system')),
+  add constraint handoff_updates_message_check check (length(btrim(message)) > 0);
+
+alter table public.handoff_updates
+  drop constraint if exists handoff_updates_parent_check;
+alter table public.handoff_updates
+  add constraint handoff_updates_parent_check check (parent_update_id is distinct from id);
+
@@ -0,0 +1,53 @@
+-- Deep links (/h/<id>, /f/<facility>/u/<unit>) show "not found" and "no access"
+-- differently, but RLS hides a row the same way in both cases. This answers only
+-- which one it is; no row data comes back, and a handoff's location stays hidden
+-- from callers who can't read it.
+--   p_handoff set:  that handoff (readable = handoffs_select)
+--   otherwise:      the facility, or one of its units when p_unit is set
+-- Returns 'ok', 'not_found' or 'forbidden'.
+
+create or replace function public.route_access(p_facility text, p_unit text, p_handoff uuid)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_facility text := p_facility;
+  v_unit text := p_unit;
+begin
+  if auth.uid() is null then
+    return 'forbidden';
+  end if;
+
+  if p_handoff is not null then
+    select h.facility_id, h.unit into v_facility, v_unit
+    from public.handoffs h
+    where h.id = p_handoff;
+    if not found then
+      return 'not_found';
+    end if;
+  else
+    if not exists (select 1 from public.facilities f where f.id = v_facility and f.active) then
+      return 'not_found';
+    end if;
+    if v_unit is not null
+       and not exists (
+         select 1 from public.units u
+         where u.facility_id = v_facility and u.code = v_unit and u.active
+       ) then
+      return 'not_found';
+    end if;
+  end if;
+
+  -- The facility overview is open to anyone with a membership there (it lists only their units)
+  if p_handoff is null and v_unit is null then
+    return case when public.my_rank(v_facility) > 0 then 'ok' else 'forbidden' end;
+  end if;
+  return case when public.has_role(v_facility, v_unit, 'tech') then 'ok' else 'forbidden' end;
+end;
+$$;
+
+revoke execute on function public.route_access(text, text, uuid) from public, anon;
+grant execute on function public.route_access(text, text, uuid) to authenticated;
@@ -0,0 +1,103 @@
+-- Handoff templates: routine items (crash cart check, PAR sweep, SPD pickup) saved
+-- once per unit. Members quick-create from them; a recurrence rule lets the
+-- /api/jobs/recurring job create them on schedule:
+--   none    quick-create only
+--   shift   every shift (AM, PM, NOC)
+--   daily   once a day, on `shift`
+--   weekly  on `shift`, on the listed weekdays (0 = Sunday .. 6 = Saturday)
+-- Shift starts (AM 07:00, PM 15:00, NOC 23:00) are in the facility's time zone;
+-- see app/lib/recurrence.ts.
+
+/* =========================
+   FACILITY TIME ZONE (shift clock for the job; null = SHIFT_TIME_ZONE env, else UTC)
+========================= */
+alter table public.facilities
+  add column if not exists time_zone text;
+
+/* =========================
+   TEMPLATES
+========================= */
+create table if not exists public.handoff_templates (
+  id uuid primary key default gen_random_uuid(),
+  facility_id text not null,
+  unit text not null,
+  title text not null check (length(btrim(title)) between 1 and 200),
+  priority text not null default 'Normal' check (priority in ('Low', 'Normal', 'High', 'Critical')),
+  needs_followup boolean not null default false,
+  recurrence text not null default 'none' check (recurrence in ('none', 'shift', 'daily', 'weekly')),
+  shift text check (shift in ('AM', 'PM', 'NOC')),        -- daily / weekly: which shift
+  weekdays smallint[] not null default '{}'
+    check (weekdays <@ array[0, 1, 2, 3, 4, 5, 6]::smallint[]),
+  active boolean not null default true,                    -- paused templates neither run nor show for quick-create
+  created_by uuid default auth.uid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  foreign key (facility_id, unit) references public.units (facility_id, code) on update cascade on delete cascade,
+  constraint handoff_templates_schedule_check check (
+    recurrence in ('none', 'shift')
+    or (recurrence = 'daily' and shift is not null)
+    or (recurrence = 'weekly' and shift is not null and cardinality(weekdays) > 0)
+  )
+);
+
+create index if not exists handoff_templates_unit_idx
+  on public.handoff_templates (facility_id, unit);
+
+drop trigger if exists handoff_templates_touch on public.handoff_templates;
+create trigger handoff_templates_touch
+before update on public.handoff_templates
+for each row execute function public.profiles_touch();
+
+-- Template titles become handoff titles, so they get the same PHI check
+create or replace function public.handoff_templates_phi_guard()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' or new.title is distinct from old.title then
+    perform public.phi_guard(new.facility_id, new.unit, 'title', new.title, null, auth.uid());
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists handoff_templates_phi_guard on public.handoff_templates;
+create trigger handoff_templates_phi_guard
+before insert or update of title on public.handoff_templates
+for each row execute function public.handoff_templates_phi_guard();
+
+/* =========================
+   RUNS (one row per template per shift; the job claims a slot here before
+   inserting, so overlapping or repeated runs never create a handoff twice)
+========================= */
+create table if not exists public.handoff_template_runs (
+  template_id uuid not null references public.handoff_templates (id) on delete cascade,
+  shift_date date not null,                                -- facility-local day the shift starts
+  shift text not null check (shift in ('AM', 'PM', 'NOC')),
+  handoff_id uuid references public.handoffs (id) on delete set null,
+  created_at timestamptz not null default now(),
+  primary key (template_id, shift_date, shift)
+);
+
+/* =========================
+   HANDOFF SOURCE ('template': generated by the job or quick-created)
+========================= */
+alter table public.handoffs
+  drop constraint if exists handoffs_source_check;
+alter table public.handoffs
+  add constraint handoffs_source_check check (source in ('app', 'scan', 'sms', 'system', 'template'));
+
+/* =========================
+   RLS (unit members use templates; shift leads and up manage them; runs are job-only)
+========================= */
+alter table public.handoff_templates enable row level security;
+alter table public.handoff_template_runs enable row level security;
+
+drop policy if exists handoff_templates_select on public.handoff_templates;
+create policy handoff_templates_select on public.handoff_templates for select to authenticated
+  using (public.has_role(facility_id, unit, 'tech'));
+
+drop policy if exists handoff_templates_write on public.handoff_templates;
+create policy handoff_templates_write on public.handoff_templates for all to authenticated
+  using (public.has_role(facility_id, unit, 'shift_lead'))
+  with check (public.has_role(facility_id, unit, 'shift_lead'));
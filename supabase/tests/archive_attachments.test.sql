@@ -0,0 +1,70 @@
+-- Archive job keeps photos (run with `supabase test db`)
+-- Archiving deletes the handoff, which cascades its handoff_attachments rows;
+-- their metadata has to land in handoffs_archive and the files stay in the bucket.
+begin;
+create extension if not exists pgtap with schema extensions;
+
+select plan(5);
+
+insert into public.facilities (id, name) values ('TST', 'Test facility');
+insert into public.units (facility_id, code, name) values ('TST', '4W', '4 West');
+
+-- Soft-deleted 200 days ago: due for the 90-day archive
+insert into public.handoffs (id, facility_id, unit, shift, title, priority, status, created_at, deleted_at)
+values ('00000000-0000-0000-0000-00000000c001', 'TST', '4W', 'AM', 'Suction canister swap', 'Normal', 'open',
+        now() - interval '201 days', now() - interval '200 days');
+
+insert into public.handoff_updates (id, handoff_id, message, created_at)
+values ('00000000-0000-0000-0000-00000000d001', '00000000-0000-0000-0000-00000000c001', 'Swapped',
+        now() - interval '201 days');
+
+insert into public.handoff_attachments
+  (id, handoff_id, update_id, path, thumb_path, width, height, bytes, created_at)
+values
+  ('00000000-0000-0000-0000-00000000e001', '00000000-0000-0000-0000-00000000c001', null,
+   '00000000-0000-0000-0000-00000000c001/00000000-0000-0000-0000-00000000e001.jpg',
+   '00000000-0000-0000-0000-00000000c001/00000000-0000-0000-0000-00000000e001_thumb.jpg',
+   1600, 1200, 250000, now() - interval '201 days'),
+  ('00000000-0000-0000-0000-00000000e002', '00000000-0000-0000-0000-00000000c001',
+   '00000000-0000-0000-0000-00000000d001',
+   '00000000-0000-0000-0000-00000000c001/00000000-0000-0000-0000-00000000e002.jpg',
+   '00000000-0000-0000-0000-00000000c001/00000000-0000-0000-0000-00000000e002_thumb.jpg',
+   1200, 1600, 240000, now() - interval '201 days' + interval '1 minute');
+
+insert into storage.objects (bucket_id, name)
+values ('handoff-photos', '00000000-0000-0000-0000-00000000c001/00000000-0000-0000-0000-00000000e001.jpg');
+
+select is(public.archive_closed_handoffs(90, 500), 1, 'the old handoff is archived');
+
+select is(
+  (select count(*) from public.handoff_attachments where handoff_id = '00000000-0000-0000-0000-00000000c001'),
+  0::bigint,
+  'its live photo rows are gone with it'
+);
+
+select is(
+  (select jsonb_array_length(attachments) from public.handoffs_archive
+    where id = '00000000-0000-0000-0000-00000000c001'),
+  2,
+  'both photos (handoff and update) are snapshotted'
+);
+
+select is(
+  (select attachments -> 1 ->> 'update_id' from public.handoffs_archive
+    where id = '00000000-0000-0000-0000-00000000c001'),
+  '00000000-0000-0000-0000-00000000d001',
+  'the snapshot keeps which update a photo was on'
+);
+
+select ok(
+  exists (
+    select 1 from storage.objects
+    where bucket_id = 'handoff-photos'
+      and name = (select attachments -> 0 ->> 'path' from public.handoffs_archive
+                   where id = '00000000-0000-0000-0000-00000000c001')
+  ),
+  'the file stays in the bucket, reachable from the archive'
+);
+
+select * from finish();
+rollback;
@@ -0,0 +1,62 @@
+-- Facility-level role checks (run with `supabase test db`)
+-- A unit-scoped admin manages its unit only: it can't grant or list facility-wide
+-- roles, and facility-level has_role() doesn't count it.
+begin;
+create extension if not exists pgtap with schema extensions;
+
+select plan(9);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-0000000000a1', 'unit-admin@test.local'),
+  ('00000000-0000-0000-0000-0000000000a2', 'facility-admin@test.local'),
+  ('00000000-0000-0000-0000-0000000000b1', 'tech@test.local');
+
+insert into public.facilities (id, name) values ('TST', 'Test facility');
+insert into public.units (facility_id, code, name) values ('TST', '4W', '4 West'), ('TST', '5E', '5 East');
+
+insert into public.memberships (user_id, facility_id, unit, role) values
+  ('00000000-0000-0000-0000-0000000000a1', 'TST', '4W', 'admin'),
+  ('00000000-0000-0000-0000-0000000000a2', 'TST', null, 'admin');
+
+-- As the unit admin
+set local role authenticated;
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated"}', true);
+
+select ok(public.has_role('TST', '4W', 'admin'), 'unit admin is admin of its unit');
+select ok(not public.has_role('TST', null, 'admin'), 'unit admin is not a facility admin');
+select ok(not public.has_role('TST', '5E', 'tech'), 'unit admin has no role in another unit');
+
+select throws_ok(
+  $$ select public.grant_role('tech@test.local', 'TST', null, 'tech') $$,
+  '42501', null, 'unit admin cannot grant a facility-scoped role'
+);
+select throws_ok(
+  $$ insert into public.memberships (user_id, facility_id, unit, role)
+     values ('00000000-0000-0000-0000-0000000000b1', 'TST', null, 'admin') $$,
+  '42501', null, 'unit admin cannot insert a facility-scoped membership directly'
+);
+select lives_ok(
+  $$ select public.grant_role('tech@test.local', 'TST', '4W', 'tech') $$,
+  'unit admin can grant a role in its own unit'
+);
+select is(
+  (select count(*) from public.list_members('TST') where unit is null),
+  0::bigint,
+  'unit admin does not see facility-wide members'
+);
+
+-- As the facility admin
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a2", "role": "authenticated"}', true);
+
+select lives_ok(
+  $$ select public.grant_role('tech@test.local', 'TST', null, 'tech') $$,
+  'facility admin can grant a facility-scoped role'
+);
+select is(
+  (select count(*) from public.list_members('TST')),
+  4::bigint,
+  'facility admin sees every member of the facility'
+);
+
+select * from finish();
+rollback;
@@ -0,0 +1,85 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { args, mockSupabase, Query, Result } from "../supabaseMock";
+import { handoff } from "../fixtures";
+
+const admin = vi.hoisted(() => ({ respond: (_q: Query): Result => ({ data: null }) }));
+const notify = vi.hoisted(() => vi.fn(async () => {}));
+const sb = vi.hoisted(() => ({ current: null as ReturnType<typeof mockSupabase> | null }));
+
+vi.mock("../../app/lib/supabaseAdmin", async () => {
+  const { mockSupabase } = await import("../supabaseMock");
+  return {
+    createAdminClient: () => {
+      sb.current = mockSupabase({ respond: (q) => admin.respond(q) });
+      return sb.current.client;
+    },
+  };
+});
+vi.mock("../../app/lib/notify", () => ({ defaultNotifier: () => notify }));
+
+import { POST } from "../../app/api/hooks/handoffs/route";
+
+function hook(payload: unknown) {
+  return POST(
+    new Request("http://localhost/api/hooks/handoffs", {
+      method: "POST",
+      headers: { authorization: "Bearer hook-secret", "content-type": "application/json" },
+      body: JSON.stringify(payload),
+    })
+  );
+}
+
+describe("POST /api/hooks/handoffs", () => {
+  beforeEach(() => {
+    vi.stubEnv("WEBHOOK_SECRET", "hook-secret");
+    notify.mockClear();
+    sb.current = null;
+    admin.respond = () => ({ data: null });
+  });
+  afterEach(() => vi.unstubAllEnvs());
+
+  it("alerts on a new open Critical handoff", async () => {
+    const res = await hook({ type: "INSERT", table: "handoffs", record: handoff({ priority: "Critical" }) });
+    expect(res.status).toBe(200);
+    expect(notify).toHaveBeenCalledWith(expect.objectContaining({ type: "critical_created" }));
+  });
+
+  it("stays quiet for a Critical handoff inserted closed or deleted", async () => {
+    for (const over of [
+      { status: "cancelled" as const },
+      { status: "duplicate" as const },
+      { deleted_at: "2026-10-18T08:00:00.000Z" },
+    ]) {
+      const res = await hook({ type: "INSERT", table: "handoffs", record: handoff({ priority: "Critical", ...over }) });
+      expect(res.status).toBe(200);
+    }
+    expect(notify).not.toHaveBeenCalled();
+  });
+
+  it("finds the assigner by the audit trail's occurred_at and notifies the new owner", async () => {
+    admin.respond = (q) => (q.table === "handoff_audit" ? { data: { actor_user_id: "u-lead" } } : { data: null });
+    const res = await hook({
+      type: "UPDATE",
+      table: "handoffs",
+      record: handoff({ assignee_user_id: "u-2" }),
+      old_record: handoff({ assignee_user_id: null }),
+    });
+
+    expect(res.status).toBe(200);
+    const audit = sb.current!.queries.find((q) => q.table === "handoff_audit")!;
+    expect(args(audit, "order")).toEqual(["occurred_at", { ascending: false }]);
+    expect(notify).toHaveBeenCalledWith(expect.objectContaining({ type: "assigned", assigneeUserId: "u-2" }));
+  });
+
+  it("doesn't notify someone who claimed it themselves", async () => {
+    admin.respond = (q) => (q.table === "handoff_audit" ? { data: { actor_user_id: "u-2" } } : { data: null });
+    await hook({
+      type: "UPDATE",
+      table: "handoffs",
+      record: handoff({ assignee_user_id: "u-2" }),
+      old_record: handoff({ assignee_user_id: null }),
+    });
+    expect(notify).not.toHaveBeenCalled();
+  });
+});
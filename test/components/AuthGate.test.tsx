@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import AuthGate from "../../app/components/AuthGate";
+import { mockSupabase } from "../supabaseMock";
+
+describe("AuthGate", () => {
+  it("shows the setup hint without a client", () => {
+    render(<AuthGate supabase={null} build="test" />);
+    expect(screen.getByText(/Missing Supabase env vars/)).toBeTruthy();
+    expect(screen.queryByRole("button")).toBeNull();
+  });
+
+  it("asks for an email before sending", async () => {
+    const sb = mockSupabase();
+    render(<AuthGate supabase={sb.client} build="test" />);
+    fireEvent.click(screen.getByRole("button", { name: "Send magic link" }));
+    expect(await screen.findByText("Enter your email.")).toBeTruthy();
+    expect(sb.auth.signInWithOtp).not.toHaveBeenCalled();
+  });
+
+  it("sends a magic link back to the page that was opened", async () => {
+    window.history.replaceState(null, "", "/h/7d0f1c9e-2f4b-4a51-9c3e-0a6b8e5d4f21?h=x&sort=newest");
+    const sb = mockSupabase();
+    render(<AuthGate supabase={sb.client} build="test" />);
+    fireEvent.change(screen.getByLabelText("Email"), { target: { value: "  sam@hospital.org " } });
+    fireEvent.click(screen.getByRole("button", { name: "Send magic link" }));
+
+    expect(await screen.findByText("Magic link sent. Check your email.")).toBeTruthy();
+    expect(sb.auth.signInWithOtp).toHaveBeenCalledWith({
+      email: "sam@hospital.org",
+      options: { emailRedirectTo: `${window.location.origin}/h/7d0f1c9e-2f4b-4a51-9c3e-0a6b8e5d4f21?sort=newest` },
+    });
+    window.history.replaceState(null, "", "/");
+  });
+
+  it("shows send failures and the session error", async () => {
+    const sb = mockSupabase();
+    sb.auth.signInWithOtp.mockResolvedValueOnce({ data: {}, error: { message: "Email rate limit exceeded" } });
+    render(<AuthGate supabase={sb.client} error="Refresh token expired" build="test" />);
+    expect(screen.getByText("Refresh token expired")).toBeTruthy();
+
+    fireEvent.change(screen.getByLabelText("Email"), { target: { value: "sam@hospital.org" } });
+    fireEvent.keyDown(screen.getByLabelText("Email"), { key: "Enter" });
+    await waitFor(() => expect(screen.getByText("Email rate limit exceeded")).toBeTruthy());
+  });
+});
@@ -0,0 +1,144 @@
+import React, { useState } from "react";
+import { describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import CreateHandoffForm from "../../app/components/CreateHandoffForm";
+import { DEFAULT_PHI_PATTERNS } from "../../app/lib/phi";
+import { mockSupabase } from "../supabaseMock";
+import type { HandoffDraft, HandoffTemplate, SupplyItem } from "../../app/lib/types";
+
+const EMPTY: HandoffDraft = {
+  title: "",
+  shift: "AM",
+  priority: "Normal",
+  needsFollowup: false,
+  source: "app",
+  lines: [],
+  showLines: false,
+};
+
+const gauze: SupplyItem = {
+  id: "i-1",
+  item_number: "100234",
+  description: "Gauze 4x4",
+  unit_of_measure: "EA",
+  par_level: 40,
+  bin_location: "A3",
+};
+
+// The page owns the draft; this stands in for it
+function Harness({
+  initial = EMPTY,
+  onCreate = () => {},
+  supabase = mockSupabase().client,
+  spy,
+}: {
+  initial?: HandoffDraft;
+  onCreate?: () => void;
+  supabase?: ReturnType<typeof mockSupabase>["client"];
+  spy?: (d: HandoffDraft) => void;
+}) {
+  const [draft, setDraft] = useState(initial);
+  return (
+    <CreateHandoffForm
+      supabase={supabase}
+      draft={draft}
+      onChange={(patch) =>
+        setDraft((d) => {
+          const next = { ...d, ...patch };
+          spy?.(next);
+          return next;
+        })
+      }
+      phiPatterns={DEFAULT_PHI_PATTERNS}
+      creating={false}
+      disabled={false}
+      message=""
+      onCreate={onCreate}
+      onScan={() => {}}
+    />
+  );
+}
+
+describe("CreateHandoffForm", () => {
+  it("edits the draft fields", () => {
+    const spy = vi.fn();
+    render(<Harness spy={spy} />);
+    fireEvent.change(screen.getByLabelText("Title"), { target: { value: "Out of gauze" } });
+    fireEvent.change(screen.getByLabelText("Priority"), { target: { value: "High" } });
+    fireEvent.click(screen.getByLabelText("Needs follow-up"));
+    expect(spy).toHaveBeenLastCalledWith(
+      expect.objectContaining({ title: "Out of gauze", priority: "High", needsFollowup: true })
+    );
+  });
+
+  it("warns about patient info and redacts in place", () => {
+    render(<Harness initial={{ ...EMPTY, title: "Walker for MRN 1234567" }} />);
+    expect(screen.getByRole("alert").textContent).toContain("Remove patient info to submit: MRN");
+    fireEvent.click(screen.getByRole("button", { name: "Redact" }));
+    expect((screen.getByLabelText("Title") as HTMLInputElement).value).toBe("Walker for [MRN]");
+    expect(screen.queryByRole("alert")).toBeNull();
+  });
+
+  it("adds a catalog item as a line and pre-fills an empty title", async () => {
+    const sb = mockSupabase({ respond: (q) => ({ data: q.table === "supply_items" ? [gauze] : [] }) });
+    const spy = vi.fn();
+    render(<Harness supabase={sb.client} spy={spy} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "+ Add supply items" }));
+    fireEvent.change(screen.getByPlaceholderText("Search item # or description…"), { target: { value: "gauze" } });
+    fireEvent.click(await screen.findByText("Gauze 4x4"));
+
+    const draft: HandoffDraft = spy.mock.calls[spy.mock.calls.length - 1][0];
+    expect(draft.title).toBe("Short: Gauze 4x4");
+    expect(draft.lines).toHaveLength(1);
+    expect(draft.lines[0]).toMatchObject({ item_id: "i-1", qty_needed: 40, handoff_id: "" });
+
+    fireEvent.change(screen.getByPlaceholderText("Short"), { target: { value: "-3" } });
+    expect(spy.mock.calls[spy.mock.calls.length - 1][0].lines[0].qty_short).toBe(0);
+
+    fireEvent.click(screen.getByRole("button", { name: "Remove item" }));
+    expect(spy.mock.calls[spy.mock.calls.length - 1][0].lines).toEqual([]);
+  });
+
+  it("quick-creates from an active template", () => {
+    const onQuickCreate = vi.fn();
+    const crashCart: HandoffTemplate = {
+      id: "t-1",
+      facility_id: "PHC",
+      unit: "Main",
+      title: "Crash cart check",
+      priority: "High",
+      needs_followup: false,
+      recurrence: "shift",
+      shift: null,
+      weekdays: [],
+      active: true,
+    };
+    render(
+      <CreateHandoffForm
+        supabase={mockSupabase().client}
+        draft={EMPTY}
+        onChange={() => {}}
+        phiPatterns={DEFAULT_PHI_PATTERNS}
+        creating={false}
+        disabled={false}
+        message=""
+        onCreate={() => {}}
+        onScan={() => {}}
+        templates={[crashCart, { ...crashCart, id: "t-2", title: "PAR sweep", active: false }]}
+        onQuickCreate={onQuickCreate}
+      />
+    );
+    expect(screen.queryByText("+ PAR sweep")).toBeNull();
+    expect(screen.queryByRole("button", { name: "Templates" })).toBeNull();
+    fireEvent.click(screen.getByRole("button", { name: "+ Crash cart check" }));
+    expect(onQuickCreate).toHaveBeenCalledWith(crashCart);
+  });
+
+  it("submits through onCreate", () => {
+    const onCreate = vi.fn();
+    render(<Harness onCreate={onCreate} />);
+    fireEvent.click(screen.getByRole("button", { name: "Create" }));
+    expect(onCreate).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import HandoffCard from "../../app/components/HandoffCard";
+import { DEFAULT_SLA } from "../../app/lib/sla";
+import { handoff } from "../fixtures";
+import type { Handoff } from "../../app/lib/types";
+
+function renderCard(h: Handoff, over: { owner?: string | null; pending?: boolean; onOpen?: (id: string) => void } = {}) {
+  return render(
+    <HandoffCard
+      handoff={h}
+      owner={over.owner ?? null}
+      selected={false}
+      pending={over.pending ?? false}
+      slaConfig={DEFAULT_SLA}
+      now={Date.parse(h.created_at)}
+      onOpen={over.onOpen ?? (() => {})}
+    />
+  );
+}
+
+describe("HandoffCard", () => {
+  it("shows title, priority, ref and context", () => {
+    renderCard(handoff());
+    expect(screen.getByText("Missing IV start kits")).toBeTruthy();
+    expect(screen.getByText("Normal")).toBeTruthy();
+    expect(screen.getByText(/#101/).textContent).toContain("PHC · Main");
+    expect(screen.getByText("Open")).toBeTruthy();
+  });
+
+  it("flags unassigned Critical and pulses it", () => {
+    const { container } = renderCard(handoff({ priority: "Critical" }));
+    expect(screen.getByText("Unassigned")).toBeTruthy();
+    expect(container.querySelector("button")!.className).toContain("cs-critical-pulse");
+  });
+
+  it("shows the owner instead once claimed", () => {
+    renderCard(handoff({ priority: "Critical", assignee_user_id: "u-1" }), { owner: "You" });
+    expect(screen.getByText("Owner: You")).toBeTruthy();
+    expect(screen.queryByText("Unassigned")).toBeNull();
+  });
+
+  it("marks closed, deleted and pending rows", () => {
+    const { container } = renderCard(
+      handoff({ priority: "Critical", status: "resolved", deleted_at: "2026-10-18T09:00:00Z" }),
+      { pending: true }
+    );
+    expect(screen.getByText("Resolved")).toBeTruthy();
+    expect(screen.getByText("Deleted")).toBeTruthy();
+    expect(screen.getByText("Pending sync")).toBeTruthy();
+    expect(screen.getByText("Closed")).toBeTruthy();
+    expect(container.querySelector("button")!.className).not.toContain("cs-critical-pulse");
+  });
+
+  it("opens on click", () => {
+    const onOpen = vi.fn();
+    renderCard(handoff(), { onOpen });
+    fireEvent.click(screen.getByRole("button"));
+    expect(onOpen).toHaveBeenCalledWith("h-1");
+  });
+});
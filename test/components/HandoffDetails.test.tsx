@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import HandoffDetails from "../../app/components/HandoffDetails";
+import { DEFAULT_PHI_PATTERNS } from "../../app/lib/phi";
+import { DEFAULT_SLA } from "../../app/lib/sla";
+import { mockSupabase } from "../supabaseMock";
+import { handoff } from "../fixtures";
+import type { Handoff } from "../../app/lib/types";
+
+function renderDetails(h: Handoff, over: Partial<React.ComponentProps<typeof HandoffDetails>> = {}) {
+  const props: React.ComponentProps<typeof HandoffDetails> = {
+    supabase: mockSupabase().client,
+    handoff: h,
+    pending: false,
+    slaConfig: DEFAULT_SLA,
+    now: Date.parse(h.created_at),
+    people: {},
+    sessionUserId: "u-1",
+    memberships: [],
+    units: [],
+    phiPatterns: DEFAULT_PHI_PATTERNS,
+    onAssign: () => {},
+    onSetStatus: () => {},
+    onEdit: () => {},
+    onSetDeleted: () => {},
+    onPhiBlocked: () => {},
+    lines: [],
+    loadingLines: false,
+    photos: [],
+    photoUrls: {},
+    uploadingPhotos: false,
+    onAddPhotos: () => {},
+    onOpenPhoto: () => {},
+    ...over,
+  };
+  return render(<HandoffDetails {...props} />);
+}
+
+describe("HandoffDetails", () => {
+  it("renders the handoff with its timeline slot", () => {
+    renderDetails(handoff({ status: "needs_followup" }), { children: <div>timeline here</div> });
+    expect(screen.getByText("Missing IV start kits")).toBeTruthy();
+    expect(screen.getByText(/#101/).textContent).toContain("PHC · Main");
+    // header chip plus the status control
+    expect(screen.getAllByText("Follow-up")).toHaveLength(2);
+    expect(screen.getByText("timeline here")).toBeTruthy();
+  });
+
+  it("has a Close button only as the drawer", () => {
+    const { unmount } = renderDetails(handoff());
+    expect(screen.queryByRole("button", { name: "Close" })).toBeNull();
+    unmount();
+
+    const onClose = vi.fn();
+    renderDetails(handoff(), { onClose });
+    fireEvent.click(screen.getByRole("button", { name: "Close" }));
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it("claims for the signed-in user", () => {
+    const onAssign = vi.fn();
+    renderDetails(handoff(), { onAssign, people: { "u-1": "Sam (CS)" } });
+    fireEvent.click(screen.getByRole("button", { name: "Claim" }));
+    expect(onAssign).toHaveBeenCalledWith("u-1", "Sam (CS)");
+  });
+
+  it("blocks photo uploads while the handoff is still pending sync", () => {
+    renderDetails(handoff(), { pending: true });
+    expect(screen.getByText("Pending sync")).toBeTruthy();
+    expect((screen.getByRole("button", { name: "Add photo" }) as HTMLButtonElement).disabled).toBe(true);
+  });
+});
@@ -0,0 +1,101 @@
+import React from "react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import HandoffList from "../../app/components/HandoffList";
+import { DEFAULT_SLA } from "../../app/lib/sla";
+import { handoff } from "../fixtures";
+import type { Handoff } from "../../app/lib/types";
+
+// The closed-page sentinel; jsdom has no IntersectionObserver
+const observers: ((entries: { isIntersecting: boolean }[]) => void)[] = [];
+
+function renderList(over: Partial<React.ComponentProps<typeof HandoffList>> = {}) {
+  const props: React.ComponentProps<typeof HandoffList> = {
+    handoffs: [] as Handoff[],
+    loading: false,
+    filtered: false,
+    mineOnly: false,
+    onMineOnly: vi.fn(),
+    showDeleted: false,
+    onShowDeleted: vi.fn(),
+    exporting: false,
+    onExport: vi.fn(),
+    onPrintSummary: vi.fn(),
+    unitSummaries: [],
+    onPickUnit: vi.fn(),
+    people: {},
+    sessionUserId: "u-1",
+    selectedId: null,
+    pending: new Set(),
+    slaConfig: DEFAULT_SLA,
+    now: Date.parse("2026-10-18T08:00:00.000Z"),
+    onOpen: vi.fn(),
+    hasMore: false,
+    loadingMore: false,
+    onLoadMore: vi.fn(),
+    archived: [],
+    ...over,
+  };
+  render(<HandoffList {...props} />);
+  return props;
+}
+
+describe("HandoffList", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    observers.length = 0;
+  });
+
+  it("says why it's empty", () => {
+    renderList();
+    expect(screen.getByText("No handoffs yet.")).toBeTruthy();
+    renderList({ filtered: true });
+    expect(screen.getByText("No handoffs match these filters.")).toBeTruthy();
+  });
+
+  it("lists cards with their owner and opens one", () => {
+    const props = renderList({ handoffs: [handoff({ priority: "Critical", assignee_user_id: "u-1" })] });
+    expect(screen.getByText("(1)")).toBeTruthy();
+    expect(screen.getByText("Owner: You")).toBeTruthy();
+    fireEvent.click(screen.getByText("Missing IV start kits"));
+    expect(props.onOpen).toHaveBeenCalledWith("h-1");
+  });
+
+  it("toggles and exports", () => {
+    const props = renderList();
+    fireEvent.click(screen.getByLabelText("My handoffs"));
+    expect(props.onMineOnly).toHaveBeenCalledWith(true);
+    fireEvent.click(screen.getByLabelText("Show deleted"));
+    expect(props.onShowDeleted).toHaveBeenCalledWith(true);
+    fireEvent.click(screen.getByText("PDF"));
+    expect(props.onExport).toHaveBeenCalledWith("pdf");
+  });
+
+  it("switches to a unit from the overview tiles", () => {
+    const props = renderList({
+      unitSummaries: [{ unit: { facility_id: "PHC", code: "4W", name: "4 West", active: true }, open: 3, critical: 1 }],
+    });
+    expect(screen.getByText("1 Critical")).toBeTruthy();
+    fireEvent.click(screen.getByText("4 West"));
+    expect(props.onPickUnit).toHaveBeenCalledWith("4W");
+  });
+
+  it("pulls the next closed page when the sentinel scrolls into view", () => {
+    vi.stubGlobal(
+      "IntersectionObserver",
+      class {
+        constructor(cb: (entries: { isIntersecting: boolean }[]) => void) {
+          observers.push(cb);
+        }
+        observe() {}
+        disconnect() {}
+      }
+    );
+    const props = renderList({ hasMore: true });
+    expect(observers).toHaveLength(1);
+    observers[0]([{ isIntersecting: true }]);
+    expect(props.onLoadMore).toHaveBeenCalledTimes(1);
+    fireEvent.click(screen.getByText("Load older closed handoffs"));
+    expect(props.onLoadMore).toHaveBeenCalledTimes(2);
+  });
+});
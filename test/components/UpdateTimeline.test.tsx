@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import UpdateTimeline from "../../app/components/UpdateTimeline";
+import { buildTimeline } from "../../app/lib/audit";
+import { update } from "../fixtures";
+import type { HandoffAuditEntry } from "../../app/lib/types";
+
+const audit: HandoffAuditEntry = {
+  id: 1,
+  handoff_id: "h-1",
+  action: "update",
+  changes: { priority: { old: "Normal", new: "High" } },
+  actor_user_id: "u-2",
+  actor_display_name_snapshot: "Lee (RN)",
+  occurred_at: "2026-10-18T08:01:00.000Z",
+};
+
+function renderTimeline(over: Partial<React.ComponentProps<typeof UpdateTimeline>> = {}) {
+  const props: React.ComponentProps<typeof UpdateTimeline> = {
+    timeline: [],
+    loading: false,
+    pending: new Set(),
+    myHandle: null,
+    replyingTo: null,
+    onReply: () => {},
+    photos: new Map(),
+    photoUrls: {},
+    onOpenPhoto: () => {},
+    onExportCsv: () => {},
+    onExportPdf: () => {},
+    ...over,
+  };
+  return render(<UpdateTimeline {...props} />);
+}
+
+describe("UpdateTimeline", () => {
+  it("says so when there are no updates, even with audit lines", () => {
+    renderTimeline({ timeline: buildTimeline([], [audit]) });
+    expect(screen.getByText("No updates yet.")).toBeTruthy();
+    expect(screen.getByText(/Lee \(RN\)/)).toBeTruthy();
+  });
+
+  it("renders updates with replies and the composer below", () => {
+    const updates = [update(), update({ id: "up-2", parent_update_id: "up-1", message: "Thanks!" })];
+    renderTimeline({ timeline: buildTimeline(updates, []), children: <textarea aria-label="composer" /> });
+    expect(screen.queryByText("No updates yet.")).toBeNull();
+    expect(screen.getByText("Restocked from 3W")).toBeTruthy();
+    expect(screen.getByText("Thanks!")).toBeTruthy();
+    expect(screen.getByLabelText("composer")).toBeTruthy();
+  });
+
+  it("hands the update to onReply", () => {
+    const onReply = vi.fn();
+    renderTimeline({ timeline: buildTimeline([update()], []), onReply });
+    fireEvent.click(screen.getByRole("button", { name: "Reply" }));
+    expect(onReply).toHaveBeenCalledWith(update());
+  });
+
+  it("shows loading and both errors; export buttons call through", () => {
+    const onExportCsv = vi.fn();
+    renderTimeline({ loading: true, error: "Failed to load updates", auditError: "Failed to load history", onExportCsv });
+    expect(screen.getByText("Loading…")).toBeTruthy();
+    expect(screen.getByText("Failed to load updates")).toBeTruthy();
+    expect(screen.getByText("Failed to load history")).toBeTruthy();
+    fireEvent.click(screen.getByRole("button", { name: "Export CSV" }));
+    expect(onExportCsv).toHaveBeenCalled();
+  });
+});
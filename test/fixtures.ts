@@ -0,0 +1,39 @@
+import type { Handoff, HandoffUpdate } from "../app/lib/types";
+
+// Valid rows (they pass handoffRepo's validation); override what the test is about
+export function handoff(over: Partial<Handoff> = {}): Handoff {
+  return {
+    id: "h-1",
+    ref: 101,
+    facility_id: "PHC",
+    unit: "Main",
+    shift: "AM",
+    title: "Missing IV start kits",
+    priority: "Normal",
+    status: "open",
+    created_at: "2026-10-18T08:00:00.000Z",
+    created_by: "u-1",
+    source: "app",
+    first_update_at: null,
+    escalated_at: null,
+    escalation_count: 0,
+    assignee_user_id: null,
+    closed_at: null,
+    deleted_at: null,
+    ...over,
+  };
+}
+
+export function update(over: Partial<HandoffUpdate> = {}): HandoffUpdate {
+  return {
+    id: "up-1",
+    handoff_id: "h-1",
+    message: "Restocked from 3W",
+    source: "app",
+    author_user_id: "u-1",
+    author_display_name_snapshot: "Sam (CS)",
+    created_at: "2026-10-18T08:05:00.000Z",
+    parent_update_id: null,
+    ...over,
+  };
+}
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import useHandoffSearch from "../../app/hooks/useHandoffSearch";
+import { ALL_UNITS } from "../../app/lib/directory";
+import { args, has, mockSupabase, Query, Result } from "../supabaseMock";
+import { handoff } from "../fixtures";
+import type { Handoff } from "../../app/lib/types";
+
+function setup(respond: (q: Query) => Result, over: { unit?: string; handoffs?: Handoff[] } = {}) {
+  const sb = mockSupabase({ respond });
+  const onHits = vi.fn();
+  const hook = renderHook(() =>
+    useHandoffSearch({
+      supabase: sb.client,
+      sessionUserId: "u-1",
+      facilityId: "PHC",
+      unit: over.unit ?? "Main",
+      handoffs: over.handoffs ?? [handoff({ id: "h-1" })],
+      onHits,
+    })
+  );
+  return { sb, hook, onHits };
+}
+
+describe("useHandoffSearch", () => {
+  afterEach(() => window.history.replaceState(null, "", "/"));
+
+  it("reads the filter from the URL and mirrors changes back, keeping other params", async () => {
+    window.history.replaceState(null, "", "/f/PHC/u/Main?p=Critical&x=1");
+    const { hook } = setup(() => ({ data: [] }));
+    await waitFor(() => expect(hook.result.current.filter.priorities).toEqual(["Critical"]));
+
+    act(() => hook.result.current.setFilter((f) => ({ ...f, priorities: ["High"] })));
+    const params = new URLSearchParams(window.location.search);
+    expect(params.get("p")).toBe("High");
+    expect(params.get("x")).toBe("1");
+    expect(window.location.pathname).toBe("/f/PHC/u/Main");
+  });
+
+  it("runs no search without a text query", async () => {
+    const { sb, hook } = setup(() => ({ data: [] }));
+    await waitFor(() => expect(sb.queries.some((q) => q.table === "saved_views")).toBe(true));
+    expect(hook.result.current.matchIds).toBeNull();
+    expect(sb.queries.some((q) => q.table.startsWith("rpc:search"))).toBe(false);
+  });
+
+  it("matches by id and loads hits the list hasn't paged to", async () => {
+    const older = handoff({ id: "h-9", status: "resolved" });
+    const { sb, hook, onHits } = setup(
+      (q) => {
+        if (q.table === "rpc:search_handoffs") return { data: [{ id: "h-1" }, { id: "h-9" }] };
+        if (q.table === "handoffs") return { data: [older] };
+        return { data: [] };
+      },
+      { unit: ALL_UNITS }
+    );
+
+    act(() => hook.result.current.setFilter((f) => ({ ...f, q: "iv kits" })));
+    await waitFor(() => expect(hook.result.current.matchIds).toEqual(new Set(["h-1", "h-9"])));
+
+    const rpc = sb.queries.find((q) => q.table === "rpc:search_handoffs")!;
+    expect(args(rpc, "params")[0]).toMatchObject({ p_facility: "PHC", p_query: "iv kits", p_unit: null });
+    const byIds = sb.queries.find((q) => q.table === "handoffs")!;
+    expect(has(byIds, "in", "id", ["h-9"])).toBe(true);
+    expect(onHits).toHaveBeenCalledWith([older]);
+    expect(hook.result.current.searching).toBe(false);
+  });
+
+  it("surfaces search errors", async () => {
+    const { hook } = setup((q) =>
+      q.table === "rpc:search_handoffs" ? { error: { message: "bad query" } } : { data: [] }
+    );
+    act(() => hook.result.current.setFilter((f) => ({ ...f, q: "x" })));
+    await waitFor(() => expect(hook.result.current.error).toBe("bad query"));
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import useHandoffUpdates from "../../app/hooks/useHandoffUpdates";
+import { supabaseRealtimeSource } from "../../app/lib/realtime";
+import { has, mockSupabase, Query, Result } from "../supabaseMock";
+import { update } from "../fixtures";
+
+function setup(respond: (q: Query) => Result | Promise<Result>, handoffId: string | null = "h-1") {
+  const sb = mockSupabase({ respond });
+  const realtime = supabaseRealtimeSource(sb.client);
+  const hook = renderHook(
+    ({ id }) => useHandoffUpdates({ supabase: sb.client, realtime, sessionUserId: "u-1", handoffId: id }),
+    { initialProps: { id: handoffId } }
+  );
+  return { sb, hook };
+}
+
+describe("useHandoffUpdates", () => {
+  it("does nothing without an open handoff", async () => {
+    const { sb, hook } = setup(() => ({ data: [update()] }), null);
+    expect(hook.result.current.updates).toEqual([]);
+    expect(sb.queries).toHaveLength(0);
+    expect(sb.channels).toHaveLength(0);
+  });
+
+  it("loads the open handoff's updates", async () => {
+    const { sb, hook } = setup(() => ({ data: [update()] }));
+    await waitFor(() => expect(hook.result.current.updates.map((u) => u.id)).toEqual(["up-1"]));
+    expect(sb.queries[0].table).toBe("handoff_updates");
+    expect(has(sb.queries[0], "eq", "handoff_id", "h-1")).toBe(true);
+  });
+
+  it("keeps realtime inserts in time order", async () => {
+    const { sb, hook } = setup(() => ({ data: [update({ id: "up-2", created_at: "2026-10-18T09:00:00Z" })] }));
+    await waitFor(() => expect(hook.result.current.updates).toHaveLength(1));
+
+    act(() =>
+      sb.channels[0].emit({ eventType: "INSERT", new: update({ id: "up-1", created_at: "2026-10-18T08:30:00Z" }) })
+    );
+    act(() => sb.channels[0].emit({ eventType: "INSERT", new: update({ id: "other", handoff_id: "h-2" }) }));
+    expect(hook.result.current.updates.map((u) => u.id)).toEqual(["up-1", "up-2"]);
+  });
+
+  it("clears when the handoff closes and ignores the aborted load", async () => {
+    let release: () => void = () => {};
+    const gate = new Promise<void>((r) => (release = r));
+    const { hook } = setup(async () => {
+      await gate;
+      return { data: [update()] };
+    });
+    hook.rerender({ id: null });
+    release();
+    await act(() => gate);
+    expect(hook.result.current.updates).toEqual([]);
+    expect(hook.result.current.error).toBe("");
+  });
+
+  it("surfaces errors and reloads on demand", async () => {
+    let fail = true;
+    const { hook } = setup(() => (fail ? { error: { message: "boom" } } : { data: [update()] }));
+    await waitFor(() => expect(hook.result.current.error).toBe("boom"));
+
+    fail = false;
+    act(() => hook.result.current.reload());
+    await waitFor(() => expect(hook.result.current.updates).toHaveLength(1));
+    expect(hook.result.current.error).toBe("");
+    expect(hook.result.current.reloadTick).toBe(1);
+  });
+});
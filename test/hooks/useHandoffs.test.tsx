@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import useHandoffs from "../../app/hooks/useHandoffs";
+import { supabaseRealtimeSource } from "../../app/lib/realtime";
+import { ALL_UNITS } from "../../app/lib/directory";
+import { CLOSED_PAGE_SIZE } from "../../app/lib/paging";
+import { args, has, mockSupabase, Query } from "../supabaseMock";
+import { handoff } from "../fixtures";
+
+const closedQuery = (q: Query) => args(q, "in")[0] === "status" && (args(q, "in")[1] as string[]).includes("resolved");
+
+function setup(respond: (q: Query) => { data?: unknown; error?: unknown }, over: { unit?: string; keepId?: string } = {}) {
+  const sb = mockSupabase({ respond });
+  const realtime = supabaseRealtimeSource(sb.client);
+  let resyncs = 0;
+  const hook = renderHook(
+    ({ unit }) =>
+      useHandoffs({
+        supabase: sb.client,
+        realtime,
+        sessionUserId: "u-1",
+        facilityId: "PHC",
+        unit,
+        keepId: () => over.keepId ?? null,
+        onResync: () => resyncs++,
+      }),
+    { initialProps: { unit: over.unit ?? "Main" } }
+  );
+  return { sb, hook, resyncs: () => resyncs };
+}
+
+describe("useHandoffs", () => {
+  it("loads active and the first closed page for the unit", async () => {
+    const { sb, hook } = setup((q) => ({
+      data: closedQuery(q) ? [handoff({ id: "c1", status: "resolved" })] : [handoff({ id: "a1" })],
+    }));
+
+    await waitFor(() => expect(hook.result.current.handoffs.map((h) => h.id)).toEqual(["a1", "c1"]));
+    expect(hook.result.current.loading).toBe(false);
+    expect(hook.result.current.closedCursor).toBeNull(); // short page = no more
+    expect(sb.queries.every((q) => has(q, "eq", "facility_id", "PHC") && has(q, "eq", "unit", "Main"))).toBe(true);
+  });
+
+  it("drops the unit filter for the facility overview", async () => {
+    const { sb, hook } = setup(() => ({ data: [] }), { unit: ALL_UNITS });
+    await waitFor(() => expect(sb.queries.length).toBe(2));
+    await waitFor(() => expect(hook.result.current.loading).toBe(false));
+    expect(sb.queries.some((q) => has(q, "eq", "unit"))).toBe(false);
+  });
+
+  it("keeps the open handoff even when it isn't on the first page", async () => {
+    const { hook, sb } = setup(
+      (q) => ({ data: has(q, "in", "id", ["old"]) ? [handoff({ id: "old", status: "resolved" })] : [] }),
+      { keepId: "old" }
+    );
+    await waitFor(() => expect(hook.result.current.handoffs.map((h) => h.id)).toEqual(["old"]));
+    expect(sb.queries).toHaveLength(3);
+  });
+
+  it("pages closed handoffs with the keyset cursor", async () => {
+    const page = Array.from({ length: CLOSED_PAGE_SIZE }, (_, i) =>
+      handoff({ id: `c${i}`, status: "resolved", created_at: `2026-10-17T${String(i % 24).padStart(2, "0")}:00:00Z` })
+    );
+    const { sb, hook } = setup((q) => ({
+      data: !closedQuery(q) ? [] : has(q, "or") ? [handoff({ id: "older", status: "resolved" })] : page,
+    }));
+
+    await waitFor(() => expect(hook.result.current.closedCursor).toEqual({ created_at: page[49].created_at, id: "c49" }));
+    await act(() => hook.result.current.loadMore());
+
+    const more = sb.queries[sb.queries.length - 1];
+    expect(args(more, "or")[0]).toContain(`id.lt.c49`);
+    expect(hook.result.current.handoffs).toHaveLength(CLOSED_PAGE_SIZE + 1);
+    expect(hook.result.current.closedCursor).toBeNull();
+  });
+
+  it("surfaces load errors", async () => {
+    const { hook } = setup(() => ({ error: { message: "JWT expired" } }));
+    await waitFor(() => expect(hook.result.current.error).toBe("JWT expired"));
+  });
+
+  it("merges realtime changes and drops rows from other units", async () => {
+    const { sb, hook } = setup((q) => ({ data: closedQuery(q) ? [] : [handoff({ id: "a1" })] }));
+    await waitFor(() => expect(hook.result.current.handoffs).toHaveLength(1));
+
+    const ch = sb.channels[0];
+    expect(ch.filter).toMatchObject({ table: "handoffs", filter: "facility_id=eq.PHC" });
+
+    act(() => ch.emit({ eventType: "INSERT", new: handoff({ id: "a2", title: "Gloves" }) }));
+    act(() => ch.emit({ eventType: "INSERT", new: handoff({ id: "x", unit: "ICU" }) }));
+    act(() => ch.emit({ eventType: "UPDATE", new: handoff({ id: "a1", priority: "Critical" }) }));
+    expect(hook.result.current.handoffs.map((h) => [h.id, h.priority])).toEqual([
+      ["a1", "Critical"],
+      ["a2", "Normal"],
+    ]);
+
+    act(() => ch.emit({ eventType: "DELETE", old: { id: "a2" } }));
+    expect(hook.result.current.handoffs.map((h) => h.id)).toEqual(["a1"]);
+  });
+
+  it("refetches (and asks the caller to) after a dropped connection", async () => {
+    const { sb, hook, resyncs } = setup(() => ({ data: [] }));
+    await waitFor(() => expect(sb.queries).toHaveLength(2));
+    const ch = sb.channels[0];
+
+    act(() => ch.status("SUBSCRIBED"));
+    expect(hook.result.current.liveStatus).toBe("live");
+    act(() => ch.status("CHANNEL_ERROR"));
+    expect(hook.result.current.liveStatus).toBe("reconnecting");
+    act(() => ch.status("SUBSCRIBED"));
+
+    await waitFor(() => expect(sb.queries).toHaveLength(4));
+    expect(resyncs()).toBe(1);
+    expect(hook.result.current.reloadTick).toBe(1);
+  });
+
+  it("resubscribes when the unit changes", async () => {
+    const { sb, hook } = setup(() => ({ data: [] }));
+    await waitFor(() => expect(sb.channels).toHaveLength(1));
+    hook.rerender({ unit: "ICU" });
+    await waitFor(() => expect(sb.channels).toHaveLength(2));
+    expect(sb.channels[0].removed).toBe(true);
+    hook.unmount();
+    expect(sb.channels[1].removed).toBe(true);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import useMentions from "../../app/hooks/useMentions";
+import { supabaseRealtimeSource } from "../../app/lib/realtime";
+import { args, mockSupabase } from "../supabaseMock";
+
+const staff = [{ user_id: "u-2", display_name: "Alex", role_title: null }];
+
+function setup() {
+  const sb = mockSupabase({ respond: (q) => ({ data: q.table === "rpc:list_mentionable" ? staff : null }) });
+  const realtime = supabaseRealtimeSource(sb.client);
+  const hook = renderHook(() =>
+    useMentions({ supabase: sb.client, realtime, sessionUserId: "u-1", facilityId: "PHC" })
+  );
+  const counts = () => sb.queries.filter((q) => q.table === "handoff_mentions").length;
+  return { sb, hook, counts };
+}
+
+describe("useMentions", () => {
+  it("loads the facility's staff for autocomplete", async () => {
+    const { sb, hook } = setup();
+    await waitFor(() => expect(hook.result.current.mentionable).toEqual(staff));
+    const rpc = sb.queries.find((q) => q.table === "rpc:list_mentionable")!;
+    expect(args(rpc, "params")[0]).toEqual({ p_facility: "PHC" });
+  });
+
+  it("recounts unread when a mention arrives or the inbox reloads", async () => {
+    const { sb, hook, counts } = setup();
+    await waitFor(() => expect(counts()).toBe(1));
+
+    act(() => sb.channels[0].emit({ eventType: "INSERT", new: { id: "m-1" } }));
+    await waitFor(() => expect(counts()).toBe(2));
+
+    act(() => hook.result.current.reload());
+    await waitFor(() => expect(counts()).toBe(3));
+    expect(hook.result.current.tick).toBe(2);
+  });
+});
@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import type { OutboxOp } from "../../app/lib/outbox";
+import type { RealtimeStatus } from "../../app/lib/realtime";
+import { mockSupabase } from "../supabaseMock";
+import { handoff } from "../fixtures";
+
+// The IndexedDB queue, in memory
+const queue = vi.hoisted(() => ({ ops: [] as OutboxOp[] }));
+
+vi.mock("../../app/lib/outbox", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../app/lib/outbox")>()),
+  listOutbox: vi.fn(async (userId: string) => queue.ops.filter((op) => op.user_id === userId)),
+  flushOutbox: vi.fn(async () => ({ applied: 0, conflicts: 0, offline: false })),
+  forceOp: vi.fn(async () => {}),
+  removeOp: vi.fn(async (seq: number) => {
+    queue.ops = queue.ops.filter((op) => op.seq !== seq);
+  }),
+}));
+
+import useOutbox from "../../app/hooks/useOutbox";
+import { flushOutbox, forceOp } from "../../app/lib/outbox";
+
+const setStatus = (seq: number, conflict?: string): OutboxOp => ({
+  seq,
+  user_id: "u-1",
+  kind: "set_status",
+  handoff_id: `h-${seq}`,
+  from: "open",
+  to: "in_progress",
+  queued_at: "2026-10-18T08:00:00.000Z",
+  conflict,
+});
+
+function setup(liveStatus: RealtimeStatus = "connecting", onApplied = vi.fn()) {
+  const sb = mockSupabase();
+  const hook = renderHook(
+    ({ liveStatus }) => useOutbox({ supabase: sb.client, sessionUserId: "u-1", liveStatus, onApplied }),
+    { initialProps: { liveStatus } }
+  );
+  return { sb, hook, onApplied };
+}
+
+describe("useOutbox", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    queue.ops = [];
+  });
+
+  it("reads the queue and replays it on sign-in", async () => {
+    queue.ops = [setStatus(1), setStatus(2, "Status changed meanwhile")];
+    const { hook } = setup();
+
+    await waitFor(() => expect(hook.result.current.ops).toHaveLength(2));
+    expect(Array.from(hook.result.current.pending)).toEqual(["h-1", "h-2"]);
+    expect(hook.result.current.conflicts.map((op) => op.seq)).toEqual([2]);
+    await waitFor(() => expect(flushOutbox).toHaveBeenCalledTimes(1));
+  });
+
+  it("hands replayed server rows to onApplied", async () => {
+    const row = handoff({ id: "h-1", status: "in_progress" });
+    vi.mocked(flushOutbox).mockImplementationOnce(async (_sb, _userId, onApplied) => {
+      onApplied?.(setStatus(1), { handoff: row });
+      return { applied: 1, conflicts: 0, offline: false };
+    });
+    const { onApplied } = setup();
+    await waitFor(() => expect(onApplied).toHaveBeenCalledWith({ handoff: row }));
+  });
+
+  it("replays when the browser comes back online", async () => {
+    setup();
+    await waitFor(() => expect(flushOutbox).toHaveBeenCalledTimes(1));
+    act(() => {
+      window.dispatchEvent(new Event("online"));
+    });
+    await waitFor(() => expect(flushOutbox).toHaveBeenCalledTimes(2));
+  });
+
+  it("replays when realtime is live again, unless only conflicts are queued", async () => {
+    queue.ops = [setStatus(1, "Rejected by server: nope")];
+    const { hook } = setup("reconnecting");
+    await waitFor(() => expect(hook.result.current.ops).toHaveLength(1));
+    await waitFor(() => expect(flushOutbox).toHaveBeenCalledTimes(1));
+
+    hook.rerender({ liveStatus: "live" });
+    expect(flushOutbox).toHaveBeenCalledTimes(1);
+
+    queue.ops = [...queue.ops, setStatus(2)];
+    await act(() => hook.result.current.refresh());
+    hook.rerender({ liveStatus: "reconnecting" });
+    hook.rerender({ liveStatus: "live" });
+    await waitFor(() => expect(flushOutbox).toHaveBeenCalledTimes(2));
+  });
+
+  it("lists and replays only the signed-in user's ops", async () => {
+    queue.ops = [setStatus(1), { ...setStatus(2), user_id: "u-other" }];
+    const { sb, hook } = setup();
+    await waitFor(() => expect(hook.result.current.ops.map((op) => op.seq)).toEqual([1]));
+    await waitFor(() => expect(flushOutbox).toHaveBeenCalledWith(sb.client, "u-1", expect.any(Function)));
+  });
+
+  it("reports a failed background replay instead of dropping it", async () => {
+    vi.mocked(flushOutbox).mockRejectedValueOnce(new Error("QuotaExceededError"));
+    const { hook } = setup();
+    await waitFor(() => expect(hook.result.current.error).toBe("QuotaExceededError"));
+
+    act(() => {
+      window.dispatchEvent(new Event("online"));
+    });
+    await waitFor(() => expect(hook.result.current.error).toBe(""));
+  });
+
+  it("applies or discards a conflict", async () => {
+    queue.ops = [setStatus(1, "Status changed meanwhile"), setStatus(2, "Handoff was deleted")];
+    const { hook } = setup();
+    await waitFor(() => expect(hook.result.current.conflicts).toHaveLength(2));
+
+    await act(() => hook.result.current.applyAnyway(queue.ops[0]));
+    expect(forceOp).toHaveBeenCalledWith(expect.objectContaining({ seq: 1 }));
+
+    await act(() => hook.result.current.discard(queue.ops[1]));
+    expect(hook.result.current.ops.map((op) => op.seq)).toEqual([1]);
+  });
+});
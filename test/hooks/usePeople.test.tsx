@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import usePeople from "../../app/hooks/usePeople";
+import { args, mockSupabase, Query } from "../supabaseMock";
+import type { Profile } from "../../app/lib/types";
+
+function setup(ids: (string | null)[], profile: Profile | null = null) {
+  const sb = mockSupabase({
+    respond: (q: Query) => ({
+      data: (args(q, "in")[1] as string[]).filter((id) => id !== "u-gone").map((id) => ({
+        user_id: id,
+        display_name: `Name ${id}`,
+      })),
+    }),
+  });
+  const hook = renderHook(({ ids }) => usePeople({ supabase: sb.client, sessionUserId: "u-1", ids, profile }), {
+    initialProps: { ids },
+  });
+  return { sb, hook };
+}
+
+describe("usePeople", () => {
+  it("looks up each id once", async () => {
+    const { sb, hook } = setup(["u-2", null, "u-2", "u-gone"]);
+    await waitFor(() => expect(hook.result.current).toEqual({ "u-2": "Name u-2", "u-gone": "Unknown user" }));
+    expect(args(sb.queries[0], "in")).toEqual(["user_id", ["u-2", "u-gone"]]);
+
+    hook.rerender({ ids: ["u-gone", "u-2"] });
+    hook.rerender({ ids: ["u-2", "u-3"] });
+    await waitFor(() => expect(hook.result.current["u-3"]).toBe("Name u-3"));
+    expect(sb.queries).toHaveLength(2);
+    expect(args(sb.queries[1], "in")).toEqual(["user_id", ["u-3"]]);
+  });
+
+  it("knows the signed-in user from the profile", async () => {
+    const profile = { user_id: "u-1", display_name: "Sam (CS)" } as Profile;
+    const { hook } = setup(["u-1"], profile);
+    await waitFor(() => expect(hook.result.current["u-1"]).toBe("Sam (CS)"));
+    // A lookup that raced the profile lands without overwriting it
+    await act(() => new Promise((r) => setTimeout(r, 0)));
+    expect(hook.result.current["u-1"]).toBe("Sam (CS)");
+  });
+});
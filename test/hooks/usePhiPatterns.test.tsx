@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import usePhiPatterns from "../../app/hooks/usePhiPatterns";
+import { DEFAULT_PHI_PATTERNS, PhiPattern } from "../../app/lib/phi";
+import { mockSupabase, Result } from "../supabaseMock";
+
+const mrnOnly: PhiPattern[] = [DEFAULT_PHI_PATTERNS.find((p) => p.category === "mrn")!];
+
+function setup(respond: () => Result) {
+  const sb = mockSupabase({ respond });
+  const hook = renderHook(() => usePhiPatterns({ supabase: sb.client, sessionUserId: "u-1", facilityId: "PHC" }));
+  return { sb, hook };
+}
+
+describe("usePhiPatterns", () => {
+  it("starts from the defaults and switches to the facility's set", async () => {
+    const { sb, hook } = setup(() => ({ data: mrnOnly }));
+    expect(hook.result.current.patterns).toBe(DEFAULT_PHI_PATTERNS);
+    await waitFor(() => expect(hook.result.current.patterns).toEqual(mrnOnly));
+
+    act(() => hook.result.current.reload());
+    await waitFor(() => expect(sb.queries).toHaveLength(2));
+    expect(sb.queries[1].table).toBe("rpc:phi_patterns_for");
+  });
+
+  it("keeps the defaults when the set can't load", async () => {
+    const { sb, hook } = setup(() => ({ error: { message: "offline" } }));
+    await waitFor(() => expect(sb.queries).toHaveLength(1));
+    await act(() => new Promise((r) => setTimeout(r, 0)));
+    expect(hook.result.current.patterns).toEqual(DEFAULT_PHI_PATTERNS);
+  });
+});
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import type { HandoffAttachment } from "../../app/lib/types";
+import { supabaseRealtimeSource } from "../../app/lib/realtime";
+import { has, mockSupabase, Query, Result } from "../supabaseMock";
+
+// Signed URLs come from the photo store; stand in for it
+vi.mock("../../app/lib/photos", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../app/lib/photos")>()),
+  resolvePhotoUrls: vi.fn(async (_sb, rows: HandoffAttachment[], known: Record<string, unknown> = {}) => {
+    const missing = rows.filter((a) => !known[a.id]);
+    if (missing.length === 0) return known;
+    return { ...known, ...Object.fromEntries(missing.map((a) => [a.id, { thumb: `t/${a.id}`, full: `f/${a.id}` }])) };
+  }),
+}));
+
+import usePhotos from "../../app/hooks/usePhotos";
+import { resolvePhotoUrls } from "../../app/lib/photos";
+
+function photo(over: Partial<HandoffAttachment> = {}): HandoffAttachment {
+  return {
+    id: "p-1",
+    handoff_id: "h-1",
+    update_id: null,
+    store: "supabase",
+    path: "h-1/p-1.jpg",
+    thumb_path: "h-1/p-1_thumb.jpg",
+    content_type: "image/jpeg",
+    width: 1600,
+    height: 1200,
+    bytes: 120_000,
+    created_by: "u-1",
+    created_at: "2026-10-18T08:10:00.000Z",
+    ...over,
+  };
+}
+
+function setup(respond: (q: Query) => Result) {
+  const sb = mockSupabase({ respond });
+  const realtime = supabaseRealtimeSource(sb.client);
+  const hook = renderHook(
+    ({ id }) => usePhotos({ supabase: sb.client, realtime, sessionUserId: "u-1", handoffId: id }),
+    { initialProps: { id: "h-1" as string | null } }
+  );
+  return { sb, hook };
+}
+
+describe("usePhotos", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("loads the open handoff's photos and signs their URLs", async () => {
+    const { sb, hook } = setup(() => ({ data: [photo()] }));
+    await waitFor(() => expect(hook.result.current.urls).toEqual({ "p-1": { thumb: "t/p-1", full: "f/p-1" } }));
+    expect(has(sb.queries[0], "eq", "handoff_id", "h-1")).toBe(true);
+  });
+
+  it("merges live inserts and signs only the new photo", async () => {
+    const { sb, hook } = setup(() => ({ data: [photo()] }));
+    await waitFor(() => expect(hook.result.current.urls["p-1"]).toBeDefined());
+
+    act(() => sb.channels[0].emit({ eventType: "INSERT", new: photo({ id: "p-2", path: "h-1/p-2.jpg" }) }));
+    await waitFor(() => expect(hook.result.current.urls["p-2"]).toBeDefined());
+    expect(hook.result.current.attachments.map((a) => a.id)).toEqual(["p-1", "p-2"]);
+    const last = vi.mocked(resolvePhotoUrls).mock.calls.at(-1)!;
+    expect(Object.keys(last[2] ?? {})).toEqual(["p-1"]); // already-signed URLs are passed as known
+  });
+
+  it("clears when the handoff closes", async () => {
+    const { hook } = setup(() => ({ data: [photo()] }));
+    await waitFor(() => expect(hook.result.current.attachments).toHaveLength(1));
+    hook.rerender({ id: null });
+    expect(hook.result.current.attachments).toEqual([]);
+    expect(hook.result.current.urls).toEqual({});
+  });
+
+  it("surfaces load errors", async () => {
+    const { hook } = setup(() => ({ error: { message: "no bucket" } }));
+    await waitFor(() => expect(hook.result.current.error).toBe("no bucket"));
+  });
+});
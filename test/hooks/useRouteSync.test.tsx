@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import useRouteSync from "../../app/hooks/useRouteSync";
+import { args, mockSupabase } from "../supabaseMock";
+
+const H1 = "11111111-1111-4111-8111-111111111111";
+
+function setup(path: string, access: "ok" | "forbidden" | "not_found" = "ok") {
+  window.history.replaceState(null, "", path);
+  const sb = mockSupabase({ respond: () => ({ data: access }) });
+  const onOpenHandoff = vi.fn();
+  const onClose = vi.fn();
+  const onUnit = vi.fn();
+  const hook = renderHook(
+    ({ selectedId, unit }) =>
+      useRouteSync({
+        supabase: sb.client,
+        sessionUserId: "u-1",
+        selectedId,
+        facilityId: "PHC",
+        unit,
+        onOpenHandoff,
+        onClose,
+        onUnit,
+      }),
+    { initialProps: { selectedId: null as string | null, unit: "Main" } }
+  );
+  return { sb, hook, onOpenHandoff, onClose, onUnit };
+}
+
+describe("useRouteSync", () => {
+  afterEach(() => window.history.replaceState(null, "", "/"));
+
+  it("blocks a route the caller can't see", async () => {
+    const { sb, hook } = setup("/f/PHC/u/ICU", "forbidden");
+    await waitFor(() => expect(hook.result.current.block).toEqual({ kind: "forbidden", path: "/f/PHC/u/ICU" }));
+    expect(args(sb.queries[0], "params")[0]).toMatchObject({ p_facility: "PHC", p_unit: "ICU" });
+  });
+
+  it("opens a /h/<id> route, then mirrors the board into the URL", async () => {
+    const { hook, onOpenHandoff } = setup(`/h/${H1}?p=High`);
+    await waitFor(() => expect(onOpenHandoff).toHaveBeenCalledWith(H1));
+
+    hook.rerender({ selectedId: null, unit: "ICU" });
+    await waitFor(() => expect(window.location.pathname).toBe("/f/PHC/u/ICU"));
+    expect(window.location.search).toBe("?p=High");
+  });
+
+  it("pushes the drawer's entry once and steps back over it on close", async () => {
+    const { hook } = setup("/f/PHC/u/Main");
+    await waitFor(() => expect(window.location.pathname).toBe("/f/PHC/u/Main"));
+    const back = vi.spyOn(window.history, "back").mockImplementation(() => {});
+
+    act(() => hook.result.current.showHandoff(H1));
+    expect(window.location.pathname).toBe(`/h/${H1}`);
+    expect(window.history.state?.csDrawer).toBe(true);
+    const length = window.history.length;
+    act(() => hook.result.current.showHandoff("22222222-2222-4222-8222-222222222222"));
+    expect(window.history.length).toBe(length); // switching handoffs replaces
+
+    act(() => hook.result.current.leaveHandoff());
+    expect(back).toHaveBeenCalledTimes(1);
+    back.mockRestore();
+  });
+
+  it("follows Back / Forward", async () => {
+    const { onOpenHandoff, onClose, onUnit } = setup("/f/PHC/u/Main");
+    await waitFor(() => expect(window.location.pathname).toBe("/f/PHC/u/Main"));
+
+    window.history.replaceState(null, "", `/h/${H1}`);
+    act(() => {
+      window.dispatchEvent(new PopStateEvent("popstate"));
+    });
+    expect(onOpenHandoff).toHaveBeenCalledWith(H1);
+
+    window.history.replaceState(null, "", "/f/PHC/u/ICU");
+    act(() => {
+      window.dispatchEvent(new PopStateEvent("popstate"));
+    });
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(onUnit).toHaveBeenCalledWith("PHC", "ICU");
+  });
+});
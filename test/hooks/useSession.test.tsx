@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { mockSupabase } from "../supabaseMock";
+
+const client = vi.hoisted(() => ({ current: null as unknown }));
+
+vi.mock("../../app/lib/supabaseClient", () => ({ createBrowserClient: vi.fn(() => client.current) }));
+vi.mock("../../app/lib/pushClient", () => ({ disablePush: vi.fn(async () => {}) }));
+vi.mock("../../app/lib/outbox", () => ({ clearOutbox: vi.fn(async () => {}) }));
+
+import useSession from "../../app/hooks/useSession";
+import { createBrowserClient } from "../../app/lib/supabaseClient";
+import { disablePush } from "../../app/lib/pushClient";
+import { clearOutbox } from "../../app/lib/outbox";
+
+describe("useSession", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("is a null client (setup hint) without env vars", () => {
+    client.current = null;
+    const { result } = renderHook(() => useSession());
+    expect(result.current.supabase).toBeNull();
+    expect(result.current.sessionUserId).toBeNull();
+  });
+
+  it("creates the client once across renders", () => {
+    client.current = mockSupabase().client;
+    const { result, rerender } = renderHook(() => useSession());
+    const first = result.current.supabase;
+    rerender();
+    rerender();
+    expect(result.current.supabase).toBe(first);
+    expect(createBrowserClient).toHaveBeenCalledTimes(1);
+  });
+
+  it("reads the stored session, then follows auth changes", async () => {
+    const sb = mockSupabase({ session: { user: { id: "u-1", email: "sam@hospital.org" } } });
+    client.current = sb.client;
+    const { result } = renderHook(() => useSession());
+
+    await waitFor(() => expect(result.current.checked).toBe(true));
+    expect(result.current.sessionUserId).toBe("u-1");
+    expect(result.current.sessionEmail).toBe("sam@hospital.org");
+
+    act(() => sb.setSession(null));
+    expect(result.current.sessionUserId).toBeNull();
+  });
+
+  it("reports a session read error", async () => {
+    client.current = mockSupabase({ sessionError: { message: "Refresh token expired" } }).client;
+    const { result } = renderHook(() => useSession());
+    await waitFor(() => expect(result.current.error).toBe("Refresh token expired"));
+    expect(result.current.sessionUserId).toBeNull();
+  });
+
+  it("signs out after turning off push on this device, then clears its outbox", async () => {
+    const sb = mockSupabase({ session: { user: { id: "u-1" } } });
+    client.current = sb.client;
+    const { result } = renderHook(() => useSession());
+    await waitFor(() => expect(result.current.sessionUserId).toBe("u-1"));
+
+    await act(() => result.current.signOut());
+    expect(disablePush).toHaveBeenCalledWith(sb.client);
+    expect(sb.auth.signOut).toHaveBeenCalled();
+    expect(clearOutbox).toHaveBeenCalled();
+    expect(result.current.sessionUserId).toBeNull();
+  });
+});
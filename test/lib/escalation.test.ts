@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from "vitest";
+import { ESCALATION_PAGE_SIZE, runEscalation } from "../../app/lib/escalation";
+import { args, has, mockSupabase } from "../supabaseMock";
+import { handoff, update } from "../fixtures";
+
+const now = Date.parse("2026-10-18T12:00:00Z");
+
+describe("runEscalation", () => {
+  it("pages through every active handoff, past the first page", async () => {
+    // High: first update due within 60 min by default; these are 4 h old
+    const page1 = Array.from({ length: ESCALATION_PAGE_SIZE }, (_, i) =>
+      handoff({ id: `h-${String(i).padStart(4, "0")}`, priority: "High" })
+    );
+    const page2 = [handoff({ id: "h-9999", priority: "High" })];
+
+    const sb = mockSupabase({
+      respond: (q) => {
+        if (q.table === "sla_targets") return { data: [] };
+        if (q.table === "handoffs" && has(q, "select") && !has(q, "update")) {
+          return { data: has(q, "gt") ? page2 : page1 };
+        }
+        if (q.table === "handoffs" && has(q, "update")) {
+          return { data: handoff({ id: args(q, "eq")[1] as string, priority: "Critical" }) };
+        }
+        if (q.table === "handoff_updates") return { data: update({ source: "system", author_user_id: null }) };
+        return { data: null };
+      },
+    });
+    const notify = vi.fn(async () => {});
+
+    const results = await runEscalation(sb.client, { now, notify });
+
+    const reads = sb.queries.filter((q) => q.table === "handoffs" && !has(q, "update"));
+    expect(reads).toHaveLength(2);
+    expect(has(reads[0], "limit", ESCALATION_PAGE_SIZE)).toBe(true);
+    expect(has(reads[1], "gt", "id", page1[page1.length - 1].id)).toBe(true);
+    expect(results).toHaveLength(ESCALATION_PAGE_SIZE + 1);
+    expect(results[results.length - 1]).toMatchObject({ handoff_id: "h-9999", from: "High", to: "Critical" });
+  });
+
+  it("stops after a short page", async () => {
+    const sb = mockSupabase({
+      respond: (q) => (q.table === "handoffs" ? { data: [handoff()] } : { data: [] }),
+    });
+    expect(await runEscalation(sb.client, { now, notify: vi.fn() })).toEqual([]);
+    expect(sb.queries.filter((q) => q.table === "handoffs")).toHaveLength(1);
+  });
+});
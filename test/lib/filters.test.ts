@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { compareTriage, sortHandoffs } from "../../app/lib/filters";
+import { handoff } from "../fixtures";
+
+const ids = (rows: { id: string }[]) => rows.map((r) => r.id);
+
+describe("compareTriage", () => {
+  it("puts active handoffs before closed ones", () => {
+    const closed = handoff({ id: "closed", status: "resolved", priority: "Critical" });
+    const open = handoff({ id: "open", priority: "Low" });
+    expect(ids([closed, open].sort(compareTriage))).toEqual(["open", "closed"]);
+  });
+
+  it("forces unresolved Critical to the top, ahead of follow-ups", () => {
+    const followup = handoff({ id: "fu", status: "needs_followup", priority: "High" });
+    const critical = handoff({ id: "crit", priority: "Critical" });
+    expect(ids([followup, critical].sort(compareTriage))).toEqual(["crit", "fu"]);
+  });
+
+  it("then follow-up, then priority, then newest", () => {
+    const rows = [
+      handoff({ id: "low", priority: "Low", created_at: "2026-10-18T10:00:00Z" }),
+      handoff({ id: "high-old", priority: "High", created_at: "2026-10-18T06:00:00Z" }),
+      handoff({ id: "high-new", priority: "High", created_at: "2026-10-18T09:00:00Z" }),
+      handoff({ id: "fu", status: "needs_followup", priority: "Low" }),
+      handoff({ id: "done", status: "cancelled" }),
+      handoff({ id: "crit", status: "in_progress", priority: "Critical" }),
+    ];
+    expect(ids(rows.sort(compareTriage))).toEqual(["crit", "fu", "high-new", "high-old", "low", "done"]);
+  });
+
+  it("treats unparseable timestamps as oldest without throwing", () => {
+    const bad = handoff({ id: "bad", created_at: "not a date" });
+    const good = handoff({ id: "good" });
+    expect(ids([bad, good].sort(compareTriage))).toEqual(["good", "bad"]);
+  });
+});
+
+describe("sortHandoffs", () => {
+  const rows = [
+    handoff({ id: "b", title: "Bandages", priority: "Low", created_at: "2026-10-18T09:00:00Z" }),
+    handoff({ id: "a", title: "Alcohol pads", priority: "High", created_at: "2026-10-18T07:00:00Z" }),
+    handoff({ id: "c", title: "Catheters", priority: "Normal", created_at: "2026-10-18T08:00:00Z" }),
+  ];
+
+  it("sorts by each mode without mutating the input", () => {
+    expect(ids(sortHandoffs(rows, "newest"))).toEqual(["b", "c", "a"]);
+    expect(ids(sortHandoffs(rows, "oldest"))).toEqual(["a", "c", "b"]);
+    expect(ids(sortHandoffs(rows, "priority"))).toEqual(["a", "c", "b"]);
+    expect(ids(sortHandoffs(rows, "title"))).toEqual(["a", "b", "c"]);
+    expect(ids(rows)).toEqual(["b", "a", "c"]);
+  });
+});
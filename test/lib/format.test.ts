@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { cx, fmtTime, isAbortError, toCsv } from "../../app/lib/format";
+
+describe("fmtTime", () => {
+  it("is empty for a missing timestamp", () => {
+    expect(fmtTime(null)).toBe("");
+    expect(fmtTime(undefined)).toBe("");
+    expect(fmtTime("")).toBe("");
+  });
+
+  it("formats in the browser locale", () => {
+    const ts = "2026-10-18T08:00:00.000Z";
+    expect(fmtTime(ts)).toBe(new Date(ts).toLocaleString());
+  });
+});
+
+describe("isAbortError", () => {
+  it("matches a DOMException AbortError", () => {
+    expect(isAbortError(new DOMException("aborted", "AbortError"))).toBe(true);
+  });
+
+  it("matches plain objects named AbortError (supabase-js / Node)", () => {
+    expect(isAbortError({ name: "AbortError", message: "aborted" })).toBe(true);
+    const e = new Error("aborted");
+    e.name = "AbortError";
+    expect(isAbortError(e)).toBe(true);
+  });
+
+  it("ignores everything else", () => {
+    expect(isAbortError(new DOMException("nope", "NotFoundError"))).toBe(false);
+    expect(isAbortError(new Error("Failed to fetch"))).toBe(false);
+    expect(isAbortError({ code: "23505" })).toBe(false);
+    expect(isAbortError("AbortError")).toBe(false);
+    expect(isAbortError(null)).toBe(false);
+    expect(isAbortError(undefined)).toBe(false);
+  });
+});
+
+describe("cx", () => {
+  it("joins truthy class names", () => {
+    expect(cx("a", false, null, undefined, "", "b")).toBe("a b");
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes only cells that need it, CRLF line endings", () => {
+    expect(toCsv([["a", "b,c"], ['say "hi"', "line\nbreak"]])).toBe('a,"b,c"\r\n"say ""hi""","line\nbreak"\r\n');
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import {
+  escalateHandoff,
+  getHandoff,
+  insertHandoff,
+  insertHandoffUpdate,
+  listHandoffUpdates,
+  parseHandoff,
+  parseHandoffFields,
+  parseHandoffUpdate,
+} from "../../app/lib/handoffRepo";
+import { has, mockSupabase } from "../supabaseMock";
+import { handoff, update } from "../fixtures";
+
+describe("parseHandoff", () => {
+  it("accepts a valid row as is", () => {
+    const row = handoff();
+    expect(parseHandoff(row)).toBe(row);
+  });
+
+  it("accepts narrower selects (optional columns left out)", () => {
+    const { ref, source, escalation_count, ...narrow } = handoff();
+    expect(parseHandoff(narrow).id).toBe("h-1");
+  });
+
+  it("rejects values outside the unions", () => {
+    expect(() => parseHandoff({ ...handoff(), priority: "Urgent" })).toThrow(
+      'Unexpected handoffs row h-1: priority = "Urgent"'
+    );
+    expect(() => parseHandoff({ ...handoff(), status: "closed" })).toThrow(/status/);
+    expect(() => parseHandoff({ ...handoff(), shift: "Night" })).toThrow(/shift/);
+  });
+
+  it("rejects missing required columns and non-objects", () => {
+    const { title, ...untitled } = handoff();
+    expect(() => parseHandoff(untitled)).toThrow(/title = undefined/);
+    expect(() => parseHandoff(null)).toThrow(/Unexpected handoffs row/);
+  });
+});
+
+describe("parseHandoffFields", () => {
+  it("checks only the named columns (embeds, narrow selects)", () => {
+    const embed = { title: "Crash cart check", ref: 7, unit: "4W", priority: "High" };
+    expect(parseHandoffFields(embed, ["title", "ref", "unit", "priority"])).toBe(embed);
+    expect(() => parseHandoffFields({ ...embed, priority: "Meh" }, ["title", "priority"])).toThrow(/priority/);
+  });
+});
+
+describe("parseHandoffUpdate", () => {
+  it("validates the update source", () => {
+    expect(parseHandoffUpdate(update()).id).toBe("up-1");
+    expect(() => parseHandoffUpdate({ ...update(), source: "scan" })).toThrow(/source/);
+  });
+});
+
+describe("queries", () => {
+  it("getHandoff returns null when the row is gone or hidden", async () => {
+    const sb = mockSupabase({ respond: () => ({ data: null }) });
+    expect(await getHandoff(sb.client, "h-9")).toBeNull();
+    expect(sb.queries[0].table).toBe("handoffs");
+    expect(has(sb.queries[0], "eq", "id", "h-9")).toBe(true);
+    expect(has(sb.queries[0], "maybeSingle")).toBe(true);
+  });
+
+  it("getHandoff throws the PostgREST error", async () => {
+    const sb = mockSupabase({ respond: () => ({ error: { message: "permission denied" } }) });
+    await expect(getHandoff(sb.client, "h-1")).rejects.toEqual({ message: "permission denied" });
+  });
+
+  it("insertHandoff treats a duplicate key as already inserted", async () => {
+    const sb = mockSupabase({ respond: () => ({ error: { code: "23505", message: "duplicate key" } }) });
+    const row = handoff();
+    expect(await insertHandoff(sb.client, row)).toBeNull();
+  });
+
+  it("insertHandoff defaults the source to app", async () => {
+    const sb = mockSupabase({ respond: () => ({ data: handoff() }) });
+    const { source, ...row } = handoff();
+    await insertHandoff(sb.client, row);
+    expect(has(sb.queries[0], "insert", { ...row, source: "app" })).toBe(true);
+  });
+
+  it("escalateHandoff only updates at the expected escalation_count", async () => {
+    const sb = mockSupabase({ respond: () => ({ data: null }) });
+    const patch = { priority: "High" as const, escalated_at: "2026-10-18T12:00:00.000Z", escalation_count: 2 };
+    expect(await escalateHandoff(sb.client, "h-1", 1, patch)).toBeNull();
+    expect(has(sb.queries[0], "update", patch)).toBe(true);
+    expect(has(sb.queries[0], "eq", "escalation_count", 1)).toBe(true);
+  });
+
+  it("listHandoffUpdates loads oldest first and validates rows", async () => {
+    const sb = mockSupabase({ respond: () => ({ data: [update(), update({ id: "up-2" })] }) });
+    const rows = await listHandoffUpdates(sb.client, "h-1");
+    expect(rows.map((u) => u.id)).toEqual(["up-1", "up-2"]);
+    expect(has(sb.queries[0], "order", "created_at", { ascending: true })).toBe(true);
+
+    const bad = mockSupabase({ respond: () => ({ data: [{ ...update(), source: "fax" }] }) });
+    await expect(listHandoffUpdates(bad.client, "h-1")).rejects.toThrow(/source = "fax"/);
+  });
+
+  it("insertHandoffUpdate sends only table columns", async () => {
+    const sb = mockSupabase({ respond: () => ({ data: update() }) });
+    const { created_at, ...row } = update();
+    await insertHandoffUpdate(sb.client, row);
+    expect(has(sb.queries[0], "insert", row)).toBe(true);
+  });
+});
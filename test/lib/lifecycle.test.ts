@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { diffEdit, HandoffEditable, setField } from "../../app/lib/lifecycle";
+import { handoff } from "../fixtures";
+
+describe("diffEdit", () => {
+  const h = handoff({ title: "Missing IV start kits", priority: "Normal", shift: "AM", unit: "Main" });
+  const same: HandoffEditable = { title: h.title, priority: h.priority, shift: h.shift, unit: h.unit };
+
+  it("is empty when nothing changed (title whitespace ignored)", () => {
+    expect(diffEdit(h, { ...same, title: `  ${h.title} ` })).toEqual({});
+  });
+
+  it("keeps only the changed fields, title trimmed", () => {
+    expect(diffEdit(h, { ...same, title: " IV kits restocked ", priority: "High" })).toEqual({
+      title: "IV kits restocked",
+      priority: "High",
+    });
+  });
+});
+
+describe("setField", () => {
+  it("writes one field of a patch", () => {
+    const patch: Partial<HandoffEditable> = { title: "x" };
+    setField(patch, "shift", "NOC");
+    expect(patch).toEqual({ title: "x", shift: "NOC" });
+  });
+});
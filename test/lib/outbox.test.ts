@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { clearOutbox, enqueue, flushOutbox, listOutbox, NewOutboxOp } from "../../app/lib/outbox";
+import { has, mockSupabase } from "../supabaseMock";
+import { handoff } from "../fixtures";
+
+// jsdom has no IndexedDB: these run against the in-memory queue
+const setStatus = (handoff_id: string): NewOutboxOp => ({
+  kind: "set_status",
+  handoff_id,
+  from: "open",
+  to: "in_progress",
+  queued_at: "2026-10-18T08:00:00.000Z",
+});
+
+describe("outbox", () => {
+  beforeEach(() => clearOutbox());
+
+  it("lists only the ops the given user queued, in order", async () => {
+    await enqueue("u-1", setStatus("h-1"));
+    await enqueue("u-2", setStatus("h-2"));
+    await enqueue("u-1", setStatus("h-3"));
+
+    const mine = await listOutbox("u-1");
+    expect(mine.map((op) => op.kind === "set_status" && op.handoff_id)).toEqual(["h-1", "h-3"]);
+    expect(mine.every((op) => op.user_id === "u-1")).toBe(true);
+    expect(await listOutbox("u-3")).toEqual([]);
+  });
+
+  it("replays only the signed-in user's ops and leaves the rest queued", async () => {
+    await enqueue("u-1", setStatus("h-1"));
+    await enqueue("u-2", setStatus("h-2"));
+    const sb = mockSupabase({ respond: () => ({ data: handoff({ id: "h-1", status: "open" }) }) });
+
+    const res = await flushOutbox(sb.client, "u-1");
+    expect(res).toEqual({ applied: 1, conflicts: 0, offline: false });
+    expect(sb.queries.some((q) => has(q, "eq", "id", "h-2"))).toBe(false);
+    expect(await listOutbox("u-1")).toEqual([]);
+    expect(await listOutbox("u-2")).toHaveLength(1);
+  });
+
+  it("clears every user's ops (sign-out)", async () => {
+    await enqueue("u-1", setStatus("h-1"));
+    await enqueue("u-2", setStatus("h-2"));
+    await clearOutbox();
+    expect(await listOutbox("u-1")).toEqual([]);
+    expect(await listOutbox("u-2")).toEqual([]);
+  });
+});
@@ -0,0 +1,63 @@
+import { readFileSync } from "fs";
+import { describe, expect, it } from "vitest";
+import { blockingPhi, DEFAULT_PHI_PATTERNS, phiSummary, redactPhi, scanPhi } from "../../app/lib/phi";
+
+describe("scanPhi (default patterns)", () => {
+  it("passes ordinary supply text", () => {
+    expect(scanPhi("Missing IV start kits, 3W supply room 12")).toEqual([]);
+    expect(scanPhi("Patient transport cart broken")).toEqual([]);
+  });
+
+  it("finds an MRN and a phone number", () => {
+    const findings = scanPhi("MRN 1234567 call 555-867-5309");
+    expect(findings.map((f) => f.key)).toEqual(["mrn", "phone"]);
+    expect(phiSummary(findings)).toBe("MRN, Phone number");
+    expect(blockingPhi(findings)).toHaveLength(2);
+  });
+
+  it("finds a room + bed", () => {
+    expect(scanPhi("Pumps for Rm 412 bed 2").map((f) => f.key)).toContain("room_bed");
+    expect(scanPhi("Pumps for rm 412A").map((f) => f.key)).toEqual(["room_bed_short"]);
+    expect(scanPhi("walker to room 1207-b").map((f) => f.key)).toEqual(["room_bed_short"]);
+  });
+
+  it("passes supply rooms with a letter suffix", () => {
+    expect(scanPhi("Clean room 2A")).toEqual([]);
+    expect(scanPhi("pickup room 3b")).toEqual([]);
+    expect(scanPhi("Restock soiled utility rm 12C")).toEqual([]);
+  });
+
+  it("finds a patient name in any case", () => {
+    expect(scanPhi("pt john doe needs a walker").map((f) => f.match)).toEqual(["pt john doe"]);
+    expect(scanPhi("PATIENT: JANE ROE").map((f) => f.label)).toContain("Patient name");
+    expect(scanPhi("Pt: Smith in 4W").map((f) => f.key)).toEqual(["patient_name"]);
+  });
+
+  it("passes pt/patient followed by supply words", () => {
+    expect(scanPhi("pt lift battery dead")).toEqual([]);
+    expect(scanPhi("patient belongings bags out")).toEqual([]);
+    expect(scanPhi("pt needs new walker")).toEqual([]);
+    expect(scanPhi("Patient care cart restocked")).toEqual([]);
+  });
+});
+
+describe("redactPhi", () => {
+  it("replaces each finding with its label and keeps the rest", () => {
+    const text = "Walker for MRN 1234567, call 555-867-5309";
+    expect(redactPhi(text, scanPhi(text))).toBe("Walker for [MRN], call [Phone number]");
+  });
+
+  it("takes the name label with the name", () => {
+    const text = "Pt: John Smith needs a walker";
+    expect(redactPhi(text, scanPhi(text))).toBe("[Patient name] needs a walker");
+  });
+});
+
+describe("DEFAULT_PHI_PATTERNS", () => {
+  it("matches the seed in the phi_guard migration", () => {
+    const sql = readFileSync("supabase/migrations/20261018270000_phi_guard.sql", "utf8");
+    for (const p of DEFAULT_PHI_PATTERNS) {
+      expect(sql).toContain(`(null, '${p.key}', '${p.category}', '${p.label}',\n   '${p.pattern}'`);
+    }
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import { isDue, runRecurringTemplates, shiftSlot } from "../../app/lib/recurrence";
+import { args, has, mockSupabase, Query, Result } from "../supabaseMock";
+import type { HandoffTemplate } from "../../app/lib/types";
+import { handoff } from "../fixtures";
+
+// Wednesday 2026-10-21
+const at = (iso: string) => Date.parse(iso);
+
+function template(over: Partial<HandoffTemplate> = {}): HandoffTemplate {
+  return {
+    id: "t-1",
+    facility_id: "PHC",
+    unit: "Main",
+    title: "Crash cart check",
+    priority: "High",
+    needs_followup: false,
+    recurrence: "shift",
+    shift: null,
+    weekdays: [],
+    active: true,
+    ...over,
+  };
+}
+
+describe("shiftSlot", () => {
+  it("maps the local hour to AM / PM / NOC", () => {
+    expect(shiftSlot(at("2026-10-21T07:00:00Z"), "UTC")).toEqual({ date: "2026-10-21", shift: "AM", weekday: 3 });
+    expect(shiftSlot(at("2026-10-21T14:59:00Z"), "UTC").shift).toBe("AM");
+    expect(shiftSlot(at("2026-10-21T15:00:00Z"), "UTC").shift).toBe("PM");
+    expect(shiftSlot(at("2026-10-21T23:30:00Z"), "UTC")).toEqual({ date: "2026-10-21", shift: "NOC", weekday: 3 });
+  });
+
+  it("keeps the small hours on the night shift that started the day before", () => {
+    expect(shiftSlot(at("2026-10-22T03:00:00Z"), "UTC")).toEqual({ date: "2026-10-21", shift: "NOC", weekday: 3 });
+    // Sunday 02:00 -> Saturday's NOC
+    expect(shiftSlot(at("2026-10-25T02:00:00Z"), "UTC")).toEqual({ date: "2026-10-24", shift: "NOC", weekday: 6 });
+  });
+
+  it("uses the facility's time zone", () => {
+    // 12:00 UTC = 07:00 in Chicago (CDT) = start of AM there
+    expect(shiftSlot(at("2026-10-21T12:00:00Z"), "America/Chicago").shift).toBe("AM");
+    expect(shiftSlot(at("2026-10-21T11:59:00Z"), "America/Chicago")).toEqual({
+      date: "2026-10-20",
+      shift: "NOC",
+      weekday: 2,
+    });
+    expect(() => shiftSlot(Date.now(), "Mars/Olympus")).toThrow(RangeError);
+  });
+});
+
+describe("isDue", () => {
+  const pm = { date: "2026-10-21", shift: "PM" as const, weekday: 3 };
+
+  it("follows the recurrence rule", () => {
+    expect(isDue(template({ recurrence: "shift" }), pm)).toBe(true);
+    expect(isDue(template({ recurrence: "daily", shift: "PM" }), pm)).toBe(true);
+    expect(isDue(template({ recurrence: "daily", shift: "AM" }), pm)).toBe(false);
+    expect(isDue(template({ recurrence: "weekly", shift: "PM", weekdays: [1, 3] }), pm)).toBe(true);
+    expect(isDue(template({ recurrence: "weekly", shift: "PM", weekdays: [1, 5] }), pm)).toBe(false);
+    expect(isDue(template({ recurrence: "none" }), pm)).toBe(false);
+  });
+});
+
+describe("runRecurringTemplates", () => {
+  const facilities = [{ id: "PHC", active: true, time_zone: null }];
+  const units = [
+    { facility_id: "PHC", code: "Main", active: true },
+    { facility_id: "PHC", code: "Old", active: false },
+  ];
+
+  function db(templates: HandoffTemplate[], over: (q: Query) => Result | undefined = () => undefined) {
+    let n = 0;
+    return mockSupabase({
+      respond: (q) => {
+        const custom = over(q);
+        if (custom) return custom;
+        if (q.table === "handoff_templates") return { data: templates };
+        if (q.table === "facilities") return { data: facilities };
+        if (q.table === "units") return { data: units };
+        if (q.table === "handoff_template_runs" && has(q, "upsert")) return { data: [{ template_id: "x" }] };
+        if (q.table === "handoffs") return { data: handoff({ id: `h-${++n}`, source: "template" }) };
+        return { data: null };
+      },
+    });
+  }
+
+  it("creates due handoffs for the current shift and records the run", async () => {
+    const sb = db([
+      template(),
+      template({ id: "t-2", recurrence: "daily", shift: "AM", needs_followup: true }),
+      template({ id: "t-3", recurrence: "daily", shift: "NOC" }),
+      template({ id: "t-4", unit: "Old" }),
+    ]);
+    const results = await runRecurringTemplates(sb.client, { now: at("2026-10-21T08:00:00Z"), timeZone: "UTC" });
+
+    expect(results).toEqual([
+      { template_id: "t-1", shift_date: "2026-10-21", shift: "AM", handoff_id: "h-1" },
+      { template_id: "t-2", shift_date: "2026-10-21", shift: "AM", handoff_id: "h-2" },
+    ]);
+    const inserts = sb.queries.filter((q) => q.table === "handoffs").map((q) => args(q, "insert")[0]);
+    expect(inserts[1]).toMatchObject({
+      facility_id: "PHC",
+      unit: "Main",
+      shift: "AM",
+      status: "needs_followup",
+      source: "template",
+    });
+    expect(has(sb.queries.find((q) => has(q, "update"))!, "update", { handoff_id: "h-1" })).toBe(true);
+  });
+
+  it("skips a slot another run already claimed", async () => {
+    const sb = db([template()], (q) => (q.table === "handoff_template_runs" && has(q, "upsert") ? { data: [] } : undefined));
+    const results = await runRecurringTemplates(sb.client, { now: at("2026-10-21T08:00:00Z"), timeZone: "UTC" });
+    expect(results).toEqual([]);
+    expect(sb.queries.some((q) => q.table === "handoffs")).toBe(false);
+  });
+
+  it("releases the slot when the insert is rejected, and keeps going", async () => {
+    let inserts = 0;
+    const sb = db([template(), template({ id: "t-2" })], (q) =>
+      q.table === "handoffs" && inserts++ === 0 ? { error: { message: "Looks like PHI (mrn)." } } : undefined
+    );
+    const results = await runRecurringTemplates(sb.client, { now: at("2026-10-21T08:00:00Z"), timeZone: "UTC" });
+    expect(results[0]).toMatchObject({ template_id: "t-1", error: "Looks like PHI (mrn)." });
+    expect(results[1]).toMatchObject({ template_id: "t-2", handoff_id: "h-1" });
+    expect(sb.queries.some((q) => q.table === "handoff_template_runs" && has(q, "delete"))).toBe(true);
+  });
+
+  it("reports a slot it couldn't release", async () => {
+    const sb = db([template()], (q) => {
+      if (q.table === "handoffs") return { error: { message: "Looks like PHI (mrn)." } };
+      if (q.table === "handoff_template_runs" && has(q, "delete")) return { error: { message: "permission denied" } };
+      return undefined;
+    });
+    const results = await runRecurringTemplates(sb.client, { now: at("2026-10-21T08:00:00Z"), timeZone: "UTC" });
+    expect(results[0].error).toBe("Looks like PHI (mrn). (slot still claimed: permission denied)");
+  });
+
+  it("falls back to the default zone for a bad facility time zone", async () => {
+    facilities[0].time_zone = "Nowhere/Special" as any;
+    const sb = db([template({ recurrence: "daily", shift: "AM" })]);
+    const results = await runRecurringTemplates(sb.client, { now: at("2026-10-21T08:00:00Z"), timeZone: "UTC" });
+    facilities[0].time_zone = null;
+    expect(results).toHaveLength(1);
+  });
+});
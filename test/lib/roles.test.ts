@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { canLeadShift, canManageFacility, Membership, roleIn } from "../../app/lib/roles";
+
+const m = (over: Partial<Membership>): Membership => ({
+  id: "m-1",
+  user_id: "u-1",
+  facility_id: "PHC",
+  unit: null,
+  role: "tech",
+  ...over,
+});
+
+describe("roleIn", () => {
+  it("applies facility-wide and org-wide memberships to every unit", () => {
+    expect(roleIn([m({ role: "supervisor" })], "PHC", "4W")).toBe("supervisor");
+    expect(roleIn([m({ facility_id: null, role: "admin" })], "PHC", "4W")).toBe("admin");
+    expect(roleIn([m({ role: "supervisor" })], "OTHER", "4W")).toBeNull();
+  });
+
+  it("keeps unit memberships to their unit", () => {
+    const unitAdmin = [m({ unit: "4W", role: "admin" })];
+    expect(roleIn(unitAdmin, "PHC", "4W")).toBe("admin");
+    expect(roleIn(unitAdmin, "PHC", "5E")).toBeNull();
+    expect(canLeadShift(unitAdmin, "PHC", "4W")).toBe(true);
+  });
+
+  it("doesn't count a unit admin as a facility admin", () => {
+    const unitAdmin = [m({ unit: "4W", role: "admin" })];
+    expect(roleIn(unitAdmin, "PHC", null)).toBeNull();
+    expect(canManageFacility(unitAdmin, "PHC")).toBe(false);
+    expect(canManageFacility([...unitAdmin, m({ id: "m-2", role: "admin" })], "PHC")).toBe(true);
+  });
+});
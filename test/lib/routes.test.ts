@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { ALL_UNITS } from "../../app/lib/directory";
+import { authRedirectUrl, checkRouteAccess, parseRoute, routePath, unitPath } from "../../app/lib/routes";
+import { has, mockSupabase } from "../supabaseMock";
+
+const ID = "7d0f1c9e-2f4b-4a51-9c3e-0a6b8e5d4f21";
+
+describe("parseRoute", () => {
+  it("reads board routes", () => {
+    expect(parseRoute("/")).toEqual({ kind: "home" });
+    expect(parseRoute(`/h/${ID}`)).toEqual({ kind: "handoff", id: ID });
+    expect(parseRoute("/f/PHC")).toEqual({ kind: "unit", facilityId: "PHC", unit: ALL_UNITS });
+    expect(parseRoute("/f/PHC/u/4%20West")).toEqual({ kind: "unit", facilityId: "PHC", unit: "4 West" });
+  });
+
+  it("still opens the old ?h= links", () => {
+    expect(parseRoute("/", `?h=${ID}&sort=newest`)).toEqual({ kind: "handoff", id: ID });
+    expect(parseRoute("/", "?h=nope")).toEqual({ kind: "home" });
+  });
+
+  it("rejects anything else", () => {
+    expect(parseRoute("/h/not-a-uuid")).toBeNull();
+    expect(parseRoute("/f/PHC/u")).toBeNull();
+    expect(parseRoute("/f/%E0%A4%A/u/x")).toBeNull();
+    expect(parseRoute("/dashboard")).toBeNull();
+  });
+
+  it("round-trips through routePath", () => {
+    for (const path of ["/", `/h/${ID}`, "/f/PHC", "/f/PHC/u/4%20West"]) {
+      expect(routePath(parseRoute(path)!)).toBe(path);
+    }
+    expect(unitPath("PHC", ALL_UNITS)).toBe("/f/PHC");
+  });
+});
+
+describe("authRedirectUrl", () => {
+  it("keeps the deep link and query, folding ?h= into the path", () => {
+    const origin = "https://cs.example.org";
+    expect(authRedirectUrl({ origin, pathname: "/f/PHC/u/Main", search: "?priority=Critical" })).toBe(
+      `${origin}/f/PHC/u/Main?priority=Critical`
+    );
+    expect(authRedirectUrl({ origin, pathname: "/", search: `?h=${ID}` })).toBe(`${origin}/h/${ID}`);
+    expect(authRedirectUrl({ origin, pathname: "/nowhere", search: "" })).toBe(`${origin}/`);
+  });
+});
+
+describe("checkRouteAccess", () => {
+  it("asks route_access about a unit or a handoff", async () => {
+    const sb = mockSupabase({ respond: () => ({ data: "forbidden" }) });
+    await expect(checkRouteAccess(sb.client, { kind: "unit", facilityId: "PHC", unit: ALL_UNITS })).resolves.toBe(
+      "forbidden"
+    );
+    await checkRouteAccess(sb.client, { kind: "handoff", id: ID });
+    expect(has(sb.queries[0], "params", { p_facility: "PHC", p_unit: null, p_handoff: null })).toBe(true);
+    expect(has(sb.queries[1], "params", { p_facility: null, p_unit: null, p_handoff: ID })).toBe(true);
+  });
+
+  it("treats home as always reachable and unknown answers as not found", async () => {
+    const sb = mockSupabase({ respond: () => ({ data: null }) });
+    await expect(checkRouteAccess(sb.client, { kind: "home" })).resolves.toBe("ok");
+    expect(sb.queries).toHaveLength(0);
+    await expect(checkRouteAccess(sb.client, { kind: "handoff", id: ID })).resolves.toBe("not_found");
+  });
+
+  it("throws RPC errors", async () => {
+    const sb = mockSupabase({ respond: () => ({ error: { message: "boom" } }) });
+    await expect(checkRouteAccess(sb.client, { kind: "handoff", id: ID })).rejects.toEqual({ message: "boom" });
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { parseSmsReply } from "../../app/lib/sms";
+
+describe("parseSmsReply", () => {
+  it("reads a #ref, with or without a separator", () => {
+    expect(parseSmsReply("#1234 restocked 2 cases")).toEqual({ ref: 1234, message: "restocked 2 cases" });
+    expect(parseSmsReply("  # 1234: restocked ")).toEqual({ ref: 1234, message: "restocked" });
+    expect(parseSmsReply("#1234 - on the way")).toEqual({ ref: 1234, message: "on the way" });
+    expect(parseSmsReply("#7\nline one\nline two")).toEqual({ ref: 7, message: "line one\nline two" });
+  });
+
+  it("reads a bare ref only when a colon follows it", () => {
+    expect(parseSmsReply("1234: restocked")).toEqual({ ref: 1234, message: "restocked" });
+    expect(parseSmsReply("1234 : restocked")).toEqual({ ref: 1234, message: "restocked" });
+  });
+
+  it("does not take a leading quantity or time for a ref", () => {
+    expect(parseSmsReply("3 boxes left on shelf")).toBeNull();
+    expect(parseSmsReply("2 cases restocked")).toBeNull();
+    expect(parseSmsReply("1234 restocked")).toBeNull();
+    expect(parseSmsReply("1234 - restocked")).toBeNull();
+    expect(parseSmsReply("12:30 pickup done")).toBeNull();
+  });
+
+  it("needs a message after the ref", () => {
+    expect(parseSmsReply("#1234")).toBeNull();
+    expect(parseSmsReply("#1234:   ")).toBeNull();
+    expect(parseSmsReply("#1234restocked")).toBeNull();
+    expect(parseSmsReply("restocked #1234")).toBeNull();
+  });
+
+  it("caps the message length", () => {
+    expect(parseSmsReply(`#1 ${"x".repeat(1200)}`)!.message).toHaveLength(1000);
+  });
+});
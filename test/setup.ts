@@ -0,0 +1,5 @@
+import { afterEach } from "vitest";
+import { cleanup } from "@testing-library/react";
+
+// Testing Library only auto-cleans with test globals on; this suite imports them explicitly
+afterEach(() => cleanup());
@@ -0,0 +1,159 @@
+import { vi } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/* =========================================================
+   MOCK SUPABASE CLIENT
+   - from(table) / rpc(fn) return a chainable builder that records every call
+     and resolves through respond(); rpc calls arrive as table "rpc:<fn>"
+   - An aborted abortSignal() rejects with AbortError, like supabase-js
+   - channel() records postgres_changes listeners; tests drive them with
+     channels[i].emit(...) and channels[i].status(...)
+   - auth: getSession / onAuthStateChange / signInWithOtp / signOut
+========================================================= */
+
+export type Query = { table: string; ops: [string, unknown[]][] };
+export type Result = { data?: unknown; error?: unknown };
+
+const CHAIN = [
+  "select",
+  "insert",
+  "update",
+  "upsert",
+  "delete",
+  "eq",
+  "neq",
+  "in",
+  "is",
+  "or",
+  "not",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "ilike",
+  "match",
+  "filter",
+  "order",
+  "limit",
+  "range",
+  "single",
+  "maybeSingle",
+];
+
+// Arguments of the first call to `op`, e.g. args(q, "order") -> ["created_at", { ascending: true }]
+export function args(q: Query, op: string) {
+  return q.ops.find(([name]) => name === op)?.[1] ?? [];
+}
+
+export function has(q: Query, op: string, ...expected: unknown[]) {
+  return q.ops.some(
+    ([name, a]) => name === op && expected.every((v, i) => JSON.stringify(a[i]) === JSON.stringify(v))
+  );
+}
+
+type MockChannel = {
+  topic: string;
+  filter: { table?: string; filter?: string } | null;
+  removed: boolean;
+  emit: (payload: { eventType: "INSERT" | "UPDATE" | "DELETE"; new?: unknown; old?: unknown }) => void;
+  status: (s: "SUBSCRIBED" | "CLOSED" | "TIMED_OUT" | "CHANNEL_ERROR") => void;
+};
+
+export function mockSupabase({
+  respond = () => ({ data: [], error: null }),
+  session = null,
+  sessionError = null,
+}: {
+  respond?: (q: Query) => Result | Promise<Result>;
+  session?: { user: { id: string; email?: string } } | null;
+  sessionError?: { message: string } | null;
+} = {}) {
+  const queries: Query[] = [];
+  const channels: MockChannel[] = [];
+  let authListener: ((event: string, session: unknown) => void) | null = null;
+
+  function builder(table: string) {
+    const q: Query = { table, ops: [] };
+    queries.push(q);
+    let signal: AbortSignal | null = null;
+    const b: any = {};
+    for (const op of CHAIN) {
+      b[op] = (...a: unknown[]) => {
+        q.ops.push([op, a]);
+        return b;
+      };
+    }
+    b.abortSignal = (s: AbortSignal) => {
+      signal = s;
+      return b;
+    };
+    b.then = (resolve: (r: Result) => unknown, reject: (e: unknown) => unknown) =>
+      Promise.resolve()
+        .then(() => respond(q))
+        .then((r) => {
+          if (signal?.aborted) throw new DOMException("The operation was aborted.", "AbortError");
+          return { data: null, error: null, ...r };
+        })
+        .then(resolve, reject);
+    return b;
+  }
+
+  const auth = {
+    getSession: vi.fn(async () => ({ data: { session }, error: sessionError })),
+    onAuthStateChange: vi.fn((cb: (event: string, session: unknown) => void) => {
+      authListener = cb;
+      return { data: { subscription: { unsubscribe: vi.fn() } } };
+    }),
+    signInWithOtp: vi.fn(async (_args: unknown) => ({ data: {}, error: null as { message: string } | null })),
+    signOut: vi.fn(async () => ({ error: null })),
+  };
+
+  const client = {
+    from: vi.fn((table: string) => builder(table)),
+    rpc: vi.fn((fn: string, params?: unknown) => {
+      const b = builder(`rpc:${fn}`);
+      queries[queries.length - 1].ops.push(["params", [params]]);
+      return b;
+    }),
+    channel: vi.fn((topic: string) => {
+      let onRow: ((payload: unknown) => void) | null = null;
+      let onStatus: ((s: string) => void) | null = null;
+      const ch: MockChannel = {
+        topic,
+        filter: null,
+        removed: false,
+        emit: (payload) => onRow?.(payload),
+        status: (s) => onStatus?.(s),
+      };
+      channels.push(ch);
+      const api: any = {
+        on: (_type: string, filter: MockChannel["filter"], cb: (payload: unknown) => void) => {
+          ch.filter = filter;
+          onRow = cb;
+          return api;
+        },
+        subscribe: (cb: (s: string) => void) => {
+          onStatus = cb;
+          return api;
+        },
+        __mock: ch,
+      };
+      return api;
+    }),
+    removeChannel: vi.fn((api: any) => {
+      api.__mock.removed = true;
+      return Promise.resolve("ok");
+    }),
+    auth,
+  };
+
+  return {
+    client: client as unknown as SupabaseClient,
+    queries,
+    channels,
+    auth,
+    // Simulates a sign-in / sign-out elsewhere (another tab, the magic link landing)
+    setSession: (next: { user: { id: string; email?: string } } | null) =>
+      authListener?.(next ? "SIGNED_IN" : "SIGNED_OUT", next),
+  };
+}
@@ -0,0 +1,11 @@
+import { defineConfig } from "vitest/config";
+
+// tsconfig keeps jsx: "preserve" for Next; tests need it compiled
+export default defineConfig({
+  esbuild: { jsx: "automatic" },
+  test: {
+    environment: "jsdom",
+    include: ["test/**/*.test.{ts,tsx}"],
+    setupFiles: ["test/setup.ts"],
+  },
+});